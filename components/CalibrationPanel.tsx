@@ -0,0 +1,315 @@
+import React, { useEffect, useRef, useState } from "react";
+import {
+  calibrationReport,
+  fitProfile,
+  fitSummary,
+  parseTrainingFile,
+  scorableAlerts,
+  serializeTrainingRuns,
+  type CalibrationScore,
+  type FitResult,
+  type TrainingAlert,
+  type TrainingRun,
+} from "@/lib/calibration";
+import { deleteTrainingRun, listTrainingRuns, saveTrainingRun } from "@/lib/incidentStore";
+import { isoToLocalInput, localInputToIso } from "@/lib/localTime";
+import {
+  customProfilesSnapshot,
+  profileLabel,
+  saveCustomProfiles,
+  serializeProfile,
+  type ModelProfile,
+} from "@/lib/modelProfile";
+import { parseTrackFile, type TrackPoint } from "@/lib/tracks";
+
+type Props = {
+  // LKP, wind and conditions as currently set on the map (null until an LKP and wind exist)
+  base: Pick<TrainingRun, "lkp" | "wind" | "environment"> | null;
+
+  // Alerts of the run being logged; the map adds one per click while picking
+  alerts: TrainingAlert[];
+  onAlerts: (alerts: TrainingAlert[]) => void;
+  picking: boolean;
+  onPicking: (on: boolean) => void;
+
+  profile: ModelProfile;
+  onProfile: (p: ModelProfile) => void;
+
+  downloadText: (text: string, filename: string, mime: string) => void;
+};
+
+const pct = (v: number) => `${Math.round(v * 100)}%`;
+
+export default function CalibrationPanel(props: Props) {
+  const [runs, setRuns] = useState<TrainingRun[]>([]);
+  const [name, setName] = useState("Training run");
+  const [subjectPath, setSubjectPath] = useState<TrackPoint[]>([]);
+  const [progress, setProgress] = useState<{ evals: number; best: CalibrationScore } | null>(null);
+  const [fit, setFit] = useState<FitResult | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  async function refresh() {
+    setRuns(await listTrainingRuns());
+  }
+
+  useEffect(() => {
+    refresh().catch(() => {});
+    return () => abortRef.current?.abort();
+  }, []);
+
+  async function saveRun() {
+    if (!props.base) return;
+    if (!props.alerts.length) {
+      alert("Add at least one alert point first.");
+      return;
+    }
+    const run: TrainingRun = {
+      id: `run_${Date.now().toString(36)}`,
+      name: name || "Training run",
+      created_iso: new Date().toISOString(),
+      ...props.base,
+      subject_path: subjectPath,
+      alerts: props.alerts,
+    };
+    try {
+      await saveTrainingRun(run);
+      props.onAlerts([]);
+      props.onPicking(false);
+      setSubjectPath([]);
+      setFit(null);
+      await refresh();
+    } catch (e: unknown) {
+      alert(e instanceof Error ? e.message : String(e));
+    }
+  }
+
+  async function removeRun(id: string) {
+    if (!confirm("Delete this training run?")) return;
+    await deleteTrainingRun(id);
+    setFit(null);
+    await refresh();
+  }
+
+  async function importPath(f: File) {
+    try {
+      const [first] = parseTrackFile(f.name, await f.text());
+      setSubjectPath(first.points);
+    } catch (e: unknown) {
+      alert(e instanceof Error ? e.message : String(e));
+    }
+  }
+
+  async function importRuns(f: File) {
+    try {
+      const incoming = parseTrainingFile(await f.text());
+      for (const r of incoming) await saveTrainingRun(r);
+      setFit(null);
+      await refresh();
+    } catch (e: unknown) {
+      alert(e instanceof Error ? e.message : String(e));
+    }
+  }
+
+  async function runFit() {
+    const ctrl = new AbortController();
+    abortRef.current = ctrl;
+    setFit(null);
+    try {
+      const result = await fitProfile(runs, props.profile, {
+        signal: ctrl.signal,
+        onProgress: (evals, best) => setProgress({ evals, best }),
+      });
+      setFit(result);
+    } catch (e: unknown) {
+      alert(e instanceof Error ? e.message : String(e));
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  }
+
+  function adoptFitted() {
+    if (!fit) return;
+    try {
+      saveCustomProfiles([...customProfilesSnapshot(), fit.profile]);
+    } catch (e: unknown) {
+      alert(e instanceof Error ? e.message : String(e));
+    }
+    props.onProfile(fit.profile);
+  }
+
+  const alertCount = runs.reduce((a, r) => a + scorableAlerts(r).length, 0);
+  const stamp = new Date().toISOString().slice(0, 10);
+
+  return (
+    <div style={{ marginTop: 12, padding: 10, borderRadius: 10, background: "#f9fafb" }}>
+      <b>Calibration (training runs)</b>
+
+      <div style={{ marginTop: 8, display: "grid", gap: 8 }}>
+        {!props.base && (
+          <div style={{ fontSize: 12, color: "#6b7280" }}>
+            Set the run&apos;s LKP and wind on the map, then mark where the dog alerted.
+          </div>
+        )}
+
+        {props.base && (
+          <>
+            <input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Run name (dog, date, lay)"
+              style={{ padding: 10, borderRadius: 10 }}
+            />
+            <div style={{ fontSize: 12, color: "#6b7280" }}>
+              LKP {props.base.lkp.lat.toFixed(5)}, {props.base.lkp.lon.toFixed(5)} at{" "}
+              {new Date(props.base.lkp.time_iso).toLocaleString()} • wind from {Math.round(props.base.wind.from_deg)}° @{" "}
+              {props.base.wind.speed_mph.toFixed(1)} mph
+            </div>
+
+            <button
+              onClick={() => props.onPicking(!props.picking)}
+              style={{ padding: 10, borderRadius: 10, fontWeight: props.picking ? 700 : 500 }}
+            >
+              {props.picking ? "Done marking alerts" : "Mark alerts on map"}
+            </button>
+
+            {props.alerts.map((a, i) => (
+              <div key={a.id} style={{ display: "grid", gridTemplateColumns: "auto 1fr auto", gap: 8, alignItems: "center" }}>
+                <span style={{ fontSize: 12 }}>{i === 0 ? "First alert" : `Alert ${i + 1}`}</span>
+                <input
+                  type="datetime-local"
+                  value={isoToLocalInput(a.time_iso)}
+                  onChange={(e) => {
+                    const iso = localInputToIso(e.target.value);
+                    if (iso) props.onAlerts(props.alerts.map((x) => (x.id === a.id ? { ...x, time_iso: iso } : x)));
+                  }}
+                  style={{ padding: 8, borderRadius: 10, minWidth: 0 }}
+                />
+                <button
+                  onClick={() => props.onAlerts(props.alerts.filter((x) => x.id !== a.id))}
+                  style={{ padding: "6px 10px", borderRadius: 10 }}
+                >
+                  ✕
+                </button>
+              </div>
+            ))}
+
+            <label style={{ fontSize: 12, color: "#6b7280" }}>
+              Subject path (GPX / GeoJSON, optional){subjectPath.length ? ` — ${subjectPath.length} points` : ""}
+              <input
+                type="file"
+                accept=".gpx,.json,.geojson"
+                onChange={(e) => {
+                  const f = e.target.files?.[0];
+                  e.target.value = "";
+                  if (f) importPath(f);
+                }}
+                style={{ display: "block", marginTop: 4 }}
+              />
+            </label>
+
+            <button onClick={saveRun} disabled={!props.alerts.length} style={{ padding: 10, borderRadius: 10 }}>
+              Save training run
+            </button>
+          </>
+        )}
+
+        {runs.length > 0 && (
+          <div style={{ fontSize: 12 }}>
+            {runs.map((r) => (
+              <div key={r.id} style={{ display: "flex", gap: 8, alignItems: "center", marginTop: 4 }}>
+                <span style={{ flex: 1 }}>
+                  {r.name} — {new Date(r.lkp.time_iso).toLocaleDateString()}, {r.alerts.length} alert
+                  {r.alerts.length === 1 ? "" : "s"}
+                </span>
+                <button onClick={() => removeRun(r.id)} style={{ padding: "4px 8px", borderRadius: 8 }}>
+                  Delete
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <button
+          onClick={() => props.downloadText(serializeTrainingRuns(runs), `training_runs_${stamp}.json`, "application/json")}
+          disabled={!runs.length}
+          style={{ padding: 10, borderRadius: 10 }}
+        >
+          Export training runs
+        </button>
+
+        <label style={{ fontSize: 12, color: "#6b7280" }}>
+          Import training runs
+          <input
+            type="file"
+            accept=".json,application/json"
+            onChange={(e) => {
+              const f = e.target.files?.[0];
+              e.target.value = "";
+              if (f) importRuns(f);
+            }}
+            style={{ display: "block", marginTop: 4 }}
+          />
+        </label>
+
+        {progress ? (
+          <button onClick={() => abortRef.current?.abort()} style={{ padding: 10, borderRadius: 10 }}>
+            Stop fitting ({progress.evals} evaluations, residual hit-rate {pct(progress.best.hit_rate.residual)})
+          </button>
+        ) : (
+          <button onClick={runFit} disabled={!alertCount} style={{ padding: 10, borderRadius: 10, fontWeight: 700 }}>
+            Fit {profileLabel(props.profile)} to {alertCount} alert{alertCount === 1 ? "" : "s"}
+          </button>
+        )}
+
+        {fit && (
+          <div style={{ fontSize: 12, lineHeight: 1.4 }}>
+            <table style={{ width: "100%", borderCollapse: "collapse" }}>
+              <thead>
+                <tr style={{ color: "#6b7280" }}>
+                  <th style={{ textAlign: "left" }}>Hit-rate</th>
+                  <th style={{ textAlign: "right" }}>Before</th>
+                  <th style={{ textAlign: "right" }}>After</th>
+                </tr>
+              </thead>
+              <tbody>
+                {(["core", "fringe", "residual"] as const).map((z) => (
+                  <tr key={z}>
+                    <td>{z}</td>
+                    <td style={{ textAlign: "right" }}>{pct(fit.before.hit_rate[z])}</td>
+                    <td style={{ textAlign: "right" }}>{pct(fit.after.hit_rate[z])}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <div style={{ marginTop: 6, color: "#6b7280" }}>
+              {fit.changes.length
+                ? fit.changes.map((c) => `${c.label} ${c.from} → ${c.to}`).join("; ")
+                : "No coefficient change improved the fit."}
+            </div>
+            <div style={{ marginTop: 8, display: "grid", gridTemplateColumns: "1fr 1fr 1fr", gap: 8 }}>
+              <button onClick={adoptFitted} disabled={!fit.changes.length} style={{ padding: 10, borderRadius: 10 }}>
+                Use
+              </button>
+              <button
+                onClick={() =>
+                  props.downloadText(serializeProfile(fit.profile), `fitted_profile_${stamp}.scent-profile.json`, "application/json")
+                }
+                style={{ padding: 10, borderRadius: 10 }}
+              >
+                Export
+              </button>
+              <button
+                onClick={() => props.downloadText(calibrationReport(fit, runs), `calibration_report_${stamp}.txt`, "text/plain")}
+                style={{ padding: 10, borderRadius: 10 }}
+              >
+                Report
+              </button>
+            </div>
+            <div style={{ marginTop: 6, color: "#6b7280" }}>{fitSummary(fit.before, fit.after)}</div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -2,10 +2,26 @@ import React, { useEffect, useRef } from "react";
 import {
   computeCone,
   defaultHalfAngleDegFromMph,
+  gustFactorOf,
   mpsToMph,
   WindData,
 } from "@/lib/cone";
 
+type PixelPoint = { x: number; y: number };
+
+// Envelope already projected onto the image (screenshot mode); drawn under the source and cone
+export type CanvasEnvelope = {
+  zones: { core: PixelPoint[]; fringe: PixelPoint[]; residual: PixelPoint[] };
+  bands: Array<{ minutes: number; ring: PixelPoint[] }>;
+  startPoints: PixelPoint[];
+};
+
+const ZONE_STYLES = {
+  residual: { fill: "rgba(255, 230, 120, 0.22)", stroke: "rgba(202, 138, 4, 0.9)" },
+  fringe: { fill: "rgba(255, 170, 0, 0.26)", stroke: "rgba(234, 88, 12, 0.9)" },
+  core: { fill: "rgba(255, 80, 0, 0.34)", stroke: "rgba(220, 38, 38, 0.95)" },
+};
+
 type Props = {
   width: number;
   height: number;
@@ -16,6 +32,10 @@ type Props = {
   label?: string;
   onClick?: (pt: { x: number; y: number }) => void;
   backgroundImage?: HTMLImageElement | null; // screenshot mode
+  // Wind-from direction as it points on the image (clockwise from image-up); north-up when omitted
+  screenFromDeg?: number | null;
+  envelope?: CanvasEnvelope | null;
+  showCone?: boolean; // default true
 };
 
 export default function ConeCanvas(props: Props) {
@@ -33,6 +53,55 @@ export default function ConeCanvas(props: Props) {
       ctx.drawImage(props.backgroundImage, 0, 0, props.width, props.height);
     }
 
+    if (props.envelope) {
+      const trace = (ring: PixelPoint[]) => {
+        ctx.beginPath();
+        ring.forEach((p, i) => (i ? ctx.lineTo(p.x, p.y) : ctx.moveTo(p.x, p.y)));
+        ctx.closePath();
+      };
+
+      for (const z of ["residual", "fringe", "core"] as const) {
+        const ring = props.envelope.zones[z];
+        if (ring.length < 3) continue;
+        trace(ring);
+        ctx.fillStyle = ZONE_STYLES[z].fill;
+        ctx.fill();
+        ctx.strokeStyle = ZONE_STYLES[z].stroke;
+        ctx.lineWidth = 2;
+        ctx.stroke();
+      }
+
+      // Time bands: residual outlines at fixed minutes since the LKP
+      ctx.setLineDash([6, 6]);
+      ctx.strokeStyle = "rgba(255,255,255,0.8)";
+      ctx.lineWidth = 1.5;
+      ctx.font = "12px system-ui";
+      ctx.fillStyle = "white";
+      for (const b of props.envelope.bands) {
+        if (b.ring.length < 3) continue;
+        trace(b.ring);
+        ctx.stroke();
+        const far = b.ring.reduce((a, p) => (p.x > a.x ? p : a));
+        ctx.fillText(`${b.minutes}m`, far.x + 4, far.y);
+      }
+      ctx.setLineDash([]);
+
+      // Numbered start points
+      props.envelope.startPoints.forEach((p, i) => {
+        ctx.fillStyle = "rgba(17,24,39,0.9)";
+        ctx.beginPath();
+        ctx.arc(p.x, p.y, 10, 0, Math.PI * 2);
+        ctx.fill();
+        ctx.fillStyle = "white";
+        ctx.font = "bold 12px system-ui";
+        ctx.textAlign = "center";
+        ctx.textBaseline = "middle";
+        ctx.fillText(String(i + 1), p.x, p.y);
+        ctx.textAlign = "start";
+        ctx.textBaseline = "alphabetic";
+      });
+    }
+
     if (!props.srcPoint) return;
 
     // Source marker
@@ -49,59 +118,64 @@ export default function ConeCanvas(props: Props) {
     const mph = mpsToMph(props.wind.wind_speed_mps);
     const halfAngle =
       props.halfAngleDeg === "auto"
-        ? defaultHalfAngleDegFromMph(mph)
+        ? defaultHalfAngleDegFromMph(mph, {
+            sigma_theta_deg: props.wind.dir_sigma_deg,
+            gust_factor: gustFactorOf(props.wind),
+          })
         : props.halfAngleDeg;
 
     const g = computeCone(
       props.srcPoint,
       props.lengthPx,
       halfAngle,
-      props.wind.wind_dir_from_deg
-    );
-
-    // gradient fill
-    const grad = ctx.createRadialGradient(
-      props.srcPoint.x,
-      props.srcPoint.y,
-      10,
-      props.srcPoint.x,
-      props.srcPoint.y,
-      props.lengthPx
+      props.screenFromDeg ?? props.wind.wind_dir_from_deg
     );
-    grad.addColorStop(0.0, "rgba(255, 80, 0, 0.42)");
-    grad.addColorStop(0.6, "rgba(255, 170, 0, 0.26)");
-    grad.addColorStop(1.0, "rgba(255, 230, 120, 0.10)");
-
-    ctx.fillStyle = grad;
-    ctx.beginPath();
-    ctx.moveTo(props.srcPoint.x, props.srcPoint.y);
-    ctx.lineTo(g.left.x, g.left.y);
-    ctx.lineTo(g.tip.x, g.tip.y);
-    ctx.lineTo(g.right.x, g.right.y);
-    ctx.closePath();
-    ctx.fill();
 
-    // centerline
-    ctx.strokeStyle = "rgba(255,255,255,0.85)";
-    ctx.lineWidth = 6;
-    ctx.setLineDash([18, 14]);
-    ctx.beginPath();
-    ctx.moveTo(props.srcPoint.x, props.srcPoint.y);
-    ctx.lineTo(g.tip.x, g.tip.y);
-    ctx.stroke();
-
-    // edges
-    ctx.strokeStyle = "rgba(255,255,255,0.55)";
-    ctx.lineWidth = 2.5;
-    ctx.setLineDash([10, 10]);
-    ctx.beginPath(); ctx.moveTo(props.srcPoint.x, props.srcPoint.y); ctx.lineTo(g.left.x, g.left.y); ctx.stroke();
-    ctx.beginPath(); ctx.moveTo(props.srcPoint.x, props.srcPoint.y); ctx.lineTo(g.right.x, g.right.y); ctx.stroke();
-    ctx.setLineDash([]);
+    if (props.showCone !== false) {
+      // gradient fill
+      const grad = ctx.createRadialGradient(
+        props.srcPoint.x,
+        props.srcPoint.y,
+        10,
+        props.srcPoint.x,
+        props.srcPoint.y,
+        props.lengthPx
+      );
+      grad.addColorStop(0.0, "rgba(255, 80, 0, 0.42)");
+      grad.addColorStop(0.6, "rgba(255, 170, 0, 0.26)");
+      grad.addColorStop(1.0, "rgba(255, 230, 120, 0.10)");
+
+      ctx.fillStyle = grad;
+      ctx.beginPath();
+      ctx.moveTo(props.srcPoint.x, props.srcPoint.y);
+      ctx.lineTo(g.left.x, g.left.y);
+      ctx.lineTo(g.tip.x, g.tip.y);
+      ctx.lineTo(g.right.x, g.right.y);
+      ctx.closePath();
+      ctx.fill();
+
+      // centerline
+      ctx.strokeStyle = "rgba(255,255,255,0.85)";
+      ctx.lineWidth = 6;
+      ctx.setLineDash([18, 14]);
+      ctx.beginPath();
+      ctx.moveTo(props.srcPoint.x, props.srcPoint.y);
+      ctx.lineTo(g.tip.x, g.tip.y);
+      ctx.stroke();
+
+      // edges
+      ctx.strokeStyle = "rgba(255,255,255,0.55)";
+      ctx.lineWidth = 2.5;
+      ctx.setLineDash([10, 10]);
+      ctx.beginPath(); ctx.moveTo(props.srcPoint.x, props.srcPoint.y); ctx.lineTo(g.left.x, g.left.y); ctx.stroke();
+      ctx.beginPath(); ctx.moveTo(props.srcPoint.x, props.srcPoint.y); ctx.lineTo(g.right.x, g.right.y); ctx.stroke();
+      ctx.setLineDash([]);
+    }
 
     // label
     const speedStr = `${mph.toFixed(1)} mph`;
     const from = Math.round(props.wind.wind_dir_from_deg);
-    const down = Math.round(g.downwindDeg);
+    const down = Math.round((props.wind.wind_dir_from_deg + 180) % 360);
 
     ctx.fillStyle = "rgba(0,0,0,0.55)";
     ctx.fillRect(12, 12, 500, 72);
@@ -119,6 +193,9 @@ export default function ConeCanvas(props: Props) {
     props.halfAngleDeg,
     props.label,
     props.backgroundImage,
+    props.screenFromDeg,
+    props.envelope,
+    props.showCone,
   ]);
 
   return (
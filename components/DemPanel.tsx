@@ -0,0 +1,112 @@
+import React, { useState } from "react";
+import {
+  elevationRange,
+  loadTerrainRgbFiles,
+  parseGeoTiff,
+  type Dem,
+  type TerrainRgbEncoding,
+} from "@/lib/dem";
+
+type Props = {
+  dem: Dem | null;
+  onDem: (dem: Dem | null) => void;
+};
+
+export default function DemPanel(props: Props) {
+  const [encoding, setEncoding] = useState<TerrainRgbEncoding>("mapbox");
+  const [busy, setBusy] = useState(false);
+
+  async function run(load: () => Promise<Dem>) {
+    setBusy(true);
+    try {
+      props.onDem(await load());
+    } catch (e: unknown) {
+      alert(e instanceof Error ? e.message : String(e));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function loadSample() {
+    const r = await fetch("/sample-dem.tif");
+    if (!r.ok) throw new Error(`Sample DEM missing (${r.status})`);
+    return parseGeoTiff(await r.arrayBuffer(), "Sample DEM");
+  }
+
+  const range = props.dem ? elevationRange(props.dem) : null;
+
+  return (
+    <div style={{ marginTop: 12, padding: 10, borderRadius: 10, background: "#f9fafb" }}>
+      <b>Terrain (DEM)</b>
+
+      <div style={{ marginTop: 8, display: "grid", gap: 8 }}>
+        <label style={{ fontSize: 12, color: "#6b7280" }}>
+          GeoTIFF (WGS84, UTM or Web Mercator)
+          <input
+            type="file"
+            accept=".tif,.tiff,image/tiff"
+            disabled={busy}
+            onChange={(e) => {
+              const f = e.target.files?.[0];
+              e.target.value = "";
+              if (f) run(async () => parseGeoTiff(await f.arrayBuffer(), f.name));
+            }}
+            style={{ display: "block", marginTop: 4 }}
+          />
+        </label>
+
+        <label style={{ fontSize: 12, color: "#6b7280" }}>
+          Terrain-RGB tiles (z/x/y.png folder or z_x_y.png files)
+          <div style={{ display: "flex", gap: 8, marginTop: 4 }}>
+            <select
+              value={encoding}
+              onChange={(e) => setEncoding(e.target.value as TerrainRgbEncoding)}
+              style={{ padding: 8, borderRadius: 10 }}
+            >
+              <option value="mapbox">Mapbox</option>
+              <option value="terrarium">Terrarium</option>
+            </select>
+            <input
+              type="file"
+              accept="image/png,image/webp"
+              multiple
+              disabled={busy}
+              onChange={(e) => {
+                const files = Array.from(e.target.files ?? []);
+                e.target.value = "";
+                if (files.length) run(() => loadTerrainRgbFiles(files, encoding));
+              }}
+            />
+          </div>
+        </label>
+
+        <div style={{ display: "flex", gap: 8 }}>
+          <button onClick={() => run(loadSample)} disabled={busy} style={{ flex: 1, padding: 10, borderRadius: 10 }}>
+            Load sample DEM
+          </button>
+          <button
+            onClick={() => props.onDem(null)}
+            disabled={busy || !props.dem}
+            style={{ flex: 1, padding: 10, borderRadius: 10 }}
+          >
+            Clear
+          </button>
+        </div>
+
+        {props.dem && (
+          <div style={{ fontSize: 12, lineHeight: 1.4 }}>
+            <b>{props.dem.name}</b> • {props.dem.nx}×{props.dem.ny}
+            {range ? ` • ${Math.round(range.min)}–${Math.round(range.max)} m` : ""}
+            <div style={{ color: "#6b7280" }}>
+              {props.dem.bounds.south.toFixed(4)}, {props.dem.bounds.west.toFixed(4)} → {props.dem.bounds.north.toFixed(4)},{" "}
+              {props.dem.bounds.east.toFixed(4)}
+            </div>
+            <div style={{ color: "#6b7280" }}>
+              Stable air or night: envelope drains downslope. Notes list low points and saddles inside the envelope.
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
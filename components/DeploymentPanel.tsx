@@ -0,0 +1,151 @@
+import React from "react";
+import type { DeploymentPlan } from "@/lib/deployment";
+
+type Props = {
+  plan: DeploymentPlan | null;
+  hoursAhead: number;
+  onHoursAhead: (h: number) => void;
+
+  // Fetches the hourly forecast for the active LKP (null without a single-LKP envelope)
+  onLoad: (() => void) | null;
+  loading: boolean;
+  error: string | null;
+  source: string | null;
+};
+
+const HOURS_OPTIONS = [12, 18, 24];
+
+const W = 420;
+const H = 150;
+const PAD = { left: 28, right: 8, top: 22, bottom: 18 };
+
+function hourLabel(iso: string) {
+  return new Date(iso).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+}
+
+function windowText(w: { start_iso: string; end_iso: string; score: number }) {
+  return `${hourLabel(w.start_iso)}–${hourLabel(w.end_iso)} (score ${Math.round(w.score * 100)})`;
+}
+
+/**
+ * Confidence and steadiness lines per forecast hour, the envelope axis as a tick along the
+ * top, and red columns where the wind reverses across the current core.
+ */
+function PlanChart({ plan }: { plan: DeploymentPlan }) {
+  const n = plan.hours.length;
+  const cw = (W - PAD.left - PAD.right) / Math.max(1, n);
+  const x = (i: number) => PAD.left + (i + 0.5) * cw;
+  const y = (v: number) => PAD.top + (1 - v) * (H - PAD.top - PAD.bottom);
+  const line = (vals: number[]) => vals.map((v, i) => `${i ? "L" : "M"} ${x(i).toFixed(1)} ${y(v).toFixed(1)}`).join(" ");
+  const longest = Math.max(1, ...plan.hours.map((h) => h.axis_length_m));
+
+  return (
+    <svg width="100%" viewBox={`0 0 ${W} ${H}`} style={{ background: "#fff", borderRadius: 8 }}>
+      {plan.hours.map((h, i) =>
+        h.reversal ? (
+          <rect key={`r${i}`} x={x(i) - cw / 2} y={PAD.top} width={cw} height={H - PAD.top - PAD.bottom} fill="#fee2e2" />
+        ) : null
+      )}
+
+      {[0, 0.5, 1].map((v) => (
+        <g key={v}>
+          <line x1={PAD.left} x2={W - PAD.right} y1={y(v)} y2={y(v)} stroke="#e5e7eb" />
+          <text x={PAD.left - 4} y={y(v) + 3} fontSize={9} textAnchor="end" fill="#6b7280">
+            {v * 100}
+          </text>
+        </g>
+      ))}
+
+      <path d={line(plan.hours.map((h) => h.confidence_score / 100))} fill="none" stroke="#2563eb" strokeWidth={2} />
+      <path d={line(plan.hours.map((h) => h.steadiness))} fill="none" stroke="#16a34a" strokeWidth={2} strokeDasharray="4 3" />
+
+      {/* Envelope axis per hour, dot at the downwind end; the length is relative to the longest hour */}
+      {plan.hours.map((h, i) => {
+        const r = 3 + 6 * (h.axis_length_m / longest);
+        const a = (h.axis_bearing_deg * Math.PI) / 180;
+        const cx = x(i);
+        const cy = PAD.top / 2;
+        const color = h.reversal ? "#dc2626" : "#374151";
+        return (
+          <g key={`a${i}`}>
+            <line
+              x1={cx - r * Math.sin(a)}
+              y1={cy + r * Math.cos(a)}
+              x2={cx + r * Math.sin(a)}
+              y2={cy - r * Math.cos(a)}
+              stroke={color}
+              strokeWidth={1.5}
+            />
+            <circle cx={cx + r * Math.sin(a)} cy={cy - r * Math.cos(a)} r={1.8} fill={color} />
+          </g>
+        );
+      })}
+
+      {plan.hours.map((h, i) =>
+        i % 3 === 0 ? (
+          <text key={`t${i}`} x={x(i)} y={H - 4} fontSize={9} textAnchor="middle" fill="#6b7280">
+            {hourLabel(h.time_iso)}
+          </text>
+        ) : null
+      )}
+    </svg>
+  );
+}
+
+export default function DeploymentPanel(props: Props) {
+  const plan = props.plan;
+  const reversals = plan ? plan.hours.filter((h) => h.reversal) : [];
+
+  return (
+    <div style={{ marginTop: 12, padding: 10, borderRadius: 10, background: "#f9fafb" }}>
+      <b>Deployment windows (forecast)</b>
+
+      <div style={{ marginTop: 8, display: "grid", gap: 8 }}>
+        <div style={{ display: "grid", gridTemplateColumns: "1fr 120px", gap: 8 }}>
+          <button onClick={() => props.onLoad?.()} disabled={!props.onLoad || props.loading} style={{ padding: 10, borderRadius: 10 }}>
+            {props.loading ? "Loading forecast…" : plan ? "Reload forecast" : "Plan from forecast"}
+          </button>
+          <select
+            value={props.hoursAhead}
+            onChange={(e) => props.onHoursAhead(Number(e.target.value))}
+            style={{ padding: 10, borderRadius: 10 }}
+          >
+            {HOURS_OPTIONS.map((h) => (
+              <option key={h} value={h}>
+                next {h} h
+              </option>
+            ))}
+          </select>
+        </div>
+        {!props.onLoad && <div style={{ fontSize: 12, color: "#6b7280" }}>Needs a single-LKP envelope on the map.</div>}
+        {props.error && <div style={{ fontSize: 12, color: "#b91c1c" }}>{props.error}</div>}
+
+        {plan && plan.hours.length > 0 && (
+          <>
+            <PlanChart plan={plan} />
+            <div style={{ fontSize: 12, color: "#6b7280" }}>
+              <span style={{ color: "#2563eb" }}>━</span> confidence • <span style={{ color: "#16a34a" }}>┅</span> wind
+              steadiness • ticks: envelope axis (dot downwind)
+              {props.source ? ` • ${props.source}` : ""}
+            </div>
+
+            {reversals.length > 0 && (
+              <div style={{ fontSize: 12, color: "#b91c1c" }}>
+                Wind reverses across the current core at {reversals.map((h) => hourLabel(h.time_iso)).join(", ")}.
+              </div>
+            )}
+
+            {plan.start_points.map((sp) => (
+              <div key={sp.label} style={{ fontSize: 13 }}>
+                <div style={{ fontWeight: 600 }}>{sp.label}</div>
+                <div style={{ fontFamily: "ui-monospace, Menlo, monospace", fontSize: 12, color: "#374151" }}>
+                  {sp.windows.length ? sp.windows.map(windowText).join(" • ") : "No usable window in the forecast"}
+                </div>
+              </div>
+            ))}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
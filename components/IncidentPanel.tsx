@@ -0,0 +1,85 @@
+import React, { useRef } from "react";
+import type { IncidentSummary } from "@/lib/incident";
+
+type Props = {
+  incidents: IncidentSummary[];
+  activeId: string | null;
+  activeName: string;
+  saving: boolean;
+  saveError: string | null; // last storage failure; cleared by the next successful save
+
+  onSelect: (id: string) => void;
+  onNew: () => void;
+  onRename: (name: string) => void;
+  onDelete: () => void;
+  onExport: () => void;
+  onImport: (file: File) => void;
+};
+
+export default function IncidentPanel(props: Props) {
+  const fileRef = useRef<HTMLInputElement | null>(null);
+
+  return (
+    <div style={{ marginTop: 12, padding: 10, borderRadius: 10, background: "#f9fafb" }}>
+      <b>Incident</b>
+      <span style={{ marginLeft: 8, fontSize: 12, color: props.saveError && !props.saving ? "#b91c1c" : "#6b7280" }}>
+        {props.saving ? "saving…" : (props.saveError ?? "saved on this device")}
+      </span>
+
+      <div style={{ marginTop: 8, display: "grid", gap: 8 }}>
+        <select
+          value={props.activeId ?? ""}
+          onChange={(e) => props.onSelect(e.target.value)}
+          style={{ padding: 10, borderRadius: 10 }}
+        >
+          {props.incidents.map((i) => (
+            <option key={i.id} value={i.id}>
+              {i.name} — {new Date(i.updated_iso).toLocaleString()}
+            </option>
+          ))}
+        </select>
+
+        <input
+          value={props.activeName}
+          onChange={(e) => props.onRename(e.target.value)}
+          placeholder="Incident name"
+          style={{ padding: 10, borderRadius: 10 }}
+        />
+
+        <div style={{ display: "flex", gap: 8 }}>
+          <button onClick={props.onNew} style={{ flex: 1, padding: 10, borderRadius: 10 }}>
+            New
+          </button>
+          <button
+            onClick={() => {
+              if (confirm(`Delete incident "${props.activeName}" from this device?`)) props.onDelete();
+            }}
+            style={{ flex: 1, padding: 10, borderRadius: 10 }}
+          >
+            Delete
+          </button>
+        </div>
+
+        <div style={{ display: "flex", gap: 8 }}>
+          <button onClick={props.onExport} style={{ flex: 1, padding: 10, borderRadius: 10 }}>
+            Export JSON
+          </button>
+          <button onClick={() => fileRef.current?.click()} style={{ flex: 1, padding: 10, borderRadius: 10 }}>
+            Import JSON
+          </button>
+          <input
+            ref={fileRef}
+            type="file"
+            accept="application/json,.json"
+            style={{ display: "none" }}
+            onChange={(e) => {
+              const f = e.target.files?.[0];
+              e.target.value = "";
+              if (f) props.onImport(f);
+            }}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -2,18 +2,26 @@ import React, { useEffect, useMemo, useRef, useState } from "react";
 import {
   MapContainer,
   TileLayer,
+  Circle,
   CircleMarker,
   Marker,
   Popup,
   useMap,
   useMapEvents,
   Polygon,
+  Polyline,
+  ImageOverlay,
+  Tooltip,
 } from "react-leaflet";
 import L from "leaflet";
 import type { LatLngExpression, Map as LeafletMap } from "leaflet";
+import { TILE_URL_TEMPLATE } from "@/lib/tileCache";
+import { sampleGrid, toLatLon, type GeoGrid } from "@/lib/grid";
+import { computeGeoCone, geoConeBands } from "@/lib/cone";
+import { SEGMENT_STATUS_COLORS, SEGMENT_STATUS_LABELS, type SegmentStatus } from "@/lib/searchSegments";
 
 type Trap = { id: string; lat: number; lon: number; label: string };
-type LKP = { id: string; lat: number; lon: number; timeISO: string; label?: string };
+type LKP = { id: string; lat: number; lon: number; timeISO: string; label?: string; weight?: number };
 
 type LatLon = { lat: number; lon: number };
 
@@ -32,13 +40,18 @@ type Band = {
 
 type StartPoint = { label: string; point: LatLon };
 
+type OverrideZone = "core" | "fringe" | "residual";
+
+type TrackPoint = { lat: number; lon: number; time_iso?: string };
+type Track = { id: string; team: string; color: string; points: TrackPoint[] };
+
 type Props = {
   center: LatLngExpression;
   zoom: number;
 
   onMapClick: (lat: number, lon: number) => void;
   onMapReady: (map: LeafletMap) => void;
-  onViewChanged: (map: LeafletMap) => void;
+  onViewChanged?: (map: LeafletMap) => void;
 
   // User location
   showUserLocation: boolean;
@@ -47,16 +60,54 @@ type Props = {
   centerOnMeToken: number; // ✅ NEW
   onUserLocation?: (lat: number, lon: number) => void;
 
+  // Visual cone in metres from the source point (stays the same ground size at every zoom)
+  cone?: { apex: LatLon; lengthM: number; halfAngleDeg: number; windFromDeg: number } | null;
+  sourcePoint?: LatLon | null;
+
   // Envelope + guidance
   showEnvelope: boolean;
   envelopeNow: EnvelopePolys | null;
   envelopeBands: Band[] | null;
+  // Merged multi-LKP zones (each zone may be several rings)
+  mergedEnvelope?: { core: LatLon[][]; fringe: LatLon[][]; residual: LatLon[][] } | null;
   startPoints?: StartPoint[] | null;
 
+  // Relative probability raster (heatmap + cursor readout)
+  density?: GeoGrid | null;
+
   // Markers
   traps: Trap[];
   lkps: LKP[];
   activeLkpId: string | null;
+
+  // Imported team tracks
+  tracks?: Track[];
+
+  // Lost-person-behaviour distance rings and segments shaded by POA
+  lpb?: {
+    center: LatLon;
+    rings: Array<{ pct: number; radius_m: number }>;
+    segments: Array<{ id: string; label: string; ring: LatLon[]; poa: number }>;
+  } | null;
+
+  // Drawn search segments (coloured by status, shaded by current POA) and the one being drawn
+  searchSegments?: Array<{ id: string; label: string; ring: LatLon[]; status: SegmentStatus; poa: number }>;
+  segmentDraft?: LatLon[] | null;
+
+  // Handler override, drawn dashed over the model; `edit` adds draggable corners and an axis-tip handle
+  override?: {
+    polygons: Record<OverrideZone, LatLon[]>;
+    axis: LatLon[];
+    note: string;
+    edit: {
+      zone: OverrideZone;
+      onVertex: (zone: OverrideZone, index: number, p: LatLon) => void;
+      onTip: (p: LatLon) => void;
+    } | null;
+  } | null;
+
+  // Alerts of the training run being logged (calibration)
+  trainingAlerts?: Array<{ id: string; lat: number; lon: number; time_iso: string }>;
 };
 
 function MapEvents({
@@ -64,17 +115,17 @@ function MapEvents({
   onViewChanged,
 }: {
   onMapClick: (lat: number, lon: number) => void;
-  onViewChanged: (map: LeafletMap) => void;
+  onViewChanged?: (map: LeafletMap) => void;
 }) {
   const map = useMapEvents({
     click(e) {
       onMapClick(e.latlng.lat, e.latlng.lng);
     },
     moveend() {
-      onViewChanged(map);
+      onViewChanged?.(map);
     },
     zoomend() {
-      onViewChanged(map);
+      onViewChanged?.(map);
     },
   });
 
@@ -170,16 +221,156 @@ function UserLocator({
   );
 }
 
+// Transparent -> yellow -> red, alpha rising with probability
+function heatColor(v: number): [number, number, number, number] {
+  const t = Math.max(0, Math.min(1, v));
+  return [255, Math.round(230 * (1 - t)), Math.round(60 * (1 - t)), Math.round(150 * Math.sqrt(t))];
+}
+
+function densityImage(g: GeoGrid) {
+  const canvas = document.createElement("canvas");
+  canvas.width = g.nx;
+  canvas.height = g.ny;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return null;
+  const img = ctx.createImageData(g.nx, g.ny);
+  for (let j = 0; j < g.ny; j++) {
+    for (let i = 0; i < g.nx; i++) {
+      const v = g.values[j * g.nx + i];
+      if (v < 0.02) continue;
+      // grid row 0 is south; canvas row 0 is north
+      const o = ((g.ny - 1 - j) * g.nx + i) * 4;
+      const [r, gr, b, a] = heatColor(v);
+      img.data[o] = r;
+      img.data[o + 1] = gr;
+      img.data[o + 2] = b;
+      img.data[o + 3] = a;
+    }
+  }
+  ctx.putImageData(img, 0, 0);
+
+  const sw = toLatLon(g.origin, { x: g.minX, y: g.minY });
+  const ne = toLatLon(g.origin, { x: g.minX + g.nx * g.cell_m, y: g.minY + g.ny * g.cell_m });
+  return {
+    url: canvas.toDataURL("image/png"),
+    bounds: [
+      [sw.lat, sw.lon],
+      [ne.lat, ne.lon],
+    ] as [[number, number], [number, number]],
+  };
+}
+
+function DensityLayer({ density }: { density: GeoGrid }) {
+  const image = useMemo(() => densityImage(density), [density]);
+  const [readout, setReadout] = useState<number | null>(null);
+
+  useMapEvents({
+    mousemove(e) {
+      setReadout(sampleGrid(density, { lat: e.latlng.lat, lon: e.latlng.lng }));
+    },
+    mouseout() {
+      setReadout(null);
+    },
+  });
+
+  return (
+    <>
+      {image && <ImageOverlay url={image.url} bounds={image.bounds} opacity={1} />}
+      {readout != null && (
+        <div
+          style={{
+            position: "absolute",
+            left: 10,
+            bottom: 24,
+            zIndex: 1000,
+            padding: "4px 8px",
+            borderRadius: 8,
+            background: "rgba(255,255,255,0.9)",
+            fontSize: 12,
+            fontFamily: "ui-monospace, Menlo, monospace",
+            pointerEvents: "none",
+          }}
+        >
+          Relative probability: {Math.round(readout * 100)}%
+        </div>
+      )}
+    </>
+  );
+}
+
+// Radial gradient stops of the old canvas cone: orange at the source fading to pale yellow
+const CONE_STOPS: Array<[number, [number, number, number], number]> = [
+  [0, [255, 80, 0], 0.42],
+  [0.6, [255, 170, 0], 0.26],
+  [1, [255, 230, 120], 0.1],
+];
+
+function coneShade(t: number) {
+  const k = CONE_STOPS.findIndex(([at]) => at >= t);
+  const [a0, c0, o0] = CONE_STOPS[Math.max(0, k - 1)];
+  const [a1, c1, o1] = CONE_STOPS[Math.max(0, k)];
+  const f = a1 > a0 ? (t - a0) / (a1 - a0) : 0;
+  const c = c0.map((v, i) => Math.round(v + (c1[i] - v) * f));
+  return { color: `rgb(${c.join(",")})`, opacity: o0 + (o1 - o0) * f };
+}
+
+function ConeLayer({ cone }: { cone: NonNullable<Props["cone"]> }) {
+  const bands = useMemo(
+    () => geoConeBands(cone.apex, cone.lengthM, cone.halfAngleDeg, cone.windFromDeg),
+    [cone.apex, cone.lengthM, cone.halfAngleDeg, cone.windFromDeg]
+  );
+  const g = computeGeoCone(cone.apex, cone.lengthM, cone.halfAngleDeg, cone.windFromDeg);
+  const tuple = (p: LatLon) => [p.lat, p.lon] as [number, number];
+
+  return (
+    <>
+      {bands.map((b, i) => {
+        const shade = coneShade(b.t);
+        return (
+          <Polygon
+            key={i}
+            positions={polyToTuples(b.ring)}
+            interactive={false}
+            pathOptions={{ stroke: false, fillColor: shade.color, fillOpacity: shade.opacity }}
+          />
+        );
+      })}
+      <Polyline
+        positions={[tuple(g.apex), tuple(g.tip)]}
+        interactive={false}
+        pathOptions={{ color: "white", opacity: 0.85, weight: 6, dashArray: "18 14" }}
+      />
+      {[g.left, g.right].map((p, i) => (
+        <Polyline
+          key={i}
+          positions={[tuple(g.apex), tuple(p)]}
+          interactive={false}
+          pathOptions={{ color: "white", opacity: 0.55, weight: 2.5, dashArray: "10 10" }}
+        />
+      ))}
+    </>
+  );
+}
+
 function polyToTuples(poly: LatLon[]) {
   return poly.map((p) => [p.lat, p.lon] as [number, number]);
 }
 
+// Timestamped dots along a track, thinned so long collar logs stay responsive
+function trackTimeMarks(points: TrackPoint[], maxMarks = 40) {
+  const timed = points.filter((p) => p.time_iso);
+  const step = Math.max(1, Math.ceil(timed.length / maxMarks));
+  return timed.filter((_, i) => i % step === 0 || i === timed.length - 1);
+}
+
 export default function LeafletMapInner(props: Props) {
-  const tileUrl = "https://{s}.basemaps.cartocdn.com/light_all/{z}/{x}/{y}{r}.png";
+  const tileUrl = TILE_URL_TEMPLATE;
   const attrib =
     '&copy; <a href="https://www.openstreetmap.org/copyright">OSM</a> &copy; <a href="https://carto.com/attributions">CARTO</a>';
 
   const activeId = props.activeLkpId;
+  const maxPoa = props.lpb ? Math.max(...props.lpb.segments.map((s) => s.poa), 1e-9) : 1;
+  const maxSegPoa = Math.max(...(props.searchSegments ?? []).map((s) => s.poa), 1e-9);
 
   const defaultIcon = useMemo(() => {
     return L.icon({
@@ -193,6 +384,30 @@ export default function LeafletMapInner(props: Props) {
     });
   }, []);
 
+  const vertexIcon = useMemo(
+    () =>
+      L.divIcon({
+        className: "",
+        html: `<div style="width:12px;height:12px;border-radius:6px;background:white;border:2px solid #c026d3"></div>`,
+        iconSize: [16, 16],
+        iconAnchor: [8, 8],
+      }),
+    []
+  );
+
+  const tipIcon = useMemo(
+    () =>
+      L.divIcon({
+        className: "",
+        html: `<div style="width:14px;height:14px;background:#c026d3;border:2px solid white;transform:rotate(45deg)"></div>`,
+        iconSize: [20, 20],
+        iconAnchor: [10, 10],
+      }),
+    []
+  );
+
+  const ov = props.override;
+
   return (
     <MapContainer
       center={props.center}
@@ -219,11 +434,28 @@ export default function LeafletMapInner(props: Props) {
           <Popup>
             <b>{k.label ?? "LKP"}</b>
             <div style={{ fontSize: 12, opacity: 0.8 }}>{new Date(k.timeISO).toLocaleString()}</div>
+            {k.weight != null && k.weight < 1 && (
+              <div style={{ fontSize: 12, opacity: 0.8 }}>credibility {Math.round(k.weight * 100)}%</div>
+            )}
             {activeId === k.id && <div style={{ marginTop: 6 }}>(active)</div>}
           </Popup>
         </Marker>
       ))}
 
+      {props.trainingAlerts?.map((a, i) => (
+        <CircleMarker
+          key={a.id}
+          center={[a.lat, a.lon]}
+          radius={7}
+          pathOptions={{ color: "#b91c1c", fillColor: "#ef4444", fillOpacity: 0.9, weight: 2 }}
+        >
+          <Popup>
+            <b>{i === 0 ? "First alert" : `Alert ${i + 1}`}</b>
+            <div style={{ fontSize: 12, opacity: 0.8 }}>{new Date(a.time_iso).toLocaleString()}</div>
+          </Popup>
+        </CircleMarker>
+      ))}
+
       {props.traps.map((t) => (
         <Marker key={t.id} position={[t.lat, t.lon]} icon={defaultIcon}>
           <Popup>
@@ -232,6 +464,77 @@ export default function LeafletMapInner(props: Props) {
         </Marker>
       ))}
 
+      {props.lpb && (
+        <>
+          {props.lpb.segments.map((s) => (
+            <Polygon
+              key={s.id}
+              positions={polyToTuples(s.ring)}
+              pathOptions={{ color: "#7c3aed", weight: 1, fillColor: "#7c3aed", fillOpacity: 0.05 + 0.4 * (s.poa / maxPoa) }}
+            >
+              <Tooltip sticky>
+                {s.label}: POA {(s.poa * 100).toFixed(1)}%
+              </Tooltip>
+            </Polygon>
+          ))}
+          {props.lpb.rings.map((r) => (
+            <Circle
+              key={r.pct}
+              center={[props.lpb!.center.lat, props.lpb!.center.lon]}
+              radius={r.radius_m}
+              pathOptions={{ color: "#7c3aed", weight: 2, dashArray: "6 6", fill: false }}
+            />
+          ))}
+        </>
+      )}
+
+      {props.searchSegments?.map((s) => (
+        <Polygon
+          key={s.id}
+          positions={polyToTuples(s.ring)}
+          pathOptions={{
+            color: SEGMENT_STATUS_COLORS[s.status],
+            weight: 3,
+            fillColor: SEGMENT_STATUS_COLORS[s.status],
+            fillOpacity: 0.05 + 0.3 * (s.poa / maxSegPoa),
+          }}
+        >
+          <Tooltip sticky>
+            {s.label} • {SEGMENT_STATUS_LABELS[s.status]} • POA {(s.poa * 100).toFixed(1)}%
+          </Tooltip>
+        </Polygon>
+      ))}
+
+      {props.segmentDraft && props.segmentDraft.length > 0 && (
+        <>
+          <Polyline
+            positions={polyToTuples(props.segmentDraft.length > 2 ? [...props.segmentDraft, props.segmentDraft[0]] : props.segmentDraft)}
+            pathOptions={{ color: "#ea580c", weight: 2, dashArray: "4 4" }}
+          />
+          {props.segmentDraft.map((p, i) => (
+            <CircleMarker
+              key={i}
+              center={[p.lat, p.lon]}
+              radius={4}
+              pathOptions={{ color: "#ea580c", fillColor: "white", fillOpacity: 1, weight: 2 }}
+            />
+          ))}
+        </>
+      )}
+
+      {props.showEnvelope && props.density && <DensityLayer density={props.density} />}
+
+      {props.cone && <ConeLayer cone={props.cone} />}
+
+      {props.sourcePoint && (
+        <CircleMarker
+          center={[props.sourcePoint.lat, props.sourcePoint.lon]}
+          radius={9}
+          interactive={false}
+          pathOptions={{ color: "rgba(0,0,0,0.8)", weight: 2, fillColor: "white", fillOpacity: 0.95 }}
+        />
+      )}
+
       {props.showEnvelope && props.envelopeNow && (
         <>
           <Polygon positions={polyToTuples(props.envelopeNow.residual)} pathOptions={{}} />
@@ -240,12 +543,102 @@ export default function LeafletMapInner(props: Props) {
         </>
       )}
 
+      {props.showEnvelope && props.mergedEnvelope && (
+        <>
+          {props.mergedEnvelope.residual.map((r, i) => (
+            <Polygon key={`mr${i}`} positions={polyToTuples(r)} pathOptions={{}} />
+          ))}
+          {props.mergedEnvelope.fringe.map((r, i) => (
+            <Polygon key={`mf${i}`} positions={polyToTuples(r)} pathOptions={{}} />
+          ))}
+          {props.mergedEnvelope.core.map((r, i) => (
+            <Polygon key={`mc${i}`} positions={polyToTuples(r)} pathOptions={{}} />
+          ))}
+        </>
+      )}
+
+      {ov && (
+        <>
+          {(["residual", "fringe", "core"] as const).map((z) => (
+            <Polygon
+              key={`ov_${z}`}
+              positions={polyToTuples(ov.polygons[z])}
+              pathOptions={{
+                color: "#c026d3",
+                weight: ov.edit?.zone === z ? 3 : 2,
+                dashArray: "8 6",
+                fillColor: "#c026d3",
+                fillOpacity: z === "core" ? 0.15 : 0.06,
+              }}
+            >
+              <Tooltip sticky>
+                Handler override ({z}){ov.note ? `: ${ov.note}` : ""}
+              </Tooltip>
+            </Polygon>
+          ))}
+          <Polyline positions={polyToTuples(ov.axis)} pathOptions={{ color: "#c026d3", weight: 2 }} />
+        </>
+      )}
+
+      {ov?.edit &&
+        ov.polygons[ov.edit.zone].map((p, i) => (
+          <Marker
+            key={`ov_${ov.edit!.zone}_${i}`}
+            position={[p.lat, p.lon]}
+            icon={vertexIcon}
+            draggable
+            eventHandlers={{
+              drag: (e) => {
+                const ll = (e.target as L.Marker).getLatLng();
+                ov.edit!.onVertex(ov.edit!.zone, i, { lat: ll.lat, lon: ll.lng });
+              },
+            }}
+          />
+        ))}
+
+      {ov?.edit && (
+        <Marker
+          position={[ov.axis[ov.axis.length - 1].lat, ov.axis[ov.axis.length - 1].lon]}
+          icon={tipIcon}
+          draggable
+          eventHandlers={{
+            drag: (e) => {
+              const ll = (e.target as L.Marker).getLatLng();
+              ov.edit!.onTip({ lat: ll.lat, lon: ll.lng });
+            },
+          }}
+        />
+      )}
+
       {props.showEnvelope &&
         props.envelopeBands &&
         props.envelopeBands.map((b) => (
           <Polygon key={b.minutes} positions={polyToTuples(b.polygons.residual)} pathOptions={{}} />
         ))}
 
+      {props.tracks?.map((t) => (
+        <React.Fragment key={t.id}>
+          <Polyline positions={polyToTuples(t.points)} pathOptions={{ color: t.color, weight: 3 }}>
+            <Popup>
+              <b>{t.team}</b>
+            </Popup>
+          </Polyline>
+          {trackTimeMarks(t.points).map((p, i) => (
+            <CircleMarker
+              key={i}
+              center={[p.lat, p.lon]}
+              radius={3}
+              pathOptions={{ color: t.color, fillColor: "white", fillOpacity: 1, weight: 2 }}
+            >
+              <Popup>
+                <b>{t.team}</b>
+                <div style={{ fontSize: 12, opacity: 0.8 }}>{new Date(p.time_iso!).toLocaleString()}</div>
+              </Popup>
+            </CircleMarker>
+          ))}
+        </React.Fragment>
+      ))}
+
       {props.startPoints?.map((p, idx) => (
         <Marker key={`${p.label}_${idx}`} position={[p.point.lat, p.point.lon]} icon={defaultIcon}>
           <Popup>{p.label}</Popup>
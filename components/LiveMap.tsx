@@ -1,27 +1,103 @@
-import React, { useEffect, useMemo, useRef, useState } from "react";
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import dynamic from "next/dynamic";
 import type { LatLngExpression } from "leaflet";
 import type { Map as LeafletMap } from "leaflet";
 import { toPng } from "html-to-image";
 
-import ConeCanvas from "@/components/ConeCanvas";
-import { WindData } from "@/lib/cone";
+import IncidentPanel from "@/components/IncidentPanel";
+import TrackPanel from "@/components/TrackPanel";
+import OfflineAreasPanel from "@/components/OfflineAreasPanel";
+import LkpPanel from "@/components/LkpPanel";
+import DemPanel from "@/components/DemPanel";
+import WindObsPanel from "@/components/WindObsPanel";
+import WindRose from "@/components/WindRose";
+import ProfilePanel from "@/components/ProfilePanel";
+import CalibrationPanel from "@/components/CalibrationPanel";
+import LpbPanel from "@/components/LpbPanel";
+import SegmentPanel from "@/components/SegmentPanel";
+import OverridePanel from "@/components/OverridePanel";
+import TimelineBar from "@/components/TimelineBar";
+import DeploymentPanel from "@/components/DeploymentPanel";
+import { computeGeoCone, defaultHalfAngleDegFromMph, gustFactorOf, WindData, type WindSeries } from "@/lib/cone";
 import {
   computeScentEnvelope,
   addMinutesIso,
+  type WindSample,
   type TerrainType,
   type StabilityType,
   type PrecipType,
 } from "@/lib/scentEnvelope";
+import {
+  newIncident,
+  parseIncidentFile,
+  serializeIncident,
+  type Incident,
+  type IncidentSummary,
+  type LKP,
+  type Trap,
+  type WindMode,
+} from "@/lib/incident";
+import {
+  deleteIncident,
+  getActiveIncidentId,
+  listIncidents,
+  loadIncident,
+  saveIncident,
+  setActiveIncidentId,
+} from "@/lib/incidentStore";
+import { computeMergedEnvelope, type MergeMode } from "@/lib/mergedEnvelope";
+import type { Dem } from "@/lib/dem";
+import { stabilityForWind, type EnvField, type WeatherConditions } from "@/lib/conditions";
+import {
+  blendWind,
+  blendWindSamples,
+  observationsInWindow,
+  windObsStats,
+  type WindObservation,
+} from "@/lib/windObservations";
+import {
+  WIND_PROVIDER_IDS,
+  WIND_PROVIDER_LABELS,
+  type WindApiBody,
+  type WindProviderId,
+} from "@/lib/windProviders/types";
+import { computeCoverage, parseTrackFile, TRACK_COLORS, type Track } from "@/lib/tracks";
+import { planToGeoJSON, planToGPX, planToKML, type PlanExport } from "@/lib/planExport";
+import { DEFAULT_PROFILE, profileLabel, type ModelProfile } from "@/lib/modelProfile";
+import type { TrainingAlert, TrainingRun } from "@/lib/calibration";
+import {
+  computeSegmentPoa,
+  lpbRings,
+  ringSectorSegments,
+  scentShare,
+  type LpbTerrain,
+  type ScentSource,
+  type SubjectCategory,
+} from "@/lib/lostPerson";
+import { planBookkeeping, type SearchSegment } from "@/lib/searchSegments";
+import {
+  axisGeometry,
+  moveAxisTip,
+  moveVertex,
+  startOverride,
+  type EnvelopeOverride,
+  type OverrideZone,
+} from "@/lib/envelopeOverride";
+import {
+  formatOffset,
+  minutesBetween,
+  TIMELINE_FORECAST_MIN,
+  tracksAt,
+  type TimelineRange,
+} from "@/lib/timeline";
+import { planDeployment } from "@/lib/deployment";
+import { isoNow, isoToLocalInput, localInputToIso } from "@/lib/localTime";
+
+// Cone length before there is an envelope to match
+const DEFAULT_CONE_LENGTH_M = 500;
 
 const LeafletMapInner = dynamic(() => import("./LeafletMapClient"), { ssr: false });
 
-type LKP = { id: string; lat: number; lon: number; timeISO: string; label?: string };
-type Trap = { id: string; lat: number; lon: number; label: string };
-
-function isoNow() {
-  return new Date().toISOString();
-}
 function uid(prefix = "id") {
   return `${prefix}_${Math.random().toString(16).slice(2)}_${Date.now().toString(16)}`;
 }
@@ -31,25 +107,23 @@ function mpsToMph(mps: number) {
 function mphToMps(mph: number) {
   return mph / 2.236936;
 }
-function isoToLocalInput(iso: string) {
-  const d = new Date(iso);
-  const pad = (n: number) => String(n).padStart(2, "0");
-  const yyyy = d.getFullYear();
-  const mm = pad(d.getMonth() + 1);
-  const dd = pad(d.getDate());
-  const hh = pad(d.getHours());
-  const mi = pad(d.getMinutes());
-  return `${yyyy}-${mm}-${dd}T${hh}:${mi}`;
-}
-function localInputToIso(v: string) {
-  return new Date(v).toISOString();
-}
 function downloadDataUrl(dataUrl: string, filename: string) {
   const a = document.createElement("a");
   a.href = dataUrl;
   a.download = filename;
   a.click();
 }
+function downloadText(text: string, filename: string, mime: string) {
+  const url = URL.createObjectURL(new Blob([text], { type: mime }));
+  downloadDataUrl(url, filename);
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+function lengthText(m: number) {
+  return `${Math.round(m)} m (${Math.round(m / 0.3048)} ft)`;
+}
+function safeFilename(name: string) {
+  return name.trim().replace(/[^a-z0-9_-]+/gi, "_").slice(0, 60) || "incident";
+}
 
 export default function LiveMap() {
   // ===== Map defaults =====
@@ -71,6 +145,10 @@ export default function LiveMap() {
   // ===== Live LKPs =====
   const [lkps, setLkps] = useState<LKP[]>([]);
   const [activeLkpId, setActiveLkpId] = useState<string | null>(null);
+
+  // Several sightings modelled together (live mode)
+  const [mergeLkps, setMergeLkps] = useState(false);
+  const [mergeMode, setMergeMode] = useState<MergeMode>("weighted");
   const activeLkp = useMemo(() => lkps.find((k) => k.id === activeLkpId) ?? null, [lkps, activeLkpId]);
 
   // Lock the source point (live)
@@ -106,14 +184,49 @@ export default function LiveMap() {
     return appMode === "live" ? activeLkp : scenarioLkp;
   }, [appMode, activeLkp, scenarioLkp]);
 
+  // ===== "Now" clock tick (live) =====
+  const [nowISO, setNowISO] = useState<string>(isoNow());
+  useEffect(() => {
+    if (appMode !== "live") return;
+    const id = setInterval(() => setNowISO(isoNow()), 30_000);
+    return () => clearInterval(id);
+  }, [appMode]);
+
+  // Timeline scrub position; null follows the clock above (or the scenario's elapsed time)
+  const [timelineISO, setTimelineISO] = useState<string | null>(null);
+
+  // Time the model runs at: the scrubbed time, else the live clock or the scenario LKP plus elapsed time
+  const modelNowISO = useMemo(
+    () =>
+      timelineISO ??
+      (appMode === "scenario" && activeForModel ? addMinutesIso(activeForModel.timeISO, scenarioElapsedMin) : nowISO),
+    [timelineISO, appMode, activeForModel, scenarioElapsedMin, nowISO]
+  );
+
   // ===== Wind =====
   const [wind, setWind] = useState<WindData | null>(null);
-  const [windMode, setWindMode] = useState<"current" | "hourly" | "historical" | "manual">("current");
+  const [windMode, setWindMode] = useState<WindMode>("current");
+  const [windProvider, setWindProvider] = useState<WindProviderId | "auto">("auto");
   const [manualSpeedMph, setManualSpeedMph] = useState<number>(11);
   const [manualFromDeg, setManualFromDeg] = useState<number>(315);
 
-  // Manual wind becomes "effective wind" even if API wind exists
-  const effectiveWind: WindData | null = useMemo(() => {
+  // Hourly wind history LKP -> now (bends the envelope when the wind has shifted)
+  const [useWindHistory, setUseWindHistory] = useState(true);
+  const [windSeries, setWindSeries] = useState<WindSeries | null>(null);
+
+  // On-scene anemometer log, blended into model/manual wind by `windObsBlend` (observed share)
+  const [windObsLog, setWindObsLog] = useState<WindObservation[]>([]);
+  const [windObsBlend, setWindObsBlend] = useState(0.5);
+  const [windObsWindowMin, setWindObsWindowMin] = useState(30);
+
+  // Observations in the window ending at the model time; none there means no blending
+  const obsStats = useMemo(
+    () => windObsStats(observationsInWindow(windObsLog, windObsWindowMin, modelNowISO)),
+    [windObsLog, windObsWindowMin, modelNowISO]
+  );
+
+  // Manual wind becomes "base wind" even if API wind exists
+  const baseWind: WindData | null = useMemo(() => {
     if (windMode === "manual") {
       return {
         wind_speed_mps: mphToMps(manualSpeedMph),
@@ -127,8 +240,38 @@ export default function LiveMap() {
     return wind;
   }, [windMode, manualSpeedMph, manualFromDeg, wind]);
 
+  const effectiveWind: WindData | null = useMemo(() => {
+    if (!obsStats || windObsBlend <= 0) return baseWind;
+    const b = blendWind(
+      baseWind ? { speed_mps: baseWind.wind_speed_mps, from_deg: baseWind.wind_dir_from_deg } : null,
+      { speed_mps: obsStats.mean_speed_mps, from_deg: obsStats.mean_from_deg },
+      windObsBlend
+    )!;
+    // Gust and spread blend with the same weight; whichever side is missing defers to the other
+    const mix = (m: number | null | undefined, o: number) => (m == null ? o : (1 - windObsBlend) * m + windObsBlend * o);
+    return {
+      ...(baseWind ?? {}),
+      wind_speed_mps: b.speed_mps,
+      wind_dir_from_deg: b.from_deg,
+      gust_mps: mix(baseWind?.gust_mps, obsStats.gust_mps),
+      dir_sigma_deg: mix(baseWind?.dir_sigma_deg, obsStats.sigma_theta_deg),
+      source: baseWind ? `${baseWind.source ?? windMode}+observed` : "observed",
+    };
+  }, [baseWind, obsStats, windObsBlend, windMode]);
+
+  const windSamples: WindSample[] | undefined = useMemo(() => {
+    if (windMode === "manual" || !useWindHistory || !windSeries) return undefined;
+    const samples = windSeries.samples.map((s) => ({
+      time_iso: s.time_utc,
+      wind_from_deg: s.wind_dir_from_deg,
+      wind_speed_mph: mpsToMph(s.wind_speed_mps),
+    }));
+    return blendWindSamples(samples, windObsLog, windObsBlend);
+  }, [windMode, useWindHistory, windSeries, windObsLog, windObsBlend]);
+
   // ===== Environmental inputs for envelope model =====
   const [showEnvelope, setShowEnvelope] = useState(true);
+  const [showHeatmap, setShowHeatmap] = useState(true);
   const [showTimeBands, setShowTimeBands] = useState(true);
   const [bandSet, setBandSet] = useState<number[]>([15, 30, 60, 120]);
 
@@ -139,17 +282,58 @@ export default function LiveMap() {
   const [recentRain, setRecentRain] = useState(false);
   const [terrain, setTerrain] = useState<TerrainType>("mixed");
   const [stability, setStability] = useState<StabilityType>("neutral");
+
+  // Model coefficients (discipline preset or calibrated custom profile)
+  const [modelProfile, setModelProfile] = useState<ModelProfile>(DEFAULT_PROFILE);
+
+  // Lost-person behaviour: where the subject may have walked to, combined with scent into POA
+  const [lpbEnabled, setLpbEnabled] = useState(false);
+  const [lpbCategory, setLpbCategory] = useState<SubjectCategory>("hiker");
+  const [lpbTerrain, setLpbTerrain] = useState<LpbTerrain>("flat");
+  const [lpbScentWeight, setLpbScentWeight] = useState(0.5);
+
+  // Handler override of the envelope (kept next to the model) and its on-map editing state
+  const [envelopeOverride, setEnvelopeOverride] = useState<EnvelopeOverride | null>(null);
+  const [overrideEditing, setOverrideEditing] = useState(false);
+  const [overrideZone, setOverrideZone] = useState<OverrideZone>("residual");
+
+  // Search segments and the current operational period; the draft collects map clicks while drawing
+  const [searchSegments, setSearchSegments] = useState<SearchSegment[]>([]);
+  const [opPeriod, setOpPeriod] = useState(1);
+  const [opPeriodStartISO, setOpPeriodStartISO] = useState<string | null>(null);
+  const [segmentDraft, setSegmentDraft] = useState<Array<{ lat: number; lon: number }>>([]);
+
+  // Hourly forecast behind the deployment-window planner (session only; start_iso is the model's "now" it was fetched for)
+  const [deployHours, setDeployHours] = useState(24);
+  const [deployForecast, setDeployForecast] = useState<{ start_iso: string; series: WindSeries } | null>(null);
+  const [deployLoading, setDeployLoading] = useState(false);
+  const [deployError, setDeployError] = useState<string | null>(null);
+
+  // Alerts of the training run being logged for calibration (not part of the incident)
+  const [trainingAlerts, setTrainingAlerts] = useState<TrainingAlert[]>([]);
+
+  // Local elevation model (session only; rasters are not stored with the incident)
+  const [dem, setDem] = useState<Dem | null>(null);
+
+  // Weather-filled environment; fields in envOverrides were typed over and no longer follow the weather
+  const [conditions, setConditions] = useState<WeatherConditions | null>(null);
+  const [envOverrides, setEnvOverrides] = useState<EnvField[]>([]);
+  const [conditionsError, setConditionsError] = useState<string | null>(null);
   const [showAdvanced, setShowAdvanced] = useState(false);
 
-  // ===== Visual cone controls (Canvas overlay) =====
-  const [lengthPx, setLengthPx] = useState(700);
+  // ===== Visual cone controls (map layer; "auto" length follows the envelope's reach) =====
+  const [coneLengthM, setConeLengthM] = useState<"auto" | number>("auto");
   const [halfAngleDeg, setHalfAngleDeg] = useState<"auto" | number>("auto");
 
   // ===== Traps =====
   const [traps, setTraps] = useState<Trap[]>([]);
-  const [mapMode, setMapMode] = useState<"setSource" | "addTrap">("setSource");
+  const [mapMode, setMapMode] = useState<"setSource" | "addTrap" | "addLkp" | "addAlert" | "drawSegment">("setSource");
   const [newTrapLabel, setNewTrapLabel] = useState("Terrain trap");
 
+  // ===== Team tracks (debrief) =====
+  const [tracks, setTracks] = useState<Track[]>([]);
+  const [detectionRadiusM, setDetectionRadiusM] = useState<number>(30);
+
   // ===== User location =====
   // ✅ OFF by default
   const [showUserLocation, setShowUserLocation] = useState(false);
@@ -181,59 +365,266 @@ export default function LiveMap() {
     };
   }, []);
 
-  // ===== "Now" clock tick (live) =====
-  const [nowISO, setNowISO] = useState<string>(isoNow());
-  useEffect(() => {
-    if (appMode !== "live") return;
-    const id = setInterval(() => setNowISO(isoNow()), 30_000);
-    return () => clearInterval(id);
-  }, [appMode]);
-
-  // ===== Refs =====
-  const mapRef = useRef<LeafletMap | null>(null);
-  const mapWrapRef = useRef<HTMLDivElement | null>(null);
-  const exportRef = useRef<HTMLDivElement | null>(null);
+  // ===== Incident persistence (IndexedDB) =====
+  const [incidentId, setIncidentId] = useState<string | null>(null);
+  const [incidentName, setIncidentName] = useState("Incident");
+  const [incidentCreatedISO, setIncidentCreatedISO] = useState<string>(isoNow());
+  const [incidents, setIncidents] = useState<IncidentSummary[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  // Everything that survives a reload
+  const incidentSnapshot: Incident | null = useMemo(() => {
+    if (!incidentId) return null;
+    return {
+      id: incidentId,
+      name: incidentName,
+      created_iso: incidentCreatedISO,
+      updated_iso: incidentCreatedISO, // stamped on save
+      appMode,
+      lkps,
+      activeLkpId,
+      mergeLkps,
+      mergeMode,
+      traps,
+      scenario: { ll: scenarioLL, label: scenarioLabel, lkpISO: scenarioLkpISO, elapsedMin: scenarioElapsedMin },
+      environment: { tempF, rh, cloud, precip, recentRain, terrain, stability, conditions, overrides: envOverrides },
+      wind: { mode: windMode, provider: windProvider, manualSpeedMph, manualFromDeg, useHistory: useWindHistory, data: wind, series: windSeries },
+      windObs: { log: windObsLog, blend: windObsBlend, windowMin: windObsWindowMin },
+      modelProfile,
+      lpb: { enabled: lpbEnabled, category: lpbCategory, terrain: lpbTerrain, scentWeight: lpbScentWeight },
+      override: envelopeOverride,
+      searchPlan: { segments: searchSegments, period: opPeriod, period_start_iso: opPeriodStartISO },
+      tracks,
+      detectionRadiusM,
+    };
+  }, [
+    incidentId,
+    incidentName,
+    incidentCreatedISO,
+    appMode,
+    lkps,
+    activeLkpId,
+    mergeLkps,
+    mergeMode,
+    traps,
+    scenarioLL,
+    scenarioLabel,
+    scenarioLkpISO,
+    scenarioElapsedMin,
+    tempF,
+    rh,
+    cloud,
+    precip,
+    recentRain,
+    terrain,
+    stability,
+    conditions,
+    envOverrides,
+    windMode,
+    windProvider,
+    manualSpeedMph,
+    manualFromDeg,
+    useWindHistory,
+    wind,
+    windSeries,
+    windObsLog,
+    windObsBlend,
+    windObsWindowMin,
+    modelProfile,
+    lpbEnabled,
+    lpbCategory,
+    lpbTerrain,
+    lpbScentWeight,
+    envelopeOverride,
+    searchSegments,
+    opPeriod,
+    opPeriodStartISO,
+    tracks,
+    detectionRadiusM,
+  ]);
 
-  // Overlay pixel size
-  const [size, setSize] = useState<{ w: number; h: number }>({ w: 1200, h: 700 });
+  // Only state setters inside, so it (and the handlers built on it) stays stable across renders
+  const applyIncident = useCallback((inc: Incident) => {
+    setTimelineISO(null);
+    setDeployForecast(null);
+    setIncidentId(inc.id);
+    setIncidentName(inc.name);
+    setIncidentCreatedISO(inc.created_iso);
+    setAppMode(inc.appMode);
+    setLkps(inc.lkps);
+    setActiveLkpId(inc.activeLkpId);
+    setMergeLkps(inc.mergeLkps);
+    setMergeMode(inc.mergeMode);
+    setTraps(inc.traps);
+    setScenarioLL(inc.scenario.ll);
+    setScenarioLabel(inc.scenario.label);
+    setScenarioLkpISO(inc.scenario.lkpISO);
+    setScenarioElapsedMin(inc.scenario.elapsedMin);
+    setTempF(inc.environment.tempF);
+    setRh(inc.environment.rh);
+    setCloud(inc.environment.cloud);
+    setPrecip(inc.environment.precip);
+    setRecentRain(inc.environment.recentRain);
+    setTerrain(inc.environment.terrain);
+    setStability(inc.environment.stability);
+    setConditions(inc.environment.conditions);
+    setEnvOverrides(inc.environment.overrides);
+    setWindMode(inc.wind.mode);
+    setWindProvider(inc.wind.provider);
+    setManualSpeedMph(inc.wind.manualSpeedMph);
+    setManualFromDeg(inc.wind.manualFromDeg);
+    setUseWindHistory(inc.wind.useHistory);
+    setWind(inc.wind.data);
+    setWindSeries(inc.wind.series);
+    setWindObsLog(inc.windObs.log);
+    setWindObsBlend(inc.windObs.blend);
+    setWindObsWindowMin(inc.windObs.windowMin);
+    setModelProfile(inc.modelProfile);
+    setLpbEnabled(inc.lpb.enabled);
+    setLpbCategory(inc.lpb.category);
+    setLpbTerrain(inc.lpb.terrain);
+    setLpbScentWeight(inc.lpb.scentWeight);
+    setEnvelopeOverride(inc.override);
+    setOverrideEditing(false);
+    setSearchSegments(inc.searchPlan.segments);
+    setOpPeriod(inc.searchPlan.period);
+    setOpPeriodStartISO(inc.searchPlan.period_start_iso ?? null);
+    setTracks(inc.tracks);
+    setDetectionRadiusM(inc.detectionRadiusM);
+    setActiveIncidentId(inc.id);
+  }, []);
 
-  useEffect(() => {
-    if (!mapWrapRef.current) return;
-    const el = mapWrapRef.current;
-    const update = () => setSize({ w: el.clientWidth, h: el.clientHeight });
-    update();
-    const ro = new ResizeObserver(update);
-    ro.observe(el);
-    return () => ro.disconnect();
+  const refreshIncidentList = useCallback(async () => {
+    setIncidents(await listIncidents());
   }, []);
 
-  // Canvas source point in pixel coords
-  const [srcPoint, setSrcPoint] = useState<{ x: number; y: number } | null>(null);
+  // Throws on storage failure; callers report it
+  const startIncident = useCallback(async () => {
+    const inc = newIncident(uid("inc"), `Incident ${new Date().toLocaleString()}`);
+    await saveIncident(inc);
+    applyIncident(inc);
+    await refreshIncidentList();
+  }, [applyIncident, refreshIncidentList]);
 
-  function recomputeSrcPoint(map: LeafletMap | null, ll: { lat: number; lon: number } | null) {
-    if (!map || !ll) {
-      setSrcPoint(null);
-      return;
+  function storageError(e: unknown) {
+    setSaveError(`Incident storage unavailable: ${e instanceof Error ? e.message : String(e)}`);
+  }
+
+  async function createIncident() {
+    try {
+      await startIncident();
+    } catch (e: unknown) {
+      storageError(e);
     }
-    const pt = map.latLngToContainerPoint([ll.lat, ll.lon]);
-    setSrcPoint({ x: pt.x, y: pt.y });
   }
 
-  // ===== Wind fetch (Open-Meteo API via /api/wind) =====
-  async function fetchWind(lat: number, lon: number) {
-    if (windMode === "manual") return;
+  async function openIncident(id: string) {
+    try {
+      const inc = await loadIncident(id);
+      if (inc) applyIncident(inc);
+    } catch (e: unknown) {
+      storageError(e);
+    }
+  }
 
-    setWind(null);
+  // Reopen the last incident (or start one) on mount; every dependency is stable
+  useEffect(() => {
+    (async () => {
+      try {
+        const list = await listIncidents();
+        const lastId = getActiveIncidentId();
+        const pick = list.find((i) => i.id === lastId) ?? list[0];
+        const inc = pick ? await loadIncident(pick.id) : null;
+        if (inc) {
+          applyIncident(inc);
+          setIncidents(list);
+        } else {
+          await startIncident();
+        }
+      } catch (e: unknown) {
+        setSaveError(`Incident storage unavailable: ${e instanceof Error ? e.message : String(e)}`);
+      }
+    })();
+  }, [applyIncident, startIncident]);
 
-    const modeSafe =
-      windMode === "hourly" ? "hourly" : windMode === "historical" ? "historical" : "current";
+  // Autosave (debounced)
+  useEffect(() => {
+    if (!incidentSnapshot) return;
+    const id = setTimeout(async () => {
+      setSaving(true);
+      try {
+        await saveIncident({ ...incidentSnapshot, updated_iso: isoNow() });
+        setSaveError(null);
+        await refreshIncidentList();
+      } catch (e: unknown) {
+        setSaveError(`Not saved: ${e instanceof Error ? e.message : String(e)}`);
+      } finally {
+        setSaving(false);
+      }
+    }, 600);
+    return () => clearTimeout(id);
+  }, [incidentSnapshot, refreshIncidentList]);
+
+  function exportIncidentJSON() {
+    if (!incidentSnapshot) return;
+    const text = serializeIncident({ ...incidentSnapshot, updated_iso: isoNow() });
+    downloadText(text, `${safeFilename(incidentName)}.incident.json`, "application/json");
+  }
 
-    const body: any = { lat, lon, mode: modeSafe };
+  async function importIncidentJSON(file: File) {
+    try {
+      let inc = parseIncidentFile(await file.text());
+      const existing = await loadIncident(inc.id);
+      if (existing && !confirm(`Replace local incident "${existing.name}" with the imported copy?`)) {
+        inc = { ...inc, id: uid("inc"), name: `${inc.name} (imported)` };
+      }
+      await saveIncident(inc);
+      applyIncident(inc);
+      await refreshIncidentList();
+    } catch (e: unknown) {
+      alert(e instanceof Error ? e.message : String(e));
+    }
+  }
 
-    if (modeSafe === "historical") {
-      // Use scenario LKP time
-      body.time_iso = scenarioLkpISO;
+  async function removeIncident() {
+    if (!incidentId) return;
+    try {
+      await deleteIncident(incidentId);
+      const list = await listIncidents();
+      const next = list[0] ? await loadIncident(list[0].id) : null;
+      if (next) {
+        applyIncident(next);
+        setIncidents(list);
+      } else {
+        await startIncident();
+      }
+    } catch (e: unknown) {
+      storageError(e);
     }
+  }
+
+  // ===== Refs =====
+  const mapRef = useRef<LeafletMap | null>(null);
+  const exportRef = useRef<HTMLDivElement | null>(null);
+
+  // ===== Wind fetch (/api/wind; provider chosen server-side unless pinned) =====
+  async function fetchWind(lat: number, lon: number, lkpISO?: string) {
+    // Conditions follow the same point/time, even with manual wind; failures leave manual entry in place
+    const conditionsISO =
+      appMode === "scenario" ? addMinutesIso(lkpISO ?? scenarioLkpISO, scenarioElapsedMin) : isoNow();
+    fetchConditions(lat, lon, conditionsISO);
+
+    if (windMode === "manual") return;
+
+    setWind(null);
+    setWindSeries(null);
+
+    const body: WindApiBody =
+      windMode === "historical"
+        ? // Use scenario LKP time
+          { lat, lon, mode: "historical", time_iso: scenarioLkpISO, provider: windProvider }
+        : { lat, lon, mode: windMode === "hourly" ? "hourly" : "current", provider: windProvider };
 
     const r = await fetch("/api/wind", {
       method: "POST",
@@ -243,6 +634,118 @@ export default function LiveMap() {
     const js = await r.json();
     if (!r.ok) throw new Error(js?.error || "Wind fetch failed");
     setWind(js);
+
+    if (useWindHistory && lkpISO) {
+      await fetchWindSeries(lat, lon, lkpISO);
+    }
+  }
+
+  async function fetchWindSeries(lat: number, lon: number, lkpISO: string) {
+    // Scenario runs forward from the LKP; live runs up to now plus the timeline's forecast
+    const endISO =
+      appMode === "scenario"
+        ? addMinutesIso(lkpISO, Math.max(scenarioElapsedMin, ...bandSet))
+        : addMinutesIso(isoNow(), TIMELINE_FORECAST_MIN);
+
+    const r = await fetch("/api/wind", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        lat,
+        lon,
+        mode: "series",
+        start_iso: lkpISO,
+        end_iso: endISO,
+        provider: windProvider,
+      }),
+    });
+    const js = await r.json();
+    if (!r.ok) throw new Error(js?.error || "Wind history fetch failed");
+    setWindSeries(js);
+  }
+
+  // Hourly forecast from the model's "now" for the deployment planner
+  async function fetchDeploymentForecast() {
+    if (!activeForModel) return;
+    const startISO =
+      appMode === "scenario" ? addMinutesIso(activeForModel.timeISO, scenarioElapsedMin) : isoNow();
+
+    setDeployLoading(true);
+    setDeployError(null);
+    try {
+      const r = await fetch("/api/wind", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          lat: activeForModel.lat,
+          lon: activeForModel.lon,
+          mode: "series",
+          start_iso: startISO,
+          end_iso: addMinutesIso(startISO, deployHours * 60),
+          provider: windProvider,
+        }),
+      });
+      const js = await r.json();
+      if (!r.ok) throw new Error(js?.error || "Forecast fetch failed");
+      setDeployForecast({ start_iso: startISO, series: js });
+    } catch (e: unknown) {
+      setDeployError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setDeployLoading(false);
+    }
+  }
+
+  function applyConditions(c: WeatherConditions, overrides: EnvField[]) {
+    const follow = (f: EnvField) => !overrides.includes(f);
+    if (follow("tempF")) setTempF(c.derived.tempF);
+    if (follow("rh")) setRh(c.derived.rh);
+    if (follow("cloud")) setCloud(c.derived.cloud);
+    if (follow("precip")) setPrecip(c.derived.precip);
+    if (follow("recentRain")) setRecentRain(c.derived.recentRain);
+    // Pasquill–Gifford depends on wind, so manual wind re-derives it
+    if (follow("stability")) {
+      setStability(windMode === "manual" ? stabilityForWind(c, mphToMps(manualSpeedMph)) : c.derived.stability);
+    }
+  }
+
+  async function fetchConditions(lat: number, lon: number, timeISO: string) {
+    setConditionsError(null);
+    try {
+      const r = await fetch("/api/conditions", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ lat, lon, time_iso: timeISO }),
+      });
+      const js = await r.json();
+      if (!r.ok) throw new Error(js?.error || "Conditions fetch failed");
+      setConditions(js);
+      applyConditions(js, envOverrides);
+    } catch (e: unknown) {
+      setConditionsError(e instanceof Error ? e.message : String(e));
+    }
+  }
+
+  function overrideEnv(f: EnvField) {
+    setEnvOverrides((prev) => (prev.includes(f) ? prev : [...prev, f]));
+  }
+
+  function envTag(f: EnvField) {
+    if (!conditions) return null;
+    const over = envOverrides.includes(f);
+    return (
+      <span
+        style={{
+          marginLeft: 6,
+          padding: "0 6px",
+          borderRadius: 999,
+          fontSize: 11,
+          background: over ? "#fef3c7" : "#dcfce7",
+          color: over ? "#92400e" : "#166534",
+        }}
+      >
+        {over ? "override" : "auto"}
+      </span>
+    );
   }
 
   // ===== Envelope model outputs =====
@@ -251,18 +754,16 @@ export default function LiveMap() {
 
     const windSpeedMph = mpsToMph(effectiveWind.wind_speed_mps);
 
-    const nowForModel =
-      appMode === "scenario"
-        ? addMinutesIso(activeForModel.timeISO, scenarioElapsedMin)
-        : nowISO;
-
     return computeScentEnvelope({
       lkp_lat: activeForModel.lat,
       lkp_lon: activeForModel.lon,
       lkp_time_iso: activeForModel.timeISO,
-      now_time_iso: nowForModel,
+      now_time_iso: modelNowISO,
       wind_from_deg: effectiveWind.wind_dir_from_deg,
       wind_speed_mph: windSpeedMph,
+      wind_series: windSamples,
+      wind_sigma_theta_deg: effectiveWind.dir_sigma_deg,
+      wind_gust_mph: effectiveWind.gust_mps != null ? mpsToMph(effectiveWind.gust_mps) : null,
       temperature_f: tempF,
       rel_humidity_pct: rh,
       cloud,
@@ -270,14 +771,15 @@ export default function LiveMap() {
       recent_rain: recentRain,
       terrain,
       stability,
+      dem,
+      profile: modelProfile,
     });
   }, [
     showEnvelope,
     activeForModel,
     effectiveWind,
-    appMode,
-    scenarioElapsedMin,
-    nowISO,
+    windSamples,
+    modelNowISO,
     tempF,
     rh,
     cloud,
@@ -285,6 +787,8 @@ export default function LiveMap() {
     recentRain,
     terrain,
     stability,
+    dem,
+    modelProfile,
   ]);
 
   const envelopeBands = useMemo(() => {
@@ -303,6 +807,9 @@ export default function LiveMap() {
           now_time_iso: addMinutesIso(activeForModel.timeISO, mins),
           wind_from_deg: effectiveWind.wind_dir_from_deg,
           wind_speed_mph: windSpeedMph,
+          wind_series: windSamples,
+          wind_sigma_theta_deg: effectiveWind.dir_sigma_deg,
+          wind_gust_mph: effectiveWind.gust_mps != null ? mpsToMph(effectiveWind.gust_mps) : null,
           temperature_f: tempF,
           rel_humidity_pct: rh,
           cloud,
@@ -310,6 +817,8 @@ export default function LiveMap() {
           recent_rain: recentRain,
           terrain,
           stability,
+          dem,
+          profile: modelProfile,
         });
 
         return {
@@ -325,6 +834,7 @@ export default function LiveMap() {
     bandSet,
     activeForModel,
     effectiveWind,
+    windSamples,
     tempF,
     rh,
     cloud,
@@ -332,26 +842,300 @@ export default function LiveMap() {
     recentRain,
     terrain,
     stability,
+    dem,
+    modelProfile,
   ]);
 
-  const startPoints = envelopeNow ? envelopeNow.recommended_start_points : null;
+  const merged = useMemo(() => {
+    if (appMode !== "live" || !mergeLkps || lkps.length < 2 || !showEnvelope || !effectiveWind) return null;
+
+    const windSpeedMph = mpsToMph(effectiveWind.wind_speed_mps);
+
+    return computeMergedEnvelope(
+      lkps.map((k) => ({
+        lkp_id: k.id,
+        label: k.label ?? "LKP",
+        weight: k.weight ?? 1,
+        inputs: {
+          lkp_lat: k.lat,
+          lkp_lon: k.lon,
+          lkp_time_iso: k.timeISO,
+          now_time_iso: modelNowISO,
+          wind_from_deg: effectiveWind.wind_dir_from_deg,
+          wind_speed_mph: windSpeedMph,
+          wind_series: windSamples,
+          wind_sigma_theta_deg: effectiveWind.dir_sigma_deg,
+          wind_gust_mph: effectiveWind.gust_mps != null ? mpsToMph(effectiveWind.gust_mps) : null,
+          temperature_f: tempF,
+          rel_humidity_pct: rh,
+          cloud,
+          precip,
+          recent_rain: recentRain,
+          terrain,
+          stability,
+          dem,
+          profile: modelProfile,
+        },
+      })),
+      mergeMode
+    );
+  }, [
+    appMode,
+    mergeLkps,
+    mergeMode,
+    lkps,
+    showEnvelope,
+    effectiveWind,
+    windSamples,
+    modelNowISO,
+    tempF,
+    rh,
+    cloud,
+    precip,
+    recentRain,
+    terrain,
+    stability,
+    dem,
+    modelProfile,
+  ]);
+
+  // ===== Deployment windows: the model re-run per forecast hour =====
+  const deployment = useMemo(() => {
+    if (!deployForecast || merged || !showEnvelope || !activeForModel || !effectiveWind) return null;
+    const forecast = deployForecast.series.samples.map((s) => ({
+      time_iso: s.time_utc,
+      wind_from_deg: s.wind_dir_from_deg,
+      wind_speed_mph: mpsToMph(s.wind_speed_mps),
+      gust_mph: s.gust_mps != null ? mpsToMph(s.gust_mps) : null,
+    }));
+
+    return planDeployment(
+      {
+        lkp_lat: activeForModel.lat,
+        lkp_lon: activeForModel.lon,
+        lkp_time_iso: activeForModel.timeISO,
+        now_time_iso: deployForecast.start_iso,
+        wind_from_deg: effectiveWind.wind_dir_from_deg,
+        wind_speed_mph: mpsToMph(effectiveWind.wind_speed_mps),
+        wind_sigma_theta_deg: effectiveWind.dir_sigma_deg,
+        wind_gust_mph: effectiveWind.gust_mps != null ? mpsToMph(effectiveWind.gust_mps) : null,
+        temperature_f: tempF,
+        rel_humidity_pct: rh,
+        cloud,
+        precip,
+        recent_rain: recentRain,
+        terrain,
+        stability,
+        dem,
+        profile: modelProfile,
+      },
+      windSamples ?? [],
+      forecast
+    );
+  }, [
+    deployForecast,
+    merged,
+    showEnvelope,
+    activeForModel,
+    effectiveWind,
+    windSamples,
+    tempF,
+    rh,
+    cloud,
+    precip,
+    recentRain,
+    terrain,
+    stability,
+    dem,
+    modelProfile,
+  ]);
+
+  // Scent densities behind segment POA: one per merged LKP (with its credibility), else the single envelope
+  const scentSources: ScentSource[] = useMemo(
+    () =>
+      merged
+        ? merged.per_source.map((s) => ({ density: s.envelope.density, weight: s.weight }))
+        : envelopeNow
+        ? [{ density: envelopeNow.density, weight: 1 }]
+        : [],
+    [merged, envelopeNow]
+  );
+
+  // ===== Subject travel rings + POA per segment =====
+  const lpb = useMemo(() => {
+    if (!lpbEnabled || !activeForModel) return null;
+    const elapsedMin = (Date.parse(modelNowISO) - Date.parse(activeForModel.timeISO)) / 60000;
+    const lkp = { lat: activeForModel.lat, lon: activeForModel.lon };
+    const rings = lpbRings(lpbCategory, lpbTerrain, elapsedMin);
+    const segments = ringSectorSegments(lkp, rings);
+    const poa = computeSegmentPoa(lkp, rings, scentSources, segments, lpbScentWeight);
+    return { lkp, rings, segments, poa };
+  }, [
+    lpbEnabled,
+    lpbCategory,
+    lpbTerrain,
+    lpbScentWeight,
+    activeForModel,
+    modelNowISO,
+    scentSources,
+  ]);
+
+  // ===== Search segments: shifted POA / POS per operational period =====
+  const bookkeeping = useMemo(
+    () => planBookkeeping({ segments: searchSegments, period: opPeriod }),
+    [searchSegments, opPeriod]
+  );
+
+  // Seed drawn segments from subject travel + scent when the LPB layer is on, else from scent alone
+  const seedShares = lpb
+    ? (segs: SearchSegment[]) =>
+        computeSegmentPoa(
+          lpb.lkp,
+          lpb.rings,
+          scentSources,
+          segs.map((s) => ({ id: s.id, label: s.name, ring: s.ring })),
+          lpbScentWeight
+        ).segments.map((s) => s.poa)
+    : scentSources.length
+    ? (segs: SearchSegment[]) => segs.map((s) => scentShare(s.ring, scentSources))
+    : null;
+
+  function finishSegmentDraft() {
+    if (segmentDraft.length < 3) return;
+    const seg: SearchSegment = {
+      id: uid("seg"),
+      name: `Segment ${String.fromCharCode(65 + (searchSegments.length % 26))}`,
+      ring: segmentDraft,
+      team: "",
+      status: "unassigned",
+      poa: 0,
+      sorties: [],
+    };
+    setSearchSegments((prev) => [...prev, seg]);
+    setSegmentDraft([]);
+    setMapMode("setSource");
+  }
+
+  // What a training run logged now would record (the map's LKP, wind and conditions)
+  const trainingBase: Pick<TrainingRun, "lkp" | "wind" | "environment"> | null = useMemo(() => {
+    if (!activeForModel || !effectiveWind) return null;
+    return {
+      lkp: { lat: activeForModel.lat, lon: activeForModel.lon, time_iso: activeForModel.timeISO },
+      wind: {
+        from_deg: effectiveWind.wind_dir_from_deg,
+        speed_mph: mpsToMph(effectiveWind.wind_speed_mps),
+        gust_mph: effectiveWind.gust_mps != null ? mpsToMph(effectiveWind.gust_mps) : null,
+        sigma_theta_deg: effectiveWind.dir_sigma_deg ?? null,
+        series: windSamples,
+      },
+      environment: {
+        temperature_f: tempF,
+        rel_humidity_pct: rh,
+        cloud,
+        precip,
+        recent_rain: recentRain,
+        terrain,
+        stability,
+      },
+    };
+  }, [activeForModel, effectiveWind, windSamples, tempF, rh, cloud, precip, recentRain, terrain, stability]);
+
+  const startPoints = merged
+    ? merged.ranked_start_points.map((r, i) => ({
+        label: `#${i + 1} ${r.label} — ${r.lkp_label} (score ${r.score})`,
+        point: r.point,
+      }))
+    : envelopeNow
+    ? envelopeNow.recommended_start_points
+    : null;
+
+  // Tracks as walked by the scrubbed time (timestamped points only)
+  const shownTracks = useMemo(() => (timelineISO ? tracksAt(tracks, timelineISO) : tracks), [tracks, timelineISO]);
+
+  const coverage = useMemo(() => {
+    if (!envelopeNow || !shownTracks.length) return null;
+    return computeCoverage(envelopeNow, shownTracks, detectionRadiusM);
+  }, [envelopeNow, shownTracks, detectionRadiusM]);
+
+  // ===== Timeline: LKP → now → forecast =====
+  const timelineRange: TimelineRange | null = useMemo(() => {
+    if (!activeForModel) return null;
+    const start = activeForModel.timeISO;
+    if (appMode === "scenario") {
+      return {
+        start_iso: start,
+        now_iso: addMinutesIso(start, scenarioElapsedMin),
+        end_iso: addMinutesIso(start, Math.max(scenarioElapsedMin, ...bandSet)),
+      };
+    }
+    return { start_iso: start, now_iso: nowISO, end_iso: addMinutesIso(nowISO, TIMELINE_FORECAST_MIN) };
+  }, [activeForModel, appMode, scenarioElapsedMin, bandSet, nowISO]);
+
+  async function importTrackFiles(files: File[]) {
+    const added: Track[] = [];
+    for (const f of files) {
+      try {
+        const parsed = parseTrackFile(f.name, await f.text());
+        parsed.forEach((t, i) => {
+          added.push({
+            id: uid("trk"),
+            team: t.name || f.name.replace(/\.[^.]+$/, "") + (parsed.length > 1 ? ` #${i + 1}` : ""),
+            color: TRACK_COLORS[(tracks.length + added.length) % TRACK_COLORS.length],
+            source_name: f.name,
+            points: t.points,
+          });
+        });
+      } catch (e: unknown) {
+        alert(e instanceof Error ? e.message : String(e));
+      }
+    }
+    if (added.length) setTracks((prev) => [...prev, ...added]);
+  }
 
   // ===== Map click handling =====
   async function onMapClick(lat: number, lon: number) {
+    // Drawing a search segment: every click is a corner
+    if (mapMode === "drawSegment") {
+      setSegmentDraft((prev) => [...prev, { lat, lon }]);
+      return;
+    }
+
+    // Training run: where the dog alerted (time defaults to the model's "now")
+    if (mapMode === "addAlert") {
+      const time_iso =
+        appMode === "scenario" && activeForModel ? addMinutesIso(activeForModel.timeISO, scenarioElapsedMin) : isoNow();
+      setTrainingAlerts((prev) => [...prev, { id: uid("alert"), lat, lon, time_iso }]);
+      return;
+    }
+
     // Add trap mode
     if (mapMode === "addTrap") {
       setTraps((prev) => [{ id: uid("trap"), lat, lon, label: newTrapLabel || "Terrain trap" }, ...prev]);
       return;
     }
 
+    // Add an extra LKP / sighting (live)
+    if (mapMode === "addLkp" && appMode === "live") {
+      const lkp: LKP = { id: uid("lkp"), lat, lon, timeISO: isoNow(), label: `LKP ${lkps.length + 1}`, weight: 1 };
+      setLkps((prev) => [...prev, lkp]);
+      if (!activeLkp) {
+        setActiveLkpId(lkp.id);
+        try {
+          await fetchWind(lat, lon, lkp.timeISO);
+        } catch (e: unknown) {
+          alert(e instanceof Error ? e.message : String(e));
+        }
+      }
+      return;
+    }
+
     // Scenario: click sets the scenario location
     if (appMode === "scenario") {
       setScenarioLL({ lat, lon });
-      recomputeSrcPoint(mapRef.current, { lat, lon });
 
       // Fetch wind for that place/time if not manual
       try {
-        await fetchWind(lat, lon);
+        await fetchWind(lat, lon, scenarioLkpISO);
       } catch (e: any) {
         alert(e?.message || String(e));
       }
@@ -362,34 +1146,25 @@ export default function LiveMap() {
     if (lockSource && activeLkp) return;
 
     const id = activeLkp?.id ?? uid("lkp");
-    const lkp: LKP = { id, lat, lon, timeISO: isoNow(), label: activeLkp?.label ?? "LKP" };
+    const lkp: LKP = { id, lat, lon, timeISO: isoNow(), label: activeLkp?.label ?? "LKP", weight: activeLkp?.weight ?? 1 };
 
     setLkps((prev) => [lkp, ...prev.filter((p) => p.id !== id)]);
     setActiveLkpId(id);
 
-    // Sync pixel point
-    recomputeSrcPoint(mapRef.current, { lat, lon });
-
     // Fetch wind if not manual
     try {
-      await fetchWind(lat, lon);
+      await fetchWind(lat, lon, lkp.timeISO);
     } catch (e: any) {
       alert(e?.message || String(e));
     }
   }
 
-  // Recompute srcPoint whenever view changes
-  function onViewChanged(map: LeafletMap) {
-    recomputeSrcPoint(map, selectedLL);
-  }
-
   // Map ready
   function onMapReady(map: LeafletMap) {
     mapRef.current = map;
-    recomputeSrcPoint(map, selectedLL);
   }
 
-  // ===== Export (Map + Cone overlay + any footer in that DOM) =====
+  // ===== Export (map with its cone/envelope layers + any footer in that DOM) =====
   async function exportPNG() {
     if (!exportRef.current) return;
 
@@ -402,13 +1177,100 @@ export default function LiveMap() {
     downloadDataUrl(dataUrl, `scent_cone_export_${stamp}.png`);
   }
 
+  // ===== Vector export (GeoJSON / KML / GPX) =====
+  function buildPlanExport(): PlanExport {
+    return {
+      name: incidentName,
+      generated_iso: isoNow(),
+      lkp: activeForModel,
+      lkps: appMode === "live" ? lkps : scenarioLkp ? [scenarioLkp] : [],
+      traps,
+      envelope: merged ? null : envelopeNow,
+      merged: merged
+        ? {
+            mode: merged.mode,
+            sources: merged.per_source.map((s) => ({ lkp_id: s.lkp_id, label: s.label, weight: s.weight })),
+            polygons: merged.polygons,
+            start_points: merged.ranked_start_points,
+          }
+        : null,
+      bands: envelopeBands ?? [],
+      wind: effectiveWind
+        ? {
+            source: effectiveWind.source ?? (windMode === "manual" ? "manual" : "open-meteo"),
+            from_deg: effectiveWind.wind_dir_from_deg,
+            speed_mph: mpsToMph(effectiveWind.wind_speed_mps),
+            history_samples: windSamples?.length ?? 0,
+          }
+        : null,
+      profile: envelopeNow || merged ? { id: modelProfile.id, label: profileLabel(modelProfile) } : null,
+      override: envelopeOverride,
+      cone: cone
+        ? {
+            ...computeGeoCone(cone.apex, cone.lengthM, cone.halfAngleDeg, cone.windFromDeg),
+            length_m: cone.lengthM,
+            half_angle_deg: cone.halfAngleDeg,
+          }
+        : null,
+      segments: searchSegments.map((s, i) => ({
+        name: s.name,
+        team: s.team,
+        status: s.status,
+        ring: s.ring,
+        poa: bookkeeping.current[i].poa,
+        cumulative_pod: bookkeeping.current[i].cumulative_pod,
+      })),
+    };
+  }
+
+  function exportVector(format: "geojson" | "kml" | "gpx") {
+    const plan = buildPlanExport();
+    const base = `${safeFilename(incidentName)}_${plan.generated_iso.replace(/[:.]/g, "-")}`;
+    if (format === "geojson") {
+      downloadText(JSON.stringify(planToGeoJSON(plan), null, 2), `${base}.geojson`, "application/geo+json");
+    } else if (format === "kml") {
+      downloadText(planToKML(plan), `${base}.kml`, "application/vnd.google-earth.kml+xml");
+    } else {
+      downloadText(planToGPX(plan), `${base}.gpx`, "application/gpx+xml");
+    }
+  }
+
   // ===== UI helpers =====
   const windText = useMemo(() => {
     if (!effectiveWind) return "(not fetched yet)";
     const mph = mpsToMph(effectiveWind.wind_speed_mps);
     const from = Math.round(effectiveWind.wind_dir_from_deg);
-    return `from ${from}° @ ${mph.toFixed(1)} mph`;
-  }, [effectiveWind]);
+    const stale = effectiveWind.stale
+      ? ` (stale since ${effectiveWind.stale_since ? new Date(effectiveWind.stale_since).toLocaleString() : "unknown"})`
+      : "";
+    const via = windMode !== "manual" && effectiveWind.provider ? ` via ${effectiveWind.provider}` : "";
+    const obs = obsStats && windObsBlend > 0 ? ` (${Math.round(windObsBlend * 100)}% observed)` : "";
+    return `from ${from}° @ ${mph.toFixed(1)} mph${via}${obs}${stale}`;
+  }, [effectiveWind, windMode, obsStats, windObsBlend]);
+
+  // Visual cone in metres from the selected point; it follows the handler's axis while an override exists
+  const cone = useMemo(() => {
+    if (!selectedLL || !effectiveWind) return null;
+    const mph = mpsToMph(effectiveWind.wind_speed_mps);
+    const half =
+      halfAngleDeg === "auto"
+        ? defaultHalfAngleDegFromMph(mph, {
+            sigma_theta_deg: effectiveWind.dir_sigma_deg,
+            gust_factor: gustFactorOf(effectiveWind),
+          })
+        : halfAngleDeg;
+    const axis = envelopeOverride
+      ? axisGeometry(envelopeOverride.axis)
+      : envelopeNow
+      ? axisGeometry(envelopeNow.axis)
+      : null;
+    return {
+      apex: selectedLL,
+      lengthM: coneLengthM === "auto" ? axis?.length_m || DEFAULT_CONE_LENGTH_M : coneLengthM,
+      halfAngleDeg: half,
+      windFromDeg: envelopeOverride && axis ? (axis.bearing_deg + 180) % 360 : effectiveWind.wind_dir_from_deg,
+    };
+  }, [selectedLL, effectiveWind, halfAngleDeg, coneLengthM, envelopeOverride, envelopeNow]);
 
   return (
     <div
@@ -419,102 +1281,179 @@ export default function LiveMap() {
         alignItems: "start",
       }}
     >
-      {/* MAP AREA */}
-      <div
-        ref={mapWrapRef}
-        style={{
-          position: "relative",
-          width: "100%",
-          height: isMobile ? "65svh" : 560,
-          minHeight: isMobile ? 420 : 560,
-          borderRadius: 12,
-          overflow: "hidden",
-          border: "1px solid #e5e7eb",
-        }}
-      >
-        {!online && (
-          <div
-            style={{
-              position: "absolute",
-              top: 10,
-              left: 10,
-              zIndex: 2000,
-              background: "#111827",
-              color: "white",
-              padding: "6px 10px",
-              borderRadius: 10,
-              fontSize: 12,
-            }}
-          >
-            Offline: wind updates unavailable (use Manual wind if needed)
-          </div>
-        )}
-
-        {/* Everything inside exportRef gets captured */}
-        <div ref={exportRef} style={{ position: "absolute", inset: 0 }}>
-          <LeafletMapInner
-            center={center}
-            zoom={zoom}
-            onMapClick={onMapClick}
-            onMapReady={onMapReady}
-            onViewChanged={onViewChanged}
-            showUserLocation={showUserLocation}
-            followUser={followUser}
-            locateToken={locateToken}
-            centerOnMeToken={centerOnMeToken}
-            onUserLocation={(lat: number, lon: number) => setUserLoc({ lat, lon })}
-            showEnvelope={showEnvelope}
-            envelopeNow={envelopeNow ? envelopeNow.polygons : null}
-            envelopeBands={envelopeBands}
-            startPoints={startPoints}
-            traps={traps}
-            lkps={appMode === "live" ? lkps : (scenarioLkp ? [scenarioLkp] : [])}
-            activeLkpId={appMode === "live" ? activeLkpId : (scenarioLkp ? scenarioLkp.id : null)}
-          />
+      <div>
+        {/* MAP AREA */}
+        <div
+          style={{
+            position: "relative",
+            width: "100%",
+            height: isMobile ? "65svh" : 560,
+            minHeight: isMobile ? 420 : 560,
+            borderRadius: 12,
+            overflow: "hidden",
+            border: "1px solid #e5e7eb",
+          }}
+        >
+          {!online && (
+            <div
+              style={{
+                position: "absolute",
+                top: 10,
+                left: 10,
+                zIndex: 2000,
+                background: "#111827",
+                color: "white",
+                padding: "6px 10px",
+                borderRadius: 10,
+                fontSize: 12,
+              }}
+            >
+              Offline: using last cached wind (if any) — use Manual wind if needed
+            </div>
+          )}
 
-          {/* Canvas overlay cone (visual estimate) */}
-          <div style={{ position: "absolute", inset: 0, zIndex: 999, pointerEvents: "none" }}>
-            <ConeCanvas
-              width={size.w}
-              height={size.h}
-              srcPoint={srcPoint}
-              wind={effectiveWind}
-              lengthPx={lengthPx}
-              halfAngleDeg={halfAngleDeg}
-              label={
-                selectedLL
-                  ? `Point @ ${selectedLL.lat.toFixed(5)}, ${selectedLL.lon.toFixed(5)}`
-                  : "Click map to set point"
+          {/* Everything inside exportRef gets captured */}
+          <div ref={exportRef} style={{ position: "absolute", inset: 0 }}>
+            <LeafletMapInner
+              center={center}
+              zoom={zoom}
+              onMapClick={onMapClick}
+              onMapReady={onMapReady}
+              showUserLocation={showUserLocation}
+              followUser={followUser}
+              locateToken={locateToken}
+              centerOnMeToken={centerOnMeToken}
+              onUserLocation={(lat: number, lon: number) => setUserLoc({ lat, lon })}
+              cone={cone}
+              sourcePoint={selectedLL}
+              showEnvelope={showEnvelope}
+              envelopeNow={merged ? null : envelopeNow ? envelopeNow.polygons : null}
+              mergedEnvelope={merged ? merged.polygons : null}
+              density={showHeatmap && !merged && envelopeNow ? envelopeNow.density : null}
+              envelopeBands={envelopeBands}
+              startPoints={startPoints}
+              traps={traps}
+              lkps={appMode === "live" ? lkps : (scenarioLkp ? [scenarioLkp] : [])}
+              activeLkpId={appMode === "live" ? activeLkpId : (scenarioLkp ? scenarioLkp.id : null)}
+              tracks={shownTracks}
+              trainingAlerts={trainingAlerts}
+              lpb={
+                lpb
+                  ? {
+                      center: lpb.lkp,
+                      rings: lpb.rings,
+                      segments: lpb.segments.map((seg, i) => ({ ...seg, poa: lpb.poa.segments[i].poa })),
+                    }
+                  : null
+              }
+              searchSegments={searchSegments.map((s, i) => ({
+                id: s.id,
+                label: s.team ? `${s.name} (${s.team})` : s.name,
+                ring: s.ring,
+                status: s.status,
+                poa: bookkeeping.current[i].poa,
+              }))}
+              segmentDraft={mapMode === "drawSegment" ? segmentDraft : null}
+              override={
+                envelopeOverride
+                  ? {
+                      ...envelopeOverride,
+                      edit: overrideEditing
+                        ? {
+                            zone: overrideZone,
+                            onVertex: (zone, i, p) => setEnvelopeOverride((o) => (o ? moveVertex(o, zone, i, p) : o)),
+                            onTip: (p) => setEnvelopeOverride((o) => (o ? moveAxisTip(o, p) : o)),
+                          }
+                        : null,
+                    }
+                  : null
               }
             />
-          </div>
 
-          {/* Optional footer visible in export */}
-          <div
-            style={{
-              position: "absolute",
-              left: 10,
-              bottom: 10,
-              zIndex: 1500,
-              background: "rgba(0,0,0,0.55)",
-              color: "white",
-              padding: "6px 10px",
-              borderRadius: 10,
-              fontSize: 12,
-              maxWidth: "70%",
-            }}
-          >
-            {envelopeNow
-              ? `Confidence: ${envelopeNow.confidence_score} (${envelopeNow.confidence_band}) • Wind ${windText}`
-              : `Wind ${windText}`}
+            {/* Cone caption (the cone itself is a map layer) */}
+            {cone && effectiveWind && (
+              <div
+                style={{
+                  position: "absolute",
+                  top: 10,
+                  right: 10,
+                  zIndex: 1500,
+                  background: "rgba(0,0,0,0.55)",
+                  color: "white",
+                  padding: "6px 10px",
+                  borderRadius: 10,
+                  fontSize: 13,
+                  pointerEvents: "none",
+                }}
+              >
+                <div style={{ fontSize: 15 }}>
+                  Wind from {Math.round(cone.windFromDeg)}° @ {mpsToMph(effectiveWind.wind_speed_mps).toFixed(1)} mph → downwind{" "}
+                  {Math.round((cone.windFromDeg + 180) % 360)}°
+                </div>
+                <div>
+                  Cone {lengthText(cone.lengthM)} • Point @ {cone.apex.lat.toFixed(5)}, {cone.apex.lon.toFixed(5)}
+                </div>
+              </div>
+            )}
+
+            {/* Optional footer visible in export */}
+            <div
+              style={{
+                position: "absolute",
+                left: 10,
+                bottom: 10,
+                zIndex: 1500,
+                background: "rgba(0,0,0,0.55)",
+                color: "white",
+                padding: "6px 10px",
+                borderRadius: 10,
+                fontSize: 12,
+                maxWidth: "70%",
+              }}
+            >
+              {envelopeNow
+                ? `Confidence: ${envelopeNow.confidence_score} (${envelopeNow.confidence_band}) • Wind ${windText} • Profile ${profileLabel(modelProfile)}`
+                : `Wind ${windText}`}
+              {envelopeOverride && ` • Handler override${envelopeOverride.note ? `: ${envelopeOverride.note}` : ""}`}
+              {timelineISO &&
+                timelineRange &&
+                ` • ${formatOffset(minutesBetween(timelineRange.start_iso, timelineISO))} (${new Date(timelineISO).toLocaleString()})`}
+            </div>
           </div>
         </div>
+
+        {timelineRange && (
+          <TimelineBar
+            range={timelineRange}
+            value={timelineISO}
+            onValue={setTimelineISO}
+            observations={windObsLog}
+            tracks={tracks}
+            confidence={
+              envelopeNow ? { score: envelopeNow.confidence_score, band: envelopeNow.confidence_band } : null
+            }
+          />
+        )}
       </div>
 
       {/* CONTROL PANEL */}
       <div style={{ padding: 12, border: "1px solid #e5e7eb", borderRadius: 12 }}>
         <h3 style={{ marginTop: 0 }}>Scent Cone Planner</h3>
 
+        <IncidentPanel
+          incidents={incidents}
+          activeId={incidentId}
+          activeName={incidentName}
+          saving={saving}
+          saveError={saveError}
+          onSelect={openIncident}
+          onNew={createIncident}
+          onRename={setIncidentName}
+          onDelete={removeIncident}
+          onExport={exportIncidentJSON}
+          onImport={importIncidentJSON}
+        />
+
         {/* Mode switch */}
         <div style={{ display: "flex", gap: 8 }}>
           <button
@@ -554,7 +1493,7 @@ export default function LiveMap() {
               <input
                 type="datetime-local"
                 value={isoToLocalInput(scenarioLkpISO)}
-                onChange={(e) => setScenarioLkpISO(localInputToIso(e.target.value))}
+                onChange={(e) => setScenarioLkpISO(localInputToIso(e.target.value) ?? scenarioLkpISO)}
                 style={{ padding: 10, borderRadius: 10 }}
               />
 
@@ -583,6 +1522,26 @@ export default function LiveMap() {
           </div>
         )}
 
+        {appMode === "live" && (
+          <LkpPanel
+            lkps={lkps}
+            activeLkpId={activeLkpId}
+            addingLkp={mapMode === "addLkp"}
+            mergeLkps={mergeLkps}
+            mergeMode={mergeMode}
+            ranked={merged ? merged.ranked_start_points : null}
+            onToggleAdd={() => setMapMode((m) => (m === "addLkp" ? "setSource" : "addLkp"))}
+            onSelect={setActiveLkpId}
+            onChange={(id, patch) => setLkps((prev) => prev.map((k) => (k.id === id ? { ...k, ...patch } : k)))}
+            onRemove={(id) => {
+              setLkps((prev) => prev.filter((k) => k.id !== id));
+              if (activeLkpId === id) setActiveLkpId(lkps.find((k) => k.id !== id)?.id ?? null);
+            }}
+            onMergeChange={setMergeLkps}
+            onMergeModeChange={setMergeMode}
+          />
+        )}
+
         {/* Live lock */}
         {appMode === "live" && (
           <div style={{ marginTop: 10, padding: 10, borderRadius: 10, background: "#f9fafb" }}>
@@ -607,12 +1566,27 @@ export default function LiveMap() {
               onChange={(e) => setWindMode(e.target.value as any)}
               style={{ padding: 10, borderRadius: 10 }}
             >
-              <option value="current">Current (Open-Meteo)</option>
-              <option value="hourly">Hourly (Open-Meteo)</option>
+              <option value="current">Current</option>
+              <option value="hourly">Hourly</option>
               <option value="historical">Historical (Scenario time)</option>
               <option value="manual">Manual</option>
             </select>
 
+            {windMode !== "manual" && (
+              <select
+                value={windProvider}
+                onChange={(e) => setWindProvider(e.target.value as WindProviderId | "auto")}
+                style={{ padding: 10, borderRadius: 10 }}
+              >
+                <option value="auto">Provider: auto (fallback order)</option>
+                {WIND_PROVIDER_IDS.map((id) => (
+                  <option key={id} value={id}>
+                    Provider: {WIND_PROVIDER_LABELS[id]}
+                  </option>
+                ))}
+              </select>
+            )}
+
             {windMode === "manual" ? (
               <>
                 <label style={{ fontSize: 12, color: "#6b7280" }}>Wind speed (mph)</label>
@@ -622,7 +1596,13 @@ export default function LiveMap() {
                   max={60}
                   step={0.1}
                   value={manualSpeedMph}
-                  onChange={(e) => setManualSpeedMph(Number(e.target.value))}
+                  onChange={(e) => {
+                    const mph = Number(e.target.value);
+                    setManualSpeedMph(mph);
+                    if (conditions && !envOverrides.includes("stability")) {
+                      setStability(stabilityForWind(conditions, mphToMps(mph)));
+                    }
+                  }}
                   style={{ padding: 10, borderRadius: 10 }}
                 />
                 <label style={{ fontSize: 12, color: "#6b7280" }}>Wind from (deg)</label>
@@ -644,7 +1624,7 @@ export default function LiveMap() {
                     return;
                   }
                   try {
-                    await fetchWind(selectedLL.lat, selectedLL.lon);
+                    await fetchWind(selectedLL.lat, selectedLL.lon, activeForModel?.timeISO);
                   } catch (e: any) {
                     alert(e?.message || String(e));
                   }
@@ -656,12 +1636,49 @@ export default function LiveMap() {
               </button>
             )}
 
+            {windMode !== "manual" && (
+              <label style={{ display: "flex", gap: 8, alignItems: "center", fontSize: 13 }}>
+                <input
+                  type="checkbox"
+                  checked={useWindHistory}
+                  onChange={(e) => setUseWindHistory(e.target.checked)}
+                />
+                Follow wind history since LKP (bends envelope)
+              </label>
+            )}
+
             <div style={{ fontFamily: "ui-monospace, Menlo, monospace", fontSize: 12 }}>
               wind: {windText}
+              {windSamples && windSamples.length > 0 && (
+                <>
+                  <br />
+                  history: {windSamples.length} hourly samples (from{" "}
+                  {Math.round(windSamples[0].wind_from_deg)}° → {Math.round(windSamples[windSamples.length - 1].wind_from_deg)}°)
+                </>
+              )}
             </div>
+
+            {effectiveWind && (
+              <WindRose
+                fromDeg={effectiveWind.wind_dir_from_deg}
+                speedMph={mpsToMph(effectiveWind.wind_speed_mps)}
+                sigmaThetaDeg={effectiveWind.dir_sigma_deg ?? null}
+                gustMph={effectiveWind.gust_mps != null ? mpsToMph(effectiveWind.gust_mps) : null}
+              />
+            )}
           </div>
         </div>
 
+        <WindObsPanel
+          observations={windObsLog}
+          blend={windObsBlend}
+          windowMin={windObsWindowMin}
+          stats={obsStats}
+          onObservations={setWindObsLog}
+          onBlend={setWindObsBlend}
+          onWindowMin={setWindObsWindowMin}
+        />
+
         {/* Live location controls */}
         <div style={{ marginTop: 12, padding: 10, borderRadius: 10, background: "#f9fafb" }}>
           <b>Live Location</b>
@@ -721,16 +1738,25 @@ export default function LiveMap() {
           <b>Cone (visual)</b>
 
           <label style={{ display: "block", marginTop: 8, fontSize: 12, color: "#6b7280" }}>
-            Length (px)
+            Length {cone ? lengthText(cone.lengthM) : ""}
           </label>
-          <input
-            type="range"
-            min={200}
-            max={1800}
-            value={lengthPx}
-            onChange={(e) => setLengthPx(Number(e.target.value))}
-            style={{ width: "100%" }}
-          />
+          <div style={{ display: "flex", gap: 8, alignItems: "center" }}>
+            <button
+              onClick={() => setConeLengthM("auto")}
+              style={{ flex: 1, padding: 10, borderRadius: 10, fontWeight: coneLengthM === "auto" ? 700 : 500 }}
+            >
+              Match envelope
+            </button>
+            <input
+              type="range"
+              min={50}
+              max={3000}
+              step={10}
+              value={coneLengthM === "auto" ? Math.round(cone?.lengthM ?? DEFAULT_CONE_LENGTH_M) : coneLengthM}
+              onChange={(e) => setConeLengthM(Number(e.target.value))}
+              style={{ flex: 1 }}
+            />
+          </div>
 
           <label style={{ display: "block", marginTop: 8, fontSize: 12, color: "#6b7280" }}>
             Half-angle
@@ -773,6 +1799,16 @@ export default function LiveMap() {
             Show time bands (residual outlines)
           </label>
 
+          <label style={{ display: "flex", gap: 8, alignItems: "center", marginTop: 6, opacity: showEnvelope ? 1 : 0.5 }}>
+            <input
+              type="checkbox"
+              checked={showHeatmap}
+              disabled={!showEnvelope}
+              onChange={(e) => setShowHeatmap(e.target.checked)}
+            />
+            Show probability heatmap (zones are its contours)
+          </label>
+
           <div style={{ marginTop: 8, display: "flex", gap: 8 }}>
             {[15, 30, 60, 120, 240].map((m) => (
               <button
@@ -802,7 +1838,7 @@ export default function LiveMap() {
               <div style={{ marginTop: 6 }}>
                 <b>Notes:</b>
                 <ul style={{ margin: "6px 0 0 18px" }}>
-                  {envelopeNow.deployment_notes.slice(0, 4).map((n: string, i: number) => (
+                  {envelopeNow.deployment_notes.slice(0, 6).map((n: string, i: number) => (
                     <li key={i}>{n}</li>
                   ))}
                 </ul>
@@ -819,59 +1855,135 @@ export default function LiveMap() {
 
           {showAdvanced && (
             <div style={{ marginTop: 10, display: "grid", gap: 8 }}>
+              {conditions && (
+                <div style={{ fontSize: 12, color: "#374151", lineHeight: 1.4 }}>
+                  <b>Weather</b> ({conditions.source},{" "}
+                  {conditions.time_local ?? new Date(conditions.time_utc).toLocaleString()}):{" "}
+                  {Math.round(conditions.temperature_f)}°F • {Math.round(conditions.rel_humidity_pct)}% RH • cloud{" "}
+                  {Math.round(conditions.cloud_cover_pct)}% • {conditions.precip_mm_hr.toFixed(1)} mm/h • 24h rain{" "}
+                  {conditions.rain_24h_mm.toFixed(1)} mm • Pasquill–Gifford {conditions.pg_class}
+                  {envOverrides.length > 0 && (
+                    <button
+                      onClick={() => {
+                        setEnvOverrides([]);
+                        applyConditions(conditions, []);
+                      }}
+                      style={{ display: "block", marginTop: 6, padding: "6px 10px", borderRadius: 10 }}
+                    >
+                      Use weather for all fields
+                    </button>
+                  )}
+                </div>
+              )}
+              {conditionsError && (
+                <div style={{ fontSize: 12, color: "#b91c1c" }}>Weather unavailable ({conditionsError}) — enter conditions manually.</div>
+              )}
+
               <div style={{ display: "flex", gap: 8 }}>
-                <input
-                  type="number"
-                  value={tempF}
-                  onChange={(e) => setTempF(Number(e.target.value))}
-                  style={{ flex: 1, padding: 10, borderRadius: 10 }}
-                  placeholder="Temp °F"
-                />
-                <input
-                  type="number"
-                  value={rh}
-                  onChange={(e) => setRh(Number(e.target.value))}
-                  style={{ flex: 1, padding: 10, borderRadius: 10 }}
-                  placeholder="RH %"
-                />
+                <label style={{ flex: 1, display: "grid", gap: 4, fontSize: 12, color: "#6b7280" }}>
+                  <span>Temp °F{envTag("tempF")}</span>
+                  <input
+                    type="number"
+                    value={tempF}
+                    onChange={(e) => {
+                      setTempF(Number(e.target.value));
+                      overrideEnv("tempF");
+                    }}
+                    style={{ padding: 10, borderRadius: 10 }}
+                    placeholder="Temp °F"
+                  />
+                </label>
+                <label style={{ flex: 1, display: "grid", gap: 4, fontSize: 12, color: "#6b7280" }}>
+                  <span>RH %{envTag("rh")}</span>
+                  <input
+                    type="number"
+                    value={rh}
+                    onChange={(e) => {
+                      setRh(Number(e.target.value));
+                      overrideEnv("rh");
+                    }}
+                    style={{ padding: 10, borderRadius: 10 }}
+                    placeholder="RH %"
+                  />
+                </label>
               </div>
 
               <div style={{ display: "flex", gap: 8 }}>
-                <select value={cloud} onChange={(e) => setCloud(e.target.value as any)} style={{ flex: 1, padding: 10, borderRadius: 10 }}>
-                  <option value="clear">Clear</option>
-                  <option value="partly">Partly</option>
-                  <option value="overcast">Overcast</option>
-                  <option value="night">Night</option>
-                </select>
-
-                <select value={precip} onChange={(e) => setPrecip(e.target.value as any)} style={{ flex: 1, padding: 10, borderRadius: 10 }}>
-                  <option value="none">No precip</option>
-                  <option value="light">Light</option>
-                  <option value="moderate">Moderate</option>
-                  <option value="heavy">Heavy</option>
-                </select>
+                <label style={{ flex: 1, display: "grid", gap: 4, fontSize: 12, color: "#6b7280" }}>
+                  <span>Sky{envTag("cloud")}</span>
+                  <select
+                    value={cloud}
+                    onChange={(e) => {
+                      setCloud(e.target.value as typeof cloud);
+                      overrideEnv("cloud");
+                    }}
+                    style={{ padding: 10, borderRadius: 10 }}
+                  >
+                    <option value="clear">Clear</option>
+                    <option value="partly">Partly</option>
+                    <option value="overcast">Overcast</option>
+                    <option value="night">Night</option>
+                  </select>
+                </label>
+
+                <label style={{ flex: 1, display: "grid", gap: 4, fontSize: 12, color: "#6b7280" }}>
+                  <span>Precip{envTag("precip")}</span>
+                  <select
+                    value={precip}
+                    onChange={(e) => {
+                      setPrecip(e.target.value as PrecipType);
+                      overrideEnv("precip");
+                    }}
+                    style={{ padding: 10, borderRadius: 10 }}
+                  >
+                    <option value="none">No precip</option>
+                    <option value="light">Light</option>
+                    <option value="moderate">Moderate</option>
+                    <option value="heavy">Heavy</option>
+                  </select>
+                </label>
               </div>
 
               <label style={{ display: "flex", gap: 8, alignItems: "center" }}>
-                <input type="checkbox" checked={recentRain} onChange={(e) => setRecentRain(e.target.checked)} />
-                Recent rain ended (conservative)
+                <input
+                  type="checkbox"
+                  checked={recentRain}
+                  onChange={(e) => {
+                    setRecentRain(e.target.checked);
+                    overrideEnv("recentRain");
+                  }}
+                />
+                Recent rain ended (conservative){envTag("recentRain")}
               </label>
 
               <div style={{ display: "flex", gap: 8 }}>
-                <select value={terrain} onChange={(e) => setTerrain(e.target.value as any)} style={{ flex: 1, padding: 10, borderRadius: 10 }}>
-                  <option value="mixed">Mixed</option>
-                  <option value="open">Open</option>
-                  <option value="forest">Forest</option>
-                  <option value="urban">Urban</option>
-                  <option value="swamp">Swamp/Brush</option>
-                  <option value="beach">Beach/Sand</option>
-                </select>
-
-                <select value={stability} onChange={(e) => setStability(e.target.value as any)} style={{ flex: 1, padding: 10, borderRadius: 10 }}>
-                  <option value="neutral">Neutral</option>
-                  <option value="stable">Stable (night/overcast)</option>
-                  <option value="convective">Convective (sunny)</option>
-                </select>
+                <label style={{ flex: 1, display: "grid", gap: 4, fontSize: 12, color: "#6b7280" }}>
+                  <span>Terrain</span>
+                  <select value={terrain} onChange={(e) => setTerrain(e.target.value as TerrainType)} style={{ padding: 10, borderRadius: 10 }}>
+                    <option value="mixed">Mixed</option>
+                    <option value="open">Open</option>
+                    <option value="forest">Forest</option>
+                    <option value="urban">Urban</option>
+                    <option value="swamp">Swamp/Brush</option>
+                    <option value="beach">Beach/Sand</option>
+                  </select>
+                </label>
+
+                <label style={{ flex: 1, display: "grid", gap: 4, fontSize: 12, color: "#6b7280" }}>
+                  <span>Stability{envTag("stability")}</span>
+                  <select
+                    value={stability}
+                    onChange={(e) => {
+                      setStability(e.target.value as StabilityType);
+                      overrideEnv("stability");
+                    }}
+                    style={{ padding: 10, borderRadius: 10 }}
+                  >
+                    <option value="neutral">Neutral</option>
+                    <option value="stable">Stable (night/overcast)</option>
+                    <option value="convective">Convective (sunny)</option>
+                  </select>
+                </label>
               </div>
             </div>
           )}
@@ -927,6 +2039,102 @@ export default function LiveMap() {
           )}
         </div>
 
+        <TrackPanel
+          tracks={tracks}
+          detectionRadiusM={detectionRadiusM}
+          coverage={coverage}
+          onImportFiles={importTrackFiles}
+          onRenameTeam={(id, team) => setTracks((prev) => prev.map((t) => (t.id === id ? { ...t, team } : t)))}
+          onRemove={(id) => setTracks((prev) => prev.filter((t) => t.id !== id))}
+          onDetectionRadiusChange={setDetectionRadiusM}
+        />
+
+        <OfflineAreasPanel
+          getView={() => {
+            const map = mapRef.current;
+            if (!map) return null;
+            const b = map.getBounds();
+            return {
+              bounds: { north: b.getNorth(), south: b.getSouth(), east: b.getEast(), west: b.getWest() },
+              zoom: map.getZoom(),
+            };
+          }}
+        />
+
+        <DemPanel dem={dem} onDem={setDem} />
+
+        <OverridePanel
+          override={envelopeOverride}
+          onOverride={setEnvelopeOverride}
+          onStart={
+            envelopeNow && !merged ? (note) => setEnvelopeOverride(startOverride(envelopeNow, note)) : null
+          }
+          modelAxis={envelopeNow && !merged ? axisGeometry(envelopeNow.axis) : null}
+          editing={overrideEditing}
+          onEditing={setOverrideEditing}
+          zone={overrideZone}
+          onZone={setOverrideZone}
+        />
+
+        <DeploymentPanel
+          plan={deployment}
+          hoursAhead={deployHours}
+          onHoursAhead={setDeployHours}
+          onLoad={activeForModel && !merged ? fetchDeploymentForecast : null}
+          loading={deployLoading}
+          error={deployError}
+          source={deployForecast ? deployForecast.series.provider ?? deployForecast.series.source ?? null : null}
+        />
+
+        <LpbPanel
+          enabled={lpbEnabled}
+          category={lpbCategory}
+          terrain={lpbTerrain}
+          scentWeight={lpbScentWeight}
+          onEnabled={setLpbEnabled}
+          onCategory={setLpbCategory}
+          onTerrain={setLpbTerrain}
+          onScentWeight={setLpbScentWeight}
+          rings={lpb?.rings ?? null}
+          poa={lpb?.poa ?? null}
+        />
+
+        <SegmentPanel
+          segments={searchSegments}
+          period={opPeriod}
+          periodStartISO={opPeriodStartISO}
+          bookkeeping={bookkeeping}
+          onSegments={setSearchSegments}
+          onPeriod={(period, startISO) => {
+            setOpPeriod(period);
+            setOpPeriodStartISO(startISO);
+          }}
+          drawing={mapMode === "drawSegment"}
+          draftCount={segmentDraft.length}
+          onDraw={(on) => {
+            setSegmentDraft([]);
+            setMapMode(on ? "drawSegment" : "setSource");
+          }}
+          onFinishDraft={finishSegmentDraft}
+          seedShares={seedShares}
+          seedLabel={lpb ? "scent + subject travel" : "scent envelope"}
+          tracks={tracks}
+          detectionRadiusM={detectionRadiusM}
+        />
+
+        <ProfilePanel profile={modelProfile} onProfile={setModelProfile} downloadText={downloadText} />
+
+        <CalibrationPanel
+          base={trainingBase}
+          alerts={trainingAlerts}
+          onAlerts={setTrainingAlerts}
+          picking={mapMode === "addAlert"}
+          onPicking={(on) => setMapMode(on ? "addAlert" : "setSource")}
+          profile={modelProfile}
+          onProfile={setModelProfile}
+          downloadText={downloadText}
+        />
+
         {/* Export */}
         <button
           onClick={exportPNG}
@@ -935,6 +2143,18 @@ export default function LiveMap() {
           Export PNG (Map + Cone + Footer)
         </button>
 
+        <div style={{ marginTop: 8, display: "flex", gap: 8 }}>
+          <button onClick={() => exportVector("geojson")} style={{ flex: 1, padding: 10, borderRadius: 10 }}>
+            GeoJSON
+          </button>
+          <button onClick={() => exportVector("kml")} style={{ flex: 1, padding: 10, borderRadius: 10 }}>
+            KML
+          </button>
+          <button onClick={() => exportVector("gpx")} style={{ flex: 1, padding: 10, borderRadius: 10 }}>
+            GPX
+          </button>
+        </div>
+
         {/* Quick status */}
         <div
           style={{
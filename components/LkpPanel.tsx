@@ -0,0 +1,113 @@
+import React from "react";
+import type { LKP } from "@/lib/incident";
+import { isoToLocalInput, localInputToIso } from "@/lib/localTime";
+import type { MergeMode, RankedStartPoint } from "@/lib/mergedEnvelope";
+
+type Props = {
+  lkps: LKP[];
+  activeLkpId: string | null;
+  addingLkp: boolean;
+
+  mergeLkps: boolean;
+  mergeMode: MergeMode;
+  ranked: RankedStartPoint[] | null;
+
+  onToggleAdd: () => void;
+  onSelect: (id: string) => void;
+  onChange: (id: string, patch: Partial<LKP>) => void;
+  onRemove: (id: string) => void;
+  onMergeChange: (on: boolean) => void;
+  onMergeModeChange: (m: MergeMode) => void;
+};
+
+export default function LkpPanel(props: Props) {
+  return (
+    <div style={{ marginTop: 10, padding: 10, borderRadius: 10, background: "#f9fafb" }}>
+      <b>LKPs / sightings</b>
+
+      <div style={{ marginTop: 8, display: "grid", gap: 8 }}>
+        <button
+          onClick={props.onToggleAdd}
+          style={{ padding: 10, borderRadius: 10, fontWeight: props.addingLkp ? 700 : 500 }}
+        >
+          {props.addingLkp ? "Click map to add LKP… (tap to stop)" : "Add another LKP"}
+        </button>
+
+        {props.lkps.map((k) => (
+          <div key={k.id} style={{ display: "grid", gap: 4, fontSize: 13, paddingTop: 6, borderTop: "1px solid #e5e7eb" }}>
+            <div style={{ display: "flex", gap: 8, alignItems: "center" }}>
+              <input
+                type="radio"
+                checked={props.activeLkpId === k.id}
+                onChange={() => props.onSelect(k.id)}
+                title="Active (single-envelope view)"
+              />
+              <input
+                value={k.label ?? ""}
+                onChange={(e) => props.onChange(k.id, { label: e.target.value })}
+                placeholder="Label"
+                style={{ flex: 1, padding: 6, borderRadius: 8 }}
+              />
+              <button onClick={() => props.onRemove(k.id)} style={{ padding: "6px 10px", borderRadius: 10 }}>
+                Remove
+              </button>
+            </div>
+            <input
+              type="datetime-local"
+              value={isoToLocalInput(k.timeISO)}
+              onChange={(e) => {
+                const iso = localInputToIso(e.target.value);
+                if (iso) props.onChange(k.id, { timeISO: iso });
+              }}
+              style={{ padding: 6, borderRadius: 8 }}
+            />
+            <label style={{ display: "flex", gap: 8, alignItems: "center", fontSize: 12, color: "#6b7280" }}>
+              Credibility
+              <input
+                type="range"
+                min={0}
+                max={100}
+                value={Math.round((k.weight ?? 1) * 100)}
+                onChange={(e) => props.onChange(k.id, { weight: Number(e.target.value) / 100 })}
+                style={{ flex: 1 }}
+              />
+              {Math.round((k.weight ?? 1) * 100)}%
+            </label>
+          </div>
+        ))}
+
+        {props.lkps.length > 1 && (
+          <>
+            <label style={{ display: "flex", gap: 8, alignItems: "center" }}>
+              <input type="checkbox" checked={props.mergeLkps} onChange={(e) => props.onMergeChange(e.target.checked)} />
+              Model all LKPs (merged envelope)
+            </label>
+            {props.mergeLkps && (
+              <select
+                value={props.mergeMode}
+                onChange={(e) => props.onMergeModeChange(e.target.value as MergeMode)}
+                style={{ padding: 10, borderRadius: 10 }}
+              >
+                <option value="weighted">Probability-weighted (overlaps reinforce)</option>
+                <option value="union">Union (any source)</option>
+              </select>
+            )}
+          </>
+        )}
+
+        {props.mergeLkps && props.ranked && props.ranked.length > 0 && (
+          <div style={{ fontSize: 12, lineHeight: 1.4 }}>
+            <b>Ranked start points</b>
+            <ol style={{ margin: "6px 0 0 18px", padding: 0 }}>
+              {props.ranked.slice(0, 8).map((r, i) => (
+                <li key={`${r.lkp_id}_${i}`}>
+                  {r.label} — <i>{r.lkp_label}</i> ({r.score})
+                </li>
+              ))}
+            </ol>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+import React from "react";
+import {
+  SUBJECT_CATEGORIES,
+  SUBJECT_CATEGORY_IDS,
+  type LpbRing,
+  type LpbTerrain,
+  type PoaResult,
+  type SubjectCategory,
+} from "@/lib/lostPerson";
+
+type Props = {
+  enabled: boolean;
+  category: SubjectCategory;
+  terrain: LpbTerrain;
+  scentWeight: number; // share of POA from the scent envelope, 0..1
+
+  onEnabled: (v: boolean) => void;
+  onCategory: (c: SubjectCategory) => void;
+  onTerrain: (t: LpbTerrain) => void;
+  onScentWeight: (w: number) => void;
+
+  rings: LpbRing[] | null;
+  poa: PoaResult | null;
+};
+
+const pct = (v: number) => `${(v * 100).toFixed(v < 0.1 ? 1 : 0)}%`;
+
+function distText(m: number) {
+  return m < 1000 ? `${Math.round(m)} m` : `${(m / 1000).toFixed(1)} km`;
+}
+
+export default function LpbPanel(props: Props) {
+  const ranked = props.poa ? props.poa.segments.slice().sort((a, b) => b.poa - a.poa) : [];
+
+  return (
+    <div style={{ marginTop: 12, padding: 10, borderRadius: 10, background: "#f9fafb" }}>
+      <label style={{ display: "flex", gap: 8, alignItems: "center" }}>
+        <input type="checkbox" checked={props.enabled} onChange={(e) => props.onEnabled(e.target.checked)} />
+        <b>Subject travel (lost person behaviour)</b>
+      </label>
+
+      {props.enabled && (
+        <div style={{ marginTop: 8, display: "grid", gap: 8 }}>
+          <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 8 }}>
+            <select
+              value={props.category}
+              onChange={(e) => props.onCategory(e.target.value as SubjectCategory)}
+              style={{ padding: 10, borderRadius: 10 }}
+            >
+              {SUBJECT_CATEGORY_IDS.map((c) => (
+                <option key={c} value={c}>
+                  {SUBJECT_CATEGORIES[c].label}
+                </option>
+              ))}
+            </select>
+            <select
+              value={props.terrain}
+              onChange={(e) => props.onTerrain(e.target.value as LpbTerrain)}
+              style={{ padding: 10, borderRadius: 10 }}
+            >
+              <option value="flat">Flat terrain</option>
+              <option value="mountain">Mountainous</option>
+            </select>
+          </div>
+
+          <label style={{ display: "flex", gap: 8, alignItems: "center", fontSize: 12, color: "#6b7280" }}>
+            Scent share of POA
+            <input
+              type="range"
+              min={0}
+              max={100}
+              value={Math.round(props.scentWeight * 100)}
+              onChange={(e) => props.onScentWeight(Number(e.target.value) / 100)}
+              style={{ flex: 1 }}
+            />
+            {Math.round(props.scentWeight * 100)}%
+          </label>
+
+          {props.rings ? (
+            <div style={{ fontSize: 12, color: "#6b7280" }}>
+              Rings: {props.rings.map((r) => `${r.pct}% ${distText(r.radius_m)}`).join(" • ")}
+            </div>
+          ) : (
+            <div style={{ fontSize: 12, color: "#6b7280" }}>Set an LKP to draw distance rings.</div>
+          )}
+
+          {props.poa && (
+            <div style={{ fontSize: 12 }}>
+              <b>Probability of area</b>
+              <table style={{ width: "100%", borderCollapse: "collapse", marginTop: 4 }}>
+                <thead>
+                  <tr style={{ color: "#6b7280" }}>
+                    <th style={{ textAlign: "left" }}>Segment</th>
+                    <th style={{ textAlign: "right" }}>Travel</th>
+                    <th style={{ textAlign: "right" }}>Scent</th>
+                    <th style={{ textAlign: "right" }}>POA</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {ranked.slice(0, 10).map((s) => (
+                    <tr key={s.id}>
+                      <td>{s.label}</td>
+                      <td style={{ textAlign: "right" }}>{pct(s.p_travel)}</td>
+                      <td style={{ textAlign: "right" }}>{pct(s.p_scent)}</td>
+                      <td style={{ textAlign: "right", fontWeight: 700 }}>{pct(s.poa)}</td>
+                    </tr>
+                  ))}
+                  <tr style={{ color: "#6b7280" }}>
+                    <td colSpan={3}>Rest of world</td>
+                    <td style={{ textAlign: "right" }}>{pct(props.poa.rest_of_world)}</td>
+                  </tr>
+                </tbody>
+              </table>
+              {ranked.length > 10 && (
+                <div style={{ color: "#6b7280", marginTop: 4 }}>+{ranked.length - 10} lower-POA segments on the map</div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,181 @@
+import React, { useEffect, useRef, useState } from "react";
+import {
+  AVG_TILE_BYTES,
+  MAX_TILES_PER_AREA,
+  countTiles,
+  downloadTileArea,
+  evictTileArea,
+  formatBytes,
+  listTileAreas,
+  type DownloadProgress,
+  type TileArea,
+  type TileBounds,
+} from "@/lib/tileCache";
+
+type Props = {
+  // Current map view (read when the user starts a download)
+  getView: () => { bounds: TileBounds; zoom: number } | null;
+};
+
+export default function OfflineAreasPanel(props: Props) {
+  const [areas, setAreas] = useState<TileArea[]>([]);
+  const [name, setName] = useState("Operating area");
+  const [minZoom, setMinZoom] = useState(12);
+  const [maxZoom, setMaxZoom] = useState(16);
+  const [progress, setProgress] = useState<DownloadProgress | null>(null);
+  const [estimate, setEstimate] = useState<number | null>(null);
+  const [usage, setUsage] = useState<{ used: number; quota: number } | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  async function refresh() {
+    setAreas(listTileAreas());
+    if (navigator.storage?.estimate) {
+      const e = await navigator.storage.estimate();
+      setUsage({ used: e.usage ?? 0, quota: e.quota ?? 0 });
+    }
+  }
+
+  useEffect(() => {
+    refresh().catch(() => {});
+  }, []);
+
+  function estimateCurrent() {
+    const v = props.getView();
+    if (!v) return;
+    setEstimate(countTiles(v.bounds, Math.min(minZoom, maxZoom), Math.max(minZoom, maxZoom)));
+  }
+
+  async function download() {
+    const v = props.getView();
+    if (!v) {
+      alert("Map not ready yet.");
+      return;
+    }
+    const zMin = Math.min(minZoom, maxZoom);
+    const zMax = Math.max(minZoom, maxZoom);
+    const n = countTiles(v.bounds, zMin, zMax);
+    if (!confirm(`Download ${n} tiles (~${formatBytes(n * AVG_TILE_BYTES)}) for "${name}"?`)) return;
+
+    const ac = new AbortController();
+    abortRef.current = ac;
+    setProgress({ done: 0, total: n, bytes: 0, failed: 0 });
+    try {
+      const area = await downloadTileArea(
+        { id: `area_${Date.now().toString(16)}`, name: name || "Area", bounds: v.bounds, minZoom: zMin, maxZoom: zMax },
+        setProgress,
+        ac.signal
+      );
+      if (area.tileCount < n) alert(`${n - area.tileCount} tiles failed to download; the rest were stored.`);
+    } catch (e: unknown) {
+      if (!ac.signal.aborted) alert(e instanceof Error ? e.message : String(e));
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+      await refresh();
+    }
+  }
+
+  return (
+    <div style={{ marginTop: 12, padding: 10, borderRadius: 10, background: "#f9fafb" }}>
+      <b>Offline Map Areas</b>
+
+      <div style={{ marginTop: 8, display: "grid", gap: 8 }}>
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Area name"
+          style={{ padding: 10, borderRadius: 10 }}
+        />
+
+        <div style={{ display: "flex", gap: 8, alignItems: "center", fontSize: 12, color: "#6b7280" }}>
+          Zoom
+          <input
+            type="number"
+            min={3}
+            max={18}
+            value={minZoom}
+            onChange={(e) => setMinZoom(Number(e.target.value))}
+            style={{ flex: 1, padding: 8, borderRadius: 10 }}
+          />
+          to
+          <input
+            type="number"
+            min={3}
+            max={18}
+            value={maxZoom}
+            onChange={(e) => setMaxZoom(Number(e.target.value))}
+            style={{ flex: 1, padding: 8, borderRadius: 10 }}
+          />
+          <button
+            onClick={() => {
+              const v = props.getView();
+              if (v) setMinZoom(v.zoom);
+            }}
+            style={{ padding: "8px 10px", borderRadius: 10 }}
+          >
+            Use view
+          </button>
+        </div>
+
+        <div style={{ display: "flex", gap: 8 }}>
+          <button onClick={estimateCurrent} style={{ flex: 1, padding: 10, borderRadius: 10 }} disabled={!!progress}>
+            Estimate
+          </button>
+          {progress ? (
+            <button onClick={() => abortRef.current?.abort()} style={{ flex: 1, padding: 10, borderRadius: 10 }}>
+              Cancel
+            </button>
+          ) : (
+            <button onClick={download} style={{ flex: 1, padding: 10, borderRadius: 10, fontWeight: 700 }}>
+              Download area
+            </button>
+          )}
+        </div>
+
+        {estimate != null && !progress && (
+          <div style={{ fontSize: 12, color: estimate > MAX_TILES_PER_AREA ? "#b91c1c" : "#374151" }}>
+            Current view: {estimate} tiles (~{formatBytes(estimate * AVG_TILE_BYTES)})
+            {estimate > MAX_TILES_PER_AREA ? ` — over the ${MAX_TILES_PER_AREA} tile limit` : ""}
+          </div>
+        )}
+
+        {progress && (
+          <div style={{ fontSize: 12 }}>
+            <progress value={progress.done} max={progress.total} style={{ width: "100%" }} />
+            {progress.done}/{progress.total} tiles • {formatBytes(progress.bytes)}
+            {progress.failed ? ` • ${progress.failed} failed` : ""}
+          </div>
+        )}
+
+        {areas.map((a) => (
+          <div key={a.id} style={{ display: "flex", gap: 8, alignItems: "center", fontSize: 13 }}>
+            <div style={{ flex: 1 }}>
+              {a.name}
+              <div style={{ fontSize: 11, color: "#6b7280" }}>
+                z{a.minZoom}–{a.maxZoom} • {a.tileCount} tiles • {formatBytes(a.bytes)}
+              </div>
+            </div>
+            <button
+              onClick={async () => {
+                if (!confirm(`Remove offline tiles for "${a.name}"?`)) return;
+                await evictTileArea(a.id);
+                await refresh();
+              }}
+              style={{ padding: "6px 10px", borderRadius: 10 }}
+              disabled={!!progress}
+            >
+              Evict
+            </button>
+          </div>
+        ))}
+
+        {usage && (
+          <div style={{ fontSize: 11, color: "#6b7280" }}>
+            Device storage used: {formatBytes(usage.used)}
+            {usage.quota ? ` of ${formatBytes(usage.quota)}` : ""}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,130 @@
+import React, { useState } from "react";
+import { axisGeometry, OVERRIDE_ZONES, type EnvelopeOverride, type OverrideZone } from "@/lib/envelopeOverride";
+
+type Props = {
+  override: EnvelopeOverride | null;
+  onOverride: (o: EnvelopeOverride | null) => void;
+
+  // Starts a fresh override from the model envelope on the map (null when there is none, e.g. merged LKPs)
+  onStart: ((note: string) => void) | null;
+  modelAxis: { bearing_deg: number; length_m: number } | null;
+
+  // Map handles: vertices of `zone` plus the axis tip (rotate + stretch)
+  editing: boolean;
+  onEditing: (on: boolean) => void;
+  zone: OverrideZone;
+  onZone: (z: OverrideZone) => void;
+};
+
+function distText(m: number) {
+  return m < 1000 ? `${Math.round(m)} m` : `${(m / 1000).toFixed(2)} km`;
+}
+
+export default function OverridePanel(props: Props) {
+  const [note, setNote] = useState("");
+  const o = props.override;
+  const axis = o ? axisGeometry(o.axis) : null;
+
+  function restart() {
+    if (!props.onStart || !o) return;
+    if (!confirm("Discard the reshaped geometry and start again from the current model? The note is kept.")) return;
+    props.onStart(o.note);
+  }
+
+  function remove() {
+    if (!confirm("Remove the handler override? The model envelope stays.")) return;
+    props.onEditing(false);
+    props.onOverride(null);
+  }
+
+  return (
+    <div style={{ marginTop: 12, padding: 10, borderRadius: 10, background: "#f9fafb" }}>
+      <b>Handler override</b>
+
+      <div style={{ marginTop: 8, display: "grid", gap: 8 }}>
+        {!o && (
+          <>
+            <input
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Why (ridge, tree line, dog behaviour…)"
+              style={{ padding: 10, borderRadius: 10 }}
+            />
+            <button
+              onClick={() => {
+                props.onStart?.(note.trim());
+                props.onEditing(true);
+                setNote("");
+              }}
+              disabled={!props.onStart}
+              style={{ padding: 10, borderRadius: 10 }}
+            >
+              Override envelope on map
+            </button>
+            {!props.onStart && (
+              <div style={{ fontSize: 12, color: "#6b7280" }}>Needs a single-LKP envelope on the map.</div>
+            )}
+          </>
+        )}
+
+        {o && (
+          <>
+            <textarea
+              value={o.note}
+              onChange={(e) => props.onOverride({ ...o, note: e.target.value, updated_iso: new Date().toISOString() })}
+              placeholder="Why (ridge, tree line, dog behaviour…)"
+              rows={2}
+              style={{ padding: 10, borderRadius: 10, fontFamily: "inherit" }}
+            />
+
+            <button
+              onClick={() => props.onEditing(!props.editing)}
+              style={{ padding: 10, borderRadius: 10, fontWeight: props.editing ? 700 : 500 }}
+            >
+              {props.editing ? "Done editing" : "Edit on map"}
+            </button>
+
+            {props.editing && (
+              <>
+                <div style={{ display: "flex", gap: 8 }}>
+                  {OVERRIDE_ZONES.map((z) => (
+                    <button
+                      key={z}
+                      onClick={() => props.onZone(z)}
+                      style={{ flex: 1, padding: 8, borderRadius: 10, fontWeight: props.zone === z ? 700 : 500 }}
+                    >
+                      {z}
+                    </button>
+                  ))}
+                </div>
+                <div style={{ fontSize: 12, color: "#6b7280" }}>
+                  Drag the white corners to reshape the {props.zone} zone. Drag the diamond at the end of the axis to
+                  rotate and stretch every zone.
+                </div>
+              </>
+            )}
+
+            {axis && (
+              <div style={{ fontFamily: "ui-monospace, Menlo, monospace", fontSize: 12, color: "#374151" }}>
+                Axis {Math.round(axis.bearing_deg)}° • {distText(axis.length_m)}
+                {props.modelAxis &&
+                  ` (model ${Math.round(props.modelAxis.bearing_deg)}° • ${distText(props.modelAxis.length_m)})`}
+                <br />
+                Edited {new Date(o.updated_iso).toLocaleString()} • from the {Math.round(o.model_t_minutes)} min model
+              </div>
+            )}
+
+            <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 8 }}>
+              <button onClick={restart} disabled={!props.onStart} style={{ padding: 10, borderRadius: 10 }}>
+                Restart from model
+              </button>
+              <button onClick={remove} style={{ padding: 10, borderRadius: 10 }}>
+                Remove override
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,274 @@
+import React, { useState, useSyncExternalStore } from "react";
+import {
+  BUILTIN_PROFILES,
+  copyProfile,
+  customProfilesSnapshot,
+  DISCIPLINES,
+  isBuiltinProfileId,
+  parseProfileFile,
+  profileProblems,
+  saveCustomProfiles,
+  serializeProfile,
+  subscribeCustomProfiles,
+  type Discipline,
+  type ModelProfile,
+} from "@/lib/modelProfile";
+
+type Props = {
+  profile: ModelProfile; // active profile (a copy lives in the incident)
+  onProfile: (p: ModelProfile) => void;
+  downloadText: (text: string, filename: string, mime: string) => void;
+};
+
+type Coeffs = Record<string, number>;
+
+const NO_PROFILES: ModelProfile[] = [];
+
+// Editable coefficient groups (path as in profileProblems); zones are nested one level deeper
+const GROUPS: Array<{
+  label: string;
+  path: string;
+  get: (p: ModelProfile) => Coeffs;
+  set: (p: ModelProfile, v: Coeffs) => ModelProfile;
+}> = [
+  {
+    label: "Length",
+    path: "length",
+    get: (p) => p.length,
+    set: (p, v) => ({ ...p, length: v as ModelProfile["length"] }),
+  },
+  {
+    label: "Terrain length ×",
+    path: "terrain_len",
+    get: (p) => p.terrain_len,
+    set: (p, v) => ({ ...p, terrain_len: v as ModelProfile["terrain_len"] }),
+  },
+  {
+    label: "Stability length ×",
+    path: "stability_len",
+    get: (p) => p.stability_len,
+    set: (p, v) => ({ ...p, stability_len: v as ModelProfile["stability_len"] }),
+  },
+  { label: "Width", path: "width", get: (p) => p.width, set: (p, v) => ({ ...p, width: v as ModelProfile["width"] }) },
+  { label: "Mixing ×", path: "mix", get: (p) => p.mix, set: (p, v) => ({ ...p, mix: v as ModelProfile["mix"] }) },
+  {
+    label: "Confidence τ (min)",
+    path: "confidence_tau_min",
+    get: (p) => p.confidence_tau_min,
+    set: (p, v) => ({ ...p, confidence_tau_min: v as ModelProfile["confidence_tau_min"] }),
+  },
+  ...(["len", "angle", "density"] as const).map((k) => ({
+    label: `Zone ${k}`,
+    path: `zones.${k}`,
+    get: (p: ModelProfile) => p.zones[k],
+    set: (p: ModelProfile, v: Coeffs) => ({ ...p, zones: { ...p.zones, [k]: v as ModelProfile["zones"]["len"] } }),
+  })),
+];
+
+export default function ProfilePanel(props: Props) {
+  const custom = useSyncExternalStore(subscribeCustomProfiles, customProfilesSnapshot, () => NO_PROFILES);
+  const [showEdit, setShowEdit] = useState(false);
+  // Text being typed into a coefficient that the profile does not accept (yet), by path
+  const [draft, setDraft] = useState<{ path: string; text: string; error: string } | null>(null);
+
+  const p = props.profile;
+  const builtin = isBuiltinProfileId(p.id);
+  // An incident can carry a custom profile this browser has never seen
+  const known = builtin || custom.some((c) => c.id === p.id);
+
+  function persist(next: ModelProfile[]) {
+    try {
+      saveCustomProfiles(next);
+    } catch (e: unknown) {
+      alert(e instanceof Error ? e.message : String(e));
+    }
+  }
+
+  function select(id: string) {
+    const next = [...BUILTIN_PROFILES, ...custom].find((c) => c.id === id);
+    if (next) props.onProfile(next);
+  }
+
+  function update(next: ModelProfile) {
+    props.onProfile(next);
+    persist(custom.some((c) => c.id === next.id) ? custom.map((c) => (c.id === next.id ? next : c)) : [...custom, next]);
+  }
+
+  // Apply a typed coefficient only while the profile stays in range; otherwise keep the text, say why
+  function editCoeff(g: (typeof GROUPS)[number], vals: Coeffs, k: string, text: string) {
+    const path = `${g.path}.${k}`;
+    const n = Number(text);
+    if (text.trim() === "" || !Number.isFinite(n)) {
+      setDraft({ path, text, error: "Enter a number" });
+      return;
+    }
+    const next = g.set(p, { ...vals, [k]: n });
+    const problem = profileProblems(next).find((x) => x.path === path || x.path === g.path);
+    if (problem) {
+      setDraft({ path, text, error: problem.message });
+      return;
+    }
+    setDraft(null);
+    update(next);
+  }
+
+  function duplicate() {
+    const name = prompt("Name for the new profile", `${p.name} (copy)`);
+    if (!name) return;
+    const next = copyProfile(p, name);
+    persist([...custom, next]);
+    props.onProfile(next);
+    setShowEdit(true);
+  }
+
+  function remove() {
+    if (!confirm(`Delete profile "${p.name}"?`)) return;
+    persist(custom.filter((c) => c.id !== p.id));
+    props.onProfile(BUILTIN_PROFILES[0]);
+  }
+
+  async function importFile(f: File) {
+    try {
+      const next = parseProfileFile(await f.text());
+      if (isBuiltinProfileId(next.id)) next.id = copyProfile(next).id;
+      update(next);
+    } catch (e: unknown) {
+      alert(e instanceof Error ? e.message : String(e));
+    }
+  }
+
+  function exportFile() {
+    const safe = p.name.replace(/[^a-z0-9_-]+/gi, "_").slice(0, 60) || "profile";
+    props.downloadText(serializeProfile(p), `${safe}.scent-profile.json`, "application/json");
+  }
+
+  return (
+    <div style={{ marginTop: 12, padding: 10, borderRadius: 10, background: "#f9fafb" }}>
+      <b>Model profile</b>
+
+      <div style={{ marginTop: 8, display: "grid", gap: 8 }}>
+        <select
+          value={p.id}
+          onChange={(e) => select(e.target.value)}
+          style={{ padding: 10, borderRadius: 10 }}
+        >
+          <optgroup label="Built-in">
+            {BUILTIN_PROFILES.map((b) => (
+              <option key={b.id} value={b.id}>
+                {b.name}
+              </option>
+            ))}
+          </optgroup>
+          {(custom.length > 0 || !known) && (
+            <optgroup label="Custom">
+              {custom.map((c) => (
+                <option key={c.id} value={c.id}>
+                  {c.name}
+                </option>
+              ))}
+              {!known && <option value={p.id}>{p.name} (from incident)</option>}
+            </optgroup>
+          )}
+        </select>
+
+        {p.description && <div style={{ fontSize: 12, color: "#6b7280" }}>{p.description}</div>}
+
+        <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 8 }}>
+          <button onClick={duplicate} style={{ padding: 10, borderRadius: 10 }}>
+            Duplicate
+          </button>
+          <button onClick={exportFile} style={{ padding: 10, borderRadius: 10 }}>
+            Export
+          </button>
+          {!builtin && (
+            <>
+              <button onClick={() => setShowEdit((v) => !v)} style={{ padding: 10, borderRadius: 10 }}>
+                {showEdit ? "Hide coefficients" : "Edit coefficients"}
+              </button>
+              <button onClick={remove} disabled={!known} style={{ padding: 10, borderRadius: 10 }}>
+                Delete
+              </button>
+            </>
+          )}
+        </div>
+
+        <label style={{ fontSize: 12, color: "#6b7280" }}>
+          Import profile JSON
+          <input
+            type="file"
+            accept=".json,application/json"
+            onChange={(e) => {
+              const f = e.target.files?.[0];
+              e.target.value = "";
+              if (f) importFile(f);
+            }}
+            style={{ display: "block", marginTop: 4 }}
+          />
+        </label>
+
+        {builtin && (
+          <div style={{ fontSize: 12, color: "#6b7280" }}>Built-in profiles are read-only; duplicate one to tune it.</div>
+        )}
+
+        {!builtin && showEdit && (
+          <div style={{ display: "grid", gap: 8 }}>
+            <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 8 }}>
+              <input
+                value={p.name}
+                onChange={(e) => update({ ...p, name: e.target.value })}
+                style={{ padding: 10, borderRadius: 10, minWidth: 0 }}
+              />
+              <select
+                value={p.discipline}
+                onChange={(e) => update({ ...p, discipline: e.target.value as Discipline })}
+                style={{ padding: 10, borderRadius: 10 }}
+              >
+                {DISCIPLINES.map((d) => (
+                  <option key={d} value={d}>
+                    {d}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {GROUPS.map((g) => {
+              const vals = g.get(p);
+              const groupDraft = draft?.path.startsWith(`${g.path}.`) ? draft : null;
+              return (
+                <div key={g.label}>
+                  <div style={{ fontSize: 12, color: "#6b7280" }}>{g.label}</div>
+                  <div style={{ display: "grid", gridTemplateColumns: "repeat(3, 1fr)", gap: 6, marginTop: 4 }}>
+                    {Object.entries(vals).map(([k, v]) => {
+                      const typed = groupDraft?.path === `${g.path}.${k}` ? groupDraft.text : null;
+                      return (
+                        <label key={k} style={{ fontSize: 11, color: "#6b7280" }}>
+                          {k}
+                          <input
+                            type="number"
+                            step="any"
+                            value={typed ?? v}
+                            onChange={(e) => editCoeff(g, vals, k, e.target.value)}
+                            onBlur={() => typed != null && setDraft(null)}
+                            style={{
+                              display: "block",
+                              width: "100%",
+                              padding: 6,
+                              borderRadius: 8,
+                              boxSizing: "border-box",
+                              borderColor: typed != null ? "#b91c1c" : undefined,
+                            }}
+                          />
+                        </label>
+                      );
+                    })}
+                  </div>
+                  {groupDraft && <div style={{ marginTop: 4, fontSize: 12, color: "#b91c1c" }}>{groupDraft.error}</div>}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,27 +1,137 @@
-import React, { useMemo, useRef, useState } from "react";
-import ConeCanvas from "@/components/ConeCanvas";
-import { WindData } from "@/lib/cone";
+import React, { useEffect, useMemo, useRef, useState, useSyncExternalStore } from "react";
+import ConeCanvas, { downloadDataUrlPNG_ICS, type CanvasEnvelope } from "@/components/ConeCanvas";
+import { mpsToMph, WindData } from "@/lib/cone";
+import {
+  fitGeoref,
+  imageBearingDeg,
+  latLonToPixel,
+  MIN_CONTROL_POINTS,
+  pixelToLatLon,
+  ringToPixels,
+  usableControlPoints,
+  type ControlPoint,
+  type GeorefKind,
+  type PixelPoint,
+} from "@/lib/georef";
+import { computeScentEnvelope, type EnvelopeInputs, type TerrainType } from "@/lib/scentEnvelope";
+import type { DerivedEnvironment } from "@/lib/conditions";
+import { getActiveIncidentId, loadIncident } from "@/lib/incidentStore";
+import { isoNow, isoToLocalInput, localInputToIso } from "@/lib/localTime";
+import {
+  BUILTIN_PROFILES,
+  customProfilesSnapshot,
+  DEFAULT_PROFILE,
+  profileLabel,
+  subscribeCustomProfiles,
+  type ModelProfile,
+} from "@/lib/modelProfile";
+import {
+  decodeGeoPdf,
+  decodeGeoTiff,
+  georefFromTransform,
+  WORLD_FILE_EXT,
+  worldFileTransform,
+  type DecodedRaster,
+  type ImportedGeoref,
+} from "@/lib/rasterImport";
 
-type CalPoint = {
-  px: { x: number; y: number } | null;
-  lat: number | null;
-  lon: number | null;
-};
+// Residuals above this get the point flagged (typo in a coordinate, or a misplaced click)
+const RESIDUAL_WARN_M = 15;
 
-function solveLinearMap(a: CalPoint, b: CalPoint) {
-  if (!a.px || !b.px || a.lat == null || a.lon == null || b.lat == null || b.lon == null) return null;
+const BAND_OPTIONS = [15, 30, 60, 120, 240];
 
-  const dx = b.px.x - a.px.x;
-  const dy = b.px.y - a.px.y;
+const NO_PROFILES: ModelProfile[] = [];
 
-  const dLon = b.lon - a.lon;
-  const dLat = b.lat - a.lat;
+function uid() {
+  return `cp_${Math.random().toString(16).slice(2)}_${Date.now().toString(16)}`;
+}
+
+// A control point as typed: lat/lon stay text until the fit reads them, so "27." or a lone "-" survive
+type ControlPointDraft = { id: string; px: PixelPoint; lat: string; lon: string };
+
+function coordOrNull(v: string) {
+  const n = v.trim() === "" ? NaN : Number(v);
+  return Number.isFinite(n) ? n : null;
+}
+
+function toDraft(p: ControlPoint): ControlPointDraft {
+  return { id: p.id, px: p.px, lat: p.lat == null ? "" : String(p.lat), lon: p.lon == null ? "" : String(p.lon) };
+}
 
-  const kLon = dx !== 0 ? dLon / dx : null;
-  const kLat = dy !== 0 ? dLat / dy : null;
+function imageFromBlob(blob: Blob): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const im = new Image();
+    im.onload = () => resolve(im);
+    im.onerror = () => reject(new Error("Could not read the image."));
+    im.src = URL.createObjectURL(blob);
+  });
+}
 
-  if (kLon == null || kLat == null) return null;
-  return { a, kLon, kLat };
+/** Decoded GeoTIFF/GeoPDF pixels as something an <img> can load. */
+async function rasterToBlob(r: DecodedRaster): Promise<Blob> {
+  if (r.pixels.kind === "jpeg") return new Blob([r.pixels.bytes as BlobPart], { type: "image/jpeg" });
+  const canvas = document.createElement("canvas");
+  canvas.width = r.width;
+  canvas.height = r.height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas not available.");
+  ctx.putImageData(new ImageData(r.pixels.rgba, r.width, r.height), 0, 0);
+  return new Promise((resolve, reject) =>
+    canvas.toBlob((b) => (b ? resolve(b) : reject(new Error("Could not encode the image."))), "image/png")
+  );
+}
+
+/** Numbered control point on the image; drag to move it (the image is drawn 1:1 in CSS pixels). */
+function ControlPointMarker(props: {
+  index: number;
+  point: ControlPoint;
+  error_m: number | null;
+  onMove: (px: { x: number; y: number }) => void;
+}) {
+  const bad = props.error_m != null && props.error_m > RESIDUAL_WARN_M;
+
+  function toImage(e: React.PointerEvent<HTMLDivElement>) {
+    const parent = e.currentTarget.parentElement;
+    if (!parent) return null;
+    const rect = parent.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  }
+
+  return (
+    <div
+      title={props.error_m != null ? `Residual ${props.error_m.toFixed(1)} m` : "No fit yet"}
+      onPointerDown={(e) => {
+        e.currentTarget.setPointerCapture(e.pointerId);
+        e.preventDefault();
+      }}
+      onPointerMove={(e) => {
+        if (!e.currentTarget.hasPointerCapture(e.pointerId)) return;
+        const px = toImage(e);
+        if (px) props.onMove(px);
+      }}
+      style={{
+        position: "absolute",
+        left: props.point.px.x - 11,
+        top: props.point.px.y - 11,
+        width: 22,
+        height: 22,
+        borderRadius: 11,
+        background: bad ? "#dc2626" : "#2563eb",
+        border: "2px solid white",
+        color: "white",
+        fontSize: 11,
+        fontWeight: 700,
+        display: "flex",
+        alignItems: "center",
+        justifyContent: "center",
+        cursor: "grab",
+        touchAction: "none",
+        boxShadow: "0 1px 3px rgba(0,0,0,0.5)",
+      }}
+    >
+      {props.index + 1}
+    </div>
+  );
 }
 
 export default function ScreenshotMode() {
@@ -32,29 +142,225 @@ export default function ScreenshotMode() {
   const [lengthPx, setLengthPx] = useState(900);
   const [halfAngleDeg, setHalfAngleDeg] = useState<"auto" | number>("auto");
 
-  const [calA, setCalA] = useState<CalPoint>({ px: null, lat: null, lon: null });
-  const [calB, setCalB] = useState<CalPoint>({ px: null, lat: null, lon: null });
-  const [mode, setMode] = useState<"none" | "A" | "B" | "SRC">("none");
+  const [pointDrafts, setPointDrafts] = useState<ControlPointDraft[]>([]);
+  const [fitKind, setFitKind] = useState<GeorefKind>("affine");
+  const [mode, setMode] = useState<"none" | "addPoint" | "SRC">("none");
+
+  // Control points filled in from a GeoTIFF, world file or GeoPDF (null = calibrated by hand)
+  const [imported, setImported] = useState<ImportedGeoref | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
 
   const [windMode, setWindMode] = useState<"current" | "hourly" | "manual">("current");
   const [manualSpeedMph, setManualSpeedMph] = useState<number>(11);
   const [manualFromDeg, setManualFromDeg] = useState<number>(315);
 
+  // Envelope model: the source is the LKP; environment from the weather at the source or typed in
+  const [showEnvelope, setShowEnvelope] = useState(true);
+  const [showCone, setShowCone] = useState(true);
+  const [lkpISO, setLkpISO] = useState(() => new Date(Date.now() - 60 * 60000).toISOString());
+  const [modelISO, setModelISO] = useState(isoNow);
+  const [bandSet, setBandSet] = useState<number[]>([30, 60, 120]);
+  const [env, setEnv] = useState<DerivedEnvironment>({
+    tempF: 75,
+    rh: 50,
+    cloud: "partly",
+    precip: "none",
+    recentRain: false,
+    stability: "neutral",
+  });
+  const [terrain, setTerrain] = useState<TerrainType>("mixed");
+  const [profile, setProfile] = useState<ModelProfile>(DEFAULT_PROFILE);
+  const customProfiles = useSyncExternalStore(subscribeCustomProfiles, customProfilesSnapshot, () => NO_PROFILES);
+  const [notes, setNotes] = useState("");
+  const [envError, setEnvError] = useState<string | null>(null);
+
   const wrapRef = useRef<HTMLDivElement | null>(null);
 
+  // Start from the live map's profile: the one selected (or calibrated) in the open incident
+  useEffect(() => {
+    const id = getActiveIncidentId();
+    if (!id) return;
+    loadIncident(id)
+      .then((inc) => {
+        if (inc) setProfile(inc.modelProfile);
+      })
+      .catch(() => {
+        // no storage: keep the default profile
+      });
+  }, []);
+
+  const profileChoices = useMemo(() => {
+    const all = [...BUILTIN_PROFILES, ...customProfiles];
+    return all.some((p) => p.id === profile.id) ? all : [...all, profile];
+  }, [customProfiles, profile]);
+
   const W = imgEl?.naturalWidth ?? 1200;
   const H = imgEl?.naturalHeight ?? 800;
 
-  const mapping = useMemo(() => solveLinearMap(calA, calB), [calA, calB]);
+  const controlPoints: ControlPoint[] = useMemo(
+    () => pointDrafts.map((d) => ({ id: d.id, px: d.px, lat: coordOrNull(d.lat), lon: coordOrNull(d.lon) })),
+    [pointDrafts]
+  );
+  const mapping = useMemo(() => fitGeoref(controlPoints, fitKind), [controlPoints, fitKind]);
+  const residuals = useMemo(() => new Map(mapping?.residuals.map((r) => [r.id, r.error_m]) ?? []), [mapping]);
+  const usable = usableControlPoints(controlPoints).length;
+
+  const srcLL = useMemo(() => (mapping && srcPoint ? pixelToLatLon(mapping, srcPoint) : null), [mapping, srcPoint]);
+
+  // The cone is drawn in pixels, so the wind direction is turned into the image's own orientation at the source
+  const screenFromDeg = useMemo(
+    () => (mapping && srcLL && wind ? imageBearingDeg(mapping, srcLL, wind.wind_dir_from_deg) : null),
+    [mapping, srcLL, wind]
+  );
+
+  // Same model as the live map, on the ground, then projected onto the image through the calibration
+  const envelope = useMemo(() => {
+    if (!showEnvelope || !srcLL || !wind) return null;
+    const base: Omit<EnvelopeInputs, "now_time_iso"> = {
+      lkp_lat: srcLL.lat,
+      lkp_lon: srcLL.lon,
+      lkp_time_iso: lkpISO,
+      wind_from_deg: wind.wind_dir_from_deg,
+      wind_speed_mph: mpsToMph(wind.wind_speed_mps),
+      wind_sigma_theta_deg: wind.dir_sigma_deg,
+      wind_gust_mph: wind.gust_mps != null ? mpsToMph(wind.gust_mps) : null,
+      temperature_f: env.tempF,
+      rel_humidity_pct: env.rh,
+      cloud: env.cloud,
+      precip: env.precip,
+      recent_rain: env.recentRain,
+      terrain,
+      stability: env.stability,
+      profile,
+    };
+    const addMin = (m: number) => new Date(Date.parse(lkpISO) + m * 60000).toISOString();
+    return {
+      now: computeScentEnvelope({ ...base, now_time_iso: modelISO }),
+      bands: bandSet
+        .slice()
+        .sort((a, b) => a - b)
+        .map((m) => ({ minutes: m, residual: computeScentEnvelope({ ...base, now_time_iso: addMin(m) }).polygons.residual })),
+    };
+  }, [showEnvelope, srcLL, wind, lkpISO, modelISO, bandSet, env, terrain, profile]);
+
+  const canvasEnvelope: CanvasEnvelope | null = useMemo(() => {
+    if (!mapping || !envelope) return null;
+    const { polygons, recommended_start_points } = envelope.now;
+    return {
+      zones: {
+        core: ringToPixels(mapping, polygons.core),
+        fringe: ringToPixels(mapping, polygons.fringe),
+        residual: ringToPixels(mapping, polygons.residual),
+      },
+      bands: envelope.bands.map((b) => ({ minutes: b.minutes, ring: ringToPixels(mapping, b.residual) })),
+      startPoints: recommended_start_points.flatMap((sp) => {
+        const px = latLonToPixel(mapping, sp.point);
+        return px ? [px] : [];
+      }),
+    };
+  }, [mapping, envelope]);
+
+  async function fillFromWeather() {
+    if (!srcLL) return;
+    setEnvError(null);
+    try {
+      const r = await fetch("/api/conditions", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ lat: srcLL.lat, lon: srcLL.lon, time_iso: modelISO }),
+      });
+      const js = await r.json();
+      if (!r.ok) throw new Error(js?.error || "Conditions fetch failed");
+      setEnv(js.derived);
+    } catch (e: unknown) {
+      setEnvError(e instanceof Error ? e.message : String(e));
+    }
+  }
+
+  async function exportPng() {
+    const canvas = wrapRef.current?.querySelector("canvas");
+    if (!canvas || !wind) return;
+    try {
+      await downloadDataUrlPNG_ICS(canvas.toDataURL("image/png"), `scent-screenshot-${Date.now()}.png`, {
+        notes,
+        lat: srcLL?.lat,
+        lon: srcLL?.lon,
+        windSource: wind.provider ?? wind.source ?? "manual",
+        windFromDeg: wind.wind_dir_from_deg,
+        windSpeedMps: wind.wind_speed_mps,
+        windSpeedMph: mpsToMph(wind.wind_speed_mps),
+        timeLocal: new Date(modelISO).toLocaleString(),
+        timeUtc: modelISO,
+        coneLengthPx: lengthPx,
+        coneHalfAngleDeg: halfAngleDeg,
+      });
+    } catch (e: unknown) {
+      alert(e instanceof Error ? e.message : String(e));
+    }
+  }
+
+  /**
+   * Open a screenshot, or a georeferenced map: a GeoTIFF, a GeoPDF, or an image picked together
+   * with its world file (and .prj). Georeferenced files fill in the control points; when that
+   * fails the image still opens for calibrating by hand.
+   */
+  async function openFiles(files: File[]) {
+    if (!files.length) return;
+    const byName = (re: RegExp) => files.find((f) => re.test(f.name));
+    const tif = byName(/\.tiff?$/i);
+    const pdf = byName(/\.pdf$/i);
+    const world = byName(WORLD_FILE_EXT);
+    const prj = byName(/\.prj$/i);
+    const picture = files.find((f) => f.type.startsWith("image/") && f !== tif);
 
-  function pixelToLatLon(px: { x: number; y: number }) {
-    if (!mapping) return null;
-    const { a, kLat, kLon } = mapping;
-    if (!a.px || a.lat == null || a.lon == null) return null;
+    setImporting(true);
+    setImportError(null);
+    try {
+      let blob: Blob;
+      let georef: ImportedGeoref | null = null;
+      if (pdf) {
+        const r = await decodeGeoPdf(await pdf.arrayBuffer(), pdf.name);
+        blob = await rasterToBlob(r);
+        georef = r.georef;
+      } else if (tif) {
+        const r = await decodeGeoTiff(await tif.arrayBuffer());
+        blob = await rasterToBlob(r);
+        if (r.transform) georef = georefFromTransform(r.transform, r.width, r.height, tif.name);
+      } else if (picture) {
+        blob = picture;
+      } else {
+        throw new Error("Pick an image, GeoTIFF or GeoPDF (with the image's world file and .prj, if it has them).");
+      }
 
-    const lon = a.lon + (px.x - a.px.x) * kLon;
-    const lat = a.lat + (px.y - a.px.y) * kLat;
-    return { lat, lon };
+      const im = await imageFromBlob(blob);
+      let warning: string | null = null;
+      if (!georef && world) {
+        try {
+          const t = worldFileTransform(await world.text(), prj ? await prj.text() : null);
+          georef = georefFromTransform(t, im.naturalWidth, im.naturalHeight, world.name);
+        } catch (e: unknown) {
+          warning = `${e instanceof Error ? e.message : String(e)} Calibrate by hand instead.`;
+        }
+      }
+
+      setImgEl(im);
+      setSrcPoint(null);
+      setWind(null);
+      setPointDrafts((georef?.points ?? []).map(toDraft));
+      if (georef) setFitKind(georef.kind);
+      setImported(georef);
+      setImportError(warning);
+      setMode("none");
+    } catch (e: unknown) {
+      setImportError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setImporting(false);
+    }
+  }
+
+  function updatePoint(id: string, patch: Partial<ControlPointDraft>) {
+    setPointDrafts((prev) => prev.map((p) => (p.id === id ? { ...p, ...patch } : p)));
   }
 
   async function fetchWind(lat: number, lon: number) {
@@ -83,9 +389,9 @@ export default function ScreenshotMode() {
         }}
       >
         {!imgEl ? (
-          <div style={{ padding: 18, color: "#6b7280" }}>Upload a screenshot to begin.</div>
+          <div style={{ padding: 18, color: "#6b7280" }}>Upload a screenshot or a georeferenced map to begin.</div>
         ) : (
-          <div style={{ width: W, height: H }}>
+          <div style={{ position: "relative", width: W, height: H }}>
             <ConeCanvas
               width={W}
               height={H}
@@ -94,22 +400,27 @@ export default function ScreenshotMode() {
               lengthPx={lengthPx}
               halfAngleDeg={halfAngleDeg}
               backgroundImage={imgEl}
+              screenFromDeg={screenFromDeg}
+              envelope={canvasEnvelope}
+              showCone={showCone}
+              label={
+                envelope
+                  ? `Envelope at T+${Math.round(envelope.now.t_minutes)} min • confidence ${envelope.now.confidence_score} (${envelope.now.confidence_band}) • ${profileLabel(profile)}`
+                  : undefined
+              }
               onClick={async (pt) => {
-                if (mode === "A") {
-                  setCalA((p) => ({ ...p, px: pt }));
-                  setMode("none");
-                  return;
-                }
-                if (mode === "B") {
-                  setCalB((p) => ({ ...p, px: pt }));
+                if (mode === "addPoint") {
+                  setPointDrafts((prev) => [...prev, { id: uid(), px: pt, lat: "", lon: "" }]);
                   setMode("none");
                   return;
                 }
                 if (mode === "SRC") {
                   setSrcPoint(pt);
-                  const ll = pixelToLatLon(pt);
+                  const ll = mapping ? pixelToLatLon(mapping, pt) : null;
                   if (!ll) {
-                    alert("Calibration incomplete. Set Cal A + Cal B (both pixel and lat/lon).");
+                    alert(
+                      `Calibration incomplete. Add at least ${MIN_CONTROL_POINTS[fitKind]} control points with lat/lon, not all in a line.`
+                    );
                     return;
                   }
 
@@ -136,6 +447,15 @@ export default function ScreenshotMode() {
                 }
               }}
             />
+            {controlPoints.map((p, i) => (
+              <ControlPointMarker
+                key={p.id}
+                index={i}
+                point={p}
+                error_m={residuals.get(p.id) ?? null}
+                onMove={(px) => updatePoint(p.id, { px })}
+              />
+            ))}
           </div>
         )}
       </div>
@@ -145,23 +465,16 @@ export default function ScreenshotMode() {
 
         <input
           type="file"
-          accept="image/*"
-          onChange={(e) => {
-            const f = e.target.files?.[0];
-            if (!f) return;
-            const url = URL.createObjectURL(f);
-            const im = new Image();
-            im.onload = () => {
-              setImgEl(im);
-              setSrcPoint(null);
-              setWind(null);
-              setCalA({ px: null, lat: null, lon: null });
-              setCalB({ px: null, lat: null, lon: null });
-              setMode("none");
-            };
-            im.src = url;
-          }}
+          multiple
+          accept="image/*,.tif,.tiff,.pdf,.pgw,.pngw,.jgw,.jpgw,.jpegw,.tfw,.tifw,.gfw,.wld,.prj"
+          onChange={(e) => openFiles(Array.from(e.target.files ?? []))}
         />
+        <div style={{ marginTop: 6, fontSize: 12, color: "#6b7280" }}>
+          {importing
+            ? "Reading…"
+            : "A screenshot, a GeoTIFF or GeoPDF, or an image picked together with its world file (.pgw/.jgw/.wld) and .prj."}
+        </div>
+        {importError && <div style={{ marginTop: 6, fontSize: 12, color: "#b91c1c" }}>{importError}</div>}
 
         <label style={{ display: "block", marginTop: 12 }}>Wind source</label>
         <select
@@ -197,55 +510,109 @@ export default function ScreenshotMode() {
         )}
 
         <div style={{ marginTop: 12, padding: 10, borderRadius: 10, background: "#f9fafb" }}>
-          <b>Calibration (2 points)</b>
+          <b>Calibration (control points)</b>
           <p style={{ margin: "6px 0", color: "#6b7280", fontSize: 12 }}>
-            Click Cal A on the image, enter its lat/lon. Then do Cal B. Works best with north-up screenshots.
+            Click a recognisable spot on the image, then enter its lat/lon. Three points fit any rotation or scale;
+            use four or more spread across the image to check the fit. Drag a numbered point to move it.
           </p>
+          {imported && (
+            <div style={{ display: "flex", gap: 8, alignItems: "center", marginBottom: 8, fontSize: 12, color: "#374151" }}>
+              <span style={{ flex: 1 }}>
+                Georeferenced from {imported.source} ({imported.crs_label}): {imported.points.length} points filled in.
+                Edit or drag them to refine.
+              </span>
+              <button
+                onClick={() => {
+                  setPointDrafts([]);
+                  setImported(null);
+                }}
+                style={{ padding: "6px 10px", borderRadius: 10 }}
+              >
+                Calibrate by hand
+              </button>
+            </div>
+          )}
 
-          <button
-            onClick={() => setMode("A")}
-            style={{ width: "100%", padding: 10, borderRadius: 10 }}
-            disabled={!imgEl}
-          >
-            Set Cal A (click image)
-          </button>
-
-          <div style={{ display: "flex", gap: 8, marginTop: 8 }}>
-            <input
-              placeholder="Cal A lat"
-              value={calA.lat ?? ""}
-              onChange={(e) => setCalA((p) => ({ ...p, lat: e.target.value === "" ? null : Number(e.target.value) }))}
-              style={{ flex: 1, padding: 10, borderRadius: 10 }}
-            />
-            <input
-              placeholder="Cal A lon"
-              value={calA.lon ?? ""}
-              onChange={(e) => setCalA((p) => ({ ...p, lon: e.target.value === "" ? null : Number(e.target.value) }))}
-              style={{ flex: 1, padding: 10, borderRadius: 10 }}
-            />
+          <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 8 }}>
+            <button
+              onClick={() => setMode(mode === "addPoint" ? "none" : "addPoint")}
+              style={{ padding: 10, borderRadius: 10, fontWeight: mode === "addPoint" ? 700 : 500 }}
+              disabled={!imgEl}
+            >
+              {mode === "addPoint" ? "Click the image…" : "Add point"}
+            </button>
+            <select
+              value={fitKind}
+              onChange={(e) => setFitKind(e.target.value as GeorefKind)}
+              style={{ padding: 10, borderRadius: 10 }}
+              disabled={!imgEl}
+            >
+              <option value="affine">Affine (3+ points)</option>
+              <option value="projective">Projective (4+, oblique)</option>
+            </select>
           </div>
 
-          <button
-            onClick={() => setMode("B")}
-            style={{ width: "100%", padding: 10, borderRadius: 10, marginTop: 10 }}
-            disabled={!imgEl}
-          >
-            Set Cal B (click image)
-          </button>
+          {pointDrafts.map((p, i) => {
+            const err = residuals.get(p.id);
+            // Half-typed is fine; only text that can never be a number is flagged
+            const bad = (v: string) => coordOrNull(v) == null && !/^\s*-?\.?\s*$/.test(v);
+            return (
+              <div key={p.id} style={{ display: "flex", gap: 6, marginTop: 8, alignItems: "center" }}>
+                <span style={{ width: 18, fontWeight: 700, fontSize: 12 }}>{i + 1}</span>
+                <input
+                  placeholder="lat"
+                  inputMode="decimal"
+                  value={p.lat}
+                  onChange={(e) => updatePoint(p.id, { lat: e.target.value })}
+                  style={{
+                    flex: 1,
+                    minWidth: 0,
+                    padding: 8,
+                    borderRadius: 10,
+                    borderColor: bad(p.lat) ? "#b91c1c" : undefined,
+                  }}
+                />
+                <input
+                  placeholder="lon"
+                  inputMode="decimal"
+                  value={p.lon}
+                  onChange={(e) => updatePoint(p.id, { lon: e.target.value })}
+                  style={{
+                    flex: 1,
+                    minWidth: 0,
+                    padding: 8,
+                    borderRadius: 10,
+                    borderColor: bad(p.lon) ? "#b91c1c" : undefined,
+                  }}
+                />
+                <span
+                  title="Residual: distance between the typed position and the fit"
+                  style={{
+                    width: 58,
+                    textAlign: "right",
+                    fontFamily: "ui-monospace, Menlo, monospace",
+                    fontSize: 12,
+                    color: err != null && err > RESIDUAL_WARN_M ? "#b91c1c" : "#374151",
+                  }}
+                >
+                  {err != null ? `${err.toFixed(1)} m` : "—"}
+                </span>
+                <button
+                  onClick={() => setPointDrafts((prev) => prev.filter((x) => x.id !== p.id))}
+                  style={{ padding: "6px 10px", borderRadius: 10 }}
+                >
+                  ✕
+                </button>
+              </div>
+            );
+          })}
 
-          <div style={{ display: "flex", gap: 8, marginTop: 8 }}>
-            <input
-              placeholder="Cal B lat"
-              value={calB.lat ?? ""}
-              onChange={(e) => setCalB((p) => ({ ...p, lat: e.target.value === "" ? null : Number(e.target.value) }))}
-              style={{ flex: 1, padding: 10, borderRadius: 10 }}
-            />
-            <input
-              placeholder="Cal B lon"
-              value={calB.lon ?? ""}
-              onChange={(e) => setCalB((p) => ({ ...p, lon: e.target.value === "" ? null : Number(e.target.value) }))}
-              style={{ flex: 1, padding: 10, borderRadius: 10 }}
-            />
+          <div style={{ marginTop: 8, fontSize: 12, color: "#6b7280" }}>
+            {mapping
+              ? `${mapping.kind === "affine" ? "Affine" : "Projective"} fit from ${usable} points • RMS ${mapping.rms_m.toFixed(1)} m${
+                  usable === MIN_CONTROL_POINTS[fitKind] ? " (exact with this many points; add one more to check it)" : ""
+                }`
+              : `Needs ${MIN_CONTROL_POINTS[fitKind]} points with lat/lon, not all in a line (${usable} so far).`}
           </div>
 
           <button
@@ -257,6 +624,187 @@ export default function ScreenshotMode() {
           </button>
         </div>
 
+        <div style={{ marginTop: 12, padding: 10, borderRadius: 10, background: "#f9fafb" }}>
+          <b>Envelope</b>
+
+          <div style={{ marginTop: 8, display: "grid", gap: 8 }}>
+            <label style={{ display: "flex", gap: 8, alignItems: "center" }}>
+              <input type="checkbox" checked={showEnvelope} onChange={(e) => setShowEnvelope(e.target.checked)} />
+              Core / fringe / residual from the source as LKP
+            </label>
+            <label style={{ display: "flex", gap: 8, alignItems: "center" }}>
+              <input type="checkbox" checked={showCone} onChange={(e) => setShowCone(e.target.checked)} />
+              Simple cone
+            </label>
+
+            <label style={{ display: "grid", gap: 4, fontSize: 12, color: "#6b7280" }}>
+              Model profile
+              <select
+                value={profile.id}
+                onChange={(e) => {
+                  const next = profileChoices.find((p) => p.id === e.target.value);
+                  if (next) setProfile(next);
+                }}
+                style={{ padding: 10, borderRadius: 10 }}
+              >
+                {profileChoices.map((p) => (
+                  <option key={p.id} value={p.id}>
+                    {profileLabel(p)}
+                  </option>
+                ))}
+              </select>
+            </label>
+
+            <label style={{ display: "grid", gap: 4, fontSize: 12, color: "#6b7280" }}>
+              LKP Date/Time (local)
+              <input
+                type="datetime-local"
+                value={isoToLocalInput(lkpISO)}
+                onChange={(e) => setLkpISO(localInputToIso(e.target.value) ?? lkpISO)}
+                style={{ padding: 10, borderRadius: 10 }}
+              />
+            </label>
+            <label style={{ display: "grid", gap: 4, fontSize: 12, color: "#6b7280" }}>
+              Model time (local)
+              <div style={{ display: "flex", gap: 8 }}>
+                <input
+                  type="datetime-local"
+                  value={isoToLocalInput(modelISO)}
+                  onChange={(e) => setModelISO(localInputToIso(e.target.value) ?? modelISO)}
+                  style={{ flex: 1, minWidth: 0, padding: 10, borderRadius: 10 }}
+                />
+                <button onClick={() => setModelISO(isoNow())} style={{ padding: 10, borderRadius: 10 }}>
+                  Now
+                </button>
+              </div>
+            </label>
+
+            <div style={{ display: "flex", gap: 8 }}>
+              {BAND_OPTIONS.map((m) => (
+                <button
+                  key={m}
+                  onClick={() => setBandSet((prev) => (prev.includes(m) ? prev.filter((x) => x !== m) : [...prev, m]))}
+                  style={{ padding: "8px 10px", borderRadius: 10, fontWeight: bandSet.includes(m) ? 700 : 500 }}
+                >
+                  {m}m
+                </button>
+              ))}
+            </div>
+
+            <div style={{ display: "flex", gap: 8 }}>
+              <label style={{ flex: 1, display: "grid", gap: 4, fontSize: 12, color: "#6b7280" }}>
+                Temp °F
+                <input
+                  type="number"
+                  value={env.tempF}
+                  onChange={(e) => setEnv({ ...env, tempF: Number(e.target.value) })}
+                  style={{ padding: 10, borderRadius: 10, minWidth: 0 }}
+                />
+              </label>
+              <label style={{ flex: 1, display: "grid", gap: 4, fontSize: 12, color: "#6b7280" }}>
+                RH %
+                <input
+                  type="number"
+                  value={env.rh}
+                  onChange={(e) => setEnv({ ...env, rh: Number(e.target.value) })}
+                  style={{ padding: 10, borderRadius: 10, minWidth: 0 }}
+                />
+              </label>
+            </div>
+
+            <div style={{ display: "flex", gap: 8 }}>
+              <select
+                value={env.cloud}
+                onChange={(e) => setEnv({ ...env, cloud: e.target.value as DerivedEnvironment["cloud"] })}
+                style={{ flex: 1, padding: 10, borderRadius: 10 }}
+              >
+                <option value="clear">Clear</option>
+                <option value="partly">Partly</option>
+                <option value="overcast">Overcast</option>
+                <option value="night">Night</option>
+              </select>
+              <select
+                value={env.precip}
+                onChange={(e) => setEnv({ ...env, precip: e.target.value as DerivedEnvironment["precip"] })}
+                style={{ flex: 1, padding: 10, borderRadius: 10 }}
+              >
+                <option value="none">No precip</option>
+                <option value="light">Light</option>
+                <option value="moderate">Moderate</option>
+                <option value="heavy">Heavy</option>
+              </select>
+            </div>
+
+            <div style={{ display: "flex", gap: 8 }}>
+              <select
+                value={terrain}
+                onChange={(e) => setTerrain(e.target.value as TerrainType)}
+                style={{ flex: 1, padding: 10, borderRadius: 10 }}
+              >
+                <option value="mixed">Mixed</option>
+                <option value="open">Open</option>
+                <option value="forest">Forest</option>
+                <option value="urban">Urban</option>
+                <option value="swamp">Swamp/Brush</option>
+                <option value="beach">Beach/Sand</option>
+              </select>
+              <select
+                value={env.stability}
+                onChange={(e) => setEnv({ ...env, stability: e.target.value as DerivedEnvironment["stability"] })}
+                style={{ flex: 1, padding: 10, borderRadius: 10 }}
+              >
+                <option value="neutral">Neutral</option>
+                <option value="stable">Stable (night/overcast)</option>
+                <option value="convective">Convective (sunny)</option>
+              </select>
+            </div>
+
+            <label style={{ display: "flex", gap: 8, alignItems: "center" }}>
+              <input
+                type="checkbox"
+                checked={env.recentRain}
+                onChange={(e) => setEnv({ ...env, recentRain: e.target.checked })}
+              />
+              Recent rain ended (conservative)
+            </label>
+
+            <button onClick={fillFromWeather} disabled={!srcLL} style={{ padding: 10, borderRadius: 10 }}>
+              Fill conditions from weather at the source
+            </button>
+            {envError && <div style={{ fontSize: 12, color: "#b91c1c" }}>Weather unavailable ({envError}).</div>}
+
+            {envelope ? (
+              <div style={{ fontSize: 12, lineHeight: 1.4 }}>
+                <b>Confidence:</b> {envelope.now.confidence_score} ({envelope.now.confidence_band}) • <b>Reset:</b>{" "}
+                {envelope.now.reset_recommendation_minutes} min
+                <ol style={{ margin: "6px 0 0 18px", padding: 0 }}>
+                  {envelope.now.recommended_start_points.map((sp) => (
+                    <li key={sp.label}>{sp.label}</li>
+                  ))}
+                </ol>
+                <ul style={{ margin: "6px 0 0 18px", padding: 0 }}>
+                  {envelope.now.deployment_notes.slice(0, 6).map((n, i) => (
+                    <li key={i}>{n}</li>
+                  ))}
+                </ul>
+              </div>
+            ) : (
+              <div style={{ fontSize: 12, color: "#6b7280" }}>Calibrate, then set the source to draw the envelope.</div>
+            )}
+
+            <textarea
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Notes for the export (agency, map source, assumptions…)"
+              rows={2}
+              style={{ padding: 10, borderRadius: 10, fontFamily: "inherit" }}
+            />
+            <button onClick={exportPng} disabled={!wind} style={{ padding: 10, borderRadius: 10 }}>
+              Export PNG with ICS footer
+            </button>
+          </div>
+        </div>
+
         <label style={{ display: "block", marginTop: 12 }}>Cone length</label>
         <input
           type="range"
@@ -0,0 +1,313 @@
+import React, { useState } from "react";
+import {
+  coverageFromTracks,
+  podFromCoverage,
+  seedSegmentPoa,
+  SEGMENT_STATUS_COLORS,
+  SEGMENT_STATUS_LABELS,
+  SEGMENT_STATUSES,
+  tracksForSortie,
+  type PlanBookkeeping,
+  type SearchSegment,
+  type SegmentStatus,
+  type Sortie,
+} from "@/lib/searchSegments";
+import type { Track } from "@/lib/tracks";
+
+type Props = {
+  segments: SearchSegment[];
+  period: number;
+  periodStartISO: string | null; // when the current period opened (null = start of the incident)
+  bookkeeping: PlanBookkeeping;
+  onSegments: (segments: SearchSegment[]) => void;
+  onPeriod: (period: number, startISO: string) => void;
+
+  // Drawing a new segment: each map click adds a vertex
+  drawing: boolean;
+  draftCount: number;
+  onDraw: (on: boolean) => void;
+  onFinishDraft: () => void;
+
+  // Scent (and subject-travel) mass inside each segment; null until there is an envelope
+  seedShares: ((segments: SearchSegment[]) => number[]) | null;
+  seedLabel: string;
+
+  // Debrief tracks for coverage; sweep width defaults to twice the detection radius
+  tracks: Track[];
+  detectionRadiusM: number;
+};
+
+type SortieDraft = { team: string; coverage: number; pod: number | null };
+
+const pct = (v: number) => `${(v * 100).toFixed(v < 0.1 ? 1 : 0)}%`;
+
+function uid() {
+  return `sortie_${Math.random().toString(16).slice(2)}_${Date.now().toString(16)}`;
+}
+
+export default function SegmentPanel(props: Props) {
+  const [openId, setOpenId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<SortieDraft>({ team: "", coverage: 1, pod: null });
+  const [overlap, setOverlap] = useState(false);
+  const [trackError, setTrackError] = useState<string | null>(null);
+
+  const standing = new Map(props.bookkeeping.current.map((s) => [s.id, s]));
+  const seededTotal = props.segments.reduce((a, s) => a + s.poa, 0);
+
+  function update(id: string, patch: Partial<SearchSegment>) {
+    props.onSegments(props.segments.map((s) => (s.id === id ? { ...s, ...patch } : s)));
+  }
+
+  function seed() {
+    if (!props.seedShares) return;
+    const r = seedSegmentPoa(props.segments, props.seedShares(props.segments));
+    props.onSegments(r.segments);
+    setOverlap(r.overlap);
+  }
+
+  function openSortie(seg: SearchSegment) {
+    setOpenId(openId === seg.id ? null : seg.id);
+    setDraft({ team: seg.team, coverage: 1, pod: null });
+    setTrackError(null);
+  }
+
+  // Only this team's effort in this period counts towards the sortie
+  function coverageFromTeamTracks(seg: SearchSegment) {
+    const own = tracksForSortie(props.tracks, draft.team, props.periodStartISO);
+    if (!own.length) {
+      setTrackError(
+        draft.team.trim()
+          ? `No tracks from team "${draft.team.trim()}" in period ${props.period}. Import its tracks or enter coverage by hand.`
+          : "Enter the team name to use its tracks."
+      );
+      return;
+    }
+    setTrackError(null);
+    const c = coverageFromTracks(seg.ring, own, 2 * props.detectionRadiusM);
+    setDraft({ ...draft, coverage: Number(c.toFixed(2)), pod: null });
+  }
+
+  function logSortie(seg: SearchSegment) {
+    const sortie: Sortie = {
+      id: uid(),
+      period: props.period,
+      team: draft.team || seg.team,
+      coverage: draft.coverage,
+      pod: draft.pod ?? podFromCoverage(draft.coverage),
+      logged_iso: new Date().toISOString(),
+    };
+    update(seg.id, { sorties: [...seg.sorties, sortie], status: "searched" });
+    setOpenId(null);
+  }
+
+  function remove(seg: SearchSegment) {
+    if (!confirm(`Delete segment "${seg.name}"?`)) return;
+    props.onSegments(props.segments.filter((s) => s.id !== seg.id));
+  }
+
+  function closePeriod() {
+    if (!confirm(`Close operational period ${props.period}? POA for period ${props.period + 1} is shifted by its sorties.`)) return;
+    props.onPeriod(props.period + 1, new Date().toISOString());
+    // Segments searched last period are open for reassignment
+    props.onSegments(props.segments.map((s) => (s.status === "searched" ? { ...s, status: "unassigned" } : s)));
+  }
+
+  return (
+    <div style={{ marginTop: 12, padding: 10, borderRadius: 10, background: "#f9fafb" }}>
+      <b>Search segments (POA / POD)</b>
+
+      <div style={{ marginTop: 8, display: "grid", gap: 8 }}>
+        {props.drawing ? (
+          <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 8 }}>
+            <button
+              onClick={props.onFinishDraft}
+              disabled={props.draftCount < 3}
+              style={{ padding: 10, borderRadius: 10, fontWeight: 700 }}
+            >
+              Finish ({props.draftCount} points)
+            </button>
+            <button onClick={() => props.onDraw(false)} style={{ padding: 10, borderRadius: 10 }}>
+              Cancel
+            </button>
+          </div>
+        ) : (
+          <button onClick={() => props.onDraw(true)} style={{ padding: 10, borderRadius: 10 }}>
+            Draw segment on map
+          </button>
+        )}
+        {props.drawing && (
+          <div style={{ fontSize: 12, color: "#6b7280" }}>Click the map to add corners; finish with at least three.</div>
+        )}
+
+        {props.segments.length > 0 && (
+          <>
+            <button onClick={seed} disabled={!props.seedShares} style={{ padding: 10, borderRadius: 10 }}>
+              Seed POA from {props.seedLabel}
+            </button>
+            {overlap && (
+              <div style={{ fontSize: 12, color: "#b45309" }}>
+                Segments overlap: shared area was counted once per segment, so the seeds were scaled to 100%.
+              </div>
+            )}
+            {seededTotal > 1 + 1e-6 && (
+              <div style={{ fontSize: 12, color: "#b45309" }}>Starting POA adds up to {pct(seededTotal)}; it is treated as relative.</div>
+            )}
+          </>
+        )}
+
+        {props.segments.map((seg) => {
+          const st = standing.get(seg.id);
+          return (
+            <div key={seg.id} style={{ display: "grid", gap: 6, fontSize: 13, paddingTop: 6, borderTop: "1px solid #e5e7eb" }}>
+              <div style={{ display: "flex", gap: 8, alignItems: "center" }}>
+                <span
+                  style={{ width: 12, height: 12, borderRadius: 6, background: SEGMENT_STATUS_COLORS[seg.status], flex: "none" }}
+                />
+                <input
+                  value={seg.name}
+                  onChange={(e) => update(seg.id, { name: e.target.value })}
+                  style={{ flex: 1, padding: 6, borderRadius: 8, minWidth: 0 }}
+                />
+                <button onClick={() => remove(seg)} style={{ padding: "6px 10px", borderRadius: 10 }}>
+                  ✕
+                </button>
+              </div>
+
+              <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr 80px", gap: 6 }}>
+                <input
+                  value={seg.team}
+                  onChange={(e) => update(seg.id, { team: e.target.value })}
+                  placeholder="Team"
+                  style={{ padding: 6, borderRadius: 8, minWidth: 0 }}
+                />
+                <select
+                  value={seg.status}
+                  onChange={(e) => update(seg.id, { status: e.target.value as SegmentStatus })}
+                  style={{ padding: 6, borderRadius: 8 }}
+                >
+                  {SEGMENT_STATUSES.map((s) => (
+                    <option key={s} value={s}>
+                      {SEGMENT_STATUS_LABELS[s]}
+                    </option>
+                  ))}
+                </select>
+                <input
+                  type="number"
+                  min={0}
+                  max={100}
+                  step={0.1}
+                  value={Number((seg.poa * 100).toFixed(1))}
+                  onChange={(e) => update(seg.id, { poa: Math.max(0, Number(e.target.value)) / 100 })}
+                  title="Starting POA (%)"
+                  style={{ padding: 6, borderRadius: 8, minWidth: 0 }}
+                />
+              </div>
+
+              <div style={{ fontFamily: "ui-monospace, Menlo, monospace", fontSize: 12, color: "#374151" }}>
+                P{props.period} POA {pct(st?.poa ?? 0)} • cumulative POD {pct(st?.cumulative_pod ?? 0)} • {seg.sorties.length}{" "}
+                sortie{seg.sorties.length === 1 ? "" : "s"}
+              </div>
+
+              {seg.sorties.map((s) => (
+                <div key={s.id} style={{ display: "flex", gap: 8, alignItems: "center", fontSize: 12, color: "#6b7280" }}>
+                  <span style={{ flex: 1 }}>
+                    P{s.period} {s.team || "team"}: coverage {s.coverage.toFixed(2)} → POD {pct(s.pod)}
+                  </span>
+                  <button
+                    onClick={() => update(seg.id, { sorties: seg.sorties.filter((x) => x.id !== s.id) })}
+                    style={{ padding: "2px 8px", borderRadius: 8 }}
+                  >
+                    ✕
+                  </button>
+                </div>
+              ))}
+
+              {openId === seg.id ? (
+                <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 6 }}>
+                  <input
+                    value={draft.team}
+                    onChange={(e) => setDraft({ ...draft, team: e.target.value })}
+                    placeholder="Team"
+                    style={{ padding: 6, borderRadius: 8, minWidth: 0 }}
+                  />
+                  <label style={{ display: "flex", gap: 6, alignItems: "center", fontSize: 12, color: "#6b7280" }}>
+                    Coverage
+                    <input
+                      type="number"
+                      min={0}
+                      step={0.1}
+                      value={draft.coverage}
+                      onChange={(e) => setDraft({ ...draft, coverage: Math.max(0, Number(e.target.value)), pod: null })}
+                      style={{ padding: 6, borderRadius: 8, minWidth: 0, flex: 1 }}
+                    />
+                  </label>
+                  <button
+                    onClick={() => coverageFromTeamTracks(seg)}
+                    disabled={!props.tracks.length}
+                    style={{ padding: 6, borderRadius: 8 }}
+                  >
+                    Coverage from tracks
+                  </button>
+                  {trackError && (
+                    <div style={{ gridColumn: "1 / -1", fontSize: 12, color: "#b91c1c" }}>{trackError}</div>
+                  )}
+                  <label style={{ display: "flex", gap: 6, alignItems: "center", fontSize: 12, color: "#6b7280" }}>
+                    POD %
+                    <input
+                      type="number"
+                      min={0}
+                      max={100}
+                      step={1}
+                      value={Math.round((draft.pod ?? podFromCoverage(draft.coverage)) * 100)}
+                      onChange={(e) => setDraft({ ...draft, pod: Math.min(100, Math.max(0, Number(e.target.value))) / 100 })}
+                      style={{ padding: 6, borderRadius: 8, minWidth: 0, flex: 1 }}
+                    />
+                  </label>
+                  <button onClick={() => logSortie(seg)} style={{ padding: 6, borderRadius: 8, fontWeight: 700 }}>
+                    Log sortie (P{props.period})
+                  </button>
+                  <button onClick={() => setOpenId(null)} style={{ padding: 6, borderRadius: 8 }}>
+                    Cancel
+                  </button>
+                </div>
+              ) : (
+                <button onClick={() => openSortie(seg)} style={{ padding: 6, borderRadius: 8 }}>
+                  Team returned: log POD
+                </button>
+              )}
+            </div>
+          );
+        })}
+
+        {props.segments.length > 0 && (
+          <div style={{ fontSize: 12 }}>
+            <table style={{ width: "100%", borderCollapse: "collapse" }}>
+              <thead>
+                <tr style={{ color: "#6b7280" }}>
+                  <th style={{ textAlign: "left" }}>Period</th>
+                  <th style={{ textAlign: "right" }}>POS</th>
+                  <th style={{ textAlign: "right" }}>Cumulative POS</th>
+                  <th style={{ textAlign: "right" }}>Rest of world</th>
+                </tr>
+              </thead>
+              <tbody>
+                {props.bookkeeping.periods.map((p) => (
+                  <tr key={p.period}>
+                    <td>P{p.period}</td>
+                    <td style={{ textAlign: "right" }}>{pct(p.pos)}</td>
+                    <td style={{ textAlign: "right", fontWeight: 700 }}>{pct(p.cumulative_pos)}</td>
+                    <td style={{ textAlign: "right" }}>{pct(p.rest_of_world)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            <button onClick={closePeriod} style={{ marginTop: 8, width: "100%", padding: 10, borderRadius: 10 }}>
+              Close period {props.period} and shift POA
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,164 @@
+import React, { useEffect, useState } from "react";
+import {
+  formatDuration,
+  formatOffset,
+  latestObservation,
+  minutesBetween,
+  stepTimeline,
+  trackSpan,
+  type TimelineRange,
+} from "@/lib/timeline";
+import type { Track } from "@/lib/tracks";
+import type { WindObservation } from "@/lib/windObservations";
+
+type Props = {
+  range: TimelineRange;
+  // Scrubbed time; null follows the live clock (or the scenario's elapsed time)
+  value: string | null;
+  onValue: (iso: string | null) => void;
+
+  // Logged events drawn as marks along the strip
+  observations: WindObservation[];
+  tracks: Track[];
+
+  confidence: { score: number; band: string } | null;
+};
+
+const STEP_OPTIONS = [1, 5, 15, 30];
+const FRAME_MS = 400;
+
+export default function TimelineBar(props: Props) {
+  const { range, value, onValue } = props;
+  const [playing, setPlaying] = useState(false);
+  const [stepMin, setStepMin] = useState(5);
+
+  const total = Math.max(1, minutesBetween(range.start_iso, range.end_iso));
+  const at = value ?? range.now_iso;
+  const atMin = Math.min(total, Math.max(0, minutesBetween(range.start_iso, at)));
+  const nowMin = Math.min(total, Math.max(0, minutesBetween(range.start_iso, range.now_iso)));
+  const pos = (min: number) => `${(Math.min(total, Math.max(0, min)) / total) * 100}%`;
+
+  const forecast = minutesBetween(range.now_iso, at) > 0.5;
+  const obs = latestObservation(props.observations, at);
+
+  // One step per frame; the timer restarts after every step so it always reads the latest value
+  useEffect(() => {
+    if (!playing) return;
+    const id = setTimeout(() => {
+      const next = stepTimeline(range, value ?? range.start_iso, stepMin);
+      onValue(next.iso);
+      if (next.done) setPlaying(false);
+    }, FRAME_MS);
+    return () => clearTimeout(id);
+  }, [playing, value, onValue, range, stepMin]);
+
+  function togglePlay() {
+    if (playing) {
+      setPlaying(false);
+      return;
+    }
+    // Replay from the LKP when starting at the live position or the end
+    if (value == null || atMin >= total) onValue(range.start_iso);
+    setPlaying(true);
+  }
+
+  function scrub(min: number) {
+    setPlaying(false);
+    onValue(new Date(Date.parse(range.start_iso) + min * 60000).toISOString());
+  }
+
+  return (
+    <div style={{ marginTop: 8, padding: 10, borderRadius: 10, background: "#f9fafb" }}>
+      <div style={{ display: "flex", gap: 8, alignItems: "center" }}>
+        <button onClick={togglePlay} style={{ padding: "6px 12px", borderRadius: 10, fontWeight: 700 }}>
+          {playing ? "❚❚ Pause" : "▶ Play"}
+        </button>
+        <button
+          onClick={() => {
+            setPlaying(false);
+            onValue(null);
+          }}
+          disabled={value == null}
+          style={{ padding: "6px 12px", borderRadius: 10 }}
+        >
+          Back to now
+        </button>
+        <label style={{ display: "flex", gap: 6, alignItems: "center", fontSize: 12, color: "#6b7280" }}>
+          Step
+          <select value={stepMin} onChange={(e) => setStepMin(Number(e.target.value))} style={{ padding: 4, borderRadius: 8 }}>
+            {STEP_OPTIONS.map((m) => (
+              <option key={m} value={m}>
+                {m} min
+              </option>
+            ))}
+          </select>
+        </label>
+        <div style={{ marginLeft: "auto", fontFamily: "ui-monospace, Menlo, monospace", fontSize: 12, color: "#374151" }}>
+          {formatOffset(atMin)} • {new Date(at).toLocaleString()}
+          {value == null ? " (now)" : forecast ? " (forecast)" : ""}
+        </div>
+      </div>
+
+      <input
+        type="range"
+        min={0}
+        max={Math.round(total)}
+        step={1}
+        value={Math.round(atMin)}
+        onChange={(e) => scrub(Number(e.target.value))}
+        style={{ width: "100%", marginTop: 8 }}
+      />
+
+      {/* Strip under the slider: forecast shading, now, wind observations, track spans */}
+      <div style={{ position: "relative", height: 18, margin: "0 8px" }}>
+        <div
+          style={{ position: "absolute", left: pos(nowMin), right: 0, top: 0, bottom: 0, background: "#e0e7ff" }}
+          title="Forecast"
+        />
+        <div style={{ position: "absolute", left: pos(nowMin), top: 0, bottom: 0, width: 2, background: "#111827" }} title="Now" />
+        {props.observations.map((o) => (
+          <div
+            key={o.id}
+            title={`${o.speed_mps.toFixed(1)} m/s from ${Math.round(o.from_deg)}° @ ${new Date(o.time_iso).toLocaleTimeString()}`}
+            style={{
+              position: "absolute",
+              left: pos(minutesBetween(range.start_iso, o.time_iso)),
+              top: 0,
+              height: 8,
+              width: 2,
+              background: "#2563eb",
+            }}
+          />
+        ))}
+        {props.tracks.map((t) => {
+          const span = trackSpan(t);
+          if (!span) return null;
+          const a = minutesBetween(range.start_iso, span.start_iso);
+          const b = minutesBetween(range.start_iso, span.end_iso);
+          return (
+            <div
+              key={t.id}
+              title={t.team || t.source_name}
+              style={{
+                position: "absolute",
+                left: pos(a),
+                width: `calc(${pos(b)} - ${pos(a)} + 2px)`,
+                top: 11,
+                height: 5,
+                borderRadius: 3,
+                background: t.color,
+              }}
+            />
+          );
+        })}
+      </div>
+
+      <div style={{ marginTop: 6, fontSize: 12, color: "#6b7280" }}>
+        {props.confidence ? `Confidence ${props.confidence.score} (${props.confidence.band})` : "No envelope"}
+        {obs
+          ? ` • Last observation ${obs.speed_mps.toFixed(1)} m/s from ${Math.round(obs.from_deg)}°, ${formatDuration(minutesBetween(obs.time_iso, at))} earlier`
+          : ""}
+      </div>
+    </div>
+  );
+}
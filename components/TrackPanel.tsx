@@ -0,0 +1,95 @@
+import React from "react";
+import type { CoverageReport, Track } from "@/lib/tracks";
+
+type Props = {
+  tracks: Track[];
+  detectionRadiusM: number;
+  coverage: CoverageReport | null;
+
+  onImportFiles: (files: File[]) => void;
+  onRenameTeam: (id: string, team: string) => void;
+  onRemove: (id: string) => void;
+  onDetectionRadiusChange: (m: number) => void;
+};
+
+function fmtPct(p: number) {
+  return `${p.toFixed(0)}%`;
+}
+
+export default function TrackPanel(props: Props) {
+  return (
+    <div style={{ marginTop: 12, padding: 10, borderRadius: 10, background: "#f9fafb" }}>
+      <b>Team Tracks (debrief)</b>
+
+      <div style={{ marginTop: 8, display: "grid", gap: 8 }}>
+        <input
+          type="file"
+          multiple
+          accept=".gpx,.geojson,.json,application/gpx+xml,application/geo+json"
+          onChange={(e) => {
+            const files = Array.from(e.target.files ?? []);
+            e.target.value = "";
+            if (files.length) props.onImportFiles(files);
+          }}
+        />
+
+        <label style={{ fontSize: 12, color: "#6b7280" }}>Detection radius (m)</label>
+        <input
+          type="number"
+          min={5}
+          max={500}
+          step={5}
+          value={props.detectionRadiusM}
+          onChange={(e) => props.onDetectionRadiusChange(Number(e.target.value))}
+          style={{ padding: 10, borderRadius: 10 }}
+        />
+
+        {props.tracks.map((t) => {
+          const cov = props.coverage?.per_track.find((c) => c.track_id === t.id);
+          return (
+            <div key={t.id} style={{ display: "grid", gap: 4, fontSize: 13 }}>
+              <div style={{ display: "flex", gap: 8, alignItems: "center" }}>
+                <span style={{ width: 12, height: 12, borderRadius: 6, background: t.color, flex: "none" }} />
+                <input
+                  value={t.team}
+                  onChange={(e) => props.onRenameTeam(t.id, e.target.value)}
+                  style={{ flex: 1, padding: 6, borderRadius: 8 }}
+                />
+                <button onClick={() => props.onRemove(t.id)} style={{ padding: "6px 10px", borderRadius: 10 }}>
+                  Remove
+                </button>
+              </div>
+              <div style={{ fontFamily: "ui-monospace, Menlo, monospace", fontSize: 12, color: "#374151" }}>
+                {t.points.length} pts • {t.source_name}
+                {cov && (
+                  <>
+                    <br />
+                    {(cov.length_m / 1000).toFixed(2)} km • core {fmtPct(cov.zones_pct.core)} / fringe{" "}
+                    {fmtPct(cov.zones_pct.fringe)} / residual {fmtPct(cov.zones_pct.residual)}
+                  </>
+                )}
+              </div>
+            </div>
+          );
+        })}
+
+        {props.coverage && props.tracks.length > 0 && (
+          <div style={{ fontSize: 12, lineHeight: 1.4 }}>
+            <b>All teams:</b> core {fmtPct(props.coverage.combined_pct.core)} • fringe{" "}
+            {fmtPct(props.coverage.combined_pct.fringe)} • residual {fmtPct(props.coverage.combined_pct.residual)}
+            <div style={{ marginTop: 6 }}>
+              <b>Start points never visited:</b>{" "}
+              {props.coverage.unvisited_start_points.length
+                ? props.coverage.unvisited_start_points.map((s) => s.label).join(", ")
+                : "none"}
+            </div>
+          </div>
+        )}
+
+        {props.tracks.length > 0 && !props.coverage && (
+          <div style={{ fontSize: 12, color: "#6b7280" }}>Set an LKP and wind to compute envelope coverage.</div>
+        )}
+      </div>
+    </div>
+  );
+}
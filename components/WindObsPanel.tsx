@@ -0,0 +1,237 @@
+import React, { useEffect, useRef, useState } from "react";
+import { bleSupported, connectBleAnemometer, type BleAnemometer } from "@/lib/bleAnemometer";
+import { isoToLocalInput, localInputToIso } from "@/lib/localTime";
+import {
+  makeObservation,
+  mergeObservations,
+  parseKestrelCsv,
+  type WindObservation,
+  type WindObsStats,
+} from "@/lib/windObservations";
+
+type Props = {
+  observations: WindObservation[];
+  blend: number; // share of observed wind, 0..1
+  windowMin: number;
+  stats: WindObsStats | null;
+
+  onObservations: (obs: WindObservation[]) => void;
+  onBlend: (w: number) => void;
+  onWindowMin: (m: number) => void;
+};
+
+const MPS_TO_MPH = 2.23694;
+
+export default function WindObsPanel(props: Props) {
+  const [timeISO, setTimeISO] = useState(() => new Date().toISOString());
+  const [speedMph, setSpeedMph] = useState("");
+  const [fromDeg, setFromDeg] = useState("");
+  const [gustMph, setGustMph] = useState("");
+  const [ble, setBle] = useState<BleAnemometer | null>(null);
+  const [showLog, setShowLog] = useState(false);
+
+  // Readings arrive from BLE callbacks; keep the latest log in a ref so they append, not overwrite
+  const obsRef = useRef(props.observations);
+  const onObsRef = useRef(props.onObservations);
+  useEffect(() => {
+    obsRef.current = props.observations;
+    onObsRef.current = props.onObservations;
+  }, [props.observations, props.onObservations]);
+
+  useEffect(() => () => ble?.disconnect(), [ble]);
+
+  function addManual() {
+    const spd = Number(speedMph);
+    const dir = Number(fromDeg);
+    if (speedMph === "" || fromDeg === "" || !Number.isFinite(spd) || !Number.isFinite(dir)) {
+      alert("Enter wind speed and direction.");
+      return;
+    }
+    const gust = gustMph === "" ? undefined : Number(gustMph) / MPS_TO_MPH;
+    props.onObservations(
+      mergeObservations(props.observations, [makeObservation(timeISO, spd / MPS_TO_MPH, dir, "manual", gust)])
+    );
+    setSpeedMph("");
+    setFromDeg("");
+    setGustMph("");
+    setTimeISO(new Date().toISOString());
+  }
+
+  async function importCsv(f: File) {
+    try {
+      const rows = parseKestrelCsv(await f.text(), f.name);
+      props.onObservations(mergeObservations(props.observations, rows));
+    } catch (e: unknown) {
+      alert(e instanceof Error ? e.message : String(e));
+    }
+  }
+
+  async function toggleBle() {
+    if (ble) {
+      ble.disconnect();
+      setBle(null);
+      return;
+    }
+    try {
+      const dev = await connectBleAnemometer(
+        (o) => onObsRef.current(mergeObservations(obsRef.current, [o])),
+        () => setBle(null)
+      );
+      setBle(dev);
+    } catch (e: unknown) {
+      alert(e instanceof Error ? e.message : String(e));
+    }
+  }
+
+  const st = props.stats;
+
+  return (
+    <div style={{ marginTop: 12, padding: 10, borderRadius: 10, background: "#f9fafb" }}>
+      <b>On-scene wind observations</b>
+
+      <div style={{ marginTop: 8, display: "grid", gap: 8 }}>
+        <input
+          type="datetime-local"
+          value={isoToLocalInput(timeISO)}
+          onChange={(e) => setTimeISO(localInputToIso(e.target.value) ?? timeISO)}
+          style={{ padding: 10, borderRadius: 10 }}
+        />
+        <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr 1fr", gap: 8 }}>
+          <input
+            type="number"
+            min={0}
+            step={0.1}
+            placeholder="Speed mph"
+            value={speedMph}
+            onChange={(e) => setSpeedMph(e.target.value)}
+            style={{ padding: 10, borderRadius: 10, minWidth: 0 }}
+          />
+          <input
+            type="number"
+            min={0}
+            max={360}
+            step={1}
+            placeholder="From °"
+            value={fromDeg}
+            onChange={(e) => setFromDeg(e.target.value)}
+            style={{ padding: 10, borderRadius: 10, minWidth: 0 }}
+          />
+          <input
+            type="number"
+            min={0}
+            step={0.1}
+            placeholder="Gust mph"
+            value={gustMph}
+            onChange={(e) => setGustMph(e.target.value)}
+            style={{ padding: 10, borderRadius: 10, minWidth: 0 }}
+          />
+        </div>
+        <button onClick={addManual} style={{ padding: 10, borderRadius: 10 }}>
+          Log reading
+        </button>
+
+        <label style={{ fontSize: 12, color: "#6b7280" }}>
+          Kestrel CSV export
+          <input
+            type="file"
+            accept=".csv,text/csv"
+            onChange={(e) => {
+              const f = e.target.files?.[0];
+              e.target.value = "";
+              if (f) importCsv(f);
+            }}
+            style={{ display: "block", marginTop: 4 }}
+          />
+        </label>
+
+        {bleSupported() && (
+          <button onClick={toggleBle} style={{ padding: 10, borderRadius: 10, fontWeight: ble ? 700 : 500 }}>
+            {ble ? `Disconnect ${ble.name} (streaming)` : "Connect Bluetooth anemometer"}
+          </button>
+        )}
+
+        <label style={{ display: "flex", gap: 8, alignItems: "center", fontSize: 12, color: "#6b7280" }}>
+          Observed share
+          <input
+            type="range"
+            min={0}
+            max={100}
+            value={Math.round(props.blend * 100)}
+            onChange={(e) => props.onBlend(Number(e.target.value) / 100)}
+            style={{ flex: 1 }}
+          />
+          {Math.round(props.blend * 100)}%
+        </label>
+
+        <label style={{ display: "flex", gap: 8, alignItems: "center", fontSize: 12, color: "#6b7280" }}>
+          Statistics window
+          <select
+            value={props.windowMin}
+            onChange={(e) => props.onWindowMin(Number(e.target.value))}
+            style={{ padding: 8, borderRadius: 10 }}
+          >
+            {[10, 30, 60, 120].map((m) => (
+              <option key={m} value={m}>
+                {m} min
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <div style={{ fontFamily: "ui-monospace, Menlo, monospace", fontSize: 12 }}>
+          {st ? (
+            <>
+              {st.count} readings • mean from {Math.round(st.mean_from_deg)}° @{" "}
+              {(st.mean_speed_mps * MPS_TO_MPH).toFixed(1)} mph
+              <br />
+              gust {(st.gust_mps * MPS_TO_MPH).toFixed(1)} mph (×{st.gust_factor.toFixed(2)}) • σθ{" "}
+              {st.sigma_theta_deg.toFixed(0)}°
+            </>
+          ) : (
+            "No readings in window"
+          )}
+        </div>
+
+        {props.observations.length > 0 && (
+          <div style={{ display: "flex", gap: 8 }}>
+            <button onClick={() => setShowLog((v) => !v)} style={{ flex: 1, padding: 10, borderRadius: 10 }}>
+              {showLog ? "Hide log" : `Show log (${props.observations.length})`}
+            </button>
+            <button
+              onClick={() => {
+                if (confirm("Clear all wind observations?")) props.onObservations([]);
+              }}
+              style={{ flex: 1, padding: 10, borderRadius: 10 }}
+            >
+              Clear
+            </button>
+          </div>
+        )}
+
+        {showLog && (
+          <div style={{ maxHeight: 180, overflowY: "auto", fontSize: 12 }}>
+            {[...props.observations].reverse().map((o) => (
+              <div
+                key={o.id}
+                style={{ display: "flex", gap: 8, alignItems: "center", padding: "4px 0", borderTop: "1px solid #e5e7eb" }}
+              >
+                <span style={{ flex: 1 }}>
+                  {new Date(o.time_iso).toLocaleTimeString()} • {Math.round(o.from_deg)}° @{" "}
+                  {(o.speed_mps * MPS_TO_MPH).toFixed(1)} mph
+                  {o.gust_mps != null ? ` G${(o.gust_mps * MPS_TO_MPH).toFixed(0)}` : ""}
+                  <span style={{ color: "#6b7280" }}> ({o.source})</span>
+                </span>
+                <button
+                  onClick={() => props.onObservations(props.observations.filter((x) => x.id !== o.id))}
+                  style={{ padding: "4px 8px", borderRadius: 8 }}
+                >
+                  ✕
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
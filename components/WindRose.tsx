@@ -0,0 +1,69 @@
+import React from "react";
+
+type Props = {
+  fromDeg: number;
+  speedMph: number;
+  sigmaThetaDeg: number | null;
+  gustMph: number | null;
+  size?: number;
+};
+
+function pt(cx: number, cy: number, r: number, bearingDeg: number) {
+  const a = (bearingDeg * Math.PI) / 180;
+  return { x: cx + r * Math.sin(a), y: cy - r * Math.cos(a) };
+}
+
+// Pie slice centred on `centerDeg` spanning ±halfDeg (full disc when the span reaches 360°)
+function sectorPath(cx: number, cy: number, r: number, centerDeg: number, halfDeg: number) {
+  if (halfDeg >= 180) return `M ${cx - r} ${cy} a ${r} ${r} 0 1 0 ${2 * r} 0 a ${r} ${r} 0 1 0 ${-2 * r} 0 Z`;
+  const a = pt(cx, cy, r, centerDeg - halfDeg);
+  const b = pt(cx, cy, r, centerDeg + halfDeg);
+  const large = halfDeg > 90 ? 1 : 0;
+  return `M ${cx} ${cy} L ${a.x} ${a.y} A ${r} ${r} 0 ${large} 1 ${b.x} ${b.y} Z`;
+}
+
+/**
+ * Wind-rose style direction spread: the sector the wind is coming from, ±1σθ (dark) and
+ * ±2σθ (light), with the mean direction as a line into the centre.
+ */
+export default function WindRose(props: Props) {
+  const size = props.size ?? 120;
+  const c = size / 2;
+  const r = c - 14;
+  const sigma = props.sigmaThetaDeg;
+  const tip = pt(c, c, r, props.fromDeg);
+
+  return (
+    <div style={{ display: "flex", gap: 10, alignItems: "center" }}>
+      <svg width={size} height={size} viewBox={`0 0 ${size} ${size}`} style={{ flex: "none" }}>
+        <circle cx={c} cy={c} r={r} fill="#fff" stroke="#d1d5db" />
+        <circle cx={c} cy={c} r={r / 2} fill="none" stroke="#e5e7eb" />
+        {sigma != null && (
+          <>
+            <path d={sectorPath(c, c, r, props.fromDeg, 2 * sigma)} fill="rgba(37,99,235,0.15)" />
+            <path d={sectorPath(c, c, r, props.fromDeg, sigma)} fill="rgba(37,99,235,0.35)" />
+          </>
+        )}
+        <line x1={tip.x} y1={tip.y} x2={c} y2={c} stroke="#1d4ed8" strokeWidth={2.5} />
+        <circle cx={c} cy={c} r={3} fill="#1d4ed8" />
+        {(["N", "E", "S", "W"] as const).map((l, i) => {
+          const p = pt(c, c, r + 8, i * 90);
+          return (
+            <text key={l} x={p.x} y={p.y + 4} textAnchor="middle" fontSize={10} fill="#6b7280">
+              {l}
+            </text>
+          );
+        })}
+      </svg>
+      <div style={{ fontSize: 12, color: "#374151", lineHeight: 1.5 }}>
+        from {Math.round(props.fromDeg)}° @ {props.speedMph.toFixed(1)} mph
+        <br />
+        {sigma != null ? `σθ ${Math.round(sigma)}° (shaded ±1σ / ±2σ)` : "direction spread unknown"}
+        <br />
+        {props.gustMph != null
+          ? `gusts ${props.gustMph.toFixed(1)} mph${props.speedMph > 1 ? ` (×${(props.gustMph / props.speedMph).toFixed(1)})` : ""}`
+          : "no gust data"}
+      </div>
+    </div>
+  );
+}
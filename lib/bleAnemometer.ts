@@ -0,0 +1,110 @@
+// lib/bleAnemometer.ts
+// Web Bluetooth adapter for anemometers that expose the GATT Environmental Sensing Service
+// (true wind speed 0x2A70 / true wind direction 0x2A71). Browser only; Chrome/Edge/Android.
+// No external dependencies.
+
+import { makeObservation, type WindObservation } from "@/lib/windObservations";
+
+// Minimal Web Bluetooth typings (not part of the standard DOM lib)
+type GattCharacteristic = {
+  properties: { notify: boolean; read: boolean };
+  readValue(): Promise<DataView>;
+  startNotifications(): Promise<GattCharacteristic>;
+  addEventListener(type: "characteristicvaluechanged", cb: () => void): void;
+  value?: DataView;
+};
+type GattService = { getCharacteristic(uuid: number): Promise<GattCharacteristic> };
+type GattServer = { connected: boolean; connect(): Promise<GattServer>; disconnect(): void; getPrimaryService(uuid: number): Promise<GattService> };
+type BleDevice = { name?: string; gatt?: GattServer; addEventListener(type: "gattserverdisconnected", cb: () => void): void };
+type BleNavigator = {
+  bluetooth?: { requestDevice(opts: { filters: Array<{ services: number[] }>; optionalServices?: number[] }): Promise<BleDevice> };
+};
+
+const ENVIRONMENTAL_SENSING = 0x181a;
+const TRUE_WIND_SPEED = 0x2a70; // uint16, 0.01 m/s
+const TRUE_WIND_DIRECTION = 0x2a71; // uint16, 0.01 deg
+
+// Readings are logged at most this often even if the device notifies faster
+const MIN_LOG_INTERVAL_MS = 5000;
+const POLL_MS = 5000;
+
+export type BleAnemometer = {
+  name: string;
+  disconnect: () => void;
+};
+
+export function bleSupported(): boolean {
+  return typeof navigator !== "undefined" && !!(navigator as Navigator & BleNavigator).bluetooth;
+}
+
+/**
+ * Ask the user to pick a device, then stream readings into `onReading`. Uses notifications
+ * where the device offers them and falls back to polling otherwise.
+ */
+export async function connectBleAnemometer(
+  onReading: (o: WindObservation) => void,
+  onDisconnect?: () => void
+): Promise<BleAnemometer> {
+  const bt = (navigator as Navigator & BleNavigator).bluetooth;
+  if (!bt) throw new Error("Web Bluetooth is not available in this browser");
+
+  const device = await bt.requestDevice({ filters: [{ services: [ENVIRONMENTAL_SENSING] }] });
+  if (!device.gatt) throw new Error("Device has no GATT server");
+  const server = await device.gatt.connect();
+  const svc = await server.getPrimaryService(ENVIRONMENTAL_SENSING);
+  const speedCh = await svc.getCharacteristic(TRUE_WIND_SPEED);
+  const dirCh = await svc.getCharacteristic(TRUE_WIND_DIRECTION);
+  const name = device.name || "BLE anemometer";
+
+  let speed: number | null = null;
+  let dir: number | null = null;
+  let lastLogged = 0;
+
+  function emit() {
+    const now = Date.now();
+    if (speed == null || dir == null || now - lastLogged < MIN_LOG_INTERVAL_MS) return;
+    lastLogged = now;
+    onReading(makeObservation(new Date(now).toISOString(), speed, dir, "ble", undefined, name));
+  }
+
+  const u16 = (v: DataView | undefined) => (v && v.byteLength >= 2 ? v.getUint16(0, true) / 100 : null);
+
+  let timer: ReturnType<typeof setInterval> | null = null;
+  if (speedCh.properties.notify && dirCh.properties.notify) {
+    speedCh.addEventListener("characteristicvaluechanged", () => {
+      speed = u16(speedCh.value);
+      emit();
+    });
+    dirCh.addEventListener("characteristicvaluechanged", () => {
+      dir = u16(dirCh.value);
+      emit();
+    });
+    await speedCh.startNotifications();
+    await dirCh.startNotifications();
+  } else {
+    const poll = async () => {
+      try {
+        speed = u16(await speedCh.readValue());
+        dir = u16(await dirCh.readValue());
+        emit();
+      } catch {
+        // transient GATT errors: try again on the next tick
+      }
+    };
+    await poll();
+    timer = setInterval(poll, POLL_MS);
+  }
+
+  device.addEventListener("gattserverdisconnected", () => {
+    if (timer) clearInterval(timer);
+    onDisconnect?.();
+  });
+
+  return {
+    name,
+    disconnect: () => {
+      if (timer) clearInterval(timer);
+      if (server.connected) server.disconnect();
+    },
+  };
+}
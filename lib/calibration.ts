@@ -0,0 +1,375 @@
+// lib/calibration.ts
+// Training runs with known ground truth (LKP, wind, conditions, where the dog alerted), scoring of
+// a model profile against them, and a local optimiser that fits profile coefficients to the alerts.
+// No external dependencies.
+
+import {
+  computeScentEnvelope,
+  type EnvelopeInputs,
+  type LatLon,
+  type WindSample,
+} from "@/lib/scentEnvelope";
+import { pointInPolygonXY, sampleGrid, toXY } from "@/lib/grid";
+import { copyProfile, type ModelProfile } from "@/lib/modelProfile";
+import type { TrackPoint } from "@/lib/tracks";
+
+export type TrainingAlert = { id: string; lat: number; lon: number; time_iso: string };
+
+export type TrainingRun = {
+  id: string;
+  name: string;
+  created_iso: string;
+
+  lkp: { lat: number; lon: number; time_iso: string };
+  subject_path: TrackPoint[]; // the lay as walked, if recorded (reference only; scoring uses the LKP)
+  wind: {
+    from_deg: number;
+    speed_mph: number;
+    gust_mph?: number | null;
+    sigma_theta_deg?: number | null;
+    series?: WindSample[];
+  };
+  environment: Pick<
+    EnvelopeInputs,
+    "temperature_f" | "rel_humidity_pct" | "cloud" | "precip" | "recent_rain" | "terrain" | "stability"
+  >;
+  // First alert first; later re-acquisitions count too
+  alerts: TrainingAlert[];
+};
+
+/** Model inputs for one alert: the envelope as it stood when the dog alerted. */
+export function runInputs(run: TrainingRun, alert: TrainingAlert, profile: ModelProfile): EnvelopeInputs {
+  return {
+    lkp_lat: run.lkp.lat,
+    lkp_lon: run.lkp.lon,
+    lkp_time_iso: run.lkp.time_iso,
+    now_time_iso: alert.time_iso,
+    wind_from_deg: run.wind.from_deg,
+    wind_speed_mph: run.wind.speed_mph,
+    wind_series: run.wind.series,
+    wind_gust_mph: run.wind.gust_mph,
+    wind_sigma_theta_deg: run.wind.sigma_theta_deg,
+    ...run.environment,
+    profile,
+  };
+}
+
+/** --- scoring --- **/
+
+export type AlertZone = "core" | "fringe" | "residual";
+
+export type AlertScore = {
+  run_id: string;
+  alert_id: string;
+  zone: AlertZone | null; // innermost zone containing the alert
+  log_lik: number;
+};
+
+export type CalibrationScore = {
+  alerts: number;
+  // Cumulative hit rates 0..1 (an alert in the core also counts for fringe and residual)
+  hit_rate: Record<AlertZone, number>;
+  // Mean log of the envelope's probability density (per m²) at the alerts. Rewards envelopes that
+  // put their mass where dogs alerted, so widening everything to "hit" more does not pay.
+  mean_log_lik: number;
+  per_alert: AlertScore[];
+};
+
+// Density floor (per m²) so an alert outside the grid costs a finite amount: ~1 in 10 km²
+const BACKGROUND_PDF = 1e-7;
+
+function inRing(apex: LatLon, ring: LatLon[], p: LatLon) {
+  return ring.length >= 3 && pointInPolygonXY(toXY(apex, p), ring.map((q) => toXY(apex, q)));
+}
+
+function scoreAlert(run: TrainingRun, alert: TrainingAlert, profile: ModelProfile): AlertScore {
+  const out = computeScentEnvelope(runInputs(run, alert, profile));
+  const apex = { lat: run.lkp.lat, lon: run.lkp.lon };
+  const zone: AlertZone | null = inRing(apex, out.polygons.core, alert)
+    ? "core"
+    : inRing(apex, out.polygons.fringe, alert)
+    ? "fringe"
+    : inRing(apex, out.polygons.residual, alert)
+    ? "residual"
+    : null;
+
+  const g = out.density;
+  let mass = 0;
+  for (const v of g.values) mass += v;
+  const pdf = mass > 0 ? sampleGrid(g, alert) / (mass * g.cell_m * g.cell_m) : 0;
+  return { run_id: run.id, alert_id: alert.id, zone, log_lik: Math.log(pdf + BACKGROUND_PDF) };
+}
+
+/** Alerts that can be scored: after the LKP time. */
+export function scorableAlerts(run: TrainingRun) {
+  const t0 = Date.parse(run.lkp.time_iso);
+  return run.alerts.filter((a) => Date.parse(a.time_iso) > t0);
+}
+
+export function scoreProfile(runs: TrainingRun[], profile: ModelProfile): CalibrationScore {
+  const per_alert = runs.flatMap((r) => scorableAlerts(r).map((a) => scoreAlert(r, a, profile)));
+  const n = per_alert.length;
+  const rate = (zones: AlertZone[]) => (n ? per_alert.filter((s) => s.zone && zones.includes(s.zone)).length / n : 0);
+  return {
+    alerts: n,
+    hit_rate: {
+      core: rate(["core"]),
+      fringe: rate(["core", "fringe"]),
+      residual: rate(["core", "fringe", "residual"]),
+    },
+    mean_log_lik: n ? per_alert.reduce((a, s) => a + s.log_lik, 0) / n : 0,
+    per_alert,
+  };
+}
+
+/** --- fitting --- **/
+
+type FitParam = {
+  label: string;
+  get: (p: ModelProfile) => number;
+  set: (p: ModelProfile, v: number) => ModelProfile;
+  min: number;
+  max: number;
+};
+
+// The coefficients that place the envelope (length and width). Confidence time constants do not
+// move the envelope and zone levels only redraw its contours, so neither is fitted.
+export const FIT_PARAMS: FitParam[] = [
+  {
+    label: "length.base_ft",
+    get: (p) => p.length.base_ft,
+    set: (p, v) => ({ ...p, length: { ...p.length, base_ft: v } }),
+    min: 5,
+    max: 300,
+  },
+  {
+    label: "length.per_min_ft",
+    get: (p) => p.length.per_min_ft,
+    set: (p, v) => ({ ...p, length: { ...p.length, per_min_ft: v } }),
+    min: 0.5,
+    max: 30,
+  },
+  {
+    label: "length.wind_ft_per_mph",
+    get: (p) => p.length.wind_ft_per_mph,
+    set: (p, v) => ({ ...p, length: { ...p.length, wind_ft_per_mph: v } }),
+    min: 10,
+    max: 400,
+  },
+  {
+    label: "width.base_ft",
+    get: (p) => p.width.base_ft,
+    set: (p, v) => ({ ...p, width: { ...p.width, base_ft: v } }),
+    min: 2,
+    max: 200,
+  },
+  {
+    label: "width.per_min_ft",
+    get: (p) => p.width.per_min_ft,
+    set: (p, v) => ({ ...p, width: { ...p.width, per_min_ft: v } }),
+    min: 0.2,
+    max: 20,
+  },
+  {
+    label: "width.sqrt_ft",
+    get: (p) => p.width.sqrt_ft,
+    set: (p, v) => ({ ...p, width: { ...p.width, sqrt_ft: v } }),
+    min: 2,
+    max: 200,
+  },
+];
+
+export type FitOptions = {
+  maxEvals?: number; // default 120; each evaluation recomputes one envelope per alert
+  onProgress?: (evals: number, best: CalibrationScore) => void;
+  signal?: AbortSignal; // abort -> resolve with the best profile so far
+};
+
+export type FitResult = {
+  profile: ModelProfile;
+  before: CalibrationScore;
+  after: CalibrationScore;
+  evals: number;
+  changes: Array<{ label: string; from: number; to: number; at_bound: boolean }>;
+};
+
+// Moved coefficients are rounded to 4 significant figures; untouched ones keep their exact value
+function withParams(base: ModelProfile, logs: number[], startLogs: number[]) {
+  return FIT_PARAMS.reduce(
+    (p, f, i) => (logs[i] === startLogs[i] ? p : f.set(p, Number(Math.exp(logs[i]).toPrecision(4)))),
+    base
+  );
+}
+
+/**
+ * Pattern search (Hooke–Jeeves style) over the log of each fitted coefficient, maximising the
+ * mean log-likelihood of the alerts. Steps start at ×1.5 and halve until ×1.02. Yields to the
+ * event loop between evaluations so the page stays responsive.
+ */
+export async function fitProfile(runs: TrainingRun[], start: ModelProfile, opts: FitOptions = {}): Promise<FitResult> {
+  const maxEvals = opts.maxEvals ?? 120;
+  const before = scoreProfile(runs, start);
+  if (!before.alerts) throw new Error("No alerts to fit: log alerts after each run's LKP time");
+
+  const lo = FIT_PARAMS.map((f) => Math.log(f.min));
+  const hi = FIT_PARAMS.map((f) => Math.log(f.max));
+  const x0 = FIT_PARAMS.map((f) => Math.log(f.get(start)));
+  let x = x0.map((v, i) => Math.min(hi[i], Math.max(lo[i], v)));
+  let best = before;
+  let evals = 0;
+  let step = Math.log(1.5);
+
+  while (step > Math.log(1.02) && evals < maxEvals && !opts.signal?.aborted) {
+    let improved = false;
+    for (let i = 0; i < x.length && !improved && evals < maxEvals && !opts.signal?.aborted; i++) {
+      for (const dir of [1, -1]) {
+        const xi = Math.min(hi[i], Math.max(lo[i], x[i] + dir * step));
+        if (xi === x[i] || evals >= maxEvals) continue;
+        const trial = x.slice();
+        trial[i] = xi;
+        await new Promise((r) => setTimeout(r, 0));
+        const s = scoreProfile(runs, withParams(start, trial, x0));
+        evals++;
+        if (s.mean_log_lik > best.mean_log_lik + 1e-9) {
+          x = trial;
+          best = s;
+          improved = true;
+          break;
+        }
+      }
+      opts.onProgress?.(evals, best);
+    }
+    if (!improved) step /= 2;
+  }
+
+  const fitted = best === before ? start : withParams(start, x, x0);
+  const date = new Date().toISOString().slice(0, 10);
+  const profile: ModelProfile = {
+    ...copyProfile(fitted, `${start.name} (fitted ${date})`),
+    description: `Fitted to ${before.alerts} alerts from ${runs.length} training runs; ${fitSummary(before, best)}.`,
+  };
+  return {
+    profile,
+    before,
+    after: best,
+    evals,
+    changes: FIT_PARAMS.map((f) => {
+      const to = f.get(fitted);
+      return { label: f.label, from: f.get(start), to, at_bound: to <= f.min || to >= f.max };
+    }).filter((c) => c.from !== c.to),
+  };
+}
+
+/** --- report --- **/
+
+// Below this many alerts a fit mostly describes the particular runs logged
+const MIN_CONFIDENT_ALERTS = 12;
+
+const pct = (v: number) => `${Math.round(v * 100)}%`;
+
+export function fitSummary(before: CalibrationScore, after: CalibrationScore) {
+  return `residual hit-rate ${pct(before.hit_rate.residual)} → ${pct(after.hit_rate.residual)}, core ${pct(
+    before.hit_rate.core
+  )} → ${pct(after.hit_rate.core)}`;
+}
+
+/** Plain-text report for the training log: hit-rates before/after, coefficient changes, per alert. */
+export function calibrationReport(fit: FitResult, runs: TrainingRun[]): string {
+  const { before, after } = fit;
+  const row = (label: string, b: string, a: string) => `${label.padEnd(24)}${b.padStart(10)}${a.padStart(10)}`;
+  const lines = [
+    `Calibration report — ${fit.profile.name}`,
+    `${runs.length} runs, ${before.alerts} alerts, ${fit.evals} evaluations`,
+    "",
+    row("", "before", "after"),
+    row("Core hit-rate", pct(before.hit_rate.core), pct(after.hit_rate.core)),
+    row("Fringe hit-rate", pct(before.hit_rate.fringe), pct(after.hit_rate.fringe)),
+    row("Residual hit-rate", pct(before.hit_rate.residual), pct(after.hit_rate.residual)),
+    row("Mean log-likelihood", before.mean_log_lik.toFixed(2), after.mean_log_lik.toFixed(2)),
+    "",
+    "Coefficients:",
+    ...(fit.changes.length
+      ? fit.changes.map((c) => `  ${c.label}: ${c.from} → ${c.to}${c.at_bound ? " (at search bound)" : ""}`)
+      : ["  (no change improved the fit)"]),
+    ...(before.alerts < MIN_CONFIDENT_ALERTS
+      ? ["", `Only ${before.alerts} alerts: treat the fitted profile as a starting point, not a calibration.`]
+      : []),
+    "",
+    "Alerts (zone before → after):",
+  ];
+  const names = new Map(runs.map((r) => [r.id, r.name]));
+  before.per_alert.forEach((b, i) => {
+    const a = after.per_alert[i];
+    lines.push(`  ${names.get(b.run_id) ?? b.run_id} / ${b.alert_id}: ${b.zone ?? "miss"} → ${a?.zone ?? "miss"}`);
+  });
+  return lines.join("\n") + "\n";
+}
+
+/** --- file format --- **/
+
+export const TRAINING_FILE_FORMAT = "scent-cone-training";
+export const TRAINING_FILE_VERSION = 1;
+
+type TrainingFile = {
+  format: typeof TRAINING_FILE_FORMAT;
+  version: number;
+  exported_iso: string;
+  runs: TrainingRun[];
+};
+
+function isLatLonish(v: unknown): v is LatLon {
+  const o = v as { lat?: unknown; lon?: unknown } | null;
+  return !!o && Number.isFinite(o.lat) && Number.isFinite(o.lon);
+}
+
+/** Drop malformed points and fill environment defaults; null if the run has no usable LKP/wind. */
+export function normalizeRun(raw: Partial<TrainingRun>): TrainingRun | null {
+  if (!raw.id || !isLatLonish(raw.lkp) || !raw.lkp.time_iso) return null;
+  if (!raw.wind || !Number.isFinite(raw.wind.from_deg) || !Number.isFinite(raw.wind.speed_mph)) return null;
+  return {
+    id: raw.id,
+    name: raw.name || "Training run",
+    created_iso: raw.created_iso || raw.lkp.time_iso,
+    lkp: raw.lkp,
+    subject_path: (raw.subject_path ?? []).filter(isLatLonish),
+    wind: raw.wind,
+    environment: {
+      temperature_f: 75,
+      rel_humidity_pct: 50,
+      cloud: "partly",
+      precip: "none",
+      recent_rain: false,
+      terrain: "mixed",
+      stability: "neutral",
+      ...raw.environment,
+    },
+    alerts: (raw.alerts ?? []).filter((a) => isLatLonish(a) && typeof a.time_iso === "string" && !!a.id),
+  };
+}
+
+export function serializeTrainingRuns(runs: TrainingRun[], nowIso = new Date().toISOString()): string {
+  const file: TrainingFile = {
+    format: TRAINING_FILE_FORMAT,
+    version: TRAINING_FILE_VERSION,
+    exported_iso: nowIso,
+    runs,
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+export function parseTrainingFile(text: string): TrainingRun[] {
+  let js: Partial<TrainingFile>;
+  try {
+    js = JSON.parse(text);
+  } catch {
+    throw new Error("Not a JSON file");
+  }
+  if (js?.format !== TRAINING_FILE_FORMAT) throw new Error("Not a scent-cone training file");
+  const version = Number(js.version);
+  if (!Number.isInteger(version) || version < 1) throw new Error("Missing training file version");
+  if (version > TRAINING_FILE_VERSION) {
+    throw new Error(`Training file version ${version} is newer than this app supports (${TRAINING_FILE_VERSION})`);
+  }
+  if (!Array.isArray(js.runs)) throw new Error("Training file has no runs");
+  return js.runs.map((r) => normalizeRun(r)).filter((r): r is TrainingRun => r !== null);
+}
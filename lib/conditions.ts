@@ -0,0 +1,145 @@
+// lib/conditions.ts
+// Weather-derived environment inputs for the envelope model: category mapping and
+// Pasquill–Gifford stability from wind, insolation and cloud.
+// No external dependencies.
+
+import type { PrecipType, StabilityType } from "@/lib/scentEnvelope";
+
+export type CloudType = "clear" | "partly" | "overcast" | "night";
+
+// Pasquill–Gifford classes: A very unstable … D neutral … F moderately stable
+export type PasquillClass = "A" | "B" | "C" | "D" | "E" | "F";
+
+export type Insolation = "strong" | "moderate" | "slight" | "night";
+
+// Environment fields the UI can fill from weather (or the user can override)
+export type EnvField = "tempF" | "rh" | "cloud" | "precip" | "recentRain" | "stability";
+
+export const ENV_FIELDS: EnvField[] = ["tempF", "rh", "cloud", "precip", "recentRain", "stability"];
+
+export type DerivedEnvironment = {
+  tempF: number;
+  rh: number;
+  cloud: CloudType;
+  precip: PrecipType;
+  recentRain: boolean;
+  stability: StabilityType;
+};
+
+// Response of /api/conditions
+export type WeatherConditions = {
+  source: string;
+  time_utc: string;
+  time_local: string | null;
+  timezone: string | null;
+
+  temperature_f: number;
+  rel_humidity_pct: number;
+  cloud_cover_pct: number;
+  precip_mm_hr: number;
+  rain_24h_mm: number;
+  is_day: boolean;
+  shortwave_wm2: number | null;
+  wind_speed_mps: number | null;
+
+  insolation: Insolation;
+  pg_class: PasquillClass;
+  derived: DerivedEnvironment;
+  note: string;
+};
+
+/** --- insolation / stability --- **/
+
+/**
+ * Incoming solar radiation class. Uses measured/modelled shortwave when available, otherwise
+ * a cloud-cover proxy (daytime only).
+ */
+export function insolationClass(is_day: boolean, shortwave_wm2: number | null, cloud_cover_pct: number): Insolation {
+  if (!is_day) return "night";
+  if (shortwave_wm2 != null && Number.isFinite(shortwave_wm2)) {
+    if (shortwave_wm2 >= 600) return "strong";
+    if (shortwave_wm2 >= 300) return "moderate";
+    return "slight";
+  }
+  if (cloud_cover_pct < 40) return "strong";
+  if (cloud_cover_pct < 80) return "moderate";
+  return "slight";
+}
+
+/**
+ * Turner's table. Day rows by insolation; night rows split at 4/8 cloud. Full overcast is D
+ * day or night. Calm nights (< 2 m/s) are treated as F.
+ */
+export function pasquillGifford(wind_mps: number, insolation: Insolation, cloud_cover_pct: number): PasquillClass {
+  const u = Math.max(0, wind_mps);
+  if (cloud_cover_pct >= 95) return "D";
+
+  if (insolation === "night") {
+    const cloudy = cloud_cover_pct >= 50;
+    if (u < 3) return cloudy ? "E" : "F";
+    if (u < 5) return cloudy ? "D" : "E";
+    return "D";
+  }
+
+  const row =
+    u < 2 ? ["A", "A", "B"] : u < 3 ? ["A", "B", "C"] : u < 5 ? ["B", "B", "C"] : u < 6 ? ["C", "C", "D"] : ["C", "D", "D"];
+  const col = insolation === "strong" ? 0 : insolation === "moderate" ? 1 : 2;
+  return row[col] as PasquillClass;
+}
+
+export function stabilityFromPasquill(pg: PasquillClass): StabilityType {
+  if (pg === "A" || pg === "B" || pg === "C") return "convective";
+  if (pg === "D") return "neutral";
+  return "stable";
+}
+
+/** --- category mapping --- **/
+
+export function cloudCategory(cloud_cover_pct: number, is_day: boolean): CloudType {
+  if (!is_day) return "night";
+  if (cloud_cover_pct < 25) return "clear";
+  if (cloud_cover_pct < 75) return "partly";
+  return "overcast";
+}
+
+// Rain-rate bands (mm/h): light < 2.5, moderate < 7.6, heavy above
+export function precipCategory(mm_hr: number): PrecipType {
+  if (!(mm_hr >= 0.1)) return "none";
+  if (mm_hr < 2.5) return "light";
+  if (mm_hr < 7.6) return "moderate";
+  return "heavy";
+}
+
+export function deriveEnvironment(w: {
+  temperature_f: number;
+  rel_humidity_pct: number;
+  cloud_cover_pct: number;
+  precip_mm_hr: number;
+  rain_24h_mm: number;
+  is_day: boolean;
+  shortwave_wm2: number | null;
+  wind_speed_mps: number | null;
+}): { insolation: Insolation; pg_class: PasquillClass; derived: DerivedEnvironment } {
+  const insolation = insolationClass(w.is_day, w.shortwave_wm2, w.cloud_cover_pct);
+  const pg_class = pasquillGifford(w.wind_speed_mps ?? 0, insolation, w.cloud_cover_pct);
+  const precip = precipCategory(w.precip_mm_hr);
+
+  return {
+    insolation,
+    pg_class,
+    derived: {
+      tempF: Math.round(w.temperature_f),
+      rh: Math.round(w.rel_humidity_pct),
+      cloud: cloudCategory(w.cloud_cover_pct, w.is_day),
+      precip,
+      // "Recent rain ended" only matters once it has stopped
+      recentRain: precip === "none" && w.rain_24h_mm >= 1,
+      stability: stabilityFromPasquill(pg_class),
+    },
+  };
+}
+
+/** Stability for a different wind speed (manual wind) from already-fetched conditions. */
+export function stabilityForWind(c: WeatherConditions, wind_mps: number): StabilityType {
+  return stabilityFromPasquill(pasquillGifford(wind_mps, c.insolation, c.cloud_cover_pct));
+}
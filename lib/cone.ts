@@ -1,19 +1,67 @@
+import { toLatLon, type XY } from "@/lib/grid";
+import type { LatLon } from "@/lib/scentEnvelope";
+
 export type WindData = {
   wind_speed_mps: number;
   wind_dir_from_deg: number; // meteorological FROM direction
   time?: string | null;
   model?: string;
+  source?: string;
+  // Provider id that answered /api/wind (see lib/windProviders)
+  provider?: string;
+  // Gust and direction spread (sigma-theta) from neighbouring hours or on-scene observations
+  gust_mps?: number | null;
+  dir_sigma_deg?: number | null;
+  // Set by the service worker when offline and replaying the last cached forecast
+  stale?: boolean;
+  stale_since?: string | null;
+};
+
+// /api/wind mode "series": hourly samples between two instants
+export type WindSeries = {
+  source?: string;
+  provider?: string;
+  timezone?: string | null;
+  stale?: boolean;
+  stale_since?: string | null;
+  samples: Array<{
+    time_utc: string;
+    time_local?: string;
+    wind_speed_mps: number;
+    wind_dir_from_deg: number;
+    gust_mps?: number | null;
+  }>;
 };
 
 export function mpsToMph(mps: number) {
   return mps * 2.236936;
 }
 
-export function defaultHalfAngleDegFromMph(mph: number) {
-  if (mph < 3) return 45;
-  if (mph < 10) return 25;
-  if (mph < 20) return 18;
-  return 12;
+// Direction scatter widens the cone by this many sigma-theta (added in quadrature to the speed default)
+export const SIGMA_THETA_SPREAD = 1.5;
+export const MAX_SPREAD_HALF_ANGLE_DEG = 60;
+
+/** Gusty air mixes scent sideways: +50% width per unit of gust factor above 1, capped at 1.5×. */
+export function gustWidthMult(gustFactor: number | null | undefined) {
+  if (gustFactor == null || !Number.isFinite(gustFactor)) return 1;
+  return 1 + 0.5 * Math.min(1, Math.max(0, gustFactor - 1));
+}
+
+export function defaultHalfAngleDegFromMph(
+  mph: number,
+  spread?: { sigma_theta_deg?: number | null; gust_factor?: number | null }
+) {
+  const base = mph < 3 ? 45 : mph < 10 ? 25 : mph < 20 ? 18 : 12;
+  if (!spread) return base;
+  const gusted = base * gustWidthMult(spread.gust_factor);
+  const meander = SIGMA_THETA_SPREAD * Math.max(0, spread.sigma_theta_deg ?? 0);
+  return Math.min(MAX_SPREAD_HALF_ANGLE_DEG, Math.max(gusted, Math.hypot(gusted, meander)));
+}
+
+/** Gust factor (gust / mean) of a wind reading, or null when either is missing. */
+export function gustFactorOf(wind: { wind_speed_mps: number; gust_mps?: number | null }) {
+  if (wind.gust_mps == null || !Number.isFinite(wind.gust_mps) || wind.wind_speed_mps < 0.5) return null;
+  return Math.max(1, wind.gust_mps / wind.wind_speed_mps);
 }
 
 export function bearingToCanvasRad(bearingDeg: number) {
@@ -52,3 +100,52 @@ export function computeCone(
   return { tip, left, right, centerRad: theta, downwindDeg };
 }
 
+
+/** --- geographic cone (Leaflet layer; fixed length in metres at every zoom) --- **/
+
+export type GeoConeGeometry = {
+  apex: LatLon;
+  tip: LatLon;
+  left: LatLon;
+  right: LatLon;
+  downwindDeg: number;
+};
+
+function polarXY(bearingDeg: number, distM: number): XY {
+  const b = (bearingDeg * Math.PI) / 180;
+  return { x: Math.sin(b) * distM, y: Math.cos(b) * distM };
+}
+
+export function computeGeoCone(apex: LatLon, lengthM: number, halfAngleDeg: number, windFromDeg: number): GeoConeGeometry {
+  const downwindDeg = downwindBearingDeg(windFromDeg);
+  return {
+    apex,
+    tip: toLatLon(apex, polarXY(downwindDeg, lengthM)),
+    left: toLatLon(apex, polarXY(downwindDeg - halfAngleDeg, lengthM)),
+    right: toLatLon(apex, polarXY(downwindDeg + halfAngleDeg, lengthM)),
+    downwindDeg,
+  };
+}
+
+/**
+ * The cone cut into `n` bands by distance from the apex, so a layer without gradient fills can
+ * shade it like the canvas' radial gradient. `t` is the band's mid distance as a share of length.
+ */
+export function geoConeBands(
+  apex: LatLon,
+  lengthM: number,
+  halfAngleDeg: number,
+  windFromDeg: number,
+  n = 8
+): Array<{ ring: LatLon[]; t: number }> {
+  const down = downwindBearingDeg(windFromDeg);
+  const kite = (f: number) =>
+    [down - halfAngleDeg, down, down + halfAngleDeg].map((b) => toLatLon(apex, polarXY(b, lengthM * f)));
+  const out: Array<{ ring: LatLon[]; t: number }> = [];
+  for (let i = 0; i < n; i++) {
+    const f0 = i / n;
+    const f1 = (i + 1) / n;
+    out.push({ ring: i === 0 ? [apex, ...kite(f1)] : [...kite(f1), ...kite(f0).reverse()], t: (f0 + f1) / 2 });
+  }
+  return out;
+}
@@ -0,0 +1,593 @@
+// lib/dem.ts
+// Local elevation model: minimal GeoTIFF reader, terrain-RGB tile mosaics, elevation sampling,
+// and the terrain features the envelope cares about (drainages, low points, saddles).
+// No external dependencies.
+
+import type { LatLon } from "@/lib/scentEnvelope";
+
+const R_EARTH_M = 6371000;
+const R_MERC = 6378137;
+
+// Raster CRS. Pixel (0,0) is the north-west corner; `x0/y0` and pixel sizes are in CRS units.
+export type DemCrs =
+  | { kind: "geographic" } // degrees lon/lat (EPSG:4326)
+  | { kind: "webmercator" } // metres (EPSG:3857), used for terrain-RGB mosaics
+  | { kind: "utm"; zone: number; south: boolean }; // WGS84 UTM (EPSG:326xx / 327xx)
+
+export type Dem = {
+  name: string;
+  crs: DemCrs;
+  nx: number;
+  ny: number;
+  x0: number; // CRS x of the west edge
+  y0: number; // CRS y of the north edge
+  dx: number; // pixel width (CRS units)
+  dy: number; // pixel height (CRS units, positive = rows go south)
+  elev: Float32Array; // metres, row-major, row 0 = north; NaN = no data
+  bounds: { west: number; south: number; east: number; north: number };
+};
+
+/** --- projections --- **/
+
+function deg2rad(d: number) {
+  return (d * Math.PI) / 180;
+}
+function rad2deg(r: number) {
+  return (r * 180) / Math.PI;
+}
+
+// Snyder's transverse Mercator series on WGS84, as used for UTM
+const WGS84_A = 6378137;
+const WGS84_F = 1 / 298.257223563;
+const UTM_K0 = 0.9996;
+
+function utmForward(p: LatLon, zone: number, south: boolean) {
+  const e2 = WGS84_F * (2 - WGS84_F);
+  const ep2 = e2 / (1 - e2);
+  const φ = deg2rad(p.lat);
+  const λ0 = deg2rad(zone * 6 - 183);
+  const N = WGS84_A / Math.sqrt(1 - e2 * Math.sin(φ) ** 2);
+  const T = Math.tan(φ) ** 2;
+  const C = ep2 * Math.cos(φ) ** 2;
+  const A = Math.cos(φ) * (deg2rad(p.lon) - λ0);
+  const M =
+    WGS84_A *
+    ((1 - e2 / 4 - (3 * e2 * e2) / 64 - (5 * e2 ** 3) / 256) * φ -
+      ((3 * e2) / 8 + (3 * e2 * e2) / 32 + (45 * e2 ** 3) / 1024) * Math.sin(2 * φ) +
+      ((15 * e2 * e2) / 256 + (45 * e2 ** 3) / 1024) * Math.sin(4 * φ) -
+      ((35 * e2 ** 3) / 3072) * Math.sin(6 * φ));
+  const x =
+    UTM_K0 * N * (A + ((1 - T + C) * A ** 3) / 6 + ((5 - 18 * T + T * T + 72 * C - 58 * ep2) * A ** 5) / 120) + 500000;
+  let y =
+    UTM_K0 *
+    (M +
+      N *
+        Math.tan(φ) *
+        ((A * A) / 2 + ((5 - T + 9 * C + 4 * C * C) * A ** 4) / 24 + ((61 - 58 * T + T * T + 600 * C - 330 * ep2) * A ** 6) / 720));
+  if (south) y += 10000000;
+  return { x, y };
+}
+
+function utmInverse(x: number, y: number, zone: number, south: boolean): LatLon {
+  const e2 = WGS84_F * (2 - WGS84_F);
+  const ep2 = e2 / (1 - e2);
+  const e1 = (1 - Math.sqrt(1 - e2)) / (1 + Math.sqrt(1 - e2));
+  const M = (south ? y - 10000000 : y) / UTM_K0;
+  const μ = M / (WGS84_A * (1 - e2 / 4 - (3 * e2 * e2) / 64 - (5 * e2 ** 3) / 256));
+  const φ1 =
+    μ +
+    ((3 * e1) / 2 - (27 * e1 ** 3) / 32) * Math.sin(2 * μ) +
+    ((21 * e1 * e1) / 16 - (55 * e1 ** 4) / 32) * Math.sin(4 * μ) +
+    ((151 * e1 ** 3) / 96) * Math.sin(6 * μ);
+  const N1 = WGS84_A / Math.sqrt(1 - e2 * Math.sin(φ1) ** 2);
+  const T1 = Math.tan(φ1) ** 2;
+  const C1 = ep2 * Math.cos(φ1) ** 2;
+  const R1 = (WGS84_A * (1 - e2)) / (1 - e2 * Math.sin(φ1) ** 2) ** 1.5;
+  const D = (x - 500000) / (N1 * UTM_K0);
+  const lat =
+    φ1 -
+    ((N1 * Math.tan(φ1)) / R1) *
+      ((D * D) / 2 -
+        ((5 + 3 * T1 + 10 * C1 - 4 * C1 * C1 - 9 * ep2) * D ** 4) / 24 +
+        ((61 + 90 * T1 + 298 * C1 + 45 * T1 * T1 - 252 * ep2 - 3 * C1 * C1) * D ** 6) / 720);
+  const lon =
+    (D - ((1 + 2 * T1 + C1) * D ** 3) / 6 + ((5 - 2 * C1 + 28 * T1 - 3 * C1 * C1 + 8 * ep2 + 24 * T1 * T1) * D ** 5) / 120) /
+    Math.cos(φ1);
+  return { lat: rad2deg(lat), lon: zone * 6 - 183 + rad2deg(lon) };
+}
+
+export function project(crs: DemCrs, p: LatLon) {
+  if (crs.kind === "geographic") return { x: p.lon, y: p.lat };
+  if (crs.kind === "webmercator") {
+    return { x: R_MERC * deg2rad(p.lon), y: R_MERC * Math.log(Math.tan(Math.PI / 4 + deg2rad(p.lat) / 2)) };
+  }
+  return utmForward(p, crs.zone, crs.south);
+}
+
+export function unproject(crs: DemCrs, x: number, y: number): LatLon {
+  if (crs.kind === "geographic") return { lat: y, lon: x };
+  if (crs.kind === "webmercator") {
+    return { lat: rad2deg(2 * Math.atan(Math.exp(y / R_MERC)) - Math.PI / 2), lon: rad2deg(x / R_MERC) };
+  }
+  return utmInverse(x, y, crs.zone, crs.south);
+}
+
+function demBounds(d: Omit<Dem, "bounds" | "name" | "elev">) {
+  const corners = [
+    unproject(d.crs, d.x0, d.y0),
+    unproject(d.crs, d.x0 + d.nx * d.dx, d.y0),
+    unproject(d.crs, d.x0, d.y0 - d.ny * d.dy),
+    unproject(d.crs, d.x0 + d.nx * d.dx, d.y0 - d.ny * d.dy),
+  ];
+  return {
+    west: Math.min(...corners.map((c) => c.lon)),
+    east: Math.max(...corners.map((c) => c.lon)),
+    south: Math.min(...corners.map((c) => c.lat)),
+    north: Math.max(...corners.map((c) => c.lat)),
+  };
+}
+
+/** --- sampling --- **/
+
+/** Bilinear elevation (metres) at a point, or null outside the DEM / over no-data. */
+export function sampleElevation(dem: Dem, p: LatLon): number | null {
+  const q = project(dem.crs, p);
+  const fx = (q.x - dem.x0) / dem.dx - 0.5;
+  const fy = (dem.y0 - q.y) / dem.dy - 0.5;
+  const i = Math.floor(fx);
+  const j = Math.floor(fy);
+  if (i < 0 || j < 0 || i >= dem.nx - 1 || j >= dem.ny - 1) return null;
+  const tx = fx - i;
+  const ty = fy - j;
+  const v = (ii: number, jj: number) => dem.elev[jj * dem.nx + ii];
+  const z =
+    v(i, j) * (1 - tx) * (1 - ty) + v(i + 1, j) * tx * (1 - ty) + v(i, j + 1) * (1 - tx) * ty + v(i + 1, j + 1) * tx * ty;
+  return Number.isFinite(z) ? z : null;
+}
+
+export function demCovers(dem: Dem, p: LatLon) {
+  return sampleElevation(dem, p) != null;
+}
+
+/** --- terrain features on a local metre grid --- **/
+
+export type TerrainFeature = {
+  kind: "low_point" | "saddle";
+  point: LatLon;
+  elev_m: number;
+};
+
+// Local equirectangular frame around an origin (same as lib/grid.ts)
+function offsetLatLon(origin: LatLon, x: number, y: number): LatLon {
+  const kx = (Math.PI / 180) * R_EARTH_M * Math.cos(deg2rad(origin.lat));
+  const ky = (Math.PI / 180) * R_EARTH_M;
+  return { lat: origin.lat + y / ky, lon: origin.lon + x / kx };
+}
+
+export type ElevationPatch = {
+  origin: LatLon; // south-west corner
+  cell_m: number;
+  nx: number;
+  ny: number;
+  z: Float32Array; // row 0 = south; NaN outside the DEM
+};
+
+/** Resample the DEM onto a square metre grid covering `box` (for slope/drainage analysis). */
+export function elevationPatch(
+  dem: Dem,
+  box: { south: number; west: number; north: number; east: number },
+  maxCells = 96
+): ElevationPatch {
+  const origin = { lat: box.south, lon: box.west };
+  const kx = (Math.PI / 180) * R_EARTH_M * Math.cos(deg2rad(origin.lat));
+  const ky = (Math.PI / 180) * R_EARTH_M;
+  const w = (box.east - box.west) * kx;
+  const h = (box.north - box.south) * ky;
+  // No finer than the DEM itself: sub-pixel cells only see bilinear ramps, never real features
+  const demPx_m = dem.crs.kind === "geographic" ? dem.dx * kx : dem.crs.kind === "webmercator" ? dem.dx * Math.cos(deg2rad(origin.lat)) : dem.dx;
+  const cell_m = Math.max(Math.max(w, h, 1) / maxCells, demPx_m);
+  const nx = Math.max(2, Math.ceil(w / cell_m));
+  const ny = Math.max(2, Math.ceil(h / cell_m));
+  const z = new Float32Array(nx * ny);
+  for (let j = 0; j < ny; j++) {
+    for (let i = 0; i < nx; i++) {
+      z[j * nx + i] = sampleElevation(dem, offsetLatLon(origin, (i + 0.5) * cell_m, (j + 0.5) * cell_m)) ?? NaN;
+    }
+  }
+  return { origin, cell_m, nx, ny, z };
+}
+
+export function patchLatLon(p: ElevationPatch, i: number, j: number): LatLon {
+  return offsetLatLon(p.origin, (i + 0.5) * p.cell_m, (j + 0.5) * p.cell_m);
+}
+
+/** Patch cell containing a point, or null outside the patch. */
+export function patchCellAt(p: ElevationPatch, ll: LatLon): { i: number; j: number } | null {
+  const kx = (Math.PI / 180) * R_EARTH_M * Math.cos(deg2rad(p.origin.lat));
+  const ky = (Math.PI / 180) * R_EARTH_M;
+  const i = Math.floor(((ll.lon - p.origin.lon) * kx) / p.cell_m);
+  const j = Math.floor(((ll.lat - p.origin.lat) * ky) / p.cell_m);
+  return i < 0 || j < 0 || i >= p.nx || j >= p.ny ? null : { i, j };
+}
+
+// Neighbours in ring order (E, NE, N, NW, W, SW, S, SE), so sign changes around the ring are meaningful
+const RING: Array<[number, number]> = [
+  [1, 0],
+  [1, 1],
+  [0, 1],
+  [-1, 1],
+  [-1, 0],
+  [-1, -1],
+  [0, -1],
+  [1, -1],
+];
+
+/**
+ * Low points (every neighbour higher) and saddles (neighbour ring alternates higher/lower at
+ * least twice each way). `minRelief_m` drops features that only exist in the DEM noise.
+ */
+export function findTerrainFeatures(p: ElevationPatch, minRelief_m = 1): TerrainFeature[] {
+  const out: TerrainFeature[] = [];
+  const at = (i: number, j: number) => p.z[j * p.nx + i];
+  const reach = 2; // compare against cells two out, which smooths single-cell noise
+
+  for (let j = reach; j < p.ny - reach; j++) {
+    for (let i = reach; i < p.nx - reach; i++) {
+      const z = at(i, j);
+      if (!Number.isFinite(z)) continue;
+      const diffs = RING.map(([di, dj]) => at(i + di * reach, j + dj * reach) - z);
+      if (diffs.some((d) => !Number.isFinite(d))) continue;
+
+      if (diffs.every((d) => d > 0) && Math.min(...diffs) >= minRelief_m * 0.25) {
+        out.push({ kind: "low_point", point: patchLatLon(p, i, j), elev_m: z });
+        continue;
+      }
+
+      // Near-level neighbours say nothing about shape; only count clear rises and falls
+      const signs = diffs.filter((d) => Math.abs(d) >= minRelief_m * 0.5).map((d) => d > 0);
+      let changes = 0;
+      for (let k = 0; k < signs.length; k++) if (signs[k] !== signs[(k + 1) % signs.length]) changes++;
+      if (changes >= 4) {
+        out.push({ kind: "saddle", point: patchLatLon(p, i, j), elev_m: z });
+      }
+    }
+  }
+
+  // Neighbouring cells often flag the same feature; keep one per ~3 cells
+  const kept: TerrainFeature[] = [];
+  const minSep = 3 * p.cell_m;
+  for (const f of out) {
+    const dup = kept.find((k) => {
+      const dy = (k.point.lat - f.point.lat) * (Math.PI / 180) * R_EARTH_M;
+      const dx = (k.point.lon - f.point.lon) * (Math.PI / 180) * R_EARTH_M * Math.cos(deg2rad(f.point.lat));
+      return k.kind === f.kind && Math.hypot(dx, dy) < minSep;
+    });
+    if (!dup) kept.push(f);
+    else if (f.kind === "low_point" && f.elev_m < dup.elev_m) Object.assign(dup, f);
+  }
+  return kept;
+}
+
+/**
+ * D8 flow accumulation (cells draining through each cell, >= 1). Large values are the drainages
+ * where cold, stable air carries scent at night.
+ */
+export function flowAccumulation(p: ElevationPatch): Float32Array {
+  const n = p.nx * p.ny;
+  const acc = new Float32Array(n).fill(1);
+  const order = Array.from({ length: n }, (_, k) => k)
+    .filter((k) => Number.isFinite(p.z[k]))
+    .sort((a, b) => p.z[b] - p.z[a]);
+
+  for (const k of order) {
+    const i = k % p.nx;
+    const j = (k - i) / p.nx;
+    let best = -1;
+    let bestDrop = 0;
+    for (const [di, dj] of RING) {
+      const ii = i + di;
+      const jj = j + dj;
+      if (ii < 0 || jj < 0 || ii >= p.nx || jj >= p.ny) continue;
+      const kk = jj * p.nx + ii;
+      const drop = (p.z[k] - p.z[kk]) / Math.hypot(di, dj);
+      if (drop > bestDrop) {
+        bestDrop = drop;
+        best = kk;
+      }
+    }
+    if (best >= 0) acc[best] += acc[k];
+  }
+  return acc;
+}
+
+/** Downslope unit vector (east, north) and slope (rise/run) at a patch cell. */
+export function downslopeAt(p: ElevationPatch, i: number, j: number): { ux: number; uy: number; slope: number } {
+  const at = (ii: number, jj: number) => {
+    const z = p.z[Math.max(0, Math.min(p.ny - 1, jj)) * p.nx + Math.max(0, Math.min(p.nx - 1, ii))];
+    return Number.isFinite(z) ? z : p.z[j * p.nx + i];
+  };
+  const gx = (at(i + 1, j) - at(i - 1, j)) / (2 * p.cell_m);
+  const gy = (at(i, j + 1) - at(i, j - 1)) / (2 * p.cell_m);
+  const slope = Math.hypot(gx, gy);
+  if (!Number.isFinite(slope) || slope === 0) return { ux: 0, uy: 0, slope: 0 };
+  return { ux: -gx / slope, uy: -gy / slope, slope };
+}
+
+/** --- GeoTIFF (single band, strips or tiles, uncompressed or deflate) --- **/
+
+export const TAG = {
+  ImageWidth: 256,
+  ImageLength: 257,
+  BitsPerSample: 258,
+  Compression: 259,
+  StripOffsets: 273,
+  SamplesPerPixel: 277,
+  RowsPerStrip: 278,
+  StripByteCounts: 279,
+  Predictor: 317,
+  TileWidth: 322,
+  TileLength: 323,
+  TileOffsets: 324,
+  TileByteCounts: 325,
+  SampleFormat: 339,
+  ModelPixelScale: 33550,
+  ModelTiepoint: 33922,
+  GeoKeyDirectory: 34735,
+  GdalNoData: 42113,
+} as const;
+
+export type TiffValue = number[] | string;
+
+export function readIfd(view: DataView, offset: number, le: boolean): Map<number, TiffValue> {
+  const typeSize: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8 };
+  const tags = new Map<number, TiffValue>();
+  const n = view.getUint16(offset, le);
+
+  for (let e = 0; e < n; e++) {
+    const base = offset + 2 + e * 12;
+    const tag = view.getUint16(base, le);
+    const type = view.getUint16(base + 2, le);
+    const count = view.getUint32(base + 4, le);
+    const size = (typeSize[type] ?? 1) * count;
+    const at = size <= 4 ? base + 8 : view.getUint32(base + 8, le);
+
+    if (type === 2) {
+      let s = "";
+      for (let k = 0; k < count; k++) {
+        const c = view.getUint8(at + k);
+        if (c) s += String.fromCharCode(c);
+      }
+      tags.set(tag, s);
+      continue;
+    }
+
+    const vals: number[] = [];
+    for (let k = 0; k < count; k++) {
+      switch (type) {
+        case 1: case 7: vals.push(view.getUint8(at + k)); break;
+        case 6: vals.push(view.getInt8(at + k)); break;
+        case 3: vals.push(view.getUint16(at + 2 * k, le)); break;
+        case 8: vals.push(view.getInt16(at + 2 * k, le)); break;
+        case 4: vals.push(view.getUint32(at + 4 * k, le)); break;
+        case 9: vals.push(view.getInt32(at + 4 * k, le)); break;
+        case 5: vals.push(view.getUint32(at + 8 * k, le) / view.getUint32(at + 8 * k + 4, le)); break;
+        case 10: vals.push(view.getInt32(at + 8 * k, le) / view.getInt32(at + 8 * k + 4, le)); break;
+        case 11: vals.push(view.getFloat32(at + 4 * k, le)); break;
+        case 12: vals.push(view.getFloat64(at + 8 * k, le)); break;
+      }
+    }
+    tags.set(tag, vals);
+  }
+  return tags;
+}
+
+export async function inflate(bytes: Uint8Array): Promise<Uint8Array> {
+  if (typeof DecompressionStream === "undefined") throw new Error("This browser cannot read deflate-compressed GeoTIFFs.");
+  const stream = new Blob([bytes as BlobPart]).stream().pipeThrough(new DecompressionStream("deflate"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+export function geoKeys(dir: number[] | undefined): Map<number, number> {
+  const keys = new Map<number, number>();
+  if (!dir || dir.length < 4) return keys;
+  for (let k = 0; k < dir[3]; k++) {
+    const [id, loc, , value] = dir.slice(4 + 4 * k, 8 + 4 * k);
+    if (loc === 0) keys.set(id, value);
+  }
+  return keys;
+}
+
+/** The supported CRS for an EPSG code, or null. */
+export function crsFromEpsg(code: number): DemCrs | null {
+  if (code === 4326) return { kind: "geographic" };
+  if (code === 3857 || code === 900913) return { kind: "webmercator" };
+  if (code >= 32601 && code <= 32660) return { kind: "utm", zone: code - 32600, south: false };
+  if (code >= 32701 && code <= 32760) return { kind: "utm", zone: code - 32700, south: true };
+  return null;
+}
+
+export function crsFromGeoKeys(keys: Map<number, number>): DemCrs {
+  const model = keys.get(1024); // GTModelType: 1 projected, 2 geographic
+  const projected = keys.get(3072);
+  if (model === 2 || (!model && !projected)) return { kind: "geographic" };
+  const crs = projected ? crsFromEpsg(projected) : null;
+  if (crs) return crs;
+  throw new Error(`Unsupported projection (EPSG:${projected ?? "?"}). Use WGS84 lat/lon, UTM or Web Mercator.`);
+}
+
+/**
+ * Parse a single-band GeoTIFF DEM. Supports 16/32-bit int and 32/64-bit float samples,
+ * strips or tiles, no compression or deflate (predictor 2 for integer samples only).
+ */
+export async function parseGeoTiff(buf: ArrayBuffer, name = "DEM"): Promise<Dem> {
+  const view = new DataView(buf);
+  const order = view.getUint16(0, false);
+  if (order !== 0x4949 && order !== 0x4d4d) throw new Error("Not a TIFF file.");
+  const le = order === 0x4949;
+  if (view.getUint16(2, le) !== 42) throw new Error("BigTIFF is not supported; export a classic GeoTIFF.");
+
+  const tags = readIfd(view, view.getUint32(4, le), le);
+  const num = (t: number, d?: number) => {
+    const v = tags.get(t);
+    return Array.isArray(v) && v.length ? v[0] : d;
+  };
+  const arr = (t: number) => {
+    const v = tags.get(t);
+    return Array.isArray(v) ? v : undefined;
+  };
+
+  const nx = num(TAG.ImageWidth)!;
+  const ny = num(TAG.ImageLength)!;
+  const bits = num(TAG.BitsPerSample, 16)!;
+  const format = num(TAG.SampleFormat, 1)!;
+  const compression = num(TAG.Compression, 1)!;
+  const predictor = num(TAG.Predictor, 1)!;
+  if ((num(TAG.SamplesPerPixel, 1) ?? 1) !== 1) throw new Error("DEM must have a single band.");
+  if (compression !== 1 && compression !== 8 && compression !== 32946) {
+    throw new Error("Only uncompressed or deflate GeoTIFFs are supported.");
+  }
+  // Predictor 3 is GDAL's floating-point predictor; horizontal differencing only applies to integers
+  if (predictor !== 1 && (predictor !== 2 || format === 3)) {
+    throw new Error(`Unsupported predictor (${predictor}). Re-export the DEM without a predictor (PREDICTOR=1).`);
+  }
+
+  const scale = arr(TAG.ModelPixelScale);
+  const tie = arr(TAG.ModelTiepoint);
+  if (!scale || !tie) throw new Error("GeoTIFF has no georeferencing (ModelPixelScale / ModelTiepoint).");
+  const crs = crsFromGeoKeys(geoKeys(arr(TAG.GeoKeyDirectory)));
+
+  const noDataStr = tags.get(TAG.GdalNoData);
+  const noData = typeof noDataStr === "string" && noDataStr.trim() ? Number(noDataStr) : NaN;
+
+  const bytesPer = bits / 8;
+  const readSample = (dv: DataView, off: number): number => {
+    if (format === 3) return bits === 64 ? dv.getFloat64(off, le) : dv.getFloat32(off, le);
+    if (format === 2) return bits === 32 ? dv.getInt32(off, le) : bits === 16 ? dv.getInt16(off, le) : dv.getInt8(off);
+    return bits === 32 ? dv.getUint32(off, le) : bits === 16 ? dv.getUint16(off, le) : dv.getUint8(off);
+  };
+
+  const tiled = tags.has(TAG.TileOffsets);
+  const blockW = tiled ? num(TAG.TileWidth)! : nx;
+  const blockH = tiled ? num(TAG.TileLength)! : num(TAG.RowsPerStrip, ny)!;
+  const offsets = arr(tiled ? TAG.TileOffsets : TAG.StripOffsets) ?? [];
+  const counts = arr(tiled ? TAG.TileByteCounts : TAG.StripByteCounts) ?? [];
+  const across = Math.ceil(nx / blockW);
+
+  const elev = new Float32Array(nx * ny).fill(NaN);
+  for (let b = 0; b < offsets.length; b++) {
+    let bytes: Uint8Array = new Uint8Array(buf, offsets[b], counts[b]);
+    if (compression !== 1) bytes = await inflate(bytes);
+    const dv = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const col0 = (b % across) * blockW;
+    const row0 = Math.floor(b / across) * blockH;
+
+    for (let r = 0; r < blockH && row0 + r < ny; r++) {
+      let prev = 0;
+      for (let c = 0; c < blockW; c++) {
+        const off = (r * blockW + c) * bytesPer;
+        if (off + bytesPer > bytes.byteLength) break;
+        let v = readSample(dv, off);
+        // Horizontal differencing: sums wrap at the sample width, then re-sign for int formats
+        if (predictor === 2) {
+          const mod = 2 ** bits;
+          const u = (((v + prev) % mod) + mod) % mod;
+          prev = u;
+          v = format === 2 && u >= mod / 2 ? u - mod : u;
+        }
+        if (col0 + c >= nx) continue;
+        elev[(row0 + r) * nx + col0 + c] = v === noData || v <= -9999 ? NaN : v;
+      }
+    }
+  }
+
+  // Tiepoint maps raster (I,J) to model (X,Y); assume the usual I=J=0 tie
+  const base = { crs, nx, ny, x0: tie[3] - tie[0] * scale[0], y0: tie[4] + tie[1] * scale[1], dx: scale[0], dy: scale[1] };
+  return { ...base, name, elev, bounds: demBounds(base) };
+}
+
+/** --- terrain-RGB tiles --- **/
+
+export type TerrainRgbEncoding = "mapbox" | "terrarium";
+
+export type TerrainTile = { z: number; x: number; y: number; rgba: Uint8ClampedArray; size: number };
+
+export function decodeTerrainRgb(r: number, g: number, b: number, encoding: TerrainRgbEncoding) {
+  return encoding === "terrarium" ? r * 256 + g + b / 256 - 32768 : -10000 + (r * 65536 + g * 256 + b) * 0.1;
+}
+
+/** z/x/y from "12/1103/1709.png", "12_1103_1709.png" or "12-1103-1709.webp". */
+export function tileIdFromPath(path: string): { z: number; x: number; y: number } | null {
+  const m = path.match(/(\d+)[/_-](\d+)[/_-](\d+)(@2x)?\.(png|webp)$/i);
+  return m ? { z: Number(m[1]), x: Number(m[2]), y: Number(m[3]) } : null;
+}
+
+/** Mosaic decoded tiles (same zoom) into one Web Mercator DEM. */
+export function mosaicTerrainTiles(tiles: TerrainTile[], encoding: TerrainRgbEncoding, name = "Terrain tiles"): Dem {
+  if (!tiles.length) throw new Error("No terrain tiles.");
+  const z = Math.max(...tiles.map((t) => t.z));
+  const use = tiles.filter((t) => t.z === z);
+  const size = use[0].size;
+  const xMin = Math.min(...use.map((t) => t.x));
+  const yMin = Math.min(...use.map((t) => t.y));
+  const nx = (Math.max(...use.map((t) => t.x)) - xMin + 1) * size;
+  const ny = (Math.max(...use.map((t) => t.y)) - yMin + 1) * size;
+
+  const elev = new Float32Array(nx * ny).fill(NaN);
+  for (const t of use) {
+    for (let r = 0; r < size; r++) {
+      for (let c = 0; c < size; c++) {
+        const o = (r * size + c) * 4;
+        if (t.rgba[o + 3] === 0) continue;
+        elev[((t.y - yMin) * size + r) * nx + (t.x - xMin) * size + c] = decodeTerrainRgb(
+          t.rgba[o],
+          t.rgba[o + 1],
+          t.rgba[o + 2],
+          encoding
+        );
+      }
+    }
+  }
+
+  const world = 2 * Math.PI * R_MERC;
+  const px = world / (2 ** z * size);
+  const base = {
+    crs: { kind: "webmercator" } as DemCrs,
+    nx,
+    ny,
+    x0: -world / 2 + xMin * size * px,
+    y0: world / 2 - yMin * size * px,
+    dx: px,
+    dy: px,
+  };
+  return { ...base, name, elev, bounds: demBounds(base) };
+}
+
+/** Decode terrain-RGB PNG/WebP files picked from disk (browser only). */
+export async function loadTerrainRgbFiles(files: File[], encoding: TerrainRgbEncoding): Promise<Dem> {
+  const tiles: TerrainTile[] = [];
+  for (const f of files) {
+    const id = tileIdFromPath(f.webkitRelativePath || f.name);
+    if (!id) continue;
+    const bmp = await createImageBitmap(f);
+    const canvas = document.createElement("canvas");
+    canvas.width = bmp.width;
+    canvas.height = bmp.height;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) throw new Error("Canvas not available.");
+    ctx.drawImage(bmp, 0, 0);
+    tiles.push({ ...id, size: bmp.width, rgba: ctx.getImageData(0, 0, bmp.width, bmp.height).data });
+  }
+  if (!tiles.length) throw new Error("No tiles found. Name files z/x/y.png (or z_x_y.png).");
+  return mosaicTerrainTiles(tiles, encoding, `${tiles.length} terrain tiles`);
+}
+
+export function elevationRange(dem: Dem) {
+  let lo = Infinity;
+  let hi = -Infinity;
+  for (const v of dem.elev) {
+    if (!Number.isFinite(v)) continue;
+    if (v < lo) lo = v;
+    if (v > hi) hi = v;
+  }
+  return Number.isFinite(lo) ? { min: lo, max: hi } : null;
+}
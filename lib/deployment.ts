@@ -0,0 +1,183 @@
+// lib/deployment.ts
+// Deployment-window planner: the envelope re-run for every forecast hour ahead, charted as
+// confidence, wind steadiness and axis, with the best hours to work each start point.
+// No external dependencies.
+
+import {
+  addMinutesIso,
+  computeScentEnvelope,
+  type EnvelopeInputs,
+  type EnvelopeOutput,
+  type LatLon,
+  type WindSample,
+} from "@/lib/scentEnvelope";
+import { sampleGrid, toXY } from "@/lib/grid";
+import { axisGeometry } from "@/lib/envelopeOverride";
+import { directionStats } from "@/lib/windObservations";
+
+export type ForecastHour = WindSample & { gust_mph?: number | null };
+
+export type DeploymentHour = {
+  time_iso: string;
+  wind_from_deg: number;
+  wind_speed_mph: number;
+  confidence_score: number;
+  confidence_band: EnvelopeOutput["confidence_band"];
+  dir_sigma_deg: number; // spread of the forecast direction over this hour and its neighbours
+  steadiness: number; // 0–1, 1 = the direction holds
+  axis_bearing_deg: number;
+  axis_length_m: number;
+  reversal: boolean; // wind carries scent back across the current core
+  scores: number[]; // per start point, 0–1
+};
+
+export type DeploymentWindow = { start_iso: string; end_iso: string; hours: number; score: number };
+
+export type DeploymentPlan = {
+  core_bearing_deg: number | null; // LKP → current core centre; null when the core sits on the LKP
+  hours: DeploymentHour[];
+  start_points: Array<{ label: string; point: LatLon; windows: DeploymentWindow[] }>;
+};
+
+// Direction spread (σθ across neighbouring hours) at which the wind no longer counts as steady at all
+const STEADY_SIGMA_MAX_DEG = 60;
+
+// Downwind this far off the LKP → core bearing pushes scent back over the core
+const REVERSAL_DEG = 90;
+
+// Hours scoring within this share of a start point's best hour make up its windows
+const WINDOW_SHARE = 0.8;
+const MAX_WINDOWS = 3;
+
+/** --- helpers --- **/
+
+function clamp(x: number, lo: number, hi: number) {
+  return Math.max(lo, Math.min(hi, x));
+}
+
+function angleDiffDeg(a: number, b: number) {
+  const d = Math.abs((((a - b) % 360) + 360) % 360);
+  return d > 180 ? 360 - d : d;
+}
+
+/** Bearing from the LKP to the centre of the core polygon, or null when the core sits on the LKP. */
+export function coreBearingDeg(lkp: LatLon, core: LatLon[]): number | null {
+  if (!core.length) return null;
+  let x = 0;
+  let y = 0;
+  for (const p of core) {
+    const q = toXY(lkp, p);
+    x += q.x / core.length;
+    y += q.y / core.length;
+  }
+  if (Math.hypot(x, y) < 1) return null;
+  return ((Math.atan2(x, y) * 180) / Math.PI + 360) % 360;
+}
+
+/** True when wind from `windFromDeg` blows back across a core lying along `coreBearing`. */
+export function isReversal(windFromDeg: number, coreBearing: number | null) {
+  if (coreBearing == null) return false;
+  return angleDiffDeg((windFromDeg + 180) % 360, coreBearing) > REVERSAL_DEG;
+}
+
+/** σθ of the forecast direction over hour `i` and the hours either side, and the steadiness it implies. */
+export function steadinessAt(forecast: ForecastHour[], i: number): { sigma_deg: number; steadiness: number } {
+  const dirs = forecast.slice(Math.max(0, i - 1), i + 2).map((f) => f.wind_from_deg);
+  const sigma = directionStats(dirs)?.sigma_deg ?? 0;
+  return { sigma_deg: sigma, steadiness: clamp(1 - sigma / STEADY_SIGMA_MAX_DEG, 0, 1) };
+}
+
+/**
+ * Runs of consecutive hours scoring within WINDOW_SHARE of the best hour, best mean first.
+ * Each hour covers the hour that follows its timestamp.
+ */
+export function deploymentWindows(hours: Array<{ time_iso: string; score: number }>): DeploymentWindow[] {
+  const best = Math.max(0, ...hours.map((h) => h.score));
+  if (best <= 0) return [];
+
+  const windows: DeploymentWindow[] = [];
+  let run: typeof hours = [];
+  const close = () => {
+    if (!run.length) return;
+    windows.push({
+      start_iso: run[0].time_iso,
+      end_iso: addMinutesIso(run[run.length - 1].time_iso, 60),
+      hours: run.length,
+      score: run.reduce((a, h) => a + h.score, 0) / run.length,
+    });
+    run = [];
+  };
+  for (const h of hours) {
+    if (h.score >= best * WINDOW_SHARE) run.push(h);
+    else close();
+  }
+  close();
+
+  return windows.sort((a, b) => b.score - a.score).slice(0, MAX_WINDOWS);
+}
+
+/** --- planner --- **/
+
+/**
+ * Re-run the envelope at each forecast hour. `base` is the model as it stands now (its
+ * now_time_iso is when the forecast starts); its core and start points are what the hours are
+ * judged against. The wind history up to the first forecast hour comes from `history` (or the
+ * current wind carried back to the LKP), then the forecast takes over. Each start point is scored
+ * per hour by the scent density there, the model confidence and the steadiness of the wind, and
+ * zeroed when the wind reverses.
+ */
+export function planDeployment(base: EnvelopeInputs, history: WindSample[], forecast: ForecastHour[]): DeploymentPlan {
+  const lkp = { lat: base.lkp_lat, lon: base.lkp_lon };
+  const lkpMs = Date.parse(base.lkp_time_iso);
+  const hoursAhead = forecast
+    .filter((f) => Date.parse(f.time_iso) >= lkpMs)
+    .sort((a, b) => Date.parse(a.time_iso) - Date.parse(b.time_iso));
+  const current = computeScentEnvelope({ ...base, wind_series: history.length ? history : undefined });
+  const coreBearing = coreBearingDeg(lkp, current.polygons.core);
+
+  const firstMs = hoursAhead.length ? Date.parse(hoursAhead[0].time_iso) : Infinity;
+  const past = history.filter((s) => Date.parse(s.time_iso) < firstMs);
+  const lead: WindSample[] = past.length
+    ? past
+    : [{ time_iso: base.lkp_time_iso, wind_from_deg: base.wind_from_deg, wind_speed_mph: base.wind_speed_mph }];
+
+  const hours: DeploymentHour[] = hoursAhead.map((f, i) => {
+    const env = computeScentEnvelope({
+      ...base,
+      now_time_iso: f.time_iso,
+      wind_from_deg: f.wind_from_deg,
+      wind_speed_mph: f.wind_speed_mph,
+      wind_gust_mph: f.gust_mph ?? base.wind_gust_mph,
+      wind_series: [...lead, ...hoursAhead.slice(0, i + 1)],
+    });
+    const axis = axisGeometry(env.axis);
+    const steady = steadinessAt(hoursAhead, i);
+    const reversal = isReversal(f.wind_from_deg, coreBearing);
+    const quality = (env.confidence_score / 100) * steady.steadiness;
+
+    return {
+      time_iso: f.time_iso,
+      wind_from_deg: f.wind_from_deg,
+      wind_speed_mph: f.wind_speed_mph,
+      confidence_score: env.confidence_score,
+      confidence_band: env.confidence_band,
+      dir_sigma_deg: steady.sigma_deg,
+      steadiness: steady.steadiness,
+      axis_bearing_deg: axis.bearing_deg,
+      axis_length_m: axis.length_m,
+      reversal,
+      scores: current.recommended_start_points.map((sp) =>
+        reversal ? 0 : clamp(sampleGrid(env.density, sp.point), 0, 1) * quality
+      ),
+    };
+  });
+
+  return {
+    core_bearing_deg: coreBearing,
+    hours,
+    start_points: current.recommended_start_points.map((sp, k) => ({
+      ...sp,
+      windows: deploymentWindows(hours.map((h) => ({ time_iso: h.time_iso, score: h.scores[k] }))),
+    })),
+  };
+}
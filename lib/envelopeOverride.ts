@@ -0,0 +1,157 @@
+// lib/envelopeOverride.ts
+// Handler override of the modelled envelope: an annotated copy of the zone polygons and axis that
+// the handler reshapes on the map (drag vertices, rotate the axis, stretch the length).
+// No external dependencies.
+
+import type { EnvelopeOutput, LatLon } from "@/lib/scentEnvelope";
+import { toLatLon, toXY, type XY } from "@/lib/grid";
+
+export type OverrideZone = "core" | "fringe" | "residual";
+
+export const OVERRIDE_ZONES: OverrideZone[] = ["core", "fringe", "residual"];
+
+export type EnvelopeOverride = {
+  note: string; // why the handler departed from the model (ridge, tree line, observed behaviour)
+  created_iso: string;
+  updated_iso: string;
+  model_t_minutes: number; // age of the model envelope the override started from
+  polygons: Record<OverrideZone, LatLon[]>;
+  axis: LatLon[]; // LKP first; the last point is the draggable tip
+};
+
+// Enough corners to follow the model's shape while every one stays grabbable on a phone
+export const OVERRIDE_MAX_VERTICES = 24;
+
+/** --- geometry --- **/
+
+function triArea(a: XY, b: XY, c: XY) {
+  return Math.abs((b.x - a.x) * (c.y - a.y) - (c.x - a.x) * (b.y - a.y)) / 2;
+}
+
+/** Visvalingam–Whyatt: drop the corner spanning the smallest triangle until maxPts remain. */
+export function simplifyRing(ring: LatLon[], maxPts = OVERRIDE_MAX_VERTICES): LatLon[] {
+  if (ring.length <= maxPts) return ring.slice();
+  const origin = ring[0];
+  const pts = ring.map((p) => ({ p, q: toXY(origin, p) }));
+  while (pts.length > Math.max(3, maxPts)) {
+    let best = 0;
+    let bestArea = Infinity;
+    for (let i = 0; i < pts.length; i++) {
+      const a = pts[(i - 1 + pts.length) % pts.length].q;
+      const c = pts[(i + 1) % pts.length].q;
+      const area = triArea(a, pts[i].q, c);
+      if (area < bestArea) {
+        bestArea = area;
+        best = i;
+      }
+    }
+    pts.splice(best, 1);
+  }
+  return pts.map((v) => v.p);
+}
+
+function bearingXY(q: XY) {
+  return ((Math.atan2(q.x, q.y) * 180) / Math.PI + 360) % 360;
+}
+
+/** Bearing (deg) and length (m) from the LKP to the axis tip. */
+export function axisGeometry(axis: LatLon[]): { bearing_deg: number; length_m: number } {
+  if (axis.length < 2) return { bearing_deg: 0, length_m: 0 };
+  const q = toXY(axis[0], axis[axis.length - 1]);
+  return { bearing_deg: bearingXY(q), length_m: Math.hypot(q.x, q.y) };
+}
+
+/** --- editing --- **/
+
+export function startOverride(
+  envelope: Pick<EnvelopeOutput, "polygons" | "axis" | "t_minutes">,
+  note: string,
+  nowIso = new Date().toISOString()
+): EnvelopeOverride {
+  return {
+    note,
+    created_iso: nowIso,
+    updated_iso: nowIso,
+    model_t_minutes: envelope.t_minutes,
+    polygons: {
+      core: simplifyRing(envelope.polygons.core),
+      fringe: simplifyRing(envelope.polygons.fringe),
+      residual: simplifyRing(envelope.polygons.residual),
+    },
+    axis: envelope.axis.slice(),
+  };
+}
+
+export function moveVertex(
+  o: EnvelopeOverride,
+  zone: OverrideZone,
+  index: number,
+  p: LatLon,
+  nowIso = new Date().toISOString()
+): EnvelopeOverride {
+  return {
+    ...o,
+    updated_iso: nowIso,
+    polygons: { ...o.polygons, [zone]: o.polygons[zone].map((v, i) => (i === index ? p : v)) },
+  };
+}
+
+/**
+ * Drag the axis tip to `tip`: everything turns about the LKP by the change in bearing, then
+ * stretches along the new axis by the change in length. Across-axis widths and anything upwind of
+ * the LKP keep their size.
+ */
+export function moveAxisTip(o: EnvelopeOverride, tip: LatLon, nowIso = new Date().toISOString()): EnvelopeOverride {
+  const apex = o.axis[0];
+  const before = axisGeometry(o.axis);
+  const q = toXY(apex, tip);
+  const length = Math.hypot(q.x, q.y);
+  if (before.length_m < 1 || length < 1) return o;
+
+  const turn = ((bearingXY(q) - before.bearing_deg) * Math.PI) / 180;
+  const stretch = length / before.length_m;
+  const u = { x: q.x / length, y: q.y / length };
+  const cos = Math.cos(turn);
+  const sin = Math.sin(turn);
+
+  const move = (p: LatLon) => {
+    const a = toXY(apex, p);
+    // Clockwise rotation (bearings grow clockwise; x east, y north)
+    const r = { x: a.x * cos + a.y * sin, y: -a.x * sin + a.y * cos };
+    const along = r.x * u.x + r.y * u.y;
+    const extra = along > 0 ? along * (stretch - 1) : 0;
+    return toLatLon(apex, { x: r.x + u.x * extra, y: r.y + u.y * extra });
+  };
+
+  return {
+    ...o,
+    updated_iso: nowIso,
+    polygons: { core: o.polygons.core.map(move), fringe: o.polygons.fringe.map(move), residual: o.polygons.residual.map(move) },
+    axis: [apex, ...o.axis.slice(1).map(move)],
+  };
+}
+
+/** --- persistence --- **/
+
+function isLatLon(v: unknown): v is LatLon {
+  const o = v as { lat?: unknown; lon?: unknown } | null;
+  return !!o && Number.isFinite(o.lat) && Number.isFinite(o.lon);
+}
+
+/** An override from a save or file, or null when its geometry is unusable. */
+export function normalizeOverride(raw: Partial<EnvelopeOverride> | null | undefined): EnvelopeOverride | null {
+  if (!raw?.polygons || !Array.isArray(raw.axis) || raw.axis.length < 2 || !raw.axis.every(isLatLon)) return null;
+  for (const z of OVERRIDE_ZONES) {
+    const ring = raw.polygons[z];
+    if (!Array.isArray(ring) || ring.length < 3 || !ring.every(isLatLon)) return null;
+  }
+  const now = new Date().toISOString();
+  return {
+    note: typeof raw.note === "string" ? raw.note : "",
+    created_iso: raw.created_iso ?? now,
+    updated_iso: raw.updated_iso ?? raw.created_iso ?? now,
+    model_t_minutes: Number(raw.model_t_minutes) || 0,
+    polygons: raw.polygons,
+    axis: raw.axis,
+  };
+}
@@ -0,0 +1,252 @@
+// lib/georef.ts
+// Georeferencing of screenshots and scanned maps: a least-squares pixel → ground fit from three or
+// more control points (affine, or projective for oblique views), per-point residuals, and the
+// transforms both ways. Works for any image orientation, including rotated and mirrored images.
+// No external dependencies.
+
+import { destinationPoint, type LatLon } from "@/lib/scentEnvelope";
+import { toLatLon, toXY, type XY } from "@/lib/grid";
+
+export type PixelPoint = { x: number; y: number };
+
+export type ControlPoint = {
+  id: string;
+  px: PixelPoint;
+  lat: number | null; // typed in by the user; the point is ignored until both are set
+  lon: number | null;
+};
+
+export type GeorefKind = "affine" | "projective";
+
+// Row-major 3×3 homography on [x, y, 1]; affine fits keep the last row at [0, 0, 1]
+export type Mat3 = number[];
+
+export type Georef = {
+  kind: GeorefKind;
+  origin: LatLon; // local metric frame (x east, y north) the matrices map into
+  forward: Mat3; // pixel → metres
+  inverse: Mat3; // metres → pixel
+  // Sign of w (the homogeneous coordinate) at the control points under each matrix. A point with
+  // the other sign is behind the camera, on the far side of an oblique view's horizon
+  w_sign: { forward: 1 | -1; inverse: 1 | -1 };
+  residuals: Array<{ id: string; error_m: number }>;
+  rms_m: number;
+};
+
+export const MIN_CONTROL_POINTS: Record<GeorefKind, number> = { affine: 3, projective: 4 };
+
+/** --- linear algebra --- **/
+
+/** Gaussian elimination with partial pivoting; null when the system is (near) singular. */
+function solveLinear(A: number[][], b: number[]): number[] | null {
+  const n = b.length;
+  const M = A.map((row, i) => [...row, b[i]]);
+  for (let c = 0; c < n; c++) {
+    let p = c;
+    for (let r = c + 1; r < n; r++) if (Math.abs(M[r][c]) > Math.abs(M[p][c])) p = r;
+    if (Math.abs(M[p][c]) < 1e-10) return null;
+    [M[c], M[p]] = [M[p], M[c]];
+    for (let r = c + 1; r < n; r++) {
+      const f = M[r][c] / M[c][c];
+      for (let k = c; k <= n; k++) M[r][k] -= f * M[c][k];
+    }
+  }
+  const x = new Array<number>(n).fill(0);
+  for (let r = n - 1; r >= 0; r--) {
+    let s = M[r][n];
+    for (let k = r + 1; k < n; k++) s -= M[r][k] * x[k];
+    x[r] = s / M[r][r];
+  }
+  return x.every(Number.isFinite) ? x : null;
+}
+
+/** Least squares: rows of A against targets b via the normal equations. */
+function leastSquares(A: number[][], b: number[]): number[] | null {
+  const n = A[0].length;
+  const AtA = Array.from({ length: n }, () => new Array<number>(n).fill(0));
+  const Atb = new Array<number>(n).fill(0);
+  A.forEach((row, i) => {
+    for (let j = 0; j < n; j++) {
+      Atb[j] += row[j] * b[i];
+      for (let k = 0; k < n; k++) AtA[j][k] += row[j] * row[k];
+    }
+  });
+  return solveLinear(AtA, Atb);
+}
+
+function mul3(a: Mat3, b: Mat3): Mat3 {
+  const out = new Array<number>(9).fill(0);
+  for (let r = 0; r < 3; r++) for (let c = 0; c < 3; c++) for (let k = 0; k < 3; k++) out[r * 3 + c] += a[r * 3 + k] * b[k * 3 + c];
+  return out;
+}
+
+export function invert3(m: Mat3): Mat3 | null {
+  const [a, b, c, d, e, f, g, h, i] = m;
+  const A = e * i - f * h;
+  const B = -(d * i - f * g);
+  const C = d * h - e * g;
+  const det = a * A + b * B + c * C;
+  if (!Number.isFinite(det) || Math.abs(det) < 1e-18) return null;
+  return [
+    A / det,
+    -(b * i - c * h) / det,
+    (b * f - c * e) / det,
+    B / det,
+    (a * i - c * g) / det,
+    -(a * f - c * d) / det,
+    C / det,
+    -(a * h - b * g) / det,
+    (a * e - b * d) / det,
+  ];
+}
+
+function wOf(m: Mat3, p: XY) {
+  return m[6] * p.x + m[7] * p.y + m[8];
+}
+
+/**
+ * Apply a homography; null where the point maps to infinity or, given the control points' w sign,
+ * where w has the other sign (the point is behind the camera and would come out mirrored).
+ */
+export function applyMat3(m: Mat3, p: XY, wSign: 1 | -1 | 0 = 0): XY | null {
+  const w = wOf(m, p);
+  if (Math.abs(w) < 1e-12 || w * wSign < 0) return null;
+  return { x: (m[0] * p.x + m[1] * p.y + m[2]) / w, y: (m[3] * p.x + m[4] * p.y + m[5]) / w };
+}
+
+/** Hartley normalisation: centre on the mean and scale the mean distance to √2 (keeps the fit well conditioned). */
+function normaliser(pts: XY[]): Mat3 | null {
+  const mx = pts.reduce((a, p) => a + p.x, 0) / pts.length;
+  const my = pts.reduce((a, p) => a + p.y, 0) / pts.length;
+  const d = pts.reduce((a, p) => a + Math.hypot(p.x - mx, p.y - my), 0) / pts.length;
+  if (!(d > 0)) return null;
+  const s = Math.SQRT2 / d;
+  return [s, 0, -s * mx, 0, s, -s * my, 0, 0, 1];
+}
+
+/** --- fitting --- **/
+
+function fitNormalised(kind: GeorefKind, src: XY[], dst: XY[]): Mat3 | null {
+  if (kind === "affine") {
+    const A = src.map((p) => [p.x, p.y, 1]);
+    const rx = leastSquares(A, dst.map((q) => q.x));
+    const ry = leastSquares(A, dst.map((q) => q.y));
+    return rx && ry ? [...rx, ...ry, 0, 0, 1] : null;
+  }
+
+  // x' = (h0 x + h1 y + h2) / (h6 x + h7 y + 1), likewise y'; linear in h after multiplying out
+  const A: number[][] = [];
+  const b: number[] = [];
+  src.forEach((p, i) => {
+    const q = dst[i];
+    A.push([p.x, p.y, 1, 0, 0, 0, -p.x * q.x, -p.y * q.x]);
+    b.push(q.x);
+    A.push([0, 0, 0, p.x, p.y, 1, -p.x * q.y, -p.y * q.y]);
+    b.push(q.y);
+  });
+  const h = leastSquares(A, b);
+  return h ? [...h, 1] : null;
+}
+
+/** Control points with both coordinates typed in. */
+export function usableControlPoints(points: ControlPoint[]) {
+  return points.filter(
+    (p): p is ControlPoint & { lat: number; lon: number } =>
+      p.lat != null && p.lon != null && Number.isFinite(p.lat) && Number.isFinite(p.lon)
+  );
+}
+
+/**
+ * Least-squares fit of pixel → ground from the usable control points, or null with too few points
+ * (see MIN_CONTROL_POINTS) or a degenerate layout (all in a line). Residuals are the ground
+ * distance between each point's typed position and where the fit puts its pixel.
+ */
+export function fitGeoref(points: ControlPoint[], kind: GeorefKind): Georef | null {
+  const pts = usableControlPoints(points);
+  if (pts.length < MIN_CONTROL_POINTS[kind]) return null;
+
+  const origin = {
+    lat: pts.reduce((a, p) => a + p.lat, 0) / pts.length,
+    lon: pts.reduce((a, p) => a + p.lon, 0) / pts.length,
+  };
+  const src = pts.map((p) => p.px);
+  const dst = pts.map((p) => toXY(origin, p));
+
+  const Tp = normaliser(src);
+  const Tw = normaliser(dst);
+  if (!Tp || !Tw) return null;
+  const norm = (T: Mat3, v: XY) => applyMat3(T, v) as XY;
+  const Hn = fitNormalised(
+    kind,
+    src.map((v) => norm(Tp, v)),
+    dst.map((v) => norm(Tw, v))
+  );
+  const TwInv = invert3(Tw);
+  if (!Hn || !TwInv) return null;
+
+  const forward = mul3(TwInv, mul3(Hn, Tp));
+  const inverse = invert3(forward);
+  if (!inverse || !forward.every(Number.isFinite)) return null;
+
+  // Control points straddling the horizon make no sense as a plane; refuse the fit
+  const wf = src.map((p) => Math.sign(wOf(forward, p)));
+  const wi = dst.map((q) => Math.sign(wOf(inverse, q)));
+  if (wf.some((s) => s !== wf[0]) || wi.some((s) => s !== wi[0]) || !wf[0] || !wi[0]) return null;
+  const w_sign = { forward: wf[0] as 1 | -1, inverse: wi[0] as 1 | -1 };
+
+  const residuals = pts.map((p, i) => {
+    const q = applyMat3(forward, p.px, w_sign.forward);
+    return { id: p.id, error_m: q ? Math.hypot(q.x - dst[i].x, q.y - dst[i].y) : Infinity };
+  });
+  const rms = Math.sqrt(residuals.reduce((a, r) => a + r.error_m ** 2, 0) / residuals.length);
+
+  return { kind, origin, forward, inverse, w_sign, residuals, rms_m: rms };
+}
+
+/** --- transforms --- **/
+
+export function pixelToLatLon(g: Georef, px: PixelPoint): LatLon | null {
+  const q = applyMat3(g.forward, px, g.w_sign.forward);
+  return q ? toLatLon(g.origin, q) : null;
+}
+
+export function latLonToPixel(g: Georef, ll: LatLon): PixelPoint | null {
+  return applyMat3(g.inverse, toXY(g.origin, ll), g.w_sign.inverse);
+}
+
+/**
+ * Direction on the image (degrees clockwise from image-up) of a ground bearing at `ll`. Rotated,
+ * skewed or oblique images turn bearings differently in different places, so this is local.
+ */
+export function imageBearingDeg(g: Georef, ll: LatLon, bearingDeg: number, stepM = 10): number | null {
+  const a = latLonToPixel(g, ll);
+  const b = latLonToPixel(g, destinationPoint(ll, bearingDeg, stepM));
+  if (!a || !b || (a.x === b.x && a.y === b.y)) return null;
+  // Image y grows downwards
+  return ((Math.atan2(b.x - a.x, a.y - b.y) * 180) / Math.PI + 360) % 360;
+}
+
+/**
+ * A ground ring on the image. On an oblique view the ring is first clipped (Sutherland–Hodgman)
+ * to the ground in front of the camera, just short of the line where the inverse's w reaches zero,
+ * so a ring reaching past the horizon is cut there instead of wrapping round through the sky.
+ */
+export function ringToPixels(g: Georef, ring: LatLon[]): PixelPoint[] {
+  // w at the origin (the control points' centroid) sets the scale; w is linear in ground x, y
+  const margin = 1e-3 * Math.abs(g.inverse[8]);
+  const ahead = (q: XY) => g.w_sign.inverse * wOf(g.inverse, q) - margin;
+
+  const pts = ring.map((p) => toXY(g.origin, p));
+  const clipped: XY[] = [];
+  pts.forEach((a, i) => {
+    const b = pts[(i + 1) % pts.length];
+    const da = ahead(a);
+    const db = ahead(b);
+    if (da >= 0) clipped.push(a);
+    if (da >= 0 !== db >= 0) {
+      const t = da / (da - db);
+      clipped.push({ x: a.x + t * (b.x - a.x), y: a.y + t * (b.y - a.y) });
+    }
+  });
+  return clipped.map((q) => applyMat3(g.inverse, q, g.w_sign.inverse)).filter((p): p is PixelPoint => p != null);
+}
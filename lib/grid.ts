@@ -0,0 +1,194 @@
+// lib/grid.ts
+// Small geographic raster: local metre grid, polygon rasterisation, marching-squares contours.
+// No external dependencies.
+
+import type { LatLon } from "@/lib/scentEnvelope";
+
+const R_EARTH_M = 6371000;
+
+export type XY = { x: number; y: number };
+
+export type GeoGrid = {
+  origin: LatLon; // projection origin
+  minX: number; // metres east of origin (cell 0 left edge)
+  minY: number; // metres north of origin (cell 0 bottom edge)
+  cell_m: number;
+  nx: number;
+  ny: number;
+  values: Float32Array; // row-major, j * nx + i, j=0 is the southern row
+};
+
+/** --- projection (local equirectangular, fine at search-area scale) --- **/
+
+export function toXY(origin: LatLon, p: LatLon): XY {
+  const kx = (Math.PI / 180) * R_EARTH_M * Math.cos((origin.lat * Math.PI) / 180);
+  const ky = (Math.PI / 180) * R_EARTH_M;
+  return { x: (p.lon - origin.lon) * kx, y: (p.lat - origin.lat) * ky };
+}
+
+export function toLatLon(origin: LatLon, q: XY): LatLon {
+  const kx = (Math.PI / 180) * R_EARTH_M * Math.cos((origin.lat * Math.PI) / 180);
+  const ky = (Math.PI / 180) * R_EARTH_M;
+  return { lat: origin.lat + q.y / ky, lon: origin.lon + q.x / kx };
+}
+
+/** --- grid --- **/
+
+/**
+ * Empty grid covering every polygon plus a margin, with at most maxCells along the longer side.
+ * The one-cell border of zeros guarantees closed contours.
+ */
+export function gridForPolygons(polys: LatLon[][], maxCells = 160, margin_m = 0): GeoGrid {
+  const origin = polys[0]?.[0] ?? { lat: 0, lon: 0 };
+  const pts = polys.flat().map((p) => toXY(origin, p));
+  const xs = pts.map((p) => p.x);
+  const ys = pts.map((p) => p.y);
+  const minX = Math.min(...xs) - margin_m;
+  const minY = Math.min(...ys) - margin_m;
+  const span = Math.max(Math.max(...xs) + margin_m - minX, Math.max(...ys) + margin_m - minY, 1);
+  const cell_m = span / (maxCells - 2);
+  const nx = Math.ceil((Math.max(...xs) + margin_m - minX) / cell_m) + 2;
+  const ny = Math.ceil((Math.max(...ys) + margin_m - minY) / cell_m) + 2;
+  return { origin, minX: minX - cell_m, minY: minY - cell_m, cell_m, nx, ny, values: new Float32Array(nx * ny) };
+}
+
+export function cellCenter(g: GeoGrid, i: number, j: number): XY {
+  return { x: g.minX + (i + 0.5) * g.cell_m, y: g.minY + (j + 0.5) * g.cell_m };
+}
+
+export function pointInPolygonXY(p: XY, poly: XY[]) {
+  let inside = false;
+  for (let i = 0, j = poly.length - 1; i < poly.length; j = i++) {
+    const a = poly[i];
+    const b = poly[j];
+    if (a.y > p.y !== b.y > p.y && p.x < ((b.x - a.x) * (p.y - a.y)) / (b.y - a.y) + a.x) inside = !inside;
+  }
+  return inside;
+}
+
+/** Call fn(k) for every cell index whose centre lies inside poly. */
+export function forEachCellInPolygon(g: GeoGrid, poly: LatLon[], fn: (k: number) => void) {
+  const q = poly.map((p) => toXY(g.origin, p));
+  const xs = q.map((p) => p.x);
+  const ys = q.map((p) => p.y);
+  const i0 = Math.max(0, Math.floor((Math.min(...xs) - g.minX) / g.cell_m));
+  const i1 = Math.min(g.nx - 1, Math.floor((Math.max(...xs) - g.minX) / g.cell_m));
+  const j0 = Math.max(0, Math.floor((Math.min(...ys) - g.minY) / g.cell_m));
+  const j1 = Math.min(g.ny - 1, Math.floor((Math.max(...ys) - g.minY) / g.cell_m));
+  for (let j = j0; j <= j1; j++) {
+    for (let i = i0; i <= i1; i++) {
+      if (pointInPolygonXY(cellCenter(g, i, j), q)) fn(j * g.nx + i);
+    }
+  }
+}
+
+/** Bilinear sample at a point (0 outside the grid). */
+export function sampleGrid(g: GeoGrid, p: LatLon): number {
+  const q = toXY(g.origin, p);
+  const fx = (q.x - g.minX) / g.cell_m - 0.5;
+  const fy = (q.y - g.minY) / g.cell_m - 0.5;
+  const i = Math.floor(fx);
+  const j = Math.floor(fy);
+  if (i < 0 || j < 0 || i >= g.nx - 1 || j >= g.ny - 1) return 0;
+  const tx = fx - i;
+  const ty = fy - j;
+  const v = (ii: number, jj: number) => g.values[jj * g.nx + ii];
+  return (
+    v(i, j) * (1 - tx) * (1 - ty) + v(i + 1, j) * tx * (1 - ty) + v(i, j + 1) * (1 - tx) * ty + v(i + 1, j + 1) * tx * ty
+  );
+}
+
+/** --- contours --- **/
+
+/**
+ * Marching squares over cell centres: closed rings (lat/lon) enclosing values >= level.
+ * Saddles are resolved toward "connected", which keeps touching lobes as one ring.
+ */
+export function contourRings(g: GeoGrid, level: number): LatLon[][] {
+  const { nx, ny, values } = g;
+  const at = (i: number, j: number) => values[j * nx + i];
+
+  // Edge crossing point, keyed so segments from neighbouring squares share endpoints
+  const pts = new Map<string, XY>();
+  function edge(i0: number, j0: number, i1: number, j1: number): string {
+    const key = i0 < i1 || j0 < j1 ? `${i0},${j0},${i1},${j1}` : `${i1},${j1},${i0},${j0}`;
+    if (!pts.has(key)) {
+      const a = at(i0, j0);
+      const b = at(i1, j1);
+      const t = a === b ? 0.5 : Math.max(0, Math.min(1, (level - a) / (b - a)));
+      const ca = cellCenter(g, i0, j0);
+      const cb = cellCenter(g, i1, j1);
+      pts.set(key, { x: ca.x + t * (cb.x - ca.x), y: ca.y + t * (cb.y - ca.y) });
+    }
+    return key;
+  }
+
+  const next = new Map<string, string>();
+  for (let j = 0; j < ny - 1; j++) {
+    for (let i = 0; i < nx - 1; i++) {
+      const bl = at(i, j) >= level ? 1 : 0;
+      const br = at(i + 1, j) >= level ? 2 : 0;
+      const tr = at(i + 1, j + 1) >= level ? 4 : 0;
+      const tl = at(i, j + 1) >= level ? 8 : 0;
+      const c = bl | br | tr | tl;
+      if (c === 0 || c === 15) continue;
+
+      const B = () => edge(i, j, i + 1, j);
+      const R = () => edge(i + 1, j, i + 1, j + 1);
+      const T = () => edge(i, j + 1, i + 1, j + 1);
+      const L = () => edge(i, j, i, j + 1);
+
+      // Segments keep the "inside" on their right, so every ring winds the same way
+      const segs: Array<[() => string, () => string]> = [];
+      switch (c) {
+        case 1: segs.push([L, B]); break;
+        case 2: segs.push([B, R]); break;
+        case 3: segs.push([L, R]); break;
+        case 4: segs.push([R, T]); break;
+        case 5: segs.push([L, T], [R, B]); break;
+        case 6: segs.push([B, T]); break;
+        case 7: segs.push([L, T]); break;
+        case 8: segs.push([T, L]); break;
+        case 9: segs.push([T, B]); break;
+        case 10: segs.push([B, L], [T, R]); break;
+        case 11: segs.push([T, R]); break;
+        case 12: segs.push([R, L]); break;
+        case 13: segs.push([R, B]); break;
+        case 14: segs.push([B, L]); break;
+      }
+      for (const [a, b] of segs) next.set(a(), b());
+    }
+  }
+
+  const rings: LatLon[][] = [];
+  while (next.size) {
+    const start = next.keys().next().value as string;
+    const ring: XY[] = [];
+    let k: string | undefined = start;
+    while (k !== undefined && next.has(k)) {
+      ring.push(pts.get(k)!);
+      const n: string = next.get(k)!;
+      next.delete(k);
+      k = n;
+    }
+    if (ring.length >= 3) {
+      ring.push(ring[0]);
+      rings.push(ring.map((q) => toLatLon(g.origin, q)));
+    }
+  }
+  return rings;
+}
+
+function ringAreaXY(ring: LatLon[], origin: LatLon) {
+  let a = 0;
+  const q = ring.map((p) => toXY(origin, p));
+  for (let i = 0, j = q.length - 1; i < q.length; j = i++) a += (q[j].x + q[i].x) * (q[j].y - q[i].y);
+  return Math.abs(a / 2);
+}
+
+/** The contour ring at `level` enclosing the most area (drops small detached islands), or null. */
+export function largestRing(g: GeoGrid, level: number): LatLon[] | null {
+  const rings = contourRings(g, level);
+  if (!rings.length) return null;
+  return rings.reduce((a, b) => (ringAreaXY(b, g.origin) > ringAreaXY(a, g.origin) ? b : a));
+}
@@ -0,0 +1,231 @@
+// lib/incident.ts
+// Persisted incident (LKPs, traps, scenario, environment, wind) + versioned JSON file format.
+// No external dependencies.
+
+import type { WindData, WindSeries } from "@/lib/cone";
+import type { EnvelopeInputs, PrecipType, StabilityType, TerrainType } from "@/lib/scentEnvelope";
+import type { Track } from "@/lib/tracks";
+import type { MergeMode } from "@/lib/mergedEnvelope";
+import type { EnvField, WeatherConditions } from "@/lib/conditions";
+import type { WindProviderId } from "@/lib/windProviders/types";
+import type { WindObservation } from "@/lib/windObservations";
+import { DEFAULT_PROFILE, normalizeProfile, type ModelProfile } from "@/lib/modelProfile";
+import type { LpbTerrain, SubjectCategory } from "@/lib/lostPerson";
+import type { SearchPlan } from "@/lib/searchSegments";
+import { normalizeOverride, type EnvelopeOverride } from "@/lib/envelopeOverride";
+
+export type LKP = {
+  id: string;
+  lat: number;
+  lon: number;
+  timeISO: string;
+  label?: string;
+  weight?: number; // credibility 0..1 for merged multi-LKP envelopes (default 1)
+};
+export type Trap = { id: string; lat: number; lon: number; label: string };
+
+export type WindMode = "current" | "hourly" | "historical" | "manual";
+
+export type Incident = {
+  id: string;
+  name: string;
+  created_iso: string;
+  updated_iso: string;
+
+  appMode: "live" | "scenario";
+
+  lkps: LKP[];
+  activeLkpId: string | null;
+  mergeLkps: boolean;
+  mergeMode: MergeMode;
+  traps: Trap[];
+
+  scenario: {
+    ll: { lat: number; lon: number } | null;
+    label: string;
+    lkpISO: string;
+    elapsedMin: number;
+  };
+
+  environment: {
+    tempF: number;
+    rh: number;
+    cloud: EnvelopeInputs["cloud"];
+    precip: PrecipType;
+    recentRain: boolean;
+    terrain: TerrainType;
+    stability: StabilityType;
+
+    // Last fetched weather, and the fields the user has typed over (everything else follows the weather)
+    conditions: WeatherConditions | null;
+    overrides: EnvField[];
+  };
+
+  // Wind actually used for the model (fetched or manual)
+  wind: {
+    mode: WindMode;
+    // Preferred /api/wind provider; "auto" follows the server's configured order
+    provider: WindProviderId | "auto";
+    manualSpeedMph: number;
+    manualFromDeg: number;
+    useHistory: boolean;
+    data: WindData | null;
+    series: WindSeries | null;
+  };
+
+  // On-scene anemometer log; `blend` is the observed share of the wind used by the model
+  windObs: {
+    log: WindObservation[];
+    blend: number;
+    windowMin: number;
+  };
+
+  // Model coefficients used for this incident (a full copy, so reopening reproduces the envelope)
+  modelProfile: ModelProfile;
+
+  // Lost-person-behaviour rings and the scent share of segment POA
+  lpb: {
+    enabled: boolean;
+    category: SubjectCategory;
+    terrain: LpbTerrain;
+    scentWeight: number;
+  };
+
+  // Handler-reshaped envelope kept alongside the model (null = model only)
+  override: EnvelopeOverride | null;
+
+  // Drawn search segments with their POA, team sorties (POD) and the current operational period
+  searchPlan: SearchPlan;
+
+  // Debrief: imported team tracks and the detection radius used for coverage
+  tracks: Track[];
+  detectionRadiusM: number;
+};
+
+export type IncidentSummary = Pick<Incident, "id" | "name" | "updated_iso">;
+
+/** --- file format --- **/
+
+export const INCIDENT_FILE_FORMAT = "scent-cone-incident";
+export const INCIDENT_FILE_VERSION = 1;
+
+export type IncidentFile = {
+  format: typeof INCIDENT_FILE_FORMAT;
+  version: number;
+  exported_iso: string;
+  incident: Incident;
+};
+
+export function newIncident(id: string, name: string, nowIso = new Date().toISOString()): Incident {
+  return {
+    id,
+    name,
+    created_iso: nowIso,
+    updated_iso: nowIso,
+    appMode: "live",
+    lkps: [],
+    activeLkpId: null,
+    mergeLkps: false,
+    mergeMode: "weighted",
+    traps: [],
+    scenario: { ll: null, label: "Scenario", lkpISO: nowIso, elapsedMin: 60 },
+    environment: {
+      tempF: 75,
+      rh: 50,
+      cloud: "partly",
+      precip: "none",
+      recentRain: false,
+      terrain: "mixed",
+      stability: "neutral",
+      conditions: null,
+      overrides: [],
+    },
+    wind: {
+      mode: "current",
+      provider: "auto",
+      manualSpeedMph: 11,
+      manualFromDeg: 315,
+      useHistory: true,
+      data: null,
+      series: null,
+    },
+    windObs: { log: [], blend: 0.5, windowMin: 30 },
+    modelProfile: DEFAULT_PROFILE,
+    lpb: { enabled: false, category: "hiker", terrain: "flat", scentWeight: 0.5 },
+    override: null,
+    searchPlan: { segments: [], period: 1, period_start_iso: null },
+    tracks: [],
+    detectionRadiusM: 30,
+  };
+}
+
+export function serializeIncident(incident: Incident, nowIso = new Date().toISOString()): string {
+  const file: IncidentFile = {
+    format: INCIDENT_FILE_FORMAT,
+    version: INCIDENT_FILE_VERSION,
+    exported_iso: nowIso,
+    incident,
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+function isLatLonish(v: unknown): v is { lat: number; lon: number } {
+  const o = v as { lat?: unknown; lon?: unknown } | null;
+  return !!o && Number.isFinite(o.lat) && Number.isFinite(o.lon);
+}
+
+/** Fill sections missing from older saves/files with defaults and drop malformed points. */
+export function normalizeIncident(raw: Partial<Incident> & { id: string }): Incident {
+  const base = newIncident(raw.id, raw.name || "Imported incident", raw.created_iso);
+
+  return {
+    ...base,
+    ...raw,
+    lkps: (raw.lkps ?? []).filter(isLatLonish),
+    traps: (raw.traps ?? []).filter(isLatLonish),
+    tracks: (raw.tracks ?? []).filter((t) => Array.isArray(t?.points) && t.points.every(isLatLonish)),
+    scenario: { ...base.scenario, ...raw.scenario },
+    environment: { ...base.environment, ...raw.environment },
+    wind: { ...base.wind, ...raw.wind },
+    windObs: { ...base.windObs, ...raw.windObs },
+    modelProfile: raw.modelProfile ? normalizeProfile(raw.modelProfile) : base.modelProfile,
+    lpb: { ...base.lpb, ...raw.lpb },
+    override: normalizeOverride(raw.override),
+    searchPlan: {
+      ...base.searchPlan,
+      ...raw.searchPlan,
+      segments: (raw.searchPlan?.segments ?? [])
+        .filter((s) => Array.isArray(s?.ring) && s.ring.length >= 3 && s.ring.every(isLatLonish))
+        .map((s) => ({ ...s, sorties: Array.isArray(s.sorties) ? s.sorties : [] })),
+      period_start_iso:
+        typeof raw.searchPlan?.period_start_iso === "string" && Number.isFinite(Date.parse(raw.searchPlan.period_start_iso))
+          ? raw.searchPlan.period_start_iso
+          : null,
+    },
+  };
+}
+
+/**
+ * Parse an exported incident file. Missing optional sections are filled from defaults so
+ * files from older builds keep loading; throws on anything that is not an incident file.
+ */
+export function parseIncidentFile(text: string): Incident {
+  let js: Partial<IncidentFile>;
+  try {
+    js = JSON.parse(text);
+  } catch {
+    throw new Error("Not a JSON file");
+  }
+
+  if (js?.format !== INCIDENT_FILE_FORMAT) throw new Error("Not a scent-cone incident file");
+  const version = Number(js.version);
+  if (!Number.isInteger(version) || version < 1) throw new Error("Missing incident file version");
+  if (version > INCIDENT_FILE_VERSION) {
+    throw new Error(`Incident file version ${version} is newer than this app supports (${INCIDENT_FILE_VERSION})`);
+  }
+
+  const raw = js.incident as Partial<Incident> | undefined;
+  if (!raw || typeof raw.id !== "string") throw new Error("Incident file has no incident");
+
+  return normalizeIncident({ ...raw, id: raw.id });
+}
@@ -0,0 +1,99 @@
+// lib/incidentStore.ts
+// IndexedDB persistence for incidents and training runs (browser only).
+
+import { normalizeIncident, type Incident, type IncidentSummary } from "@/lib/incident";
+import { normalizeRun, type TrainingRun } from "@/lib/calibration";
+
+const DB_NAME = "scent-cone";
+const DB_VERSION = 2; // 2: training runs
+const STORE = "incidents";
+const RUNS_STORE = "trainingRuns";
+const ACTIVE_KEY = "scent-cone.activeIncidentId";
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains(STORE)) db.createObjectStore(STORE, { keyPath: "id" });
+      if (!db.objectStoreNames.contains(RUNS_STORE)) db.createObjectStore(RUNS_STORE, { keyPath: "id" });
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error ?? new Error("IndexedDB open failed"));
+  });
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => IDBRequest<T>,
+  storeName = STORE
+): Promise<T> {
+  const db = await openDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const tx = db.transaction(storeName, mode);
+      const req = fn(tx.objectStore(storeName));
+      tx.oncomplete = () => resolve(req.result);
+      tx.onerror = () => reject(tx.error ?? new Error("IndexedDB transaction failed"));
+      // Quota errors and explicit aborts can end the transaction without an error event
+      tx.onabort = () => reject(tx.error ?? new Error("IndexedDB transaction aborted"));
+    });
+  } finally {
+    db.close();
+  }
+}
+
+export async function listIncidents(): Promise<IncidentSummary[]> {
+  const all = await withStore<Incident[]>("readonly", (s) => s.getAll());
+  return all
+    .map((i) => ({ id: i.id, name: i.name, updated_iso: i.updated_iso }))
+    .sort((a, b) => b.updated_iso.localeCompare(a.updated_iso));
+}
+
+export async function loadIncident(id: string): Promise<Incident | null> {
+  const inc = await withStore<Incident | undefined>("readonly", (s) => s.get(id));
+  return inc ? normalizeIncident(inc) : null;
+}
+
+export async function saveIncident(incident: Incident): Promise<void> {
+  await withStore("readwrite", (s) => s.put(incident));
+}
+
+export async function deleteIncident(id: string): Promise<void> {
+  await withStore("readwrite", (s) => s.delete(id));
+}
+
+/** --- training runs (calibration) --- **/
+
+export async function listTrainingRuns(): Promise<TrainingRun[]> {
+  const all = await withStore<TrainingRun[]>("readonly", (s) => s.getAll(), RUNS_STORE);
+  return all
+    .map((r) => normalizeRun(r))
+    .filter((r): r is TrainingRun => r !== null)
+    .sort((a, b) => b.lkp.time_iso.localeCompare(a.lkp.time_iso));
+}
+
+export async function saveTrainingRun(run: TrainingRun): Promise<void> {
+  await withStore("readwrite", (s) => s.put(run), RUNS_STORE);
+}
+
+export async function deleteTrainingRun(id: string): Promise<void> {
+  await withStore("readwrite", (s) => s.delete(id), RUNS_STORE);
+}
+
+// Which incident to reopen after a reload (small, synchronous -> localStorage)
+export function getActiveIncidentId(): string | null {
+  try {
+    return localStorage.getItem(ACTIVE_KEY);
+  } catch {
+    return null;
+  }
+}
+
+export function setActiveIncidentId(id: string) {
+  try {
+    localStorage.setItem(ACTIVE_KEY, id);
+  } catch {
+    // private mode / quota: reopening the last incident is best-effort
+  }
+}
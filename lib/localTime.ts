@@ -0,0 +1,25 @@
+// lib/localTime.ts
+// ISO timestamps <-> <input type="datetime-local"> values (browser local time, minute precision).
+// No external dependencies.
+
+export function isoNow() {
+  return new Date().toISOString();
+}
+
+/** "YYYY-MM-DDTHH:mm" in local time, as a datetime-local input expects. */
+export function isoToLocalInput(iso: string) {
+  const d = new Date(iso);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  const yyyy = d.getFullYear();
+  const mm = pad(d.getMonth() + 1);
+  const dd = pad(d.getDate());
+  const hh = pad(d.getHours());
+  const mi = pad(d.getMinutes());
+  return `${yyyy}-${mm}-${dd}T${hh}:${mi}`;
+}
+
+/** ISO time of a datetime-local value; null while the input is cleared or half-typed. */
+export function localInputToIso(v: string): string | null {
+  const ms = v ? Date.parse(v) : NaN;
+  return Number.isFinite(ms) ? new Date(ms).toISOString() : null;
+}
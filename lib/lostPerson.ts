@@ -0,0 +1,203 @@
+// lib/lostPerson.ts
+// Lost-person-behaviour layer: distance rings from the LKP by subject category and elapsed time,
+// and probability-of-area (POA) per search segment combining subject travel with the scent envelope.
+// No external dependencies.
+
+import { destinationPoint, type LatLon } from "@/lib/scentEnvelope";
+import { forEachCellInPolygon, pointInPolygonXY, toXY, type GeoGrid, type XY } from "@/lib/grid";
+
+export type SubjectCategory =
+  | "hiker"
+  | "hunter"
+  | "gatherer"
+  | "child_1_3"
+  | "child_4_6"
+  | "child_7_9"
+  | "child_10_12"
+  | "child_13_15"
+  | "dementia"
+  | "despondent"
+  | "autism"
+  | "mental_illness";
+
+export type LpbTerrain = "mountain" | "flat";
+
+// Straight-line distance from the IPP (km) at which 25/50/75/95% of subjects were found
+type Quartiles = [number, number, number, number];
+
+type CategoryProfile = {
+  label: string;
+  speed_kmh: number; // sustained travel while mobile; bounds the rings early in the search
+  mountain: Quartiles;
+  flat: Quartiles;
+};
+
+// Rounded from published lost-person-behaviour (ISRID-style) tables for temperate regions. They are
+// planning defaults; replace them with your region's reference figures where you have them.
+export const SUBJECT_CATEGORIES: Record<SubjectCategory, CategoryProfile> = {
+  hiker: { label: "Hiker", speed_kmh: 3, mountain: [0.7, 1.9, 3.6, 11.3], flat: [0.4, 1.1, 2.0, 6.1] },
+  hunter: { label: "Hunter", speed_kmh: 3, mountain: [0.6, 1.3, 3.0, 10.7], flat: [0.4, 1.1, 2.1, 5.8] },
+  gatherer: { label: "Gatherer", speed_kmh: 2, mountain: [1.0, 1.6, 3.6, 6.9], flat: [0.9, 1.8, 3.1, 5.7] },
+  child_1_3: { label: "Child 1–3", speed_kmh: 0.8, mountain: [0.1, 0.2, 0.6, 2.0], flat: [0.1, 0.3, 0.7, 2.6] },
+  child_4_6: { label: "Child 4–6", speed_kmh: 1.2, mountain: [0.1, 0.5, 0.9, 2.3], flat: [0.1, 0.4, 0.9, 2.3] },
+  child_7_9: { label: "Child 7–9", speed_kmh: 1.6, mountain: [0.3, 0.9, 1.6, 4.8], flat: [0.3, 0.8, 2.0, 5.0] },
+  child_10_12: { label: "Child 10–12", speed_kmh: 2, mountain: [0.4, 1.0, 1.9, 5.6], flat: [0.2, 0.8, 1.6, 3.5] },
+  child_13_15: { label: "Child 13–15", speed_kmh: 2.5, mountain: [0.4, 0.8, 2.1, 5.8], flat: [0.5, 1.3, 2.1, 6.0] },
+  dementia: { label: "Dementia", speed_kmh: 1.5, mountain: [0.2, 0.5, 1.2, 5.1], flat: [0.2, 0.6, 1.5, 7.9] },
+  despondent: { label: "Despondent", speed_kmh: 2, mountain: [0.2, 0.7, 2.0, 13.3], flat: [0.1, 0.5, 1.4, 10.7] },
+  autism: { label: "Autism", speed_kmh: 2, mountain: [0.4, 1.0, 2.3, 9.5], flat: [0.2, 0.6, 2.4, 5.0] },
+  mental_illness: { label: "Mental illness", speed_kmh: 2, mountain: [0.4, 0.9, 1.9, 6.3], flat: [0.2, 0.5, 1.2, 5.8] },
+};
+
+export const SUBJECT_CATEGORY_IDS = Object.keys(SUBJECT_CATEGORIES) as SubjectCategory[];
+
+export const RING_PCTS = [25, 50, 75, 95] as const;
+
+export type LpbRing = { pct: number; radius_m: number };
+
+/**
+ * Rings for the category at `elapsedMin` after the LKP. The tables give where subjects were
+ * eventually found; until the subject could have walked the 95% distance at the category's speed,
+ * every ring is shrunk by the same factor.
+ */
+export function lpbRings(category: SubjectCategory, terrain: LpbTerrain, elapsedMin: number): LpbRing[] {
+  const c = SUBJECT_CATEGORIES[category];
+  const q = c[terrain];
+  const reach_km = (c.speed_kmh * Math.max(0, elapsedMin)) / 60;
+  const k = Math.min(1, reach_km / q[3]);
+  return RING_PCTS.map((pct, i) => ({ pct, radius_m: Math.max(1, q[i] * 1000 * k) }));
+}
+
+// Beyond the 95% ring the last 5% tapers out to half as far again
+const TAIL_FACTOR = 1.5;
+
+/** Share of subjects within r_m of the LKP: piecewise linear through the rings. */
+export function travelCdf(r_m: number, rings: LpbRing[]): number {
+  const pts = [{ r: 0, p: 0 }, ...rings.map((g) => ({ r: g.radius_m, p: g.pct / 100 }))];
+  pts.push({ r: rings[rings.length - 1].radius_m * TAIL_FACTOR, p: 1 });
+  if (r_m <= 0) return 0;
+  for (let i = 1; i < pts.length; i++) {
+    const a = pts[i - 1];
+    const b = pts[i];
+    if (r_m <= b.r) return a.p + ((b.p - a.p) * (r_m - a.r)) / Math.max(1e-9, b.r - a.r);
+  }
+  return 1;
+}
+
+/** --- segments and POA --- **/
+
+export type PoaSegment = { id: string; label: string; ring: LatLon[] };
+
+export type SegmentPoa = {
+  id: string;
+  label: string;
+  poa: number; // combined, 0..1 (all segments + rest of world = 1)
+  p_travel: number; // share of the subject-travel distribution inside the segment
+  p_scent: number; // share of the scent envelope's density mass inside the segment
+};
+
+export type PoaResult = {
+  segments: SegmentPoa[];
+  rest_of_world: number;
+};
+
+const COMPASS = ["N", "NE", "E", "SE", "S", "SW", "W", "NW"];
+
+function arc(lkp: LatLon, r_m: number, fromDeg: number, toDeg: number, steps: number): LatLon[] {
+  const out: LatLon[] = [];
+  for (let i = 0; i <= steps; i++) out.push(destinationPoint(lkp, fromDeg + ((toDeg - fromDeg) * i) / steps, r_m));
+  return out;
+}
+
+/**
+ * Default segmentation when none has been drawn: the 25% disc, then each ring band split into
+ * eight compass sectors.
+ */
+export function ringSectorSegments(lkp: LatLon, rings: LpbRing[]): PoaSegment[] {
+  const segs: PoaSegment[] = [{ id: "lpb-0", label: `Inner ≤${rings[0].pct}%`, ring: arc(lkp, rings[0].radius_m, 0, 360, 48).slice(0, -1) }];
+  for (let b = 1; b < rings.length; b++) {
+    const inner = rings[b - 1];
+    const outer = rings[b];
+    COMPASS.forEach((dir, s) => {
+      const a0 = s * 45 - 22.5;
+      segs.push({
+        id: `lpb-${b}-${dir}`,
+        label: `${dir} ${inner.pct}–${outer.pct}%`,
+        ring: [...arc(lkp, inner.radius_m, a0, a0 + 45, 6), ...arc(lkp, outer.radius_m, a0 + 45, a0, 6)],
+      });
+    });
+  }
+  return segs;
+}
+
+// Polar sampling of the travel distribution (mass per annulus × sector is exact for the CDF)
+const RADIAL_STEPS = 120;
+const ANGULAR_STEPS = 144;
+
+function travelCells(lkp: LatLon, rings: LpbRing[]): Array<{ q: XY; mass: number }> {
+  const rMax = rings[rings.length - 1].radius_m * TAIL_FACTOR;
+  const cells: Array<{ q: XY; mass: number }> = [];
+  for (let i = 0; i < RADIAL_STEPS; i++) {
+    const r0 = (rMax * i) / RADIAL_STEPS;
+    const r1 = (rMax * (i + 1)) / RADIAL_STEPS;
+    const mass = (travelCdf(r1, rings) - travelCdf(r0, rings)) / ANGULAR_STEPS;
+    const rm = (r0 + r1) / 2;
+    for (let j = 0; j < ANGULAR_STEPS; j++) {
+      const th = ((j + 0.5) / ANGULAR_STEPS) * 2 * Math.PI;
+      cells.push({ q: { x: rm * Math.sin(th), y: rm * Math.cos(th) }, mass });
+    }
+  }
+  return cells;
+}
+
+export type ScentSource = { density: GeoGrid; weight: number };
+
+/** Credibility-weighted share of the scent envelopes' density mass inside `ring` (0..1). */
+export function scentShare(ring: LatLon[], scent: ScentSource[]): number {
+  const total = scent.reduce((a, s) => a + s.weight, 0);
+  let share = 0;
+  for (const s of scent) {
+    if (!s.weight) continue;
+    let mass = 0;
+    for (const v of s.density.values) mass += v;
+    if (!mass) continue;
+    let m = 0;
+    forEachCellInPolygon(s.density, ring, (i) => (m += s.density.values[i]));
+    share += (m / mass) * (s.weight / total);
+  }
+  return share;
+}
+
+/**
+ * POA per segment = scentWeight · (scent mass share) + (1 − scentWeight) · (travel share).
+ * `scent` holds one or more envelope densities (several LKPs) with credibility weights; whatever
+ * falls outside every segment is the rest of world.
+ */
+export function computeSegmentPoa(
+  lkp: LatLon,
+  rings: LpbRing[],
+  scent: ScentSource[],
+  segments: PoaSegment[],
+  scentWeight: number
+): PoaResult {
+  const cells = travelCells(lkp, rings);
+  const w = scent.some((s) => s.weight > 0) ? Math.min(1, Math.max(0, scentWeight)) : 0;
+
+  const out = segments.map((seg) => {
+    const poly = seg.ring.map((p) => toXY(lkp, p));
+    const xs = poly.map((p) => p.x);
+    const ys = poly.map((p) => p.y);
+    const [x0, x1, y0, y1] = [Math.min(...xs), Math.max(...xs), Math.min(...ys), Math.max(...ys)];
+    let p_travel = 0;
+    for (const c of cells) {
+      if (c.q.x < x0 || c.q.x > x1 || c.q.y < y0 || c.q.y > y1) continue;
+      if (pointInPolygonXY(c.q, poly)) p_travel += c.mass;
+    }
+
+    const p_scent = scent.length ? scentShare(seg.ring, scent) : 0;
+    return { id: seg.id, label: seg.label, p_travel, p_scent, poa: w * p_scent + (1 - w) * p_travel };
+  });
+
+  const inside = out.reduce((a, s) => a + s.poa, 0);
+  return { segments: out, rest_of_world: Math.max(0, 1 - inside) };
+}
@@ -0,0 +1,111 @@
+// lib/mergedEnvelope.ts
+// Several LKPs (sightings) at once: one envelope per source, merged into union or
+// credibility-weighted zones, plus start points ranked across all sources.
+// No external dependencies.
+
+import { computeScentEnvelope, type EnvelopeInputs, type EnvelopeOutput, type LatLon } from "@/lib/scentEnvelope";
+import { contourRings, forEachCellInPolygon, gridForPolygons, pointInPolygonXY, toXY } from "@/lib/grid";
+
+export type MergeMode = "union" | "weighted";
+
+export type EnvelopeSource = {
+  lkp_id: string;
+  label: string;
+  weight: number; // credibility 0..1
+  inputs: EnvelopeInputs;
+};
+
+export type RankedStartPoint = {
+  label: string;
+  point: LatLon;
+  lkp_id: string;
+  lkp_label: string;
+  score: number; // 0..100, comparable across sources
+};
+
+export type MergedEnvelope = {
+  mode: MergeMode;
+  per_source: Array<{ lkp_id: string; label: string; weight: number; envelope: EnvelopeOutput }>;
+  polygons: {
+    core: LatLon[][];
+    fringe: LatLon[][];
+    residual: LatLon[][];
+  };
+  ranked_start_points: RankedStartPoint[];
+};
+
+// Zone scores painted into the merge grid; contour levels sit between them
+const ZONE_SCORE = { core: 1.0, fringe: 0.6, residual: 0.3 };
+const LEVELS = { core: 0.8, fringe: 0.45, residual: 0.15 };
+
+// Later start points along the axis are less likely to hold the freshest scent
+const POSITION_FACTOR = [1.0, 0.85, 0.7];
+
+function zoneScoreAt(e: EnvelopeOutput, p: LatLon): number {
+  const origin = e.polygons.residual[0];
+  const q = toXY(origin, p);
+  const inside = (poly: LatLon[]) => pointInPolygonXY(q, poly.map((v) => toXY(origin, v)));
+  if (inside(e.polygons.core)) return ZONE_SCORE.core;
+  if (inside(e.polygons.fringe)) return ZONE_SCORE.fringe;
+  if (inside(e.polygons.residual)) return ZONE_SCORE.residual;
+  return 0;
+}
+
+export function computeMergedEnvelope(sources: EnvelopeSource[], mode: MergeMode, maxCells = 160): MergedEnvelope | null {
+  const active = sources.filter((s) => s.weight > 0);
+  if (!active.length) return null;
+
+  const per_source = active.map((s) => ({
+    lkp_id: s.lkp_id,
+    label: s.label,
+    weight: s.weight,
+    envelope: computeScentEnvelope(s.inputs),
+  }));
+
+  const wMax = Math.max(...per_source.map((s) => s.weight));
+  const grid = gridForPolygons(per_source.map((s) => s.envelope.polygons.residual), maxCells);
+
+  // Union keeps the max of the sources' own zone scores, so every source's zones survive whatever
+  // its credibility. Weighted scales each score by relative credibility (w_i / max w) and adds them
+  // up (capped at 1), so overlapping sources reinforce and weak ones fade.
+  const scratch = new Float32Array(grid.values.length);
+  for (const s of per_source) {
+    scratch.fill(0);
+    forEachCellInPolygon(grid, s.envelope.polygons.residual, (k) => (scratch[k] = ZONE_SCORE.residual));
+    forEachCellInPolygon(grid, s.envelope.polygons.fringe, (k) => (scratch[k] = ZONE_SCORE.fringe));
+    forEachCellInPolygon(grid, s.envelope.polygons.core, (k) => (scratch[k] = ZONE_SCORE.core));
+
+    for (let k = 0; k < scratch.length; k++) {
+      if (!scratch[k]) continue;
+      if (mode === "union") grid.values[k] = Math.max(grid.values[k], scratch[k]);
+      else grid.values[k] = Math.min(1, grid.values[k] + scratch[k] * (s.weight / wMax));
+    }
+  }
+
+  const ranked: RankedStartPoint[] = per_source.flatMap((s) =>
+    s.envelope.recommended_start_points.map((sp, i) => {
+      // Own credibility × own confidence × position, boosted where other sources' zones agree
+      const agreement =
+        1 +
+        0.25 *
+          per_source
+            .filter((o) => o.lkp_id !== s.lkp_id)
+            .reduce((a, o) => a + (o.weight / wMax) * zoneScoreAt(o.envelope, sp.point), 0);
+      const score =
+        (s.weight / wMax) * s.envelope.confidence_score * (POSITION_FACTOR[i] ?? 0.6) * agreement;
+      return { label: sp.label, point: sp.point, lkp_id: s.lkp_id, lkp_label: s.label, score: Math.min(100, Math.round(score)) };
+    })
+  );
+  ranked.sort((a, b) => b.score - a.score);
+
+  return {
+    mode,
+    per_source,
+    polygons: {
+      core: contourRings(grid, LEVELS.core),
+      fringe: contourRings(grid, LEVELS.fringe),
+      residual: contourRings(grid, LEVELS.residual),
+    },
+    ranked_start_points: ranked,
+  };
+}
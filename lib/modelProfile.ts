@@ -0,0 +1,301 @@
+// lib/modelProfile.ts
+// Tunable coefficients of the scent envelope model, built-in presets per dog discipline, the
+// profile file format used to share calibrated profiles, and the local library of custom profiles.
+// No external dependencies.
+
+import type { StabilityType, TerrainType } from "@/lib/scentEnvelope";
+
+export type Discipline = "general" | "trailing" | "air-scent" | "hrd";
+
+export type ModelProfile = {
+  id: string;
+  name: string;
+  discipline: Discipline;
+  builtin?: boolean;
+  description?: string;
+
+  // Length L (ft) = (base + per_min·t + wind·min(W, wind_cap)·ln(1 + t/wind_time_const)) · terrain · stability
+  length: {
+    base_ft: number;
+    per_min_ft: number;
+    wind_ft_per_mph: number;
+    wind_cap_mph: number;
+    wind_time_const_min: number;
+  };
+  terrain_len: Record<TerrainType, number>;
+  stability_len: Record<StabilityType, number>;
+
+  // Far-end half-width (ft) = (base + per_min·t + sqrt·√t) · mixing
+  width: { base_ft: number; per_min_ft: number; sqrt_ft: number };
+  mix: { stable: number; convective: number; urban: number };
+
+  // Confidence half-life style time constant (min): favourable = cool/humid and overcast or night
+  // with light wind; harsh = hot/dry/sunny and windy; neutral otherwise
+  confidence_tau_min: { neutral: number; favourable: number; harsh: number };
+
+  // Zone shapes as fractions of L and of the half-angle (wedges, start points), and the density
+  // contour levels (fractions of peak) that draw the zones
+  zones: {
+    len: { core: number; fringe: number; residual: number };
+    angle: { core: number; fringe: number; residual: number };
+    density: { core: number; fringe: number; residual: number };
+  };
+};
+
+export const DEFAULT_PROFILE: ModelProfile = {
+  id: "general",
+  name: "General (spec defaults)",
+  discipline: "general",
+  builtin: true,
+  description: "Original planning coefficients; use when the dog's discipline is unknown.",
+  length: { base_ft: 30, per_min_ft: 6.0, wind_ft_per_mph: 120, wind_cap_mph: 18, wind_time_const_min: 30 },
+  terrain_len: { mixed: 1.0, open: 1.1, forest: 0.95, urban: 0.85, swamp: 0.9, beach: 1.0 },
+  stability_len: { stable: 0.9, neutral: 1.0, convective: 1.05 },
+  width: { base_ft: 20, per_min_ft: 3.5, sqrt_ft: 40 },
+  mix: { stable: 0.85, convective: 1.25, urban: 1.15 },
+  confidence_tau_min: { neutral: 180, favourable: 240, harsh: 120 },
+  zones: {
+    len: { core: 0.55, fringe: 0.85, residual: 1.0 },
+    angle: { core: 0.45, fringe: 0.8, residual: 1.15 },
+    density: { core: 0.6, fringe: 0.3, residual: 0.12 },
+  },
+};
+
+// Starting points for calibration, not measurements: trailing dogs work the track and its near
+// drift (narrow, long-lived); air-scent dogs work the plume (wide, wind-driven); HRD sources keep
+// emitting, so elapsed time matters less than wind and confidence decays slowly.
+export const BUILTIN_PROFILES: ModelProfile[] = [
+  DEFAULT_PROFILE,
+  {
+    ...DEFAULT_PROFILE,
+    id: "trailing",
+    name: "Trailing",
+    discipline: "trailing",
+    description: "Scent-discriminating trailing dog; narrow drift either side of the track, longer-lived.",
+    length: { ...DEFAULT_PROFILE.length, wind_ft_per_mph: 80 },
+    width: { base_ft: 15, per_min_ft: 2.5, sqrt_ft: 30 },
+    confidence_tau_min: { neutral: 240, favourable: 320, harsh: 150 },
+    zones: { ...DEFAULT_PROFILE.zones, angle: { core: 0.4, fringe: 0.75, residual: 1.1 } },
+  },
+  {
+    ...DEFAULT_PROFILE,
+    id: "air-scent",
+    name: "Air-scent",
+    discipline: "air-scent",
+    description: "Area/air-scent dog; works the airborne plume downwind of the subject.",
+    length: { ...DEFAULT_PROFILE.length, wind_ft_per_mph: 135 },
+    width: { base_ft: 25, per_min_ft: 4.0, sqrt_ft: 45 },
+    mix: { stable: 0.85, convective: 1.35, urban: 1.2 },
+    confidence_tau_min: { neutral: 150, favourable: 210, harsh: 100 },
+  },
+  {
+    ...DEFAULT_PROFILE,
+    id: "hrd",
+    name: "HRD",
+    discipline: "hrd",
+    description: "Human remains detection; continuous source, wind-driven plume, slow confidence decay.",
+    length: { base_ft: 60, per_min_ft: 2.0, wind_ft_per_mph: 140, wind_cap_mph: 18, wind_time_const_min: 20 },
+    width: { base_ft: 30, per_min_ft: 2.0, sqrt_ft: 45 },
+    confidence_tau_min: { neutral: 720, favourable: 1080, harsh: 480 },
+  },
+];
+
+export function isBuiltinProfileId(id: string) {
+  return BUILTIN_PROFILES.some((p) => p.id === id);
+}
+
+/** --- validation / file format --- **/
+
+export const PROFILE_FILE_FORMAT = "scent-cone-profile";
+export const PROFILE_FILE_VERSION = 1;
+
+type ProfileFile = {
+  format: typeof PROFILE_FILE_FORMAT;
+  version: number;
+  exported_iso: string;
+  profile: ModelProfile;
+};
+
+// Terms that may be switched off with 0; every other coefficient is a time constant, length,
+// factor or contour level and must be strictly positive
+const MAY_BE_ZERO = new Set([
+  "length.per_min_ft",
+  "length.wind_ft_per_mph",
+  "length.wind_cap_mph",
+  "width.per_min_ft",
+  "width.sqrt_ft",
+]);
+
+function inRange(path: string, v: number) {
+  return MAY_BE_ZERO.has(path) ? v >= 0 : v > 0;
+}
+
+// Density levels are nested contours: core inside fringe inside residual, all below the peak
+function densityOrdered(d: ModelProfile["zones"]["density"]) {
+  return d.core < 1 && d.core > d.fringe && d.fringe > d.residual;
+}
+
+function finiteOr<T extends Record<string, number>>(
+  base: T,
+  raw: unknown,
+  group: string,
+  keep: (path: string, v: number) => boolean
+): T {
+  const out = { ...base };
+  const src = (raw ?? {}) as Record<string, unknown>;
+  for (const k of Object.keys(base) as Array<keyof T>) {
+    const v = Number(src[k as string]);
+    if (src[k as string] != null && Number.isFinite(v) && keep(`${group}.${String(k)}`, v)) out[k] = v as T[keyof T];
+  }
+  return out;
+}
+
+export const DISCIPLINES: Discipline[] = ["general", "trailing", "air-scent", "hrd"];
+
+function fillProfile(
+  raw: Partial<ModelProfile> & { id?: string },
+  keep: (path: string, v: number) => boolean
+): ModelProfile {
+  const d = DEFAULT_PROFILE;
+  const z = (raw.zones ?? {}) as Partial<ModelProfile["zones"]>;
+  return {
+    id: raw.id || `custom_${Date.now().toString(36)}`,
+    name: raw.name || "Custom profile",
+    discipline: DISCIPLINES.includes(raw.discipline as Discipline) ? (raw.discipline as Discipline) : "general",
+    ...(raw.description ? { description: raw.description } : {}),
+    length: finiteOr(d.length, raw.length, "length", keep),
+    terrain_len: finiteOr(d.terrain_len, raw.terrain_len, "terrain_len", keep),
+    stability_len: finiteOr(d.stability_len, raw.stability_len, "stability_len", keep),
+    width: finiteOr(d.width, raw.width, "width", keep),
+    mix: finiteOr(d.mix, raw.mix, "mix", keep),
+    confidence_tau_min: finiteOr(d.confidence_tau_min, raw.confidence_tau_min, "confidence_tau_min", keep),
+    zones: {
+      len: finiteOr(d.zones.len, z.len, "zones.len", keep),
+      angle: finiteOr(d.zones.angle, z.angle, "zones.angle", keep),
+      density: finiteOr(d.zones.density, z.density, "zones.density", keep),
+    },
+  };
+}
+
+/**
+ * What is out of range in a profile, one message per coefficient (empty when the model can
+ * use it). Keyed by path, e.g. "length.wind_time_const_min", so an editor can place them.
+ */
+export function profileProblems(p: ModelProfile): Array<{ path: string; message: string }> {
+  const groups: Array<[string, Record<string, number>]> = [
+    ["length", p.length],
+    ["terrain_len", p.terrain_len],
+    ["stability_len", p.stability_len],
+    ["width", p.width],
+    ["mix", p.mix],
+    ["confidence_tau_min", p.confidence_tau_min],
+    ["zones.len", p.zones.len],
+    ["zones.angle", p.zones.angle],
+    ["zones.density", p.zones.density],
+  ];
+  const out: Array<{ path: string; message: string }> = [];
+  for (const [group, vals] of groups) {
+    for (const [k, v] of Object.entries(vals)) {
+      const path = `${group}.${k}`;
+      if (!Number.isFinite(v) || !inRange(path, v)) {
+        out.push({ path, message: `${path} must be ${MAY_BE_ZERO.has(path) ? "0 or more" : "greater than 0"}` });
+      }
+    }
+  }
+  if (!densityOrdered(p.zones.density)) {
+    out.push({ path: "zones.density", message: "zones.density must be ordered 1 > core > fringe > residual" });
+  }
+  return out;
+}
+
+/**
+ * Fill anything missing, non-numeric or out of range from the defaults, so profiles saved by
+ * older builds still load. Never returns a builtin flag: loaded profiles are editable.
+ */
+export function normalizeProfile(raw: Partial<ModelProfile> & { id?: string }): ModelProfile {
+  const p = fillProfile(raw, inRange);
+  return densityOrdered(p.zones.density) ? p : { ...p, zones: { ...p.zones, density: DEFAULT_PROFILE.zones.density } };
+}
+
+export function serializeProfile(profile: ModelProfile, nowIso = new Date().toISOString()): string {
+  const file: ProfileFile = {
+    format: PROFILE_FILE_FORMAT,
+    version: PROFILE_FILE_VERSION,
+    exported_iso: nowIso,
+    profile: { ...profile, builtin: undefined },
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+export function parseProfileFile(text: string): ModelProfile {
+  let js: Partial<ProfileFile>;
+  try {
+    js = JSON.parse(text);
+  } catch {
+    throw new Error("Not a JSON file");
+  }
+  if (js?.format !== PROFILE_FILE_FORMAT) throw new Error("Not a scent-cone profile file");
+  const version = Number(js.version);
+  if (!Number.isInteger(version) || version < 1) throw new Error("Missing profile file version");
+  if (version > PROFILE_FILE_VERSION) {
+    throw new Error(`Profile file version ${version} is newer than this app supports (${PROFILE_FILE_VERSION})`);
+  }
+  if (!js.profile || typeof js.profile !== "object") throw new Error("Profile file has no profile");
+  // A shared file with bad coefficients is refused rather than quietly patched with defaults
+  const profile = fillProfile(js.profile, () => true);
+  const problems = profileProblems(profile);
+  if (problems.length) throw new Error(`Profile out of range: ${problems.map((x) => x.message).join("; ")}`);
+  return profile;
+}
+
+/** --- custom profiles (small, synchronous -> localStorage) --- **/
+
+const CUSTOM_KEY = "scent-cone.customProfiles";
+
+export function listCustomProfiles(): ModelProfile[] {
+  try {
+    const js = JSON.parse(localStorage.getItem(CUSTOM_KEY) || "[]");
+    return Array.isArray(js) ? js.map((p) => normalizeProfile(p)) : [];
+  } catch {
+    return [];
+  }
+}
+
+// Shaped for React's useSyncExternalStore: a stable snapshot, refreshed on save and on writes
+// from other tabs.
+let customSnapshot: ModelProfile[] | null = null;
+const customListeners = new Set<() => void>();
+
+export function customProfilesSnapshot(): ModelProfile[] {
+  return (customSnapshot ??= listCustomProfiles());
+}
+
+export function subscribeCustomProfiles(onChange: () => void) {
+  const onStorage = (e: StorageEvent) => {
+    if (e.key !== CUSTOM_KEY) return;
+    customSnapshot = null;
+    onChange();
+  };
+  customListeners.add(onChange);
+  window.addEventListener("storage", onStorage);
+  return () => {
+    customListeners.delete(onChange);
+    window.removeEventListener("storage", onStorage);
+  };
+}
+
+export function saveCustomProfiles(profiles: ModelProfile[]) {
+  localStorage.setItem(CUSTOM_KEY, JSON.stringify(profiles.map((p) => ({ ...p, builtin: undefined }))));
+  customSnapshot = profiles;
+  customListeners.forEach((l) => l());
+}
+
+/** Editable copy of `p` with a fresh id (used for "duplicate" and for edits to a builtin). */
+export function copyProfile(p: ModelProfile, name = `${p.name} (copy)`): ModelProfile {
+  return { ...normalizeProfile(p), id: `custom_${Date.now().toString(36)}`, name };
+}
+
+/** Short label for exports and the map footer, e.g. "Trailing (trailing)". */
+export function profileLabel(p: ModelProfile) {
+  return p.discipline === "general" ? p.name : `${p.name} (${p.discipline})`;
+}
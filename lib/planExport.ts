@@ -0,0 +1,464 @@
+// lib/planExport.ts
+// Vector export of the search plan: GeoJSON FeatureCollection, KML (styled zones), GPX (waypoints).
+// No external dependencies.
+
+import type { EnvelopeOutput, LatLon } from "@/lib/scentEnvelope";
+import type { LKP, Trap } from "@/lib/incident";
+import type { EnvelopeOverride } from "@/lib/envelopeOverride";
+import type { GeoConeGeometry } from "@/lib/cone";
+import type { MergeMode, MergedEnvelope, RankedStartPoint } from "@/lib/mergedEnvelope";
+
+export type PlanBand = {
+  minutes: number;
+  polygons: EnvelopeOutput["polygons"];
+  confidence_score: number;
+  confidence_band: string;
+};
+
+export type PlanExport = {
+  name: string;
+  generated_iso: string;
+  lkp: LKP | null; // the LKP the envelope was modelled from
+  lkps: LKP[];
+  traps: Trap[];
+  envelope: EnvelopeOutput | null; // null while several LKPs are merged
+  merged: PlanMerged | null;
+  bands: PlanBand[];
+  wind: {
+    source: string;
+    from_deg: number;
+    speed_mph: number;
+    history_samples: number; // 0 = single fixed wind vector
+  } | null;
+  // Coefficient profile the envelope was computed with
+  profile: { id: string; label: string } | null;
+  // Search segments as they stand going into the current operational period
+  segments: PlanSegment[];
+  // Handler override, exported next to (not instead of) the model envelope
+  override: EnvelopeOverride | null;
+  // Visual cone as drawn on the map
+  cone: (GeoConeGeometry & { length_m: number; half_angle_deg: number }) | null;
+};
+
+export type PlanMerged = {
+  mode: MergeMode;
+  sources: Array<{ lkp_id: string; label: string; weight: number }>;
+  polygons: MergedEnvelope["polygons"];
+  start_points: RankedStartPoint[]; // best first, each tagged with its source LKP
+};
+
+export type PlanSegment = {
+  name: string;
+  team: string;
+  status: string;
+  ring: LatLon[];
+  poa: number; // shifted POA, 0..1
+  cumulative_pod: number;
+};
+
+type Zone = "core" | "fringe" | "residual";
+const ZONES: Zone[] = ["residual", "fringe", "core"];
+
+/** --- helpers --- **/
+
+function ring(poly: LatLon[]): [number, number][] {
+  const pts = poly.map((p) => [p.lon, p.lat] as [number, number]);
+  const a = pts[0];
+  const b = pts[pts.length - 1];
+  if (a && b && (a[0] !== b[0] || a[1] !== b[1])) pts.push(a);
+  return pts;
+}
+
+function modelProps(plan: PlanExport): Record<string, string | number> {
+  return {
+    ...(plan.wind
+      ? {
+          wind_source: plan.wind.source,
+          wind_from_deg: Math.round(plan.wind.from_deg),
+          wind_speed_mph: Number(plan.wind.speed_mph.toFixed(1)),
+          wind_history_samples: plan.wind.history_samples,
+        }
+      : {}),
+    ...(plan.profile ? { model_profile: plan.profile.label, model_profile_id: plan.profile.id } : {}),
+  };
+}
+
+function isModelled(plan: PlanExport, k: LKP) {
+  return plan.merged ? plan.merged.sources.some((s) => s.lkp_id === k.id) : plan.lkp?.id === k.id;
+}
+
+function xmlEscape(s: string) {
+  return s
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+/** --- GeoJSON --- **/
+
+type Feature = {
+  type: "Feature";
+  geometry:
+    | { type: "Point"; coordinates: [number, number] }
+    | { type: "Polygon"; coordinates: [number, number][][] };
+  properties: Record<string, string | number | boolean | null>;
+};
+
+export function planToGeoJSON(plan: PlanExport) {
+  const features: Feature[] = [];
+  const model = modelProps(plan);
+
+  if (plan.envelope) {
+    const e = plan.envelope;
+    for (const zone of ZONES) {
+      features.push({
+        type: "Feature",
+        geometry: { type: "Polygon", coordinates: [ring(e.polygons[zone])] },
+        properties: {
+          kind: "envelope",
+          source: "model",
+          zone,
+          band_minutes: Math.round(e.t_minutes),
+          confidence_score: e.confidence_score,
+          confidence_band: e.confidence_band,
+          reset_minutes: e.reset_recommendation_minutes,
+          ...model,
+        },
+      });
+    }
+
+    e.recommended_start_points.forEach((sp, i) => {
+      features.push({
+        type: "Feature",
+        geometry: { type: "Point", coordinates: [sp.point.lon, sp.point.lat] },
+        properties: { kind: "start_point", label: sp.label, rank: i + 1, confidence_score: e.confidence_score },
+      });
+    });
+  }
+
+  if (plan.merged) {
+    const m = plan.merged;
+    for (const zone of ZONES) {
+      m.polygons[zone].forEach((poly, i) => {
+        features.push({
+          type: "Feature",
+          geometry: { type: "Polygon", coordinates: [ring(poly)] },
+          properties: { kind: "envelope", source: "merged", merge_mode: m.mode, zone, part: i + 1, ...model },
+        });
+      });
+    }
+
+    m.start_points.forEach((sp, i) => {
+      features.push({
+        type: "Feature",
+        geometry: { type: "Point", coordinates: [sp.point.lon, sp.point.lat] },
+        properties: {
+          kind: "start_point",
+          label: sp.label,
+          rank: i + 1,
+          score: sp.score,
+          lkp_id: sp.lkp_id,
+          lkp_label: sp.lkp_label,
+        },
+      });
+    });
+  }
+
+  if (plan.override) {
+    const o = plan.override;
+    for (const zone of ZONES) {
+      features.push({
+        type: "Feature",
+        geometry: { type: "Polygon", coordinates: [ring(o.polygons[zone])] },
+        properties: {
+          kind: "envelope",
+          source: "handler_override",
+          zone,
+          note: o.note,
+          model_band_minutes: Math.round(o.model_t_minutes),
+          updated_iso: o.updated_iso,
+        },
+      });
+    }
+  }
+
+  if (plan.cone) {
+    const c = plan.cone;
+    features.push({
+      type: "Feature",
+      geometry: { type: "Polygon", coordinates: [ring([c.apex, c.left, c.tip, c.right])] },
+      properties: {
+        kind: "cone",
+        length_m: Math.round(c.length_m),
+        half_angle_deg: Number(c.half_angle_deg.toFixed(1)),
+        downwind_deg: Math.round(c.downwindDeg),
+      },
+    });
+  }
+
+  for (const b of plan.bands) {
+    features.push({
+      type: "Feature",
+      geometry: { type: "Polygon", coordinates: [ring(b.polygons.residual)] },
+      properties: {
+        kind: "time_band",
+        zone: "residual",
+        band_minutes: b.minutes,
+        confidence_score: b.confidence_score,
+        confidence_band: b.confidence_band,
+        ...model,
+      },
+    });
+  }
+
+  for (const s of plan.segments) {
+    features.push({
+      type: "Feature",
+      geometry: { type: "Polygon", coordinates: [ring(s.ring)] },
+      properties: {
+        kind: "search_segment",
+        label: s.name,
+        team: s.team || null,
+        status: s.status,
+        poa: Number(s.poa.toFixed(4)),
+        cumulative_pod: Number(s.cumulative_pod.toFixed(4)),
+      },
+    });
+  }
+
+  for (const k of plan.lkps) {
+    features.push({
+      type: "Feature",
+      geometry: { type: "Point", coordinates: [k.lon, k.lat] },
+      properties: { kind: "lkp", label: k.label ?? "LKP", time_iso: k.timeISO, modelled: isModelled(plan, k) },
+    });
+  }
+
+  for (const t of plan.traps) {
+    features.push({
+      type: "Feature",
+      geometry: { type: "Point", coordinates: [t.lon, t.lat] },
+      properties: { kind: "trap", label: t.label },
+    });
+  }
+
+  return {
+    type: "FeatureCollection" as const,
+    properties: { name: plan.name, generated_iso: plan.generated_iso, ...model },
+    features,
+  };
+}
+
+/** --- KML --- **/
+
+// KML colours are aabbggrr
+const KML_STYLES: Record<string, { line: string; fill: string }> = {
+  core: { line: "ff0050ff", fill: "660050ff" },
+  fringe: { line: "ff00aaff", fill: "4400aaff" },
+  residual: { line: "ff78e6ff", fill: "2278e6ff" },
+  band: { line: "ff888888", fill: "00ffffff" },
+  segment: { line: "ffed3a7c", fill: "22ed3a7c" },
+  override: { line: "ffff00ff", fill: "11ff00ff" },
+  cone: { line: "8cffffff", fill: "4400a5ff" },
+};
+
+function kmlCoords(poly: LatLon[]) {
+  return ring(poly)
+    .map(([lon, lat]) => `${lon.toFixed(7)},${lat.toFixed(7)},0`)
+    .join(" ");
+}
+
+function kmlPoint(name: string, desc: string, p: LatLon, styleUrl?: string) {
+  return [
+    "<Placemark>",
+    `<name>${xmlEscape(name)}</name>`,
+    desc ? `<description>${xmlEscape(desc)}</description>` : "",
+    styleUrl ? `<styleUrl>#${styleUrl}</styleUrl>` : "",
+    `<Point><coordinates>${p.lon.toFixed(7)},${p.lat.toFixed(7)},0</coordinates></Point>`,
+    "</Placemark>",
+  ].join("");
+}
+
+function kmlPolygon(name: string, desc: string, poly: LatLon[], styleUrl: string) {
+  return [
+    "<Placemark>",
+    `<name>${xmlEscape(name)}</name>`,
+    `<description>${xmlEscape(desc)}</description>`,
+    `<styleUrl>#${styleUrl}</styleUrl>`,
+    `<Polygon><outerBoundaryIs><LinearRing><coordinates>${kmlCoords(poly)}</coordinates></LinearRing></outerBoundaryIs></Polygon>`,
+    "</Placemark>",
+  ].join("");
+}
+
+function modelDesc(plan: PlanExport) {
+  const w = plan.wind;
+  const hist = w?.history_samples ? `, ${w.history_samples}h history` : "";
+  const wind = w ? `wind from ${Math.round(w.from_deg)}° @ ${w.speed_mph.toFixed(1)} mph (${w.source}${hist})` : "wind: n/a";
+  return plan.profile ? `${wind}; profile ${plan.profile.label}` : wind;
+}
+
+export function planToKML(plan: PlanExport): string {
+  const styles = Object.entries(KML_STYLES)
+    .map(
+      ([id, c]) =>
+        `<Style id="${id}"><LineStyle><color>${c.line}</color><width>2</width></LineStyle><PolyStyle><color>${c.fill}</color></PolyStyle></Style>`
+    )
+    .join("\n");
+
+  const parts: string[] = [];
+  const model = modelDesc(plan);
+
+  if (plan.envelope) {
+    const e = plan.envelope;
+    const desc = `${Math.round(e.t_minutes)} min since LKP; confidence ${e.confidence_score} (${e.confidence_band}); ${model}`;
+    parts.push(
+      "<Folder><name>Envelope</name>",
+      ...ZONES.map((z) => kmlPolygon(z[0].toUpperCase() + z.slice(1), desc, e.polygons[z], z)),
+      "</Folder>"
+    );
+    parts.push(
+      "<Folder><name>Start points</name>",
+      ...e.recommended_start_points.map((sp, i) => kmlPoint(`${i + 1}. ${sp.label}`, desc, sp.point)),
+      "</Folder>"
+    );
+  }
+
+  if (plan.merged) {
+    const m = plan.merged;
+    const desc = `${m.mode} of ${m.sources.map((s) => `${s.label} (weight ${s.weight})`).join(", ")}; ${model}`;
+    const title = (z: Zone) => z[0].toUpperCase() + z.slice(1);
+    parts.push(
+      `<Folder><name>Merged envelope (${m.mode})</name>`,
+      ...ZONES.flatMap((z) =>
+        m.polygons[z].map((poly, i) =>
+          kmlPolygon(m.polygons[z].length > 1 ? `${title(z)} ${i + 1}` : title(z), desc, poly, z)
+        )
+      ),
+      "</Folder>"
+    );
+    parts.push(
+      "<Folder><name>Start points</name>",
+      ...m.start_points.map((sp, i) =>
+        kmlPoint(`${i + 1}. ${sp.label} (${sp.lkp_label})`, `from ${sp.lkp_label}; score ${sp.score}; ${model}`, sp.point)
+      ),
+      "</Folder>"
+    );
+  }
+
+  if (plan.override) {
+    const o = plan.override;
+    const desc = `Handler override ${o.updated_iso}: ${o.note || "no note"}; started from the ${Math.round(o.model_t_minutes)} min model`;
+    parts.push(
+      "<Folder><name>Handler override</name>",
+      ...ZONES.map((z) => kmlPolygon(`Override ${z}`, desc, o.polygons[z], "override")),
+      "</Folder>"
+    );
+  }
+
+  if (plan.cone) {
+    const c = plan.cone;
+    parts.push(
+      kmlPolygon(
+        "Visual cone",
+        `${Math.round(c.length_m)} m toward ${Math.round(c.downwindDeg)}°, half-angle ${c.half_angle_deg.toFixed(1)}°; ${model}`,
+        [c.apex, c.left, c.tip, c.right],
+        "cone"
+      )
+    );
+  }
+
+  if (plan.bands.length) {
+    parts.push(
+      "<Folder><name>Time bands</name>",
+      ...plan.bands.map((b) =>
+        kmlPolygon(`${b.minutes} min`, `confidence ${b.confidence_score} (${b.confidence_band}); ${model}`, b.polygons.residual, "band")
+      ),
+      "</Folder>"
+    );
+  }
+
+  if (plan.segments.length) {
+    const pct = (v: number) => `${(v * 100).toFixed(1)}%`;
+    parts.push(
+      "<Folder><name>Search segments</name>",
+      ...plan.segments.map((s) =>
+        kmlPolygon(
+          s.name,
+          `${s.team ? `team ${s.team}; ` : ""}${s.status}; POA ${pct(s.poa)}; cumulative POD ${pct(s.cumulative_pod)}`,
+          s.ring,
+          "segment"
+        )
+      ),
+      "</Folder>"
+    );
+  }
+
+  parts.push(
+    "<Folder><name>LKPs</name>",
+    ...plan.lkps.map((k) => kmlPoint(k.label ?? "LKP", k.timeISO, k)),
+    "</Folder>",
+    "<Folder><name>Terrain traps</name>",
+    ...plan.traps.map((t) => kmlPoint(t.label, "terrain trap", t)),
+    "</Folder>"
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    "<Document>",
+    `<name>${xmlEscape(plan.name)}</name>`,
+    `<description>${xmlEscape(`Generated ${plan.generated_iso}; ${model}. Planning estimate only.`)}</description>`,
+    styles,
+    ...parts,
+    "</Document>",
+    "</kml>",
+  ].join("\n");
+}
+
+/** --- GPX --- **/
+
+function gpxWpt(p: LatLon, name: string, desc: string, sym: string, timeIso?: string) {
+  return [
+    `<wpt lat="${p.lat.toFixed(7)}" lon="${p.lon.toFixed(7)}">`,
+    timeIso ? `<time>${xmlEscape(timeIso)}</time>` : "",
+    `<name>${xmlEscape(name)}</name>`,
+    `<desc>${xmlEscape(desc)}</desc>`,
+    `<sym>${sym}</sym>`,
+    "</wpt>",
+  ].join("");
+}
+
+export function planToGPX(plan: PlanExport): string {
+  const model = modelDesc(plan);
+  const wpts: string[] = [];
+
+  if (plan.envelope) {
+    const e = plan.envelope;
+    e.recommended_start_points.forEach((sp, i) => {
+      wpts.push(gpxWpt(sp.point, `START ${i + 1} ${sp.label}`, `confidence ${e.confidence_score}; ${model}`, "Flag, Green"));
+    });
+  }
+  if (plan.merged) {
+    plan.merged.start_points.forEach((sp, i) => {
+      wpts.push(
+        gpxWpt(sp.point, `START ${i + 1} ${sp.label}`, `from ${sp.lkp_label}; score ${sp.score}; ${model}`, "Flag, Green")
+      );
+    });
+  }
+  if (plan.override) {
+    const o = plan.override;
+    wpts.push(gpxWpt(o.axis[o.axis.length - 1], "OVERRIDE axis end", `handler override: ${o.note || "no note"}`, "Flag, Blue"));
+  }
+  for (const k of plan.lkps) wpts.push(gpxWpt(k, k.label ?? "LKP", "last known position", "Flag, Red", k.timeISO));
+  for (const t of plan.traps) wpts.push(gpxWpt(t, `TRAP ${t.label}`, "terrain trap", "Flag, Blue"));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="scent-cone" xmlns="http://www.topografix.com/GPX/1/1">',
+    `<metadata><name>${xmlEscape(plan.name)}</name><desc>${xmlEscape(model)}</desc><time>${plan.generated_iso}</time></metadata>`,
+    ...wpts,
+    "</gpx>",
+  ].join("\n");
+}
@@ -0,0 +1,757 @@
+// lib/rasterImport.ts
+// Already-georeferenced rasters for Screenshot Mode: images with world files (.pgw/.jgw/.tfw/.wld)
+// and an optional .prj, 8-bit GeoTIFFs (RGB, grey or palette), and GeoPDFs with an ISO 32000 GEO
+// measure. Each becomes a set of control points, so the fit, the residuals and manual editing work
+// exactly as they do for hand calibration.
+// No external dependencies.
+
+import {
+  crsFromEpsg,
+  crsFromGeoKeys,
+  geoKeys,
+  inflate,
+  readIfd,
+  TAG,
+  unproject,
+  type DemCrs,
+} from "@/lib/dem";
+import type { ControlPoint, GeorefKind, PixelPoint } from "@/lib/georef";
+
+// [a, b, c, d, e, f]: X = a·x + b·y + c, Y = d·x + e·y + f, with (x, y) image pixels measured from
+// the top-left corner of the image (pixel centres at +0.5) and X, Y in CRS units
+export type Affine = [number, number, number, number, number, number];
+
+export type RasterTransform = { crs: DemCrs; affine: Affine };
+
+export type ImportedGeoref = {
+  source: string; // file the georeferencing came from
+  crs_label: string;
+  kind: GeorefKind;
+  points: ControlPoint[];
+};
+
+export type DecodedRaster = {
+  width: number;
+  height: number;
+  pixels: { kind: "rgba"; rgba: Uint8ClampedArray<ArrayBuffer> } | { kind: "jpeg"; bytes: Uint8Array };
+};
+
+// Sidecar world-file extensions (".pgw" for PNG, ".jgw" for JPEG, ".tfw" for TIFF, …)
+export const WORLD_FILE_EXT = /\.(pgw|pngw|jgw|jpgw|jpegw|tfw|tifw|gfw|wld)$/i;
+
+// Decoded images are held as RGBA in memory; refuse anything larger than ~5000 × 5000
+const MAX_PIXELS = 25_000_000;
+
+// Control points are laid on a 3 × 3 grid this far in from the image edges
+const GRID_FRACTIONS = [0.05, 0.5, 0.95];
+
+/** --- transforms → control points --- **/
+
+export function crsLabel(crs: DemCrs) {
+  if (crs.kind === "geographic") return "WGS84 lat/lon";
+  if (crs.kind === "webmercator") return "Web Mercator";
+  return `UTM ${crs.zone}${crs.south ? "S" : "N"}`;
+}
+
+function applyAffine(t: Affine, px: PixelPoint) {
+  return { x: t[0] * px.x + t[1] * px.y + t[2], y: t[3] * px.x + t[4] * px.y + t[5] };
+}
+
+/**
+ * Control points on a 3 × 3 grid across the image, each carrying the ground position the raster's
+ * own transform gives it. The affine fit through them is exact for lat/lon rasters; for projected
+ * ones the residuals show how far the projection bends across the image.
+ */
+export function georefFromTransform(t: RasterTransform, width: number, height: number, source: string): ImportedGeoref {
+  const round = (v: number) => Math.round(v * 1e7) / 1e7;
+  const points: ControlPoint[] = [];
+  for (const fy of GRID_FRACTIONS) {
+    for (const fx of GRID_FRACTIONS) {
+      const px = { x: fx * width, y: fy * height };
+      const q = applyAffine(t.affine, px);
+      const ll = unproject(t.crs, q.x, q.y);
+      points.push({ id: `import-${points.length + 1}`, px, lat: round(ll.lat), lon: round(ll.lon) });
+    }
+  }
+  return { source, crs_label: crsLabel(t.crs), kind: "affine", points };
+}
+
+/** --- world files --- **/
+
+/**
+ * The six lines of a world file (A, D, B, E, C, F) as a pixel → CRS affine. World files place
+ * C, F at the centre of the top-left pixel, hence the half-pixel shift.
+ */
+export function parseWorldFile(text: string): Affine {
+  const v = text
+    .split(/\r?\n/)
+    .map((l) => l.trim())
+    .filter(Boolean)
+    .map(Number);
+  if (v.length < 6 || v.slice(0, 6).some((x) => !Number.isFinite(x))) {
+    throw new Error("A world file needs six numbers, one per line.");
+  }
+  const [A, D, B, E, C, F] = v;
+  return [A, B, C - 0.5 * (A + B), D, E, F - 0.5 * (D + E)];
+}
+
+/** CRS named by a .prj (ESRI or OGC WKT), or null when it is not one this app handles. */
+export function crsFromPrj(wkt: string): DemCrs | null {
+  const text = wkt.trim();
+  // The last AUTHORITY closes the outermost definition
+  const codes = [...text.matchAll(/AUTHORITY\s*\[\s*"EPSG"\s*,\s*"?(\d+)"?\s*\]/gi)];
+  if (codes.length) {
+    const crs = crsFromEpsg(Number(codes[codes.length - 1][1]));
+    if (crs) return crs;
+  }
+
+  const upper = text.toUpperCase();
+  if (upper.startsWith("GEOGCS") || upper.startsWith("GEOGCRS")) return { kind: "geographic" };
+  if (!upper.startsWith("PROJCS") && !upper.startsWith("PROJCRS")) return null;
+
+  const utm = upper.match(/UTM[ _]ZONE[ _](\d{1,2})([NS])/);
+  if (utm) return { kind: "utm", zone: Number(utm[1]), south: utm[2] === "S" };
+  if (/PSEUDO[ _-]?MERCATOR|WEB[ _]MERCATOR|MERCATOR_AUXILIARY_SPHERE|POPULAR[ _]VISUALISATION/.test(upper)) {
+    return { kind: "webmercator" };
+  }
+  return null;
+}
+
+/**
+ * Pixel → CRS transform from a world file. Without a .prj, coordinates that fit in degrees are
+ * taken as WGS84 lat/lon; anything else is projected and needs the .prj to say how.
+ */
+export function worldFileTransform(world: string, prj: string | null): RasterTransform {
+  const affine = parseWorldFile(world);
+  if (prj != null) {
+    const crs = crsFromPrj(prj);
+    if (!crs) throw new Error("Unsupported projection in the .prj file. Use WGS84 lat/lon, UTM or Web Mercator.");
+    return { crs, affine };
+  }
+  const degrees = Math.abs(affine[2]) <= 180 && Math.abs(affine[5]) <= 90 && Math.abs(affine[0]) < 1 && Math.abs(affine[4]) < 1;
+  if (!degrees) throw new Error("The world file is in projected coordinates; add the .prj file that came with it.");
+  return { crs: { kind: "geographic" }, affine };
+}
+
+/** --- GeoTIFF images (8-bit RGB, grey or palette) --- **/
+
+const TAG_PHOTOMETRIC = 262;
+const TAG_PLANAR_CONFIG = 284;
+const TAG_COLOR_MAP = 320;
+const TAG_MODEL_TRANSFORMATION = 34264;
+const GEOKEY_RASTER_TYPE = 1025; // 1 = PixelIsArea, 2 = PixelIsPoint
+
+/** TIFF LZW (MSB-first codes, early change), decoded into a block of known size. */
+function lzwDecode(input: Uint8Array, size: number): Uint8Array {
+  const out = new Uint8Array(size);
+  let n = 0;
+  let bit = 0;
+  let width = 9;
+  let dict: Uint8Array[] = [];
+  const reset = () => {
+    dict = Array.from({ length: 258 }, (_, i) => Uint8Array.of(i));
+    width = 9;
+  };
+  const read = () => {
+    if (bit + width > input.length * 8) return 257;
+    let v = 0;
+    for (let k = 0; k < width; k++, bit++) v = (v << 1) | ((input[bit >> 3] >> (7 - (bit & 7))) & 1);
+    return v;
+  };
+  const extend = (s: Uint8Array, c: number) => {
+    const e = new Uint8Array(s.length + 1);
+    e.set(s);
+    e[s.length] = c;
+    return e;
+  };
+
+  reset();
+  let prev: Uint8Array | null = null;
+  while (n < size) {
+    const code = read();
+    if (code === 257) break;
+    if (code === 256) {
+      reset();
+      prev = null;
+      continue;
+    }
+    let entry: Uint8Array;
+    if (code < dict.length) {
+      entry = dict[code];
+      if (prev) dict.push(extend(prev, entry[0]));
+    } else if (prev) {
+      entry = extend(prev, prev[0]);
+      dict.push(entry);
+    } else {
+      break;
+    }
+    out.set(entry.subarray(0, size - n), n);
+    n += Math.min(entry.length, size - n);
+    prev = entry;
+    // "Early change": widen once the table holds 2^width − 1 entries, as libtiff does
+    if (dict.length + 1 >= 1 << width && width < 12) width++;
+  }
+  return out;
+}
+
+function unpackBits(input: Uint8Array, size: number): Uint8Array {
+  const out = new Uint8Array(size);
+  let i = 0;
+  let n = 0;
+  while (i < input.length && n < size) {
+    const h = (input[i++] << 24) >> 24;
+    if (h >= 0) {
+      for (let k = 0; k <= h && n < size; k++) out[n++] = input[i++];
+    } else if (h !== -128) {
+      const v = input[i++];
+      for (let k = 0; k <= -h && n < size; k++) out[n++] = v;
+    }
+  }
+  return out;
+}
+
+/** Pixel → CRS from ModelTransformation, or ModelPixelScale + ModelTiepoint. */
+function geoTiffTransform(arr: (t: number) => number[] | undefined, keys: Map<number, number>): RasterTransform | null {
+  // PixelIsPoint ties the model coordinates to pixel centres rather than corners
+  const s = keys.get(GEOKEY_RASTER_TYPE) === 2 ? 0.5 : 0;
+  const m = arr(TAG_MODEL_TRANSFORMATION);
+  const scale = arr(TAG.ModelPixelScale);
+  const tie = arr(TAG.ModelTiepoint);
+
+  let affine: Affine;
+  if (m && m.length >= 8) {
+    affine = [m[0], m[1], m[3] - s * (m[0] + m[1]), m[4], m[5], m[7] - s * (m[4] + m[5])];
+  } else if (scale && tie && tie.length >= 5) {
+    affine = [scale[0], 0, tie[3] - (tie[0] + s) * scale[0], 0, -scale[1], tie[4] + (tie[1] + s) * scale[1]];
+  } else {
+    return null;
+  }
+  return { crs: crsFromGeoKeys(keys), affine };
+}
+
+/**
+ * Decode an 8-bit GeoTIFF image (RGB/RGBA, grey or palette; strips or tiles; uncompressed,
+ * deflate, LZW or PackBits, predictor 1 or 2) with its pixel → CRS transform. A TIFF without
+ * geotags decodes with a null transform, for use with a .tfw world file.
+ */
+export async function decodeGeoTiff(buf: ArrayBuffer): Promise<DecodedRaster & { transform: RasterTransform | null }> {
+  const view = new DataView(buf);
+  const order = view.getUint16(0, false);
+  if (order !== 0x4949 && order !== 0x4d4d) throw new Error("Not a TIFF file.");
+  const le = order === 0x4949;
+  if (view.getUint16(2, le) !== 42) throw new Error("BigTIFF is not supported; export a classic GeoTIFF.");
+
+  const tags = readIfd(view, view.getUint32(4, le), le);
+  const num = (t: number, d?: number) => {
+    const v = tags.get(t);
+    return Array.isArray(v) && v.length ? v[0] : d;
+  };
+  const arr = (t: number) => {
+    const v = tags.get(t);
+    return Array.isArray(v) ? v : undefined;
+  };
+
+  const width = num(TAG.ImageWidth)!;
+  const height = num(TAG.ImageLength)!;
+  const spp = num(TAG.SamplesPerPixel, 1)!;
+  const photometric = num(TAG_PHOTOMETRIC, spp >= 3 ? 2 : 1)!;
+  const compression = num(TAG.Compression, 1)!;
+  const predictor = num(TAG.Predictor, 1)!;
+  const colorMap = arr(TAG_COLOR_MAP);
+
+  if (width * height > MAX_PIXELS) throw new Error(`Image is too large (${width} × ${height}); crop or downsample it first.`);
+  if ((arr(TAG.BitsPerSample) ?? [1]).some((b) => b !== 8)) throw new Error("Only 8-bit GeoTIFF images are supported.");
+  if (num(TAG_PLANAR_CONFIG, 1) !== 1) throw new Error("Only interleaved (chunky) GeoTIFFs are supported.");
+  if (photometric === 3 ? !colorMap : photometric === 2 ? spp < 3 : photometric > 1) {
+    throw new Error("Unsupported colour model; export the GeoTIFF as RGB, greyscale or palette.");
+  }
+  if (![1, 5, 8, 32773, 32946].includes(compression)) {
+    throw new Error(
+      compression === 7
+        ? "JPEG-compressed GeoTIFFs are not supported; re-export with deflate or LZW (or as PNG with a world file)."
+        : "Only uncompressed, deflate, LZW or PackBits GeoTIFFs are supported."
+    );
+  }
+
+  const tiled = tags.has(TAG.TileOffsets);
+  const blockW = tiled ? num(TAG.TileWidth)! : width;
+  const blockH = tiled ? num(TAG.TileLength)! : num(TAG.RowsPerStrip, height)!;
+  const offsets = arr(tiled ? TAG.TileOffsets : TAG.StripOffsets) ?? [];
+  const counts = arr(tiled ? TAG.TileByteCounts : TAG.StripByteCounts) ?? [];
+  const across = Math.ceil(width / blockW);
+  const blockSize = blockW * blockH * spp;
+
+  const rgba = new Uint8ClampedArray(width * height * 4);
+  for (let b = 0; b < offsets.length; b++) {
+    const raw = new Uint8Array(buf, offsets[b], counts[b]);
+    const bytes =
+      compression === 5
+        ? lzwDecode(raw, blockSize)
+        : compression === 32773
+          ? unpackBits(raw, blockSize)
+          : compression === 1
+            ? raw.slice()
+            : await inflate(raw);
+    const col0 = (b % across) * blockW;
+    const row0 = Math.floor(b / across) * blockH;
+
+    for (let r = 0; r < blockH && row0 + r < height; r++) {
+      if (predictor === 2) {
+        const at = r * blockW * spp;
+        for (let k = spp; k < blockW * spp && at + k < bytes.length; k++) bytes[at + k] = (bytes[at + k] + bytes[at + k - spp]) & 255;
+      }
+      for (let c = 0; c < blockW && col0 + c < width; c++) {
+        const i = (r * blockW + c) * spp;
+        if (i + spp > bytes.length) break;
+        const o = ((row0 + r) * width + col0 + c) * 4;
+        if (photometric === 2) {
+          rgba[o] = bytes[i];
+          rgba[o + 1] = bytes[i + 1];
+          rgba[o + 2] = bytes[i + 2];
+          rgba[o + 3] = spp >= 4 ? bytes[i + 3] : 255;
+        } else if (photometric === 3) {
+          const v = bytes[i];
+          rgba[o] = colorMap![v] >> 8;
+          rgba[o + 1] = colorMap![256 + v] >> 8;
+          rgba[o + 2] = colorMap![512 + v] >> 8;
+          rgba[o + 3] = 255;
+        } else {
+          const v = photometric === 0 ? 255 - bytes[i] : bytes[i];
+          rgba[o] = rgba[o + 1] = rgba[o + 2] = v;
+          rgba[o + 3] = spp >= 2 ? bytes[i + 1] : 255;
+        }
+      }
+    }
+  }
+
+  return { width, height, pixels: { kind: "rgba", rgba }, transform: geoTiffTransform(arr, geoKeys(arr(TAG.GeoKeyDirectory))) };
+}
+
+/** --- GeoPDF (ISO 32000 viewport with a GEO measure) --- **/
+
+type PdfName = { name: string };
+type PdfRef = { ref: number };
+type PdfOp = { op: string };
+type PdfDict = Map<string, PdfValue>;
+type PdfValue = number | string | boolean | null | PdfName | PdfRef | PdfDict | PdfValue[];
+type PdfObject = { value: PdfValue; stream: Uint8Array | null };
+
+// PDF matrices [a b c d e f] map (x, y) → (a·x + c·y + e, b·x + d·y + f)
+type PdfMatrix = [number, number, number, number, number, number];
+
+const IDENTITY: PdfMatrix = [1, 0, 0, 1, 0, 0];
+
+function isName(v: unknown): v is PdfName {
+  return typeof v === "object" && v != null && "name" in v;
+}
+function isRef(v: unknown): v is PdfRef {
+  return typeof v === "object" && v != null && "ref" in v;
+}
+function isOp(v: unknown): v is PdfOp {
+  return typeof v === "object" && v != null && "op" in v;
+}
+function isDict(v: unknown): v is PdfDict {
+  return v instanceof Map;
+}
+
+function numbers(v: PdfValue | undefined): number[] | null {
+  return Array.isArray(v) && v.every((x) => typeof x === "number") ? (v as number[]) : null;
+}
+
+function isWhite(c: number) {
+  return c === 0x20 || c === 0x0a || c === 0x0d || c === 0x09 || c === 0x0c || c === 0x00;
+}
+function isDelimiter(c: number) {
+  return isWhite(c) || "()<>[]{}/%".includes(String.fromCharCode(c));
+}
+
+/** Tokeniser over a latin1 string: values, plus operators / keywords as { op }. */
+function pdfLexer(text: string, start = 0) {
+  let pos = start;
+
+  const skip = () => {
+    for (;;) {
+      while (pos < text.length && isWhite(text.charCodeAt(pos))) pos++;
+      if (text[pos] !== "%") return;
+      while (pos < text.length && text[pos] !== "\n" && text[pos] !== "\r") pos++;
+    }
+  };
+
+  const word = () => {
+    const s = pos;
+    while (pos < text.length && !isDelimiter(text.charCodeAt(pos))) pos++;
+    return text.slice(s, pos);
+  };
+
+  const collect = (close: string): PdfValue[] => {
+    const items: PdfValue[] = [];
+    for (;;) {
+      skip();
+      if (pos >= text.length) return items;
+      if (text.startsWith(close, pos)) {
+        pos += close.length;
+        return items;
+      }
+      const v = next();
+      if (v === undefined) return items;
+      if (!isOp(v)) items.push(v);
+      else if (v.op === "R" && typeof items[items.length - 2] === "number") items.splice(-2, 2, { ref: items[items.length - 2] as number });
+    }
+  };
+
+  const next = (): PdfValue | PdfOp | undefined => {
+    skip();
+    if (pos >= text.length) return undefined;
+    const c = text[pos];
+    if (c === "<" && text[pos + 1] === "<") {
+      pos += 2;
+      const items = collect(">>");
+      const d: PdfDict = new Map();
+      for (let i = 0; i + 1 < items.length; i += 2) {
+        const k = items[i];
+        if (isName(k)) d.set(k.name, items[i + 1]);
+      }
+      return d;
+    }
+    if (c === "[") {
+      pos++;
+      return collect("]");
+    }
+    if (c === "<") {
+      const end = text.indexOf(">", pos);
+      const hex = text.slice(pos + 1, end < 0 ? text.length : end).replace(/\s/g, "");
+      pos = end < 0 ? text.length : end + 1;
+      let s = "";
+      for (let i = 0; i < hex.length; i += 2) s += String.fromCharCode(parseInt(hex.slice(i, i + 2).padEnd(2, "0"), 16));
+      return s;
+    }
+    if (c === "(") {
+      let depth = 0;
+      let s = "";
+      for (pos++; pos < text.length; pos++) {
+        const ch = text[pos];
+        if (ch === "\\") {
+          s += text[++pos] ?? "";
+          continue;
+        }
+        if (ch === "(") depth++;
+        else if (ch === ")" && depth-- === 0) break;
+        s += ch;
+      }
+      pos++;
+      return s;
+    }
+    if (c === "/") {
+      pos++;
+      return { name: word().replace(/#([0-9a-f]{2})/gi, (_, h: string) => String.fromCharCode(parseInt(h, 16))) };
+    }
+    if (")>]{}".includes(c)) {
+      pos++;
+      return { op: c };
+    }
+    const w = word();
+    if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(w)) return Number(w);
+    if (w === "true" || w === "false") return w === "true";
+    if (w === "null") return null;
+    return { op: w };
+  };
+
+  return {
+    next,
+    get pos() {
+      return pos;
+    },
+    set pos(p: number) {
+      pos = p;
+    },
+  };
+}
+
+function latin1(bytes: Uint8Array) {
+  return new TextDecoder("latin1").decode(bytes);
+}
+
+/** Undo PNG row predictors (/Predictor ≥ 10) on a Flate stream. */
+function pngUnpredict(data: Uint8Array, columns: number, bpp: number): Uint8Array {
+  const rowLen = columns * bpp;
+  const rows = Math.floor(data.length / (rowLen + 1));
+  const out = new Uint8Array(rows * rowLen);
+  for (let r = 0; r < rows; r++) {
+    const type = data[r * (rowLen + 1)];
+    const src = r * (rowLen + 1) + 1;
+    const dst = r * rowLen;
+    for (let i = 0; i < rowLen; i++) {
+      const a = i >= bpp ? out[dst + i - bpp] : 0;
+      const b = r ? out[dst - rowLen + i] : 0;
+      const c = r && i >= bpp ? out[dst - rowLen + i - bpp] : 0;
+      let p = 0;
+      if (type === 1) p = a;
+      else if (type === 2) p = b;
+      else if (type === 3) p = (a + b) >> 1;
+      else if (type === 4) {
+        const pa = Math.abs(b - c);
+        const pb = Math.abs(a - c);
+        const pc = Math.abs(a + b - 2 * c);
+        p = pa <= pb && pa <= pc ? a : pb <= pc ? b : c;
+      }
+      out[dst + i] = (data[src + i] + p) & 255;
+    }
+  }
+  return out;
+}
+
+function filters(dict: PdfDict): string[] {
+  const f = dict.get("Filter");
+  if (isName(f)) return [f.name];
+  return Array.isArray(f) ? f.filter(isName).map((x) => x.name) : [];
+}
+
+/**
+ * Every object in the file, found by scanning for "n g obj" rather than trusting the xref table
+ * (so damaged or incrementally updated files still read), plus the contents of object streams.
+ */
+async function readPdfObjects(bytes: Uint8Array) {
+  const text = latin1(bytes);
+  const objects = new Map<number, PdfObject>();
+  const re = /(\d+)\s+\d+\s+obj\b/g;
+
+  for (let m = re.exec(text); m; m = re.exec(text)) {
+    const lex = pdfLexer(text, m.index + m[0].length);
+    const value = lex.next();
+    if (value === undefined || isOp(value)) continue;
+    let stream: Uint8Array | null = null;
+    const after = lex.pos;
+    const kw = lex.next();
+    if (isOp(kw) && kw.op === "stream") {
+      let start = lex.pos;
+      if (text[start] === "\r") start++;
+      if (text[start] === "\n") start++;
+      const length = isDict(value) ? value.get("Length") : undefined;
+      let end = -1;
+      if (typeof length === "number" && /^\s*endstream/.test(text.slice(start + length, start + length + 16))) end = start + length;
+      if (end < 0) {
+        end = text.indexOf("endstream", start);
+        if (end < 0) end = text.length;
+        while (end > start && (text[end - 1] === "\n" || text[end - 1] === "\r")) end--;
+      }
+      stream = bytes.subarray(start, end);
+      re.lastIndex = end;
+    } else {
+      lex.pos = after;
+    }
+    objects.set(Number(m[1]), { value, stream });
+  }
+
+  // Compressed object streams (PDF 1.5+); objects written directly take precedence
+  for (const obj of [...objects.values()]) {
+    const d = obj.value;
+    if (!isDict(d) || !obj.stream || !isName(d.get("Type")) || (d.get("Type") as PdfName).name !== "ObjStm") continue;
+    const data = latin1(await decodeStream(d, obj.stream));
+    const lex = pdfLexer(data);
+    const n = Number(d.get("N"));
+    const first = Number(d.get("First"));
+    const index: number[] = [];
+    for (let i = 0; i < 2 * n; i++) index.push(Number(lex.next()));
+    for (let i = 0; i < n; i++) {
+      if (objects.has(index[2 * i])) continue;
+      lex.pos = first + index[2 * i + 1];
+      const value = lex.next();
+      if (value !== undefined && !isOp(value)) objects.set(index[2 * i], { value, stream: null });
+    }
+  }
+  return objects;
+}
+
+/** Decode a stream's Flate filter (with PNG predictors); image codecs such as DCT pass through. */
+async function decodeStream(dict: PdfDict, raw: Uint8Array): Promise<Uint8Array> {
+  let data = raw;
+  for (const f of filters(dict)) {
+    if (f !== "FlateDecode" && f !== "Fl") break;
+    data = await inflate(data);
+    const parms = dict.get("DecodeParms");
+    const predictor = isDict(parms) ? Number(parms.get("Predictor") ?? 1) : 1;
+    if (predictor >= 10 && isDict(parms)) {
+      const colors = Number(parms.get("Colors") ?? 1);
+      const bpc = Number(parms.get("BitsPerComponent") ?? 8);
+      data = pngUnpredict(data, Number(parms.get("Columns") ?? 1), Math.max(1, (colors * bpc) >> 3));
+    }
+  }
+  return data;
+}
+
+function mulMatrix(m: PdfMatrix, n: PdfMatrix): PdfMatrix {
+  return [
+    m[0] * n[0] + m[1] * n[2],
+    m[0] * n[1] + m[1] * n[3],
+    m[2] * n[0] + m[3] * n[2],
+    m[2] * n[1] + m[3] * n[3],
+    m[4] * n[0] + m[5] * n[2] + n[4],
+    m[4] * n[1] + m[5] * n[3] + n[5],
+  ];
+}
+
+type Placement = { image: PdfObject; ctm: PdfMatrix };
+
+/**
+ * Decode a GeoPDF: the largest raster image placed on the first page that carries a GEO
+ * viewport, with control points where the viewport's LPTS/GPTS pairs fall on that image.
+ * Vector-only maps have no raster to show and are refused.
+ */
+export async function decodeGeoPdf(buf: ArrayBuffer, source: string): Promise<DecodedRaster & { georef: ImportedGeoref }> {
+  const bytes = new Uint8Array(buf);
+  if (latin1(bytes.subarray(0, 5)) !== "%PDF-") throw new Error("Not a PDF file.");
+  const objects = await readPdfObjects(bytes);
+  const resolve = (v: PdfValue | undefined): PdfValue | undefined => (isRef(v) ? objects.get(v.ref)?.value : v);
+  const dictOf = (v: PdfValue | undefined) => {
+    const r = resolve(v);
+    return isDict(r) ? r : null;
+  };
+  const nameOf = (d: PdfDict | null, key: string) => {
+    const v = d ? resolve(d.get(key)) : undefined;
+    return isName(v) ? v.name : null;
+  };
+
+  // First page with a GEO viewport; where a page has several, the largest is the map frame
+  let found: { page: PdfDict; bbox: number[]; measure: PdfDict } | null = null;
+  for (const obj of objects.values()) {
+    const page = isDict(obj.value) ? obj.value : null;
+    if (!page || nameOf(page, "Type") !== "Page") continue;
+    const vps = resolve(page.get("VP"));
+    if (!Array.isArray(vps)) continue;
+    for (const vp of vps.map(dictOf)) {
+      const bbox = numbers(resolve(vp?.get("BBox")));
+      const measure = dictOf(vp?.get("Measure"));
+      if (!bbox || bbox.length < 4 || !measure || nameOf(measure, "Subtype") !== "GEO") continue;
+      const area = (b: number[]) => Math.abs((b[2] - b[0]) * (b[3] - b[1]));
+      if (!found || (found.page === page && area(bbox) > area(found.bbox))) found = { page, bbox, measure };
+    }
+    if (found) break;
+  }
+  if (!found) {
+    throw new Error("No GeoPDF georeferencing found (an ISO 32000 viewport with a GEO measure). Older LGIDict GeoPDFs are not supported.");
+  }
+
+  const gpts = numbers(resolve(found.measure.get("GPTS")));
+  const lpts = numbers(resolve(found.measure.get("LPTS"))) ?? numbers(resolve(found.measure.get("Bounds"))) ?? [0, 0, 0, 1, 1, 1, 1, 0];
+  if (!gpts || gpts.length < 6 || lpts.length !== gpts.length) throw new Error("GeoPDF GPTS/LPTS points are missing or mismatched.");
+
+  // Resources may be inherited from the page tree
+  let resources: PdfDict | null = null;
+  for (let node: PdfDict | null = found.page, k = 0; node && !resources && k < 32; node = dictOf(node.get("Parent")), k++) {
+    resources = dictOf(node.get("Resources"));
+  }
+
+  const placements: Placement[] = [];
+  const walk = async (content: string, res: PdfDict | null, ctm0: PdfMatrix, depth: number) => {
+    const lex = pdfLexer(content);
+    const stack: PdfMatrix[] = [];
+    let ctm = ctm0;
+    let operands: PdfValue[] = [];
+    for (let t = lex.next(); t !== undefined; t = lex.next()) {
+      if (!isOp(t)) {
+        operands.push(t);
+        continue;
+      }
+      if (t.op === "q") stack.push(ctm);
+      else if (t.op === "Q") ctm = stack.pop() ?? ctm;
+      else if (t.op === "cm" && operands.length === 6 && operands.every((x) => typeof x === "number")) {
+        ctm = mulMatrix(operands as PdfMatrix, ctm);
+      } else if (t.op === "Do" && isName(operands[0])) {
+        const ref = dictOf(res?.get("XObject"))?.get(operands[0].name);
+        const xobj = isRef(ref) ? objects.get(ref.ref) : undefined;
+        const d = xobj && isDict(xobj.value) ? xobj.value : null;
+        if (xobj && d && nameOf(d, "Subtype") === "Image") placements.push({ image: xobj, ctm });
+        else if (xobj?.stream && d && nameOf(d, "Subtype") === "Form" && depth < 4) {
+          const m = numbers(resolve(d.get("Matrix")));
+          const inner = latin1(await decodeStream(d, xobj.stream));
+          await walk(inner, dictOf(d.get("Resources")) ?? res, mulMatrix((m?.length === 6 ? m : IDENTITY) as PdfMatrix, ctm), depth + 1);
+        }
+      } else if (t.op === "BI") {
+        // Inline image: skip its binary data
+        const id = content.indexOf("ID", lex.pos);
+        const ei = id < 0 ? -1 : content.slice(id + 2).search(/\sEI(\s|$)/);
+        lex.pos = ei < 0 ? content.length : id + 2 + ei + 3;
+      }
+      operands = [];
+    }
+  };
+
+  const contents = resolve(found.page.get("Contents"));
+  const parts: string[] = [];
+  for (const c of Array.isArray(contents) ? contents : [found.page.get("Contents")]) {
+    const obj = isRef(c) ? objects.get(c.ref) : undefined;
+    if (obj?.stream && isDict(obj.value)) parts.push(latin1(await decodeStream(obj.value, obj.stream)));
+  }
+  await walk(parts.join("\n"), resources, IDENTITY, 0);
+
+  // The biggest placed image is the map; masks and legend swatches are smaller
+  const usable = placements.filter((p) => {
+    const d = p.image.value as PdfDict;
+    return p.image.stream && d.get("ImageMask") !== true;
+  });
+  if (!usable.length) throw new Error("This GeoPDF has no embedded raster map; export the map as PNG with a world file instead.");
+  const { image, ctm } = usable.reduce((a, b) => (Math.abs(b.ctm[0] * b.ctm[3] - b.ctm[1] * b.ctm[2]) > Math.abs(a.ctm[0] * a.ctm[3] - a.ctm[1] * a.ctm[2]) ? b : a));
+  const raster = await decodePdfImage(image.value as PdfDict, image.stream!, resolve);
+
+  // Viewport unit square → page → image unit square → pixel
+  const [bx0, by0, bx1, by1] = found.bbox;
+  const det = ctm[0] * ctm[3] - ctm[1] * ctm[2];
+  if (Math.abs(det) < 1e-12) throw new Error("GeoPDF map image has no area on the page.");
+  const points: ControlPoint[] = [];
+  for (let i = 0; i + 1 < lpts.length; i += 2) {
+    const X = Math.min(bx0, bx1) + lpts[i] * Math.abs(bx1 - bx0) - ctm[4];
+    const Y = Math.min(by0, by1) + lpts[i + 1] * Math.abs(by1 - by0) - ctm[5];
+    const u = (ctm[3] * X - ctm[2] * Y) / det;
+    const v = (-ctm[1] * X + ctm[0] * Y) / det;
+    points.push({
+      id: `import-${points.length + 1}`,
+      px: { x: u * raster.width, y: (1 - v) * raster.height },
+      lat: gpts[i],
+      lon: gpts[i + 1],
+    });
+  }
+
+  return { ...raster, georef: { source, crs_label: "WGS84 lat/lon", kind: points.length >= 4 ? "projective" : "affine", points } };
+}
+
+/** JPEG images pass through for the browser to decode; 8-bit Flate RGB or grey become RGBA. */
+async function decodePdfImage(
+  d: PdfDict,
+  raw: Uint8Array,
+  resolve: (v: PdfValue | undefined) => PdfValue | undefined
+): Promise<DecodedRaster> {
+  const width = Number(resolve(d.get("Width")));
+  const height = Number(resolve(d.get("Height")));
+  if (!(width > 0 && height > 0)) throw new Error("GeoPDF map image has no size.");
+  if (width * height > MAX_PIXELS) throw new Error(`GeoPDF map image is too large (${width} × ${height}).`);
+
+  const f = filters(d);
+  const codec = f.filter((x) => x !== "FlateDecode" && x !== "Fl");
+  if (codec.length === 1 && (codec[0] === "DCTDecode" || codec[0] === "DCT")) {
+    return { width, height, pixels: { kind: "jpeg", bytes: await decodeStream(d, raw) } };
+  }
+  if (codec.length) throw new Error(`GeoPDF map image uses ${codec.join("/")} compression, which is not supported.`);
+  if (Number(resolve(d.get("BitsPerComponent")) ?? 8) !== 8) throw new Error("Only 8-bit GeoPDF map images are supported.");
+
+  let cs = resolve(d.get("ColorSpace"));
+  let components = 0;
+  if (Array.isArray(cs) && isName(cs[0]) && cs[0].name === "ICCBased") {
+    const icc = resolve(cs[1]);
+    components = isDict(icc) ? Number(icc.get("N")) : 0;
+  } else {
+    if (Array.isArray(cs)) cs = cs[0];
+    components = isName(cs) ? ({ DeviceRGB: 3, RGB: 3, DeviceGray: 1, G: 1 } as Record<string, number>)[cs.name] ?? 0 : 0;
+  }
+  if (components !== 1 && components !== 3) throw new Error("GeoPDF map image must be RGB or greyscale.");
+
+  const data = await decodeStream(d, raw);
+  const rgba = new Uint8ClampedArray(width * height * 4);
+  for (let k = 0; k < width * height && (k + 1) * components <= data.length; k++) {
+    const i = k * components;
+    rgba[4 * k] = data[i];
+    rgba[4 * k + 1] = data[components === 3 ? i + 1 : i];
+    rgba[4 * k + 2] = data[components === 3 ? i + 2 : i];
+    rgba[4 * k + 3] = 255;
+  }
+  return { width, height, pixels: { kind: "rgba", rgba } };
+}
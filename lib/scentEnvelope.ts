@@ -2,12 +2,32 @@
 // Probability-weighted, time-aware scent envelope (decision support)
 // No external dependencies.
 
+import { DEFAULT_PROFILE, type ModelProfile } from "@/lib/modelProfile";
+import { gustWidthMult, MAX_SPREAD_HALF_ANGLE_DEG, SIGMA_THETA_SPREAD } from "@/lib/cone";
+import { cellCenter, gridForPolygons, largestRing, sampleGrid, toLatLon, toXY, type GeoGrid, type XY } from "@/lib/grid";
+import {
+  downslopeAt,
+  elevationPatch,
+  findTerrainFeatures,
+  flowAccumulation,
+  patchCellAt,
+  type Dem,
+  type ElevationPatch,
+} from "@/lib/dem";
+
 export type TerrainType = "mixed" | "open" | "forest" | "urban" | "swamp" | "beach";
 
 export type StabilityType = "stable" | "neutral" | "convective"; // proxy for solar/thermals
 
 export type PrecipType = "none" | "light" | "moderate" | "heavy";
 
+// One hourly (or observed) wind reading. A sample applies from its time until the next sample.
+export type WindSample = {
+  time_iso: string;         // ISO string
+  wind_from_deg: number;    // meteorological FROM direction degrees
+  wind_speed_mph: number;
+};
+
 export type EnvelopeInputs = {
   // Required
   lkp_lat: number;
@@ -17,6 +37,22 @@ export type EnvelopeInputs = {
   wind_from_deg: number;    // meteorological FROM direction degrees (0=N,90=E)
   wind_speed_mph: number;
 
+  // Optional wind history covering LKP -> now. When present, scent is advected
+  // segment by segment and the polygons bend with the wind history.
+  wind_series?: WindSample[];
+
+  // Optional wind variability. Direction spread (sigma-theta) widens the plume by the meander it
+  // implies; gusts above the mean speed widen it by extra lateral mixing.
+  wind_sigma_theta_deg?: number | null;
+  wind_gust_mph?: number | null;
+
+  // Optional local DEM. Under stable air or at night scent drains downslope into drainages and
+  // pools in low ground; notes name the low points and saddles inside the envelope.
+  dem?: Dem | null;
+
+  // Optional coefficient set (dog discipline / calibrated); default DEFAULT_PROFILE
+  profile?: ModelProfile;
+
   // Optional environment (defaults applied)
   temperature_f?: number;     // default 75
   rel_humidity_pct?: number;  // default 50
@@ -32,12 +68,19 @@ export type LatLon = { lat: number; lon: number };
 export type EnvelopeOutput = {
   t_minutes: number;
 
+  // Contours of `density` at the profile's zone levels (largest ring per level)
   polygons: {
     core: LatLon[];
     fringe: LatLon[];
     residual: LatLon[];
   };
 
+  // Relative probability of usable scent per cell, peak = 1 (Gaussian plume around the axis)
+  density: GeoGrid;
+
+  // Centerline from the LKP to the far end of the residual zone (straight unless wind_series bends it)
+  axis: LatLon[];
+
   confidence_score: number;          // 0–100
   confidence_band: "High" | "Moderate" | "Low";
 
@@ -69,7 +112,7 @@ export function addMinutesIso(baseIso: string, mins: number) {
  * Destination point given start lat/lon, bearing degrees (0=N), distance meters.
  * Great-circle formula.
  */
-function destinationPoint(start: LatLon, bearingDeg: number, distM: number): LatLon {
+export function destinationPoint(start: LatLon, bearingDeg: number, distM: number): LatLon {
   const φ1 = deg2rad(start.lat);
   const λ1 = deg2rad(start.lon);
   const θ = deg2rad(bearingDeg);
@@ -92,6 +135,16 @@ function destinationPoint(start: LatLon, bearingDeg: number, distM: number): Lat
   return { lat: rad2deg(φ2), lon };
 }
 
+/** Initial great-circle bearing from a to b (degrees, 0=N). */
+export function initialBearingDeg(a: LatLon, b: LatLon): number {
+  const φ1 = deg2rad(a.lat);
+  const φ2 = deg2rad(b.lat);
+  const Δλ = deg2rad(b.lon - a.lon);
+  const y = Math.sin(Δλ) * Math.cos(φ2);
+  const x = Math.cos(φ1) * Math.sin(φ2) - Math.sin(φ1) * Math.cos(φ2) * Math.cos(Δλ);
+  return (rad2deg(Math.atan2(y, x)) + 360) % 360;
+}
+
 function feetToMeters(ft: number) {
   return ft * 0.3048;
 }
@@ -135,41 +188,330 @@ function conePolygon(
   return pts;
 }
 
-/** --- model pieces from your spec (tunable) --- **/
+/** --- wind history (trajectory) --- **/
 
-function terrainLenMult(terrain: TerrainType): number {
-  switch (terrain) {
-    case "open": return 1.10;
-    case "forest": return 0.95;
-    case "urban": return 0.85;
-    case "swamp": return 0.90;
-    case "beach": return 1.00;
-    default: return 1.00; // mixed
+type WindSegment = {
+  t0: number; // minutes since LKP
+  t1: number;
+  wind_from_deg: number;
+  wind_speed_mph: number;
+};
+
+/**
+ * Clip a wind series to [LKP, LKP + t] as minutes since LKP.
+ * Each sample holds until the next one; the first sample also covers any gap back to the LKP.
+ */
+function windSegments(series: WindSample[], lkp_iso: string, t: number): WindSegment[] {
+  const t0 = Date.parse(lkp_iso);
+  const pts = series
+    .map((s) => ({
+      m: (Date.parse(s.time_iso) - t0) / 60000,
+      from: s.wind_from_deg,
+      mph: Math.max(0, s.wind_speed_mph),
+    }))
+    .filter((p) => Number.isFinite(p.m) && Number.isFinite(p.from) && Number.isFinite(p.mph))
+    .sort((a, b) => a.m - b.m);
+
+  const segs: WindSegment[] = [];
+  for (let i = 0; i < pts.length; i++) {
+    const start = i === 0 ? 0 : Math.max(0, pts[i].m);
+    const end = i === pts.length - 1 ? t : Math.min(t, pts[i + 1].m);
+    if (end > start) {
+      segs.push({ t0: start, t1: end, wind_from_deg: pts[i].from, wind_speed_mph: pts[i].mph });
+    }
   }
+  return segs;
 }
 
-function stabilityMult(stability: StabilityType): number {
-  // affects length slightly; mixing handled more in width
-  switch (stability) {
-    case "stable": return 0.90;
-    case "convective": return 1.05;
-    default: return 1.00;
+function meanSpeedMph(segs: WindSegment[]) {
+  let num = 0;
+  let den = 0;
+  for (const s of segs) {
+    num += s.wind_speed_mph * (s.t1 - s.t0);
+    den += s.t1 - s.t0;
+  }
+  return den > 0 ? num / den : 0;
+}
+
+function angleDiffDeg(a: number, b: number) {
+  const d = Math.abs(((a - b) % 360 + 360) % 360);
+  return d > 180 ? 360 - d : d;
+}
+
+type AxisPath = {
+  points: LatLon[];
+  cum_m: number[]; // cumulative distance at each point
+  bearings: number[]; // bearing of the leg starting at each point
+};
+
+/**
+ * Streakline from a continuous source at the LKP: scent released most recently sits nearest
+ * the apex, so legs are laid out newest -> oldest. Each leg's length is that segment's share of
+ * the length formula (d/dt of base + per_min*t + wind*W_eff*ln(1 + t/tc)), so a constant wind reproduces L_ft.
+ */
+function streaklineAxis(apex: LatLon, segs: WindSegment[], lenMult: number, len: ModelProfile["length"]) {
+  const points: LatLon[] = [apex];
+  const cum_m: number[] = [0];
+  const bearings: number[] = [];
+
+  let length_ft = 0;
+  for (let k = segs.length - 1; k >= 0; k--) {
+    const s = segs[k];
+    const W_eff = Math.min(s.wind_speed_mph, len.wind_cap_mph);
+    const tc = len.wind_time_const_min;
+    let inc_ft = len.per_min_ft * (s.t1 - s.t0) + len.wind_ft_per_mph * W_eff * Math.log((tc + s.t1) / (tc + s.t0));
+    if (k === segs.length - 1) inc_ft += len.base_ft;
+    inc_ft *= lenMult;
+    if (inc_ft <= 0) continue;
+
+    const b = downwindBearingDeg(s.wind_from_deg);
+    const from = points[points.length - 1];
+    points.push(destinationPoint(from, b, feetToMeters(inc_ft)));
+    cum_m.push(cum_m[cum_m.length - 1] + feetToMeters(inc_ft));
+    bearings.push(b);
+    length_ft += inc_ft;
+  }
+
+  return { path: { points, cum_m, bearings } as AxisPath, length_ft };
+}
+
+/** Point at distance d_m along the path (clamped to the ends). */
+function pointAlong(path: AxisPath, d_m: number): LatLon {
+  const n = path.bearings.length;
+  if (n === 0) return path.points[0];
+  const d = clamp(d_m, 0, path.cum_m[n]);
+  let i = 0;
+  while (i < n - 1 && path.cum_m[i + 1] < d) i++;
+  return destinationPoint(path.points[i], path.bearings[i], d - path.cum_m[i]);
+}
+
+/** Polygon of half-width x*tan(halfAngle) around the first reach_m of the path. */
+function trajectoryPolygon(path: AxisPath, reach_m: number, halfAngleDeg: number, stations = 32): LatLon[] {
+  const apex = path.points[0];
+  const tanA = Math.tan(deg2rad(halfAngleDeg));
+  const step = reach_m / stations;
+  const left: LatLon[] = [];
+  const right: LatLon[] = [];
+
+  for (let i = 1; i <= stations; i++) {
+    const x = i * step;
+    const p = pointAlong(path, x);
+    // central difference smooths the offset direction across bends
+    const a = pointAlong(path, x - step);
+    const b = pointAlong(path, Math.min(x + step, reach_m));
+    const bearing = initialBearingDeg(a, b);
+    const w = x * tanA;
+    left.push(destinationPoint(p, bearing - 90, w));
+    right.push(destinationPoint(p, bearing + 90, w));
+  }
+
+  return [apex, ...left, ...right.reverse(), apex];
+}
+
+/** --- probability surface (Gaussian plume) --- **/
+
+// Zone boundaries as fractions of peak density (default profile). Chosen so the contours land close
+// to the old hard-edged zones: core ~0.55 L / 0.45 half-angle, fringe ~0.85 L, residual ~L / 1.15 half-angle.
+export const DENSITY_LEVELS = DEFAULT_PROFILE.zones.density;
+
+const PLUME_SIGMA_Y_PER_TAN = 0.8; // sigma_y = sigma_0 + 0.8 * x * tan(halfAngle)
+const PLUME_DECAY_PER_L = 1.0; // along-wind e-folding length, in units of L
+const PLUME_FRONT_SIGMA_PER_L = 0.12; // spread of the leading edge, in units of L
+
+// Abramowitz & Stegun 7.1.26 (|error| < 1.5e-7)
+function erfc(x: number): number {
+  const z = Math.abs(x);
+  const k = 1 / (1 + 0.3275911 * z);
+  const poly = k * (0.254829592 + k * (-0.284496736 + k * (1.421413741 + k * (-1.453152027 + k * 1.061405429))));
+  const r = poly * Math.exp(-z * z);
+  return x >= 0 ? r : 2 - r;
+}
+
+/**
+ * Along/cross-wind coordinates of q relative to a polyline (metres). Points before the apex get
+ * a negative along distance; points past the far end extend the last leg.
+ */
+function axisCoords(path: XY[], cum: number[], q: XY): { x: number; y: number } {
+  let best = { x: 0, y: Infinity };
+  for (let i = 0; i < path.length - 1; i++) {
+    const a = path[i];
+    const b = path[i + 1];
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const len = Math.hypot(dx, dy);
+    if (len === 0) continue;
+    let u = ((q.x - a.x) * dx + (q.y - a.y) * dy) / (len * len);
+    if (i > 0) u = Math.max(0, u);
+    if (i < path.length - 2) u = Math.min(1, u);
+    const px = a.x + u * dx;
+    const py = a.y + u * dy;
+    const y = Math.hypot(q.x - px, q.y - py);
+    if (y < Math.abs(best.y)) best = { x: cum[i] + u * len, y };
   }
+  return Number.isFinite(best.y) ? best : { x: 0, y: Math.hypot(q.x - path[0].x, q.y - path[0].y) };
 }
 
-function mixMult(stability: StabilityType, terrain: TerrainType): number {
+/**
+ * Continuous-source plume, peak-normalised: lateral Gaussian whose sigma grows with distance
+ * (and with t through the half-angle), exponential along-wind loss, and an erfc leading edge
+ * at L whose spread also scales with L. A small Gaussian pool sits around the LKP itself.
+ */
+function plumeDensity(x: number, y: number, L_m: number, tanA: number, sigma0_m: number) {
+  const sigmaY = sigma0_m + PLUME_SIGMA_Y_PER_TAN * Math.max(0, x) * tanA;
+  const lateral = Math.exp(-(y * y) / (2 * sigmaY * sigmaY));
+  if (x < 0) return lateral * Math.exp(-(x * x) / (2 * sigma0_m * sigma0_m));
+  const sigmaX = PLUME_FRONT_SIGMA_PER_L * L_m;
+  const front = 0.5 * erfc((x - L_m) / (Math.SQRT2 * sigmaX));
+  return lateral * Math.exp(-x / (PLUME_DECAY_PER_L * L_m)) * front;
+}
+
+/** --- terrain (DEM) --- **/
+
+type TerrainField = {
+  patch: ElevationPatch;
+  acc: Float32Array; // D8 flow accumulation
+  logAccMax: number;
+};
+
+// Scent at a cell is looked up this fraction of its along-wind distance upslope (full effect from 5% grade)
+const DRAINAGE_DRIFT = 0.25;
+const DRAINAGE_FULL_SLOPE = 0.05;
+
+function terrainField(dem: Dem, g: GeoGrid): TerrainField | null {
+  // Pad so features near the envelope edge still have neighbours to compare against
+  const pad = Math.max(150, 0.1 * g.nx * g.cell_m);
+  const sw = toLatLon(g.origin, { x: g.minX - pad, y: g.minY - pad });
+  const ne = toLatLon(g.origin, { x: g.minX + g.nx * g.cell_m + pad, y: g.minY + g.ny * g.cell_m + pad });
+  const patch = elevationPatch(dem, { south: sw.lat, west: sw.lon, north: ne.lat, east: ne.lon });
+  let covered = 0;
+  for (const z of patch.z) if (Number.isFinite(z)) covered++;
+  if (covered < patch.z.length * 0.25) return null;
+
+  const acc = flowAccumulation(patch);
+  let accMax = 1;
+  for (const a of acc) if (a > accMax) accMax = a;
+  return { patch, acc, logAccMax: Math.log(accMax) || 1 };
+}
+
+/**
+ * Katabatic bias for one cell: where to look up plume density (shifted upslope, i.e. scent has
+ * drained down to here) and a weight favouring cells many others drain through.
+ */
+function drainageBias(f: TerrainField, ll: LatLon, x_along: number) {
+  const c = patchCellAt(f.patch, ll);
+  if (!c || !Number.isFinite(f.patch.z[c.j * f.patch.nx + c.i])) return { dx: 0, dy: 0, weight: 1 };
+  const d = downslopeAt(f.patch, c.i, c.j);
+  const shift = DRAINAGE_DRIFT * Math.max(0, x_along) * Math.min(1, d.slope / DRAINAGE_FULL_SLOPE);
+  const drainage = Math.log(f.acc[c.j * f.patch.nx + c.i]) / f.logAccMax;
+  return { dx: -d.ux * shift, dy: -d.uy * shift, weight: 0.6 + 0.8 * drainage };
+}
+
+const COMPASS = ["N", "NE", "E", "SE", "S", "SW", "W", "NW"];
+
+function terrainNotes(
+  f: TerrainField,
+  density: GeoGrid,
+  apex: LatLon,
+  pooling: boolean,
+  residualLevel: number
+): string[] {
+  const place = (p: LatLon) => {
+    const q = toXY(apex, p);
+    const dist = Math.hypot(q.x, q.y);
+    const dir = COMPASS[Math.round(((Math.atan2(q.x, q.y) * 180) / Math.PI + 360) / 45) % 8];
+    return `${Math.round(dist)} m ${dir} of LKP (${p.lat.toFixed(5)}, ${p.lon.toFixed(5)})`;
+  };
+
+  const ranked = findTerrainFeatures(f.patch)
+    .map((t) => ({ ...t, p: sampleGrid(density, t.point) }))
+    .filter((t) => t.p >= residualLevel * 0.5)
+    .sort((a, b) => b.p - a.p);
+
+  const notes: string[] = [];
+  for (const t of ranked.filter((r) => r.kind === "low_point").slice(0, 3)) {
+    notes.push(
+      pooling
+        ? `Low point ${place(t.point)}, ${Math.round(t.elev_m)} m: stable air drains scent here—expect pooling; check early.`
+        : `Low point ${place(t.point)}, ${Math.round(t.elev_m)} m: possible scent pooling if air stills.`
+    );
+  }
+  for (const t of ranked.filter((r) => r.kind === "saddle").slice(0, 2)) {
+    notes.push(
+      pooling
+        ? `Saddle ${place(t.point)}, ${Math.round(t.elev_m)} m: drainage air spills through—bracket both sides.`
+        : `Saddle ${place(t.point)}, ${Math.round(t.elev_m)} m: wind funnels through—expect scent to channel here.`
+    );
+  }
+  return notes;
+}
+
+function densityGrid(
+  g: GeoGrid,
+  axis: LatLon[],
+  L_m: number,
+  halfAngleDeg: number,
+  drainage: TerrainField | null
+): GeoGrid {
+  const path = axis.map((p) => toXY(g.origin, p));
+  const cum = [0];
+  for (let i = 1; i < path.length; i++) {
+    cum.push(cum[i - 1] + Math.hypot(path[i].x - path[i - 1].x, path[i].y - path[i - 1].y));
+  }
+
+  const tanA = Math.tan(deg2rad(halfAngleDeg));
+  const sigma0 = Math.max(feetToMeters(20), 0.75 * g.cell_m);
+
+  let peak = 0;
+  // Leave the outer ring at zero so every contour closes
+  for (let j = 1; j < g.ny - 1; j++) {
+    for (let i = 1; i < g.nx - 1; i++) {
+      const q = cellCenter(g, i, j);
+      let c = axisCoords(path, cum, q);
+      let w = 1;
+      if (drainage) {
+        const b = drainageBias(drainage, toLatLon(g.origin, q), c.x);
+        if (b.dx || b.dy) c = axisCoords(path, cum, { x: q.x + b.dx, y: q.y + b.dy });
+        w = b.weight;
+      }
+      const v = plumeDensity(c.x, c.y, L_m, tanA, sigma0) * w;
+      g.values[j * g.nx + i] = v;
+      if (v > peak) peak = v;
+    }
+  }
+  if (peak > 0) for (let k = 0; k < g.values.length; k++) g.values[k] /= peak;
+  return g;
+}
+
+/** --- model pieces from your spec (tunable via ModelProfile) --- **/
+
+function terrainLenMult(p: ModelProfile, terrain: TerrainType): number {
+  return p.terrain_len[terrain] ?? p.terrain_len.mixed;
+}
+
+function stabilityMult(p: ModelProfile, stability: StabilityType): number {
+  // affects length slightly; mixing handled more in width
+  return p.stability_len[stability] ?? p.stability_len.neutral;
+}
+
+function mixMult(p: ModelProfile, stability: StabilityType, terrain: TerrainType): number {
   let m = 1.0;
-  if (stability === "stable") m *= 0.85;
-  if (stability === "convective") m *= 1.25;
-  if (terrain === "urban") m *= 1.15;
+  if (stability === "stable") m *= p.mix.stable;
+  if (stability === "convective") m *= p.mix.convective;
+  if (terrain === "urban") m *= p.mix.urban;
   return m;
 }
 
-function confidenceTauMinutes(tempF: number, rh: number, cloud: EnvelopeInputs["cloud"], windMph: number): number {
-  // default neutral = 180
-  // mild/cool/humid/cloudy -> 240
-  // hot/dry/sunny/windy -> 120
-  let tau = 180;
+function confidenceTauMinutes(
+  p: ModelProfile,
+  tempF: number,
+  rh: number,
+  cloud: EnvelopeInputs["cloud"],
+  windMph: number
+): number {
+  // neutral (default 180)
+  // mild/cool/humid/cloudy -> favourable (240)
+  // hot/dry/sunny/windy -> harsh (120)
+  let tau = p.confidence_tau_min.neutral;
 
   const humid = rh > 60;
   const dry = rh < 30;
@@ -179,8 +521,8 @@ function confidenceTauMinutes(tempF: number, rh: number, cloud: EnvelopeInputs["
   const stableish = cloud === "overcast" || cloud === "night";
   const windy = windMph >= 13;
 
-  if ((humid || cool) && stableish && !windy) tau = 240;
-  if ((hot || dry || sunny) && windy) tau = 120;
+  if ((humid || cool) && stableish && !windy) tau = p.confidence_tau_min.favourable;
+  if ((hot || dry || sunny) && windy) tau = p.confidence_tau_min.harsh;
 
   return tau;
 }
@@ -231,17 +573,33 @@ export function computeScentEnvelope(inputRaw: EnvelopeInputs): EnvelopeOutput {
     stability: inputRaw.stability ?? "neutral",
   };
 
+  const P = input.profile ?? DEFAULT_PROFILE;
   const t = minutesSince(input.lkp_time_iso, input.now_time_iso);
-  const W = Math.max(0, input.wind_speed_mph);
-  const W_eff = Math.min(W, 18);
+  const apex: LatLon = { lat: input.lkp_lat, lon: input.lkp_lon };
+  const lenMult = terrainLenMult(P, input.terrain) * stabilityMult(P, input.stability);
+
+  // Wind history (if any) replaces the single wind vector for length, speed and axis
+  const segs = input.wind_series?.length ? windSegments(input.wind_series, input.lkp_time_iso, t) : [];
+  const trajectory = segs.length ? streaklineAxis(apex, segs, lenMult, P.length) : null;
+
+  const W = segs.length ? meanSpeedMph(segs) : Math.max(0, input.wind_speed_mph);
+  const W_eff = Math.min(W, P.length.wind_cap_mph);
 
   // --- length (feet) ---
-  const L_base_ft = 30 + 6.0 * t;
-  const L_wind_ft = 120 * W_eff * Math.log(1 + t / 30);
-  const L_ft = (L_base_ft + L_wind_ft) * terrainLenMult(input.terrain) * stabilityMult(input.stability);
+  const L_base_ft = P.length.base_ft + P.length.per_min_ft * t;
+  const L_wind_ft = P.length.wind_ft_per_mph * W_eff * Math.log(1 + t / P.length.wind_time_const_min);
+  const L_ft = trajectory ? trajectory.length_ft : (L_base_ft + L_wind_ft) * lenMult;
 
   // --- width at far end (feet) ---
-  const Width_end_ft = (20 + 3.5 * t + 40 * Math.sqrt(t)) * mixMult(input.stability, input.terrain);
+  const gustFactor = input.wind_gust_mph != null && W > 1 ? Math.max(1, input.wind_gust_mph / W) : null;
+  const Width_mix_ft =
+    (P.width.base_ft + P.width.per_min_ft * t + P.width.sqrt_ft * Math.sqrt(t)) *
+    mixMult(P, input.stability, input.terrain) *
+    gustWidthMult(gustFactor);
+  // Meander: the axis wanders ±SIGMA_THETA_SPREAD·σθ, added in quadrature to the mixing width
+  const sigmaTheta = Math.max(0, input.wind_sigma_theta_deg ?? 0);
+  const meanderDeg = Math.min(MAX_SPREAD_HALF_ANGLE_DEG, SIGMA_THETA_SPREAD * sigmaTheta);
+  const Width_end_ft = Math.hypot(Width_mix_ft, L_ft * Math.tan(deg2rad(meanderDeg)));
 
   // Convert width-> half angle: halfAngle = atan(Width_end / L)
   // Width_end_ft in spec is half-width at far end already (your spec calls it Width_end).
@@ -249,26 +607,46 @@ export function computeScentEnvelope(inputRaw: EnvelopeInputs): EnvelopeOutput {
   const halfAngleRad = Math.atan2(Width_end_ft, Math.max(1, L_ft));
   const halfAngleDeg = rad2deg(halfAngleRad);
 
-  const apex: LatLon = { lat: input.lkp_lat, lon: input.lkp_lon };
   const axis = downwindBearingDeg(input.wind_from_deg);
 
   // Zones scaling
-  const L_core_m = feetToMeters(0.55 * L_ft);
-  const L_fringe_m = feetToMeters(0.85 * L_ft);
-  const L_resid_m = feetToMeters(1.0 * L_ft);
-
-  const coreAngleDeg = halfAngleDeg * 0.45;
-  const fringeAngleDeg = halfAngleDeg * 0.80;
-  const residAngleDeg = halfAngleDeg * 1.15;
-
+  const L_core_m = feetToMeters(P.zones.len.core * L_ft);
+  const L_fringe_m = feetToMeters(P.zones.len.fringe * L_ft);
+  const L_resid_m = feetToMeters(P.zones.len.residual * L_ft);
+
+  const coreAngleDeg = halfAngleDeg * P.zones.angle.core;
+  const fringeAngleDeg = halfAngleDeg * P.zones.angle.fringe;
+  const residAngleDeg = halfAngleDeg * P.zones.angle.residual;
+
+  const wedges = trajectory
+    ? {
+        core: trajectoryPolygon(trajectory.path, L_core_m, coreAngleDeg, 28),
+        fringe: trajectoryPolygon(trajectory.path, L_fringe_m, fringeAngleDeg, 32),
+        residual: trajectoryPolygon(trajectory.path, L_resid_m, residAngleDeg, 36),
+      }
+    : {
+        core: conePolygon(apex, axis, L_core_m, coreAngleDeg, 28),
+        fringe: conePolygon(apex, axis, L_fringe_m, fringeAngleDeg, 32),
+        residual: conePolygon(apex, axis, L_resid_m, residAngleDeg, 36),
+      };
+
+  const alongAxis = (d_m: number) =>
+    trajectory ? pointAlong(trajectory.path, d_m) : destinationPoint(apex, axis, d_m);
+  const axisLine = trajectory ? trajectory.path.points : [apex, alongAxis(L_resid_m)];
+
+  // Probability surface; zones are its contours (the wedges remain the fallback for t ≈ 0)
+  const grid = gridForPolygons([wedges.residual], 120, 0.15 * L_resid_m);
+  const terrainAt = input.dem ? terrainField(input.dem, grid) : null;
+  const pooling = !!terrainAt && (input.stability === "stable" || input.cloud === "night");
+  const density = densityGrid(grid, axisLine, L_resid_m, halfAngleDeg, pooling ? terrainAt : null);
   const polygons = {
-    core: conePolygon(apex, axis, L_core_m, coreAngleDeg, 28),
-    fringe: conePolygon(apex, axis, L_fringe_m, fringeAngleDeg, 32),
-    residual: conePolygon(apex, axis, L_resid_m, residAngleDeg, 36),
+    core: largestRing(density, P.zones.density.core) ?? wedges.core,
+    fringe: largestRing(density, P.zones.density.fringe) ?? wedges.fringe,
+    residual: largestRing(density, P.zones.density.residual) ?? wedges.residual,
   };
 
   // Confidence
-  const tau = confidenceTauMinutes(input.temperature_f!, input.rel_humidity_pct!, input.cloud, W);
+  const tau = confidenceTauMinutes(P, input.temperature_f!, input.rel_humidity_pct!, input.cloud, W);
   const C_time = 100 * Math.exp(-t / tau);
 
   const { HumMult, TempMult, SunMult, RainMult, WindMult } = confidenceMultipliers(
@@ -276,7 +654,8 @@ export function computeScentEnvelope(inputRaw: EnvelopeInputs): EnvelopeOutput {
   );
 
   const C_env = HumMult * TempMult * SunMult * RainMult * WindMult;
-  const C = clamp(C_time * C_env, 5, 100);
+  // Rounded once so the reported score, band, notes and reset always agree
+  const C = Math.round(clamp(C_time * C_env, 5, 100));
 
   const band: EnvelopeOutput["confidence_band"] =
     C >= 70 ? "High" : C >= 40 ? "Moderate" : "Low";
@@ -286,21 +665,42 @@ export function computeScentEnvelope(inputRaw: EnvelopeInputs): EnvelopeOutput {
   startPoints.push({ label: "LKP (Immediate)", point: apex });
 
   const mid_m = feetToMeters(0.35 * L_ft);
-  const far_m = feetToMeters(0.55 * L_ft);
-  startPoints.push({ label: "Core midline (~35%)", point: destinationPoint(apex, axis, mid_m) });
-  startPoints.push({ label: "Core far edge (~55%)", point: destinationPoint(apex, axis, far_m) });
+  const far_m = feetToMeters(P.zones.len.core * L_ft);
+  startPoints.push({ label: "Core midline (~35%)", point: alongAxis(mid_m) });
+  startPoints.push({ label: `Core far edge (~${Math.round(P.zones.len.core * 100)}%)`, point: alongAxis(far_m) });
 
   // Notes (simple, defensible rules)
   const notes: string[] = [];
+  const demNotes = terrainAt ? terrainNotes(terrainAt, density, apex, pooling, P.zones.density.residual) : [];
   if (W <= 3 || input.terrain === "urban" || input.terrain === "forest") {
-    notes.push("Pooling/eddies likely—work LKP, leeward sides, and terrain traps; expect broken scent.");
+    notes.push(
+      demNotes.length
+        ? "Pooling/eddies likely—work LKP, the low points and saddles below, and leeward sides; expect broken scent."
+        : "Pooling/eddies likely—work LKP, leeward sides, and terrain traps; expect broken scent."
+    );
+  }
+  if (pooling) {
+    notes.push("Stable/night air over the loaded DEM—envelope biased downslope and into drainages.");
   }
+  notes.push(...demNotes);
   if (W >= 4 && W <= 12 && C >= 50) {
     notes.push("Cone strategy appropriate—deploy downwind along core axis, bracket fringe edges.");
   }
   if (W >= 13 || input.precip === "heavy") {
     notes.push("Higher dilution/variability—use shorter commitments, more frequent resets, multiple start points.");
   }
+  if (sigmaTheta >= 20) {
+    notes.push(`Meandering wind (σθ ≈ ${Math.round(sigmaTheta)}°)—envelope widened; expect the scent line to swing across the axis.`);
+  } else if (gustFactor != null && gustFactor >= 1.6) {
+    notes.push(`Gusty wind (gusts ${gustFactor.toFixed(1)}× mean)—scent breaks up; envelope widened.`);
+  }
+  if (segs.length > 1) {
+    const latest = segs[segs.length - 1].wind_from_deg;
+    const shift = Math.max(...segs.map((s) => angleDiffDeg(s.wind_from_deg, latest)));
+    if (shift >= 45) {
+      notes.push(`Wind has shifted ~${Math.round(shift)}° since LKP—older scent lies off the current downwind axis; follow the bent envelope.`);
+    }
+  }
 
   // Reset recommendation
   const reset = C < 40 ? 30 : C < 70 ? 45 : 60;
@@ -308,7 +708,9 @@ export function computeScentEnvelope(inputRaw: EnvelopeInputs): EnvelopeOutput {
   return {
     t_minutes: t,
     polygons,
-    confidence_score: Math.round(C),
+    density,
+    axis: axisLine,
+    confidence_score: C,
     confidence_band: band,
     recommended_start_points: startPoints,
     deployment_notes: notes,
@@ -0,0 +1,226 @@
+// lib/searchSegments.ts
+// Search segments drawn on the map: team/status, POA seeding, POD from coverage, and the
+// per-operational-period POA shift and cumulative probability of success (POS).
+// No external dependencies.
+
+import type { LatLon } from "@/lib/scentEnvelope";
+import { pointInPolygonXY, toXY, type XY } from "@/lib/grid";
+import type { Track } from "@/lib/tracks";
+
+export type SegmentStatus = "unassigned" | "assigned" | "in_progress" | "searched";
+
+export const SEGMENT_STATUS_LABELS: Record<SegmentStatus, string> = {
+  unassigned: "Unassigned",
+  assigned: "Assigned",
+  in_progress: "In progress",
+  searched: "Searched",
+};
+
+export const SEGMENT_STATUSES = Object.keys(SEGMENT_STATUS_LABELS) as SegmentStatus[];
+
+export const SEGMENT_STATUS_COLORS: Record<SegmentStatus, string> = {
+  unassigned: "#6b7280",
+  assigned: "#2563eb",
+  in_progress: "#d97706",
+  searched: "#16a34a",
+};
+
+// One team's pass through a segment, logged when the team returns
+export type Sortie = {
+  id: string;
+  period: number; // operational period the search happened in (1-based)
+  team: string;
+  coverage: number; // effort / area; sweep width × track length inside ÷ segment area
+  pod: number; // 0..1, from coverage unless entered directly
+  logged_iso: string;
+};
+
+export type SearchSegment = {
+  id: string;
+  name: string;
+  ring: LatLon[];
+  team: string;
+  status: SegmentStatus;
+  poa: number; // POA at the start of period 1 (0..1); later periods are shifted by the sorties
+  sorties: Sortie[];
+};
+
+export type SearchPlan = {
+  segments: SearchSegment[];
+  period: number; // current operational period
+  period_start_iso?: string | null; // when the current period opened; null = from the start of the incident
+};
+
+/** --- geometry --- **/
+
+function projectRing(ring: LatLon[]): { origin: LatLon; poly: XY[] } {
+  const origin = ring[0];
+  return { origin, poly: ring.map((p) => toXY(origin, p)) };
+}
+
+export function polygonAreaM2(ring: LatLon[]): number {
+  if (ring.length < 3) return 0;
+  const { poly } = projectRing(ring);
+  let a = 0;
+  for (let i = 0, j = poly.length - 1; i < poly.length; j = i++) a += poly[j].x * poly[i].y - poly[i].x * poly[j].y;
+  return Math.abs(a) / 2;
+}
+
+// Fraction of the leg a→b inside poly: split at every edge crossing and test each piece's midpoint
+function legInside(a: XY, b: XY, poly: XY[]): number {
+  const ts = [0, 1];
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  for (let i = 0, j = poly.length - 1; i < poly.length; j = i++) {
+    const p = poly[j];
+    const ex = poly[i].x - p.x;
+    const ey = poly[i].y - p.y;
+    const den = dx * ey - dy * ex;
+    if (Math.abs(den) < 1e-12) continue;
+    const t = ((p.x - a.x) * ey - (p.y - a.y) * ex) / den;
+    const u = ((p.x - a.x) * dy - (p.y - a.y) * dx) / den;
+    if (t > 0 && t < 1 && u >= 0 && u <= 1) ts.push(t);
+  }
+  ts.sort((x, y) => x - y);
+  let f = 0;
+  for (let k = 1; k < ts.length; k++) {
+    const tm = (ts[k - 1] + ts[k]) / 2;
+    if (pointInPolygonXY({ x: a.x + dx * tm, y: a.y + dy * tm }, poly)) f += ts[k] - ts[k - 1];
+  }
+  return f;
+}
+
+/** Metres of the tracks that lie inside the segment. */
+export function trackLengthInside(ring: LatLon[], tracks: Pick<Track, "points">[]): number {
+  if (ring.length < 3) return 0;
+  const { origin, poly } = projectRing(ring);
+  let d = 0;
+  for (const t of tracks) {
+    const pts = t.points.map((p) => toXY(origin, p));
+    for (let k = 1; k < pts.length; k++) {
+      d += Math.hypot(pts[k].x - pts[k - 1].x, pts[k].y - pts[k - 1].y) * legInside(pts[k - 1], pts[k], poly);
+    }
+  }
+  return d;
+}
+
+/** --- detection --- **/
+
+/**
+ * The named team's tracks as searched in the current period: timestamped points before
+ * `sinceIso` are dropped (untimed points cannot be placed and are kept). Empty when the team
+ * has no tracks, or none in the period.
+ */
+export function tracksForSortie<T extends Pick<Track, "team" | "points">>(tracks: T[], team: string, sinceIso?: string | null): T[] {
+  const name = team.trim().toLowerCase();
+  if (!name) return [];
+  const since = sinceIso ? Date.parse(sinceIso) : -Infinity;
+  return tracks
+    .filter((t) => t.team.trim().toLowerCase() === name)
+    .map((t) => ({ ...t, points: t.points.filter((p) => !p.time_iso || Date.parse(p.time_iso) >= since) }))
+    .filter((t) => t.points.length >= 2);
+}
+
+/** Coverage = effective sweep width × distance searched inside the segment ÷ segment area. */
+export function coverageFromTracks(ring: LatLon[], tracks: Pick<Track, "points">[], sweepWidthM: number): number {
+  const area = polygonAreaM2(ring);
+  return area > 0 ? (Math.max(0, sweepWidthM) * trackLengthInside(ring, tracks)) / area : 0;
+}
+
+/** Exponential detection function (random search): POD = 1 − e^(−coverage). */
+export function podFromCoverage(coverage: number): number {
+  return 1 - Math.exp(-Math.max(0, coverage));
+}
+
+/** --- POA seeding --- **/
+
+/**
+ * Set each segment's starting POA from `shares` (scent and/or travel mass inside it). Overlapping
+ * segments count the same mass twice; when the total passes 100% the seeds are scaled back to it.
+ */
+export function seedSegmentPoa(segments: SearchSegment[], shares: number[]): { segments: SearchSegment[]; overlap: boolean } {
+  const total = shares.reduce((a, v) => a + Math.max(0, v), 0);
+  const k = total > 1 ? 1 / total : 1;
+  return {
+    segments: segments.map((s, i) => ({ ...s, poa: Math.max(0, shares[i] ?? 0) * k })),
+    overlap: total > 1 + 1e-6,
+  };
+}
+
+/** --- period bookkeeping --- **/
+
+export type SegmentPeriod = {
+  id: string;
+  poa: number; // shifted POA at the start of the period
+  pod: number; // combined POD of the period's sorties, 1 − Π(1 − pod)
+  pos: number; // poa × pod
+};
+
+export type PeriodSummary = {
+  period: number;
+  segments: SegmentPeriod[];
+  rest_of_world: number; // at the start of the period
+  pos: number; // probability of success of the period
+  cumulative_pos: number; // of the whole search through the end of the period
+};
+
+export type SegmentStanding = {
+  id: string;
+  poa: number; // shifted POA going into the current period
+  cumulative_pod: number; // 1 − Π(1 − pod) over every sortie so far
+};
+
+export type PlanBookkeeping = {
+  periods: PeriodSummary[]; // 1 .. current period
+  current: SegmentStanding[];
+  rest_of_world: number; // going into the current period
+  cumulative_pos: number; // including sorties already logged in the current period
+};
+
+function combinedPod(sorties: Sortie[]): number {
+  return 1 - sorties.reduce((a, s) => a * (1 - Math.min(1, Math.max(0, s.pod))), 1);
+}
+
+/**
+ * Replay the plan period by period. Each unsearched share of probability is kept unnormalised
+ * (POA × Π(1 − POD)); dividing by what remains in total gives the shifted POA of the next period,
+ * and 1 − what remains is the cumulative POS. Rest of world is whatever the segments leave of 100%.
+ */
+export function planBookkeeping(plan: SearchPlan): PlanBookkeeping {
+  const segs = plan.segments;
+  const mass = segs.map((s) => Math.max(0, s.poa));
+  const row = Math.max(0, 1 - mass.reduce((a, v) => a + v, 0));
+  const start = mass.reduce((a, v) => a + v, 0) + row;
+
+  const periods: PeriodSummary[] = [];
+  for (let p = 1; p <= Math.max(1, plan.period); p++) {
+    const remaining = mass.reduce((a, v) => a + v, 0) + row;
+    const segments = segs.map((s, i) => {
+      const poa = remaining > 0 ? mass[i] / remaining : 0;
+      const pod = combinedPod(s.sorties.filter((x) => x.period === p));
+      return { id: s.id, poa, pod, pos: poa * pod };
+    });
+    const rest = remaining > 0 ? row / remaining : 0;
+    segs.forEach((s, i) => (mass[i] *= 1 - segments[i].pod));
+    const after = mass.reduce((a, v) => a + v, 0) + row;
+    periods.push({
+      period: p,
+      segments,
+      rest_of_world: rest,
+      pos: segments.reduce((a, s) => a + s.pos, 0),
+      cumulative_pos: start > 0 ? 1 - after / start : 0,
+    });
+  }
+
+  const current = periods[periods.length - 1];
+  return {
+    periods,
+    current: segs.map((s, i) => ({
+      id: s.id,
+      poa: current.segments[i].poa,
+      cumulative_pod: combinedPod(s.sorties.filter((x) => x.period <= plan.period)),
+    })),
+    rest_of_world: current.rest_of_world,
+    cumulative_pos: current.cumulative_pos,
+  };
+}
@@ -0,0 +1,180 @@
+// lib/tileCache.ts
+// Offline basemap tiles: pre-fetch an operating area into Cache Storage.
+// public/service-worker.js serves these tiles cache-first (same cache name + key scheme).
+
+export const TILE_URL_TEMPLATE = "https://{s}.basemaps.cartocdn.com/light_all/{z}/{x}/{y}{r}.png";
+export const TILE_SUBDOMAINS = ["a", "b", "c", "d"];
+
+// Must match TILE_CACHE in public/service-worker.js
+export const TILE_CACHE = "scent-cone-tiles-v1";
+
+const AREAS_KEY = "scent-cone.tileAreas";
+
+// Planning numbers only; real tiles vary widely (empty water ~1 KB, dense towns 30+ KB)
+export const AVG_TILE_BYTES = 15_000;
+export const MAX_TILES_PER_AREA = 6000;
+
+export type TileBounds = { north: number; south: number; east: number; west: number };
+
+export type TileArea = {
+  id: string;
+  name: string;
+  bounds: TileBounds;
+  minZoom: number;
+  maxZoom: number;
+  tileCount: number;
+  bytes: number;
+  created_iso: string;
+};
+
+export type TileXYZ = { x: number; y: number; z: number };
+
+/** --- tile math (Web Mercator / slippy map) --- **/
+
+function lonToTileX(lon: number, z: number) {
+  return Math.floor(((lon + 180) / 360) * 2 ** z);
+}
+
+function latToTileY(lat: number, z: number) {
+  const φ = (Math.max(-85.0511, Math.min(85.0511, lat)) * Math.PI) / 180;
+  return Math.floor(((1 - Math.log(Math.tan(φ) + 1 / Math.cos(φ)) / Math.PI) / 2) * 2 ** z);
+}
+
+function tileRange(b: TileBounds, z: number) {
+  const max = 2 ** z - 1;
+  const clampT = (v: number) => Math.max(0, Math.min(max, v));
+  return {
+    x0: clampT(lonToTileX(b.west, z)),
+    x1: clampT(lonToTileX(b.east, z)),
+    y0: clampT(latToTileY(b.north, z)),
+    y1: clampT(latToTileY(b.south, z)),
+  };
+}
+
+export function countTiles(b: TileBounds, minZoom: number, maxZoom: number) {
+  let n = 0;
+  for (let z = minZoom; z <= maxZoom; z++) {
+    const r = tileRange(b, z);
+    n += (r.x1 - r.x0 + 1) * (r.y1 - r.y0 + 1);
+  }
+  return n;
+}
+
+export function listTiles(b: TileBounds, minZoom: number, maxZoom: number): TileXYZ[] {
+  const out: TileXYZ[] = [];
+  for (let z = minZoom; z <= maxZoom; z++) {
+    const r = tileRange(b, z);
+    for (let x = r.x0; x <= r.x1; x++) for (let y = r.y0; y <= r.y1; y++) out.push({ x, y, z });
+  }
+  return out;
+}
+
+/**
+ * Cache key for a tile. Leaflet spreads requests over a-d subdomains, so the key always uses
+ * "a"; the service worker canonicalises incoming requests the same way.
+ */
+export function tileUrl(t: TileXYZ, subdomain = "a") {
+  return TILE_URL_TEMPLATE.replace("{s}", subdomain)
+    .replace("{z}", String(t.z))
+    .replace("{x}", String(t.x))
+    .replace("{y}", String(t.y))
+    .replace("{r}", "");
+}
+
+export function formatBytes(n: number) {
+  if (n < 1024) return `${n} B`;
+  if (n < 1024 * 1024) return `${(n / 1024).toFixed(0)} KB`;
+  return `${(n / 1024 / 1024).toFixed(1)} MB`;
+}
+
+/** --- stored areas (metadata in localStorage, tiles in Cache Storage) --- **/
+
+export function listTileAreas(): TileArea[] {
+  try {
+    const js = JSON.parse(localStorage.getItem(AREAS_KEY) || "[]");
+    return Array.isArray(js) ? js : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeTileAreas(areas: TileArea[]) {
+  localStorage.setItem(AREAS_KEY, JSON.stringify(areas));
+}
+
+export type DownloadProgress = { done: number; total: number; bytes: number; failed: number };
+
+/**
+ * Fetch every tile for bounds × zoom range into the tile cache (a few requests in flight at
+ * a time). Tiles already cached are skipped. Resolves with the stored area record.
+ */
+export async function downloadTileArea(
+  opts: { id: string; name: string; bounds: TileBounds; minZoom: number; maxZoom: number },
+  onProgress: (p: DownloadProgress) => void,
+  signal?: AbortSignal,
+  concurrency = 4
+): Promise<TileArea> {
+  const tiles = listTiles(opts.bounds, opts.minZoom, opts.maxZoom);
+  if (tiles.length > MAX_TILES_PER_AREA) {
+    throw new Error(`Area needs ${tiles.length} tiles (max ${MAX_TILES_PER_AREA}). Zoom in or lower max zoom.`);
+  }
+
+  const cache = await caches.open(TILE_CACHE);
+  const progress: DownloadProgress = { done: 0, total: tiles.length, bytes: 0, failed: 0 };
+  let next = 0;
+
+  async function worker(w: number) {
+    while (next < tiles.length) {
+      if (signal?.aborted) throw new DOMException("Download cancelled", "AbortError");
+      const t = tiles[next++];
+      const key = tileUrl(t);
+      try {
+        const hit = await cache.match(key);
+        if (hit) {
+          progress.bytes += (await hit.clone().blob()).size;
+        } else {
+          const r = await fetch(tileUrl(t, TILE_SUBDOMAINS[w % TILE_SUBDOMAINS.length]), { mode: "cors", signal });
+          if (!r.ok) throw new Error(String(r.status));
+          progress.bytes += (await r.clone().blob()).size;
+          await cache.put(key, r);
+        }
+      } catch (e) {
+        if (signal?.aborted) throw e;
+        progress.failed++;
+      }
+      progress.done++;
+      onProgress({ ...progress });
+    }
+  }
+
+  await Promise.all(Array.from({ length: concurrency }, (_, w) => worker(w)));
+
+  const area: TileArea = {
+    id: opts.id,
+    name: opts.name,
+    bounds: opts.bounds,
+    minZoom: opts.minZoom,
+    maxZoom: opts.maxZoom,
+    tileCount: tiles.length - progress.failed,
+    bytes: progress.bytes,
+    created_iso: new Date().toISOString(),
+  };
+  writeTileAreas([area, ...listTileAreas().filter((a) => a.id !== area.id)]);
+  return area;
+}
+
+/** Remove an area, keeping tiles that another stored area still covers. */
+export async function evictTileArea(id: string): Promise<void> {
+  const areas = listTileAreas();
+  const target = areas.find((a) => a.id === id);
+  const rest = areas.filter((a) => a.id !== id);
+  if (target) {
+    const keep = new Set(rest.flatMap((a) => listTiles(a.bounds, a.minZoom, a.maxZoom).map((t) => tileUrl(t))));
+    const cache = await caches.open(TILE_CACHE);
+    for (const t of listTiles(target.bounds, target.minZoom, target.maxZoom)) {
+      const key = tileUrl(t);
+      if (!keep.has(key)) await cache.delete(key);
+    }
+  }
+  writeTileAreas(rest);
+}
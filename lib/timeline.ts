@@ -0,0 +1,88 @@
+// lib/timeline.ts
+// Timeline scrubbing: the span from the LKP through now into the forecast, stepping through it,
+// and what was logged (track points, wind observations) by a given moment.
+// No external dependencies.
+
+import type { Track } from "@/lib/tracks";
+import type { WindObservation } from "@/lib/windObservations";
+
+export type TimelineRange = {
+  start_iso: string; // LKP time
+  now_iso: string; // live clock, or the scenario's elapsed time
+  end_iso: string; // end of the forecast
+};
+
+// How far past now the live timeline (and the wind series behind it) reaches
+export const TIMELINE_FORECAST_MIN = 180;
+
+/** --- time --- **/
+
+export function minutesBetween(aIso: string, bIso: string) {
+  return (Date.parse(bIso) - Date.parse(aIso)) / 60000;
+}
+
+function addMinutes(iso: string, min: number) {
+  return new Date(Date.parse(iso) + min * 60000).toISOString();
+}
+
+export function clampToRange(range: TimelineRange, iso: string) {
+  const t = Date.parse(iso);
+  if (!Number.isFinite(t) || t < Date.parse(range.start_iso)) return range.start_iso;
+  if (t > Date.parse(range.end_iso)) return range.end_iso;
+  return new Date(t).toISOString();
+}
+
+/** One playback step; `done` once the end of the range is reached. */
+export function stepTimeline(range: TimelineRange, iso: string, stepMin: number): { iso: string; done: boolean } {
+  const next = clampToRange(range, addMinutes(iso, stepMin));
+  return { iso: next, done: Date.parse(next) >= Date.parse(range.end_iso) };
+}
+
+/** "1:25" (h:mm) for a span of minutes. */
+export function formatDuration(min: number) {
+  const m = Math.round(Math.abs(min));
+  return `${Math.floor(m / 60)}:${String(m % 60).padStart(2, "0")}`;
+}
+
+/** "T+1:25" relative to the LKP. */
+export function formatOffset(min: number) {
+  return `T${min < 0 ? "−" : "+"}${formatDuration(min)}`;
+}
+
+/** --- logged events --- **/
+
+/**
+ * Tracks as they stood at `iso`: timed points after it are dropped (and tracks with nothing left),
+ * tracks without timestamps are shown whole since there is no telling when they were walked.
+ */
+export function tracksAt(tracks: Track[], iso: string): Track[] {
+  const t = Date.parse(iso);
+  const out: Track[] = [];
+  for (const tr of tracks) {
+    if (!tr.points.some((p) => p.time_iso)) {
+      out.push(tr);
+      continue;
+    }
+    const points = tr.points.filter((p) => !p.time_iso || Date.parse(p.time_iso) <= t);
+    if (points.length) out.push(points.length === tr.points.length ? tr : { ...tr, points });
+  }
+  return out;
+}
+
+/** Latest wind observation logged at or before `iso`. */
+export function latestObservation(obs: WindObservation[], iso: string): WindObservation | null {
+  const t = Date.parse(iso);
+  let best: WindObservation | null = null;
+  for (const o of obs) {
+    const ot = Date.parse(o.time_iso);
+    if (ot <= t && (!best || ot > Date.parse(best.time_iso))) best = o;
+  }
+  return best;
+}
+
+/** Time span of a track's timestamps, or null when it has none. */
+export function trackSpan(track: Track): { start_iso: string; end_iso: string } | null {
+  const ts = track.points.map((p) => (p.time_iso ? Date.parse(p.time_iso) : NaN)).filter(Number.isFinite);
+  if (!ts.length) return null;
+  return { start_iso: new Date(Math.min(...ts)).toISOString(), end_iso: new Date(Math.max(...ts)).toISOString() };
+}
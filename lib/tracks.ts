@@ -0,0 +1,284 @@
+// lib/tracks.ts
+// Dog-team GPS tracks (GPX / GeoJSON import) and envelope coverage for search debriefs.
+// No external dependencies.
+
+import type { EnvelopeOutput, LatLon } from "@/lib/scentEnvelope";
+
+export type TrackPoint = { lat: number; lon: number; time_iso?: string };
+
+export type Track = {
+  id: string;
+  team: string;
+  color: string;
+  source_name: string; // file the track came from
+  points: TrackPoint[];
+};
+
+export const TRACK_COLORS = ["#2563eb", "#16a34a", "#9333ea", "#db2777", "#0891b2", "#ca8a04"];
+
+/** --- parsing --- **/
+
+type ParsedTrack = { name: string; points: TrackPoint[] };
+
+function attr(attrs: string, name: string): number {
+  const m = attrs.match(new RegExp(`\\b${name}\\s*=\\s*["']([^"']+)["']`));
+  return m ? Number(m[1]) : NaN;
+}
+
+function tagText(body: string, tag: string): string | undefined {
+  const m = body.match(new RegExp(`<${tag}\\b[^>]*>([\\s\\S]*?)</${tag}>`));
+  return m ? m[1].trim() : undefined;
+}
+
+function gpxPoints(body: string, tag: "trkpt" | "rtept"): TrackPoint[] {
+  const pts: TrackPoint[] = [];
+  const re = new RegExp(`<${tag}\\b([^>]*?)(?:/>|>([\\s\\S]*?)</${tag}>)`, "g");
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(body))) {
+    const lat = attr(m[1], "lat");
+    const lon = attr(m[1], "lon");
+    if (!Number.isFinite(lat) || !Number.isFinite(lon)) continue;
+    const time = m[2] ? tagText(m[2], "time") : undefined;
+    pts.push(time && Number.isFinite(Date.parse(time)) ? { lat, lon, time_iso: new Date(time).toISOString() } : { lat, lon });
+  }
+  return pts;
+}
+
+/** Tracks (<trk>) and routes (<rte>) from a GPX document. Regex-based so it also runs outside the browser. */
+export function parseGpxTracks(text: string): ParsedTrack[] {
+  const out: ParsedTrack[] = [];
+  for (const [tag, pt] of [["trk", "trkpt"], ["rte", "rtept"]] as const) {
+    const re = new RegExp(`<${tag}\\b[^>]*>([\\s\\S]*?)</${tag}>`, "g");
+    let m: RegExpExecArray | null;
+    while ((m = re.exec(text))) {
+      const points = gpxPoints(m[1], pt);
+      if (points.length) out.push({ name: tagText(m[1].split(`<${pt}`)[0], "name") ?? "", points });
+    }
+  }
+  return out;
+}
+
+type GeoJSONGeometry = { type: string; coordinates?: unknown };
+type GeoJSONFeature = { type: "Feature"; geometry: GeoJSONGeometry | null; properties?: Record<string, unknown> | null };
+
+function coordsToPoints(coords: unknown, times: unknown): TrackPoint[] {
+  if (!Array.isArray(coords)) return [];
+  const ts = Array.isArray(times) ? times : [];
+  const pts: TrackPoint[] = [];
+  coords.forEach((c, i) => {
+    if (!Array.isArray(c)) return;
+    const lon = Number(c[0]);
+    const lat = Number(c[1]);
+    if (!Number.isFinite(lat) || !Number.isFinite(lon)) return;
+    // time from properties.coordTimes / times, else a 4th coordinate (epoch ms or s)
+    const raw = ts[i] ?? c[3];
+    let t = typeof raw === "string" ? Date.parse(raw) : typeof raw === "number" ? raw : NaN;
+    if (Number.isFinite(t) && t < 1e11) t *= 1000;
+    pts.push(Number.isFinite(t) ? { lat, lon, time_iso: new Date(t).toISOString() } : { lat, lon });
+  });
+  return pts;
+}
+
+/** LineString / MultiLineString features (CalTopo/togeojson style `coordTimes` supported). */
+export function parseGeoJSONTracks(text: string): ParsedTrack[] {
+  const js = JSON.parse(text) as { type?: string; features?: GeoJSONFeature[] };
+  const features: GeoJSONFeature[] =
+    js.type === "FeatureCollection" ? js.features ?? [] : js.type === "Feature" ? [js as GeoJSONFeature] : [];
+
+  const out: ParsedTrack[] = [];
+  for (const f of features) {
+    const g = f.geometry;
+    const props = f.properties ?? {};
+    const name = String(props.name ?? props.title ?? "");
+    const times = props.coordTimes ?? props.times;
+
+    if (g?.type === "LineString") {
+      const points = coordsToPoints(g.coordinates, times);
+      if (points.length) out.push({ name, points });
+    } else if (g?.type === "MultiLineString" && Array.isArray(g.coordinates)) {
+      g.coordinates.forEach((line, i) => {
+        const points = coordsToPoints(line, Array.isArray(times) ? times[i] : undefined);
+        if (points.length) out.push({ name, points });
+      });
+    }
+  }
+  return out;
+}
+
+/** Pick a parser from the file name/content. Throws if nothing usable is found. */
+export function parseTrackFile(fileName: string, text: string): ParsedTrack[] {
+  const lower = fileName.toLowerCase();
+  const isJson = lower.endsWith(".json") || lower.endsWith(".geojson") || text.trimStart().startsWith("{");
+  const tracks = isJson ? parseGeoJSONTracks(text) : parseGpxTracks(text);
+  if (!tracks.length) throw new Error(`No track lines found in ${fileName}`);
+  return tracks;
+}
+
+/** --- coverage --- **/
+
+const R_EARTH_M = 6371000;
+
+type XY = { x: number; y: number };
+
+// Local equirectangular projection (metres) — fine at search-area scale
+function projector(origin: LatLon) {
+  const kx = (Math.PI / 180) * R_EARTH_M * Math.cos((origin.lat * Math.PI) / 180);
+  const ky = (Math.PI / 180) * R_EARTH_M;
+  return (p: LatLon): XY => ({ x: (p.lon - origin.lon) * kx, y: (p.lat - origin.lat) * ky });
+}
+
+function pointInPolygon(p: XY, poly: XY[]) {
+  let inside = false;
+  for (let i = 0, j = poly.length - 1; i < poly.length; j = i++) {
+    const a = poly[i];
+    const b = poly[j];
+    if (a.y > p.y !== b.y > p.y && p.x < ((b.x - a.x) * (p.y - a.y)) / (b.y - a.y) + a.x) inside = !inside;
+  }
+  return inside;
+}
+
+function distToSegment(p: XY, a: XY, b: XY) {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const len2 = dx * dx + dy * dy;
+  const u = len2 > 0 ? Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / len2)) : 0;
+  return Math.hypot(p.x - (a.x + u * dx), p.y - (a.y + u * dy));
+}
+
+export function trackLengthM(track: Track) {
+  if (!track.points.length) return 0;
+  const proj = projector(track.points[0]);
+  let d = 0;
+  for (let i = 1; i < track.points.length; i++) {
+    const a = proj(track.points[i - 1]);
+    const b = proj(track.points[i]);
+    d += Math.hypot(b.x - a.x, b.y - a.y);
+  }
+  return d;
+}
+
+type ZonePct = { core: number; fringe: number; residual: number };
+
+export type TrackCoverage = {
+  track_id: string;
+  team: string;
+  length_m: number;
+  zones_pct: ZonePct; // % of each polygon's area within the detection radius of the track
+  start_points_visited: string[];
+};
+
+export type CoverageReport = {
+  detection_radius_m: number;
+  per_track: TrackCoverage[];
+  combined_pct: ZonePct;
+  unvisited_start_points: Array<{ label: string; point: LatLon }>;
+};
+
+/**
+ * Rasterise the residual zone on a local grid and stamp every cell within the detection
+ * radius of each track leg; coverage is swept cells / cells inside each zone polygon.
+ */
+export function computeCoverage(
+  envelope: Pick<EnvelopeOutput, "polygons" | "recommended_start_points">,
+  tracks: Track[],
+  detectionRadiusM: number,
+  maxCells = 160
+): CoverageReport {
+  const radius = Math.max(1, detectionRadiusM);
+  const origin = envelope.polygons.residual[0];
+  const proj = projector(origin);
+
+  const zones = {
+    core: envelope.polygons.core.map(proj),
+    fringe: envelope.polygons.fringe.map(proj),
+    residual: envelope.polygons.residual.map(proj),
+  };
+
+  const xs = zones.residual.map((p) => p.x);
+  const ys = zones.residual.map((p) => p.y);
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+  const span = Math.max(Math.max(...xs) - minX, Math.max(...ys) - minY, 1);
+  const cell = Math.max(span / maxCells, Math.min(radius / 2, span / 20));
+  const nx = Math.ceil((Math.max(...xs) - minX) / cell) + 1;
+  const ny = Math.ceil((Math.max(...ys) - minY) / cell) + 1;
+
+  // zone membership per cell centre: 0 none, else bitmask core=1, fringe=2, residual=4
+  const zoneMask = new Uint8Array(nx * ny);
+  const zoneCells = { core: 0, fringe: 0, residual: 0 };
+  for (let j = 0; j < ny; j++) {
+    for (let i = 0; i < nx; i++) {
+      const c = { x: minX + (i + 0.5) * cell, y: minY + (j + 0.5) * cell };
+      let m = 0;
+      if (pointInPolygon(c, zones.residual)) {
+        m |= 4;
+        zoneCells.residual++;
+        if (pointInPolygon(c, zones.fringe)) { m |= 2; zoneCells.fringe++; }
+        if (pointInPolygon(c, zones.core)) { m |= 1; zoneCells.core++; }
+      }
+      zoneMask[j * nx + i] = m;
+    }
+  }
+
+  function sweep(track: Track, into: Uint8Array) {
+    const pts = track.points.map(proj);
+    const legs = pts.length === 1 ? [[pts[0], pts[0]]] : pts.slice(1).map((b, k) => [pts[k], b]);
+    for (const [a, b] of legs) {
+      const i0 = Math.max(0, Math.floor((Math.min(a.x, b.x) - radius - minX) / cell));
+      const i1 = Math.min(nx - 1, Math.floor((Math.max(a.x, b.x) + radius - minX) / cell));
+      const j0 = Math.max(0, Math.floor((Math.min(a.y, b.y) - radius - minY) / cell));
+      const j1 = Math.min(ny - 1, Math.floor((Math.max(a.y, b.y) + radius - minY) / cell));
+      for (let j = j0; j <= j1; j++) {
+        for (let i = i0; i <= i1; i++) {
+          const k = j * nx + i;
+          if (!zoneMask[k] || into[k]) continue;
+          if (distToSegment({ x: minX + (i + 0.5) * cell, y: minY + (j + 0.5) * cell }, a, b) <= radius) into[k] = 1;
+        }
+      }
+    }
+  }
+
+  function pct(swept: Uint8Array): ZonePct {
+    const hit = { core: 0, fringe: 0, residual: 0 };
+    for (let k = 0; k < swept.length; k++) {
+      if (!swept[k]) continue;
+      const m = zoneMask[k];
+      if (m & 1) hit.core++;
+      if (m & 2) hit.fringe++;
+      if (m & 4) hit.residual++;
+    }
+    const p = (h: number, n: number) => (n ? Math.round((1000 * h) / n) / 10 : 0);
+    return { core: p(hit.core, zoneCells.core), fringe: p(hit.fringe, zoneCells.fringe), residual: p(hit.residual, zoneCells.residual) };
+  }
+
+  function visited(track: Track, sp: LatLon) {
+    const p = proj(sp);
+    const pts = track.points.map(proj);
+    if (pts.length === 1) return Math.hypot(p.x - pts[0].x, p.y - pts[0].y) <= radius;
+    for (let k = 1; k < pts.length; k++) if (distToSegment(p, pts[k - 1], pts[k]) <= radius) return true;
+    return false;
+  }
+
+  const combined = new Uint8Array(nx * ny);
+  const per_track: TrackCoverage[] = tracks.map((t) => {
+    const swept = new Uint8Array(nx * ny);
+    sweep(t, swept);
+    for (let k = 0; k < swept.length; k++) if (swept[k]) combined[k] = 1;
+    return {
+      track_id: t.id,
+      team: t.team,
+      length_m: Math.round(trackLengthM(t)),
+      zones_pct: pct(swept),
+      start_points_visited: envelope.recommended_start_points.filter((sp) => visited(t, sp.point)).map((sp) => sp.label),
+    };
+  });
+
+  return {
+    detection_radius_m: radius,
+    per_track,
+    combined_pct: pct(combined),
+    unvisited_start_points: envelope.recommended_start_points.filter(
+      (sp) => !tracks.some((t) => visited(t, sp.point))
+    ),
+  };
+}
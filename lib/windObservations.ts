@@ -0,0 +1,292 @@
+// lib/windObservations.ts
+// On-scene anemometer log: manual entries, Kestrel-style CSV import, gust / direction-variability
+// statistics, and blending observed wind with model wind.
+// No external dependencies.
+
+import type { WindSample } from "@/lib/scentEnvelope";
+
+export type WindObsSource = "manual" | "csv" | "ble";
+
+export type WindObservation = {
+  id: string;
+  time_iso: string;
+  speed_mps: number;
+  from_deg: number; // meteorological FROM direction
+  gust_mps?: number;
+  source: WindObsSource;
+  device?: string;
+};
+
+export type WindObsStats = {
+  count: number;
+  start_iso: string;
+  end_iso: string;
+  mean_speed_mps: number;
+  mean_from_deg: number; // unit-vector mean
+  gust_mps: number; // highest gust (or reading) in the window
+  gust_factor: number; // gust / mean speed
+  sigma_theta_deg: number; // Yamartino direction standard deviation
+};
+
+const MPH_TO_MPS = 0.44704;
+const KT_TO_MPS = 0.514444;
+const KMH_TO_MPS = 1 / 3.6;
+const FPM_TO_MPS = 0.00508;
+
+function normDeg(d: number) {
+  return ((d % 360) + 360) % 360;
+}
+
+function obsId(ms: number, i: number) {
+  return `obs_${ms.toString(36)}_${i.toString(36)}`;
+}
+
+/** --- statistics --- **/
+
+/** Observations in [end - windowMin, end], where end defaults to the latest observation. */
+export function observationsInWindow(obs: WindObservation[], windowMin: number, endISO?: string) {
+  if (!obs.length) return [];
+  const end = endISO ? Date.parse(endISO) : Math.max(...obs.map((o) => Date.parse(o.time_iso)));
+  const start = end - windowMin * 60 * 1000;
+  return obs.filter((o) => {
+    const t = Date.parse(o.time_iso);
+    return t >= start && t <= end;
+  });
+}
+
+/**
+ * Unit-vector mean direction and sigma-theta of a set of directions. Sigma-theta uses
+ * Yamartino's single-pass estimator so it is well behaved across north.
+ */
+export function directionStats(dirsDeg: number[]): { mean_deg: number; sigma_deg: number } | null {
+  if (!dirsDeg.length) return null;
+  const toRad = Math.PI / 180;
+  let sa = 0;
+  let ca = 0;
+  for (const d of dirsDeg) {
+    sa += Math.sin(d * toRad);
+    ca += Math.cos(d * toRad);
+  }
+  sa /= dirsDeg.length;
+  ca /= dirsDeg.length;
+
+  const eps = Math.sqrt(Math.max(0, 1 - (sa * sa + ca * ca)));
+  const sigma = (Math.asin(Math.min(1, eps)) * (1 + (2 / Math.sqrt(3) - 1) * eps ** 3)) / toRad;
+  return { mean_deg: normDeg(Math.atan2(sa, ca) / toRad), sigma_deg: sigma };
+}
+
+/** Mean speed, mean direction, peak gust and sigma-theta of a set of readings. */
+export function windObsStats(obs: WindObservation[]): WindObsStats | null {
+  const valid = obs.filter((o) => Number.isFinite(o.speed_mps) && Number.isFinite(o.from_deg));
+  if (!valid.length) return null;
+
+  let speed = 0;
+  let gust = 0;
+  for (const o of valid) {
+    speed += o.speed_mps;
+    gust = Math.max(gust, o.speed_mps, o.gust_mps ?? 0);
+  }
+  speed /= valid.length;
+  const dir = directionStats(valid.map((o) => o.from_deg))!;
+
+  const times = valid.map((o) => Date.parse(o.time_iso)).sort((a, b) => a - b);
+  return {
+    count: valid.length,
+    start_iso: new Date(times[0]).toISOString(),
+    end_iso: new Date(times[times.length - 1]).toISOString(),
+    mean_speed_mps: speed,
+    mean_from_deg: dir.mean_deg,
+    gust_mps: gust,
+    gust_factor: speed > 0.1 ? gust / speed : 1,
+    sigma_theta_deg: dir.sigma_deg,
+  };
+}
+
+/** --- blending --- **/
+
+/**
+ * Vector blend of model and observed wind. `weight` is the share of the observation (0..1).
+ * Speeds blend linearly; direction follows the blended vector so opposing winds do not cancel
+ * into a spurious calm direction.
+ */
+export function blendWind(
+  model: { speed_mps: number; from_deg: number } | null,
+  observed: { speed_mps: number; from_deg: number } | null,
+  weight: number
+): { speed_mps: number; from_deg: number } | null {
+  if (!model) return observed;
+  if (!observed) return model;
+  const w = Math.max(0, Math.min(1, weight));
+  const toRad = Math.PI / 180;
+  const x = (1 - w) * Math.sin(model.from_deg * toRad) + w * Math.sin(observed.from_deg * toRad);
+  const y = (1 - w) * Math.cos(model.from_deg * toRad) + w * Math.cos(observed.from_deg * toRad);
+  const from = Math.hypot(x, y) < 1e-6 ? (w >= 0.5 ? observed.from_deg : model.from_deg) : Math.atan2(x, y) / toRad;
+  return { speed_mps: (1 - w) * model.speed_mps + w * observed.speed_mps, from_deg: normDeg(from) };
+}
+
+/**
+ * Blend hourly model samples with observations logged within half an hour of each sample.
+ * Hours without observations keep the model value.
+ */
+export function blendWindSamples(samples: WindSample[], obs: WindObservation[], weight: number): WindSample[] {
+  if (!obs.length || weight <= 0) return samples;
+  const halfHour = 30 * 60 * 1000;
+  return samples.map((s) => {
+    const t = Date.parse(s.time_iso);
+    const near = obs.filter((o) => Math.abs(Date.parse(o.time_iso) - t) < halfHour);
+    const st = windObsStats(near);
+    if (!st) return s;
+    const b = blendWind(
+      { speed_mps: s.wind_speed_mph * MPH_TO_MPS, from_deg: s.wind_from_deg },
+      { speed_mps: st.mean_speed_mps, from_deg: st.mean_from_deg },
+      weight
+    )!;
+    return { ...s, wind_from_deg: b.from_deg, wind_speed_mph: b.speed_mps / MPH_TO_MPS };
+  });
+}
+
+/** --- CSV import --- **/
+
+function splitCsvLine(line: string, delim: string): string[] {
+  const out: string[] = [];
+  let cur = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') {
+        cur += '"';
+        i++;
+      } else if (ch === '"') quoted = false;
+      else cur += ch;
+    } else if (ch === '"') quoted = true;
+    else if (ch === delim) {
+      out.push(cur.trim());
+      cur = "";
+    } else cur += ch;
+  }
+  out.push(cur.trim());
+  return out;
+}
+
+function speedFactor(unit: string): number | null {
+  const u = unit.toLowerCase().replace(/\s/g, "");
+  if (/m\/s|mps/.test(u)) return 1;
+  if (/mph/.test(u)) return MPH_TO_MPS;
+  if (/km\/h|kph|kmh/.test(u)) return KMH_TO_MPS;
+  if (/kt|knot|kn\b/.test(u)) return KT_TO_MPS;
+  if (/ft\/min|fpm/.test(u)) return FPM_TO_MPS;
+  return null;
+}
+
+/**
+ * Date/time cells as written by Kestrel LiNK ("2024-05-01 2:03:04 PM"), ISO 8601, or US
+ * "5/1/2024 14:03". Times without a zone are taken as local time of the browser.
+ */
+function parseCsvTime(v: string): number {
+  const s = v.trim();
+  if (/^\d{4}-\d{2}-\d{2}T/.test(s)) return Date.parse(s);
+  const m =
+    s.match(/^(\d{4})-(\d{1,2})-(\d{1,2})[ T](\d{1,2}):(\d{2})(?::(\d{2}))?\s*(AM|PM)?$/i) ??
+    s.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})[ T](\d{1,2}):(\d{2})(?::(\d{2}))?\s*(AM|PM)?$/i);
+  if (!m) return Date.parse(s);
+  const us = s.includes("/");
+  const y = Number(us ? m[3] : m[1]);
+  const mo = Number(us ? m[1] : m[2]);
+  const d = Number(us ? m[2] : m[3]);
+  let h = Number(m[4]);
+  const ampm = m[7]?.toUpperCase();
+  if (ampm === "PM" && h < 12) h += 12;
+  if (ampm === "AM" && h === 12) h = 0;
+  return new Date(y, mo - 1, d, h, Number(m[5]), Number(m[6] ?? 0)).getTime();
+}
+
+function findCol(header: string[], patterns: RegExp[], exclude?: RegExp) {
+  for (const re of patterns) {
+    const i = header.findIndex((h) => re.test(h) && !(exclude && exclude.test(h)));
+    if (i >= 0) return i;
+  }
+  return -1;
+}
+
+/**
+ * Kestrel-style CSV export. The device preamble is skipped up to the header row (the first row
+ * with a wind-speed column); a units row directly below the header is honoured, as are units in
+ * the header itself ("Wind Speed (mph)"). Direction prefers true over magnetic.
+ */
+export function parseKestrelCsv(text: string, device?: string): WindObservation[] {
+  const lines = text.split(/\r?\n/).filter((l) => l.trim().length);
+  const delim = lines.some((l) => l.split(";").length > l.split(",").length) ? ";" : ",";
+  const rows = lines.map((l) => splitCsvLine(l, delim));
+
+  const hi = rows.findIndex((r) => r.some((c) => /wind\s*speed/i.test(c)));
+  if (hi < 0) throw new Error("No wind speed column found in CSV");
+  const header = rows[hi].map((h) => h.toLowerCase());
+
+  const tCol = findCol(header, [/date.?time/, /^time/, /timestamp/, /date/]);
+  const sCol = findCol(header, [/wind\s*speed/]);
+  const dCol = findCol(header, [/direction.*true/, /true.*direction/, /wind\s*dir/, /direction/], /cross|head/);
+  const gCol = findCol(header, [/gust/, /max.*wind/]);
+  if (tCol < 0 || dCol < 0) throw new Error("CSV needs time, wind speed and direction columns");
+
+  // Units: second row if it has no numbers in the speed column, else header parentheses, else mph
+  const unitsRow = rows[hi + 1] && !Number.isFinite(Number(rows[hi + 1][sCol])) ? rows[hi + 1] : null;
+  const unitOf = (col: number) => unitsRow?.[col] || header[col].match(/\(([^)]+)\)/)?.[1] || "mph";
+  const sF = speedFactor(unitOf(sCol));
+  if (sF == null) throw new Error(`Unsupported wind speed unit "${unitOf(sCol)}"`);
+  const gF = gCol >= 0 ? speedFactor(unitOf(gCol)) ?? sF : sF;
+
+  const out: WindObservation[] = [];
+  for (let i = hi + (unitsRow ? 2 : 1); i < rows.length; i++) {
+    const r = rows[i];
+    const t = parseCsvTime(r[tCol] ?? "");
+    const spd = Number(r[sCol]);
+    const dir = Number(r[dCol]);
+    if (!Number.isFinite(t) || !Number.isFinite(spd) || !Number.isFinite(dir)) continue;
+    const gust = gCol >= 0 ? Number(r[gCol]) : NaN;
+    out.push({
+      id: obsId(t, i),
+      time_iso: new Date(t).toISOString(),
+      speed_mps: Math.max(0, spd * sF),
+      from_deg: normDeg(dir),
+      ...(Number.isFinite(gust) ? { gust_mps: gust * gF } : {}),
+      source: "csv",
+      ...(device ? { device } : {}),
+    });
+  }
+  if (!out.length) throw new Error("CSV has no readable wind rows");
+  return out;
+}
+
+export function makeObservation(
+  time_iso: string,
+  speed_mps: number,
+  from_deg: number,
+  source: WindObsSource,
+  gust_mps?: number,
+  device?: string
+): WindObservation {
+  const t = Date.parse(time_iso);
+  return {
+    id: obsId(Number.isFinite(t) ? t : Date.now(), Math.floor(Math.random() * 1e6)),
+    time_iso: new Date(Number.isFinite(t) ? t : Date.now()).toISOString(),
+    speed_mps: Math.max(0, speed_mps),
+    from_deg: normDeg(from_deg),
+    ...(gust_mps != null && Number.isFinite(gust_mps) ? { gust_mps } : {}),
+    source,
+    ...(device ? { device } : {}),
+  };
+}
+
+/** Merge new readings into a log, dropping exact duplicates (same time, speed and direction). */
+export function mergeObservations(log: WindObservation[], incoming: WindObservation[]): WindObservation[] {
+  const key = (o: WindObservation) => `${o.time_iso}|${o.speed_mps.toFixed(2)}|${o.from_deg.toFixed(0)}`;
+  const seen = new Set(log.map(key));
+  const out = [...log];
+  for (const o of incoming) {
+    if (seen.has(key(o))) continue;
+    seen.add(key(o));
+    out.push(o);
+  }
+  return out.sort((a, b) => Date.parse(a.time_iso) - Date.parse(b.time_iso));
+}
@@ -0,0 +1,74 @@
+// lib/windProviders/index.ts
+// Provider registry + fallback. Order comes from WIND_PROVIDERS (comma-separated ids),
+// default "open-meteo,nws,metar"; add "stub" to run fully offline.
+
+import { metarProvider } from "@/lib/windProviders/metar";
+import { nwsProvider } from "@/lib/windProviders/nws";
+import { openMeteoProvider } from "@/lib/windProviders/openMeteo";
+import { stubProvider } from "@/lib/windProviders/stub";
+import {
+  WIND_PROVIDER_IDS,
+  type WindProvider,
+  type WindProviderId,
+  type WindRequest,
+  type WindResult,
+} from "@/lib/windProviders/types";
+
+export const WIND_PROVIDERS: Record<WindProviderId, WindProvider> = {
+  "open-meteo": openMeteoProvider,
+  nws: nwsProvider,
+  metar: metarProvider,
+  stub: stubProvider,
+};
+
+const DEFAULT_ORDER: WindProviderId[] = ["open-meteo", "nws", "metar"];
+
+export function isWindProviderId(v: unknown): v is WindProviderId {
+  return typeof v === "string" && (WIND_PROVIDER_IDS as string[]).includes(v);
+}
+
+export function configuredOrder(env = process.env.WIND_PROVIDERS): WindProviderId[] {
+  const ids = (env ?? "")
+    .split(",")
+    .map((s) => s.trim())
+    .filter(isWindProviderId);
+  return ids.length ? [...new Set(ids)] : DEFAULT_ORDER;
+}
+
+export type WindAttempt = { provider: WindProviderId; error: string };
+
+export type ResolvedWind = WindResult & { provider: WindProviderId; attempts: WindAttempt[] };
+
+/**
+ * Try the preferred provider (if any) and then the configured order, skipping providers that
+ * cannot serve the request. With `fallback: false` only the preferred provider is tried.
+ */
+export async function resolveWind(
+  req: WindRequest,
+  opts: { preferred?: WindProviderId; fallback?: boolean; order?: WindProviderId[] } = {}
+): Promise<ResolvedWind> {
+  const order = opts.order ?? configuredOrder();
+  const chain: WindProviderId[] = opts.preferred
+    ? opts.fallback === false
+      ? [opts.preferred]
+      : [opts.preferred, ...order.filter((id) => id !== opts.preferred)]
+    : order;
+
+  const attempts: WindAttempt[] = [];
+  for (const id of chain) {
+    const p = WIND_PROVIDERS[id];
+    if (!p.supports(req)) {
+      attempts.push({ provider: id, error: `does not support ${req.mode} for this time` });
+      continue;
+    }
+    try {
+      return { ...(await p.fetch(req)), provider: id, attempts };
+    } catch (e: unknown) {
+      attempts.push({ provider: id, error: e instanceof Error ? e.message : String(e) });
+    }
+  }
+
+  const err = new Error("No wind provider answered") as Error & { attempts?: WindAttempt[] };
+  err.attempts = attempts;
+  throw err;
+}
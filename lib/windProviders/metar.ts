@@ -0,0 +1,142 @@
+// lib/windProviders/metar.ts
+// Observed wind from the nearest METAR station with a usable report (aviationweather.gov data
+// API; no key). A station with only variable winds or nothing near the time hands over to the next.
+
+import {
+  clipToWindow,
+  fetchText,
+  nearestSample,
+  windowOf,
+  windSpread,
+  type WindProvider,
+  type WindRequest,
+  type WindResult,
+  type WindSamplePoint,
+} from "@/lib/windProviders/types";
+
+const API = "https://aviationweather.gov/api/data/metar";
+
+// Search box half-size (degrees) and how far back the data API is asked to look
+const SEARCH_DEG = 0.75;
+const MAX_HOURS = 168;
+const KT_TO_MPS = 0.514444;
+// Stations tried, nearest first, before giving up
+const MAX_STATIONS = 5;
+
+type MetarJson = {
+  icaoId?: string;
+  name?: string;
+  obsTime?: number; // epoch seconds
+  lat?: number;
+  lon?: number;
+  wdir?: number | string; // degrees or "VRB"
+  wspd?: number; // knots
+  wgst?: number | null; // knots
+};
+
+function distKm(aLat: number, aLon: number, bLat: number, bLon: number) {
+  const toRad = Math.PI / 180;
+  const dLat = (bLat - aLat) * toRad;
+  const dLon = (bLon - aLon) * toRad;
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(aLat * toRad) * Math.cos(bLat * toRad) * Math.sin(dLon / 2) ** 2;
+  return 2 * 6371 * Math.asin(Math.sqrt(h));
+}
+
+function hoursBackFor(req: WindRequest) {
+  const from = req.mode === "series" ? Date.parse(req.start_iso) : req.mode === "historical" ? Date.parse(req.time_iso) : Date.now();
+  return Math.ceil((Date.now() - from) / 3600000) + 2;
+}
+
+type Station = { id: string; name: string; km: number; samples: WindSamplePoint[] };
+
+/** Stations in the search box, nearest first, each with its directional reports in time order. */
+async function stationsByDistance(req: WindRequest): Promise<Station[]> {
+  const bbox = [req.lat - SEARCH_DEG, req.lon - SEARCH_DEG, req.lat + SEARCH_DEG, req.lon + SEARCH_DEG]
+    .map((v) => v.toFixed(3))
+    .join(",");
+  const hours = Math.min(MAX_HOURS, Math.max(2, hoursBackFor(req)));
+  const rows: MetarJson[] = JSON.parse(await fetchText(`${API}?bbox=${bbox}&format=json&hours=${hours}`) || "[]");
+
+  const byStation = new Map<string, MetarJson[]>();
+  for (const r of rows) {
+    if (!r.icaoId || r.lat == null || r.lon == null || r.obsTime == null || r.wspd == null) continue;
+    byStation.set(r.icaoId, [...(byStation.get(r.icaoId) ?? []), r]);
+  }
+  if (!byStation.size) throw new Error("No METAR stations reporting nearby");
+
+  return [...byStation.entries()]
+    .map(([id, obs]) => ({
+      id,
+      name: obs[0].name ?? id,
+      km: distKm(req.lat, req.lon, obs[0].lat!, obs[0].lon!),
+      // Variable direction has no usable bearing; calm (0 kt) keeps 0°
+      samples: obs
+        .filter((o) => typeof o.wdir === "number")
+        .map((o) => ({
+          time_utc: new Date(o.obsTime! * 1000).toISOString(),
+          time_local: null,
+          wind_speed_mps: o.wspd! * KT_TO_MPS,
+          wind_dir_from_deg: Number(o.wdir),
+          gust_mps: o.wgst != null ? o.wgst * KT_TO_MPS : null,
+        }))
+        .sort((a, b) => Date.parse(a.time_utc) - Date.parse(b.time_utc)),
+    }))
+    .sort((a, b) => a.km - b.km);
+}
+
+/** The request answered from one station; throws when the station has nothing usable for it. */
+function fromStation(req: WindRequest, st: Station): WindResult {
+  if (!st.samples.length) throw new Error(`METAR ${st.id} has only variable winds`);
+  const source = `metar:${st.id}`;
+  const where = `${st.name} (${st.km.toFixed(0)} km away)`;
+
+  if (req.mode === "series") {
+    const { startMs, endMs } = windowOf(req);
+    const samples = clipToWindow(st.samples, startMs, endMs);
+    if (!samples.length) throw new Error(`METAR ${st.id} has no observations in window`);
+    return {
+      source,
+      mode: "series",
+      start_iso: new Date(startMs).toISOString(),
+      end_iso: new Date(endMs).toISOString(),
+      timezone: null,
+      utc_offset_seconds: 0,
+      samples,
+      note: `observed wind at ${where}`,
+    };
+  }
+
+  const target = req.mode === "historical" ? Date.parse(req.time_iso) : Date.now();
+  const s = nearestSample(st.samples, target);
+  if (!s || Math.abs(Date.parse(s.time_utc) - target) > 2 * 3600 * 1000) {
+    throw new Error(`METAR ${st.id} has no observation near the requested time`);
+  }
+  return {
+    source,
+    mode: req.mode,
+    ...(req.mode === "historical" ? { requested_time_iso: req.time_iso } : {}),
+    ...s,
+    ...windSpread(st.samples, target),
+    timezone: null,
+    utc_offset_seconds: 0,
+    note: `observed wind at ${where}`,
+  };
+}
+
+async function fetchMetar(req: WindRequest): Promise<WindResult> {
+  const errors: string[] = [];
+  for (const st of (await stationsByDistance(req)).slice(0, MAX_STATIONS)) {
+    try {
+      return fromStation(req, st);
+    } catch (e: unknown) {
+      errors.push(e instanceof Error ? e.message : String(e));
+    }
+  }
+  throw new Error(errors.join("; "));
+}
+
+export const metarProvider: WindProvider = {
+  id: "metar",
+  supports: (req) => hoursBackFor(req) <= MAX_HOURS,
+  fetch: fetchMetar,
+};
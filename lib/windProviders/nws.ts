@@ -0,0 +1,126 @@
+// lib/windProviders/nws.ts
+// NOAA/NWS gridpoint data (api.weather.gov; US only, no key, User-Agent required).
+
+import {
+  clipToWindow,
+  fetchText,
+  localTimeIn,
+  nearestSample,
+  normDeg,
+  windowOf,
+  windSpread,
+  type WindProvider,
+  type WindRequest,
+  type WindResult,
+  type WindSamplePoint,
+} from "@/lib/windProviders/types";
+
+const API = "https://api.weather.gov";
+
+type GridValues = { uom?: string; values?: Array<{ validTime: string; value: number | null }> };
+
+function headers(): HeadersInit {
+  return {
+    Accept: "application/geo+json",
+    "User-Agent": process.env.NWS_USER_AGENT || "scent-cone (search planning)",
+  };
+}
+
+// ISO-8601 duration as used in validTime ("PT1H", "P1DT6H")
+function durationHours(d: string) {
+  const m = d.match(/^P(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?)?$/);
+  if (!m) return 1;
+  return Number(m[1] ?? 0) * 24 + Number(m[2] ?? 0) + Number(m[3] ?? 0) / 60 || 1;
+}
+
+function toMps(v: number, uom?: string) {
+  if (uom?.endsWith("km_h-1")) return v / 3.6;
+  if (uom?.endsWith("kt")) return v * 0.514444;
+  return v;
+}
+
+/** Expand "start/duration" layers into one value per UTC hour. */
+function hourly(layer: GridValues | undefined, convert: (v: number) => number) {
+  const out = new Map<number, number>();
+  for (const v of layer?.values ?? []) {
+    if (v.value == null) continue;
+    const [start, dur] = v.validTime.split("/");
+    const t0 = Date.parse(start);
+    const n = Math.max(1, Math.round(durationHours(dur ?? "PT1H")));
+    for (let h = 0; h < n; h++) out.set(t0 + h * 3600 * 1000, convert(v.value));
+  }
+  return out;
+}
+
+async function gridSamples(lat: number, lon: number) {
+  const point = JSON.parse(await fetchText(`${API}/points/${lat.toFixed(4)},${lon.toFixed(4)}`, { headers: headers() }));
+  const gridUrl: string | undefined = point?.properties?.forecastGridData;
+  const timeZone: string = point?.properties?.timeZone || "UTC";
+  if (!gridUrl) throw new Error("NWS has no gridpoint for this location");
+
+  const grid = JSON.parse(await fetchText(gridUrl, { headers: headers() }));
+  const speedLayer: GridValues | undefined = grid?.properties?.windSpeed;
+  const speed = hourly(speedLayer, (v) => toMps(v, speedLayer?.uom));
+  const dir = hourly(grid?.properties?.windDirection, normDeg);
+  const gustLayer: GridValues | undefined = grid?.properties?.windGust;
+  const gust = hourly(gustLayer, (v) => toMps(v, gustLayer?.uom));
+
+  const samples: WindSamplePoint[] = [];
+  for (const [t, s] of [...speed.entries()].sort((a, b) => a[0] - b[0])) {
+    const d = dir.get(t);
+    if (d == null) continue;
+    samples.push({
+      time_utc: new Date(t).toISOString(),
+      time_local: localTimeIn(t, timeZone).time_local,
+      wind_speed_mps: s,
+      wind_dir_from_deg: d,
+      gust_mps: gust.get(t) ?? null,
+    });
+  }
+  if (!samples.length) throw new Error("NWS gridpoint returned no wind");
+  return { samples, timeZone };
+}
+
+async function fetchNws(req: WindRequest): Promise<WindResult> {
+  const { samples, timeZone } = await gridSamples(req.lat, req.lon);
+
+  if (req.mode === "series") {
+    const { startMs, endMs } = windowOf(req);
+    const clipped = clipToWindow(samples, startMs, endMs);
+    // Gridpoint data starts around "today"; an older LKP needs a provider with history
+    if (!clipped.length || Date.parse(clipped[0].time_utc) > startMs + 3600 * 1000) {
+      throw new Error("NWS gridpoint data does not reach back to the LKP");
+    }
+    return {
+      source: "nws-gridpoint",
+      mode: "series",
+      start_iso: new Date(startMs).toISOString(),
+      end_iso: new Date(endMs).toISOString(),
+      timezone: timeZone,
+      utc_offset_seconds: localTimeIn(endMs, timeZone).utc_offset_seconds,
+      samples: clipped,
+      note: "hourly gridpoint wind covering LKP -> now",
+    };
+  }
+
+  if (req.mode === "historical") throw new Error("NWS gridpoint has no historical data");
+
+  const now = Date.now();
+  const s = nearestSample(samples, now);
+  if (!s || Math.abs(Date.parse(s.time_utc) - now) > 3 * 3600 * 1000) throw new Error("NWS gridpoint has no current hour");
+  return {
+    source: "nws-gridpoint",
+    mode: req.mode,
+    ...s,
+    ...windSpread(samples, now),
+    timezone: timeZone,
+    utc_offset_seconds: localTimeIn(now, timeZone).utc_offset_seconds,
+    note: "NWS gridpoint forecast (nearest hour)",
+  };
+}
+
+export const nwsProvider: WindProvider = {
+  id: "nws",
+  supports: (req) => req.mode !== "historical",
+  fetch: fetchNws,
+};
@@ -0,0 +1,167 @@
+// lib/windProviders/openMeteo.ts
+// Open-Meteo forecast + archive (free, global, no key).
+// Asks for GMT times: with timezone=auto one utc_offset_seconds covers the whole response,
+// which shifts every hour on the far side of a DST change. GMT responses carry no zone for the
+// point, so results have no time_local (the UI shows time_utc in the browser's zone).
+
+import {
+  clipToWindow,
+  fetchText,
+  FORECAST_PAST_DAYS,
+  nearestSample,
+  normDeg,
+  toDateStrUTC,
+  utcIsoFromGmt,
+  windowOf,
+  windSpread,
+  type WindProvider,
+  type WindRequest,
+  type WindResult,
+  type WindSamplePoint,
+} from "@/lib/windProviders/types";
+
+const FORECAST_URL = "https://api.open-meteo.com/v1/forecast";
+const ARCHIVE_URL = "https://archive-api.open-meteo.com/v1/archive";
+
+type HourlyJson = {
+  current?: { time?: string; wind_speed_10m?: number; wind_direction_10m?: number; wind_gusts_10m?: number };
+  hourly?: {
+    time?: string[];
+    windspeed_10m?: (number | null)[];
+    winddirection_10m?: (number | null)[];
+    wind_gusts_10m?: (number | null)[];
+  };
+};
+
+function hourlySamples(js: HourlyJson): WindSamplePoint[] {
+  const times = js.hourly?.time ?? [];
+  const speeds = js.hourly?.windspeed_10m ?? [];
+  const dirs = js.hourly?.winddirection_10m ?? [];
+  const gusts = js.hourly?.wind_gusts_10m ?? [];
+  const out: WindSamplePoint[] = [];
+  for (let i = 0; i < times.length; i++) {
+    if (speeds[i] == null || dirs[i] == null) continue;
+    out.push({
+      time_local: null,
+      time_utc: utcIsoFromGmt(times[i]),
+      wind_speed_mps: Number(speeds[i]),
+      wind_dir_from_deg: normDeg(Number(dirs[i])),
+      gust_mps: gusts[i] == null ? null : Number(gusts[i]),
+    });
+  }
+  return out;
+}
+
+function rangeUrl(base: string, lat: number, lon: number, startMs: number, endMs: number) {
+  return (
+    base +
+    `?latitude=${encodeURIComponent(lat)}` +
+    `&longitude=${encodeURIComponent(lon)}` +
+    `&start_date=${toDateStrUTC(new Date(startMs).toISOString())}` +
+    `&end_date=${toDateStrUTC(new Date(endMs).toISOString())}` +
+    `&hourly=windspeed_10m,winddirection_10m,wind_gusts_10m` +
+    `&wind_speed_unit=ms` +
+    `&timezone=GMT`
+  );
+}
+
+async function fetchOpenMeteo(req: WindRequest): Promise<WindResult> {
+  // ---------- SERIES (hourly wind history between two instants) ----------
+  if (req.mode === "series") {
+    const { startMs, endMs } = windowOf(req);
+    const useArchive = Date.now() - startMs > FORECAST_PAST_DAYS * 24 * 3600 * 1000;
+
+    // Pad a day either side so date boundaries never clip the window
+    const js: HourlyJson = JSON.parse(
+      await fetchText(rangeUrl(useArchive ? ARCHIVE_URL : FORECAST_URL, req.lat, req.lon, startMs - 86400000, endMs + 86400000))
+    );
+    const samples = clipToWindow(hourlySamples(js), startMs, endMs);
+    if (!samples.length) throw new Error("No hourly wind returned for window");
+
+    return {
+      source: useArchive ? "open-meteo-archive" : "open-meteo",
+      mode: "series",
+      start_iso: new Date(startMs).toISOString(),
+      end_iso: new Date(endMs).toISOString(),
+      timezone: null,
+      utc_offset_seconds: 0,
+      samples,
+      note: "hourly wind series covering LKP -> now",
+    };
+  }
+
+  // ---------- HISTORICAL (Open-Meteo Archive) ----------
+  if (req.mode === "historical") {
+    const t = Date.parse(req.time_iso);
+    const js: HourlyJson = JSON.parse(await fetchText(rangeUrl(ARCHIVE_URL, req.lat, req.lon, t - 3 * 3600 * 1000, t + 3 * 3600 * 1000)));
+    const samples = hourlySamples(js);
+    const s = nearestSample(samples, t);
+    if (!s) throw new Error("Unexpected archive response");
+
+    return {
+      source: "open-meteo-archive",
+      mode: "historical",
+      requested_time_iso: req.time_iso,
+      time_local: null,
+      time_utc: s.time_utc,
+      timezone: null,
+      utc_offset_seconds: 0,
+      wind_speed_mps: s.wind_speed_mps,
+      wind_dir_from_deg: s.wind_dir_from_deg,
+      ...windSpread(samples, t),
+      note: "historical hourly wind (nearest)",
+    };
+  }
+
+  // ---------- CURRENT/HOURLY (Open-Meteo Forecast) ----------
+  // Request BOTH current + hourly so we can always return something
+  const url =
+    FORECAST_URL +
+    `?latitude=${encodeURIComponent(req.lat)}` +
+    `&longitude=${encodeURIComponent(req.lon)}` +
+    `&current=wind_speed_10m,wind_direction_10m,wind_gusts_10m` +
+    `&hourly=windspeed_10m,winddirection_10m,wind_gusts_10m` +
+    `&wind_speed_unit=ms` +
+    `&timezone=GMT`;
+  const js: HourlyJson = JSON.parse(await fetchText(url));
+  const samples = hourlySamples(js);
+  const spread = windSpread(samples, Date.now());
+  const base = {
+    source: "open-meteo",
+    mode: req.mode,
+    timezone: null,
+    utc_offset_seconds: 0,
+    ...spread,
+  };
+
+  const cur = js.current;
+  const current =
+    cur?.time && cur.wind_speed_10m != null && cur.wind_direction_10m != null
+      ? {
+          time_local: null,
+          time_utc: utcIsoFromGmt(cur.time),
+          wind_speed_mps: Number(cur.wind_speed_10m),
+          wind_dir_from_deg: normDeg(Number(cur.wind_direction_10m)),
+          gust_mps: cur.wind_gusts_10m != null ? Number(cur.wind_gusts_10m) : spread.gust_mps,
+        }
+      : null;
+  const hourly = nearestSample(samples, Date.now());
+
+  // Choose based on requested mode, with fallback
+  if (req.mode === "current" && current) return { ...base, ...current, note: "current wind" };
+  if (hourly) {
+    return {
+      ...base,
+      ...hourly,
+      note: req.mode === "hourly" ? "nearest hourly wind" : "current unavailable; fell back to hourly",
+    };
+  }
+  if (current) return { ...base, ...current, note: "hourly unavailable; fell back to current" };
+  throw new Error("No wind data returned from Open-Meteo");
+}
+
+export const openMeteoProvider: WindProvider = {
+  id: "open-meteo",
+  supports: () => true,
+  fetch: fetchOpenMeteo,
+};
@@ -0,0 +1,94 @@
+// lib/windProviders/stub.ts
+// File-backed provider for offline runs and tests. The file holds one sample per UTC hour of day
+// and answers for any date: { samples: [{ hour_utc, wind_speed_mps, wind_dir_from_deg, wind_gust_mps? }] }.
+// Path: WIND_STUB_FILE, default fixtures/wind-stub.json.
+
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import {
+  normDeg,
+  windowOf,
+  windSpread,
+  type WindProvider,
+  type WindRequest,
+  type WindResult,
+  type WindSamplePoint,
+} from "@/lib/windProviders/types";
+
+type StubSample = { wind_speed_mps: number; wind_dir_from_deg: number; gust_mps: number | null };
+
+type StubFile = {
+  samples?: Array<{ hour_utc: number; wind_speed_mps: number; wind_dir_from_deg: number; wind_gust_mps?: number }>;
+};
+
+export function stubFilePath() {
+  return process.env.WIND_STUB_FILE || path.join(process.cwd(), "fixtures", "wind-stub.json");
+}
+
+async function loadStub() {
+  const js: StubFile = JSON.parse(await readFile(stubFilePath(), "utf8"));
+  const byHour = new Map<number, StubSample>();
+  for (const s of js.samples ?? []) {
+    if (!Number.isFinite(s.hour_utc) || !Number.isFinite(s.wind_speed_mps) || !Number.isFinite(s.wind_dir_from_deg)) continue;
+    byHour.set(((Math.round(s.hour_utc) % 24) + 24) % 24, {
+      wind_speed_mps: Math.max(0, s.wind_speed_mps),
+      wind_dir_from_deg: normDeg(s.wind_dir_from_deg),
+      gust_mps: Number.isFinite(s.wind_gust_mps) ? Number(s.wind_gust_mps) : null,
+    });
+  }
+  if (!byHour.size) throw new Error("Wind stub file has no samples");
+  return byHour;
+}
+
+function sampleAt(byHour: Map<number, StubSample>, ms: number): WindSamplePoint {
+  const hourMs = Math.floor(ms / 3600000) * 3600000;
+  const h = new Date(hourMs).getUTCHours();
+  // Missing hours borrow the closest earlier hour
+  let k = h;
+  while (!byHour.has(k)) k = (k + 23) % 24;
+  const iso = new Date(hourMs).toISOString();
+  return { time_utc: iso, time_local: iso.slice(0, 16), ...byHour.get(k)! };
+}
+
+function pointAt(byHour: Map<number, StubSample>, ms: number) {
+  const neighbours: WindSamplePoint[] = [];
+  for (let h = -3; h <= 3; h++) neighbours.push(sampleAt(byHour, ms + h * 3600000));
+  return { ...sampleAt(byHour, ms), ...windSpread(neighbours, ms) };
+}
+
+async function fetchStub(req: WindRequest): Promise<WindResult> {
+  const byHour = await loadStub();
+  const base = { source: "stub", timezone: "UTC", utc_offset_seconds: 0 };
+
+  if (req.mode === "series") {
+    const { startMs, endMs } = windowOf(req);
+    const samples: WindSamplePoint[] = [];
+    for (let t = Math.floor(startMs / 3600000) * 3600000; t <= endMs; t += 3600000) samples.push(sampleAt(byHour, t));
+    return {
+      ...base,
+      mode: "series",
+      start_iso: new Date(startMs).toISOString(),
+      end_iso: new Date(endMs).toISOString(),
+      samples,
+      note: "stub wind series (by UTC hour of day)",
+    };
+  }
+
+  if (req.mode === "historical") {
+    return {
+      ...base,
+      mode: "historical",
+      requested_time_iso: req.time_iso,
+      ...pointAt(byHour, Date.parse(req.time_iso)),
+      note: "stub wind (by UTC hour of day)",
+    };
+  }
+
+  return { ...base, mode: req.mode, ...pointAt(byHour, Date.now()), note: "stub wind (by UTC hour of day)" };
+}
+
+export const stubProvider: WindProvider = {
+  id: "stub",
+  supports: () => true,
+  fetch: fetchStub,
+};
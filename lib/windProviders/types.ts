@@ -0,0 +1,169 @@
+// lib/windProviders/types.ts
+// Provider-neutral wind requests/results used by /api/wind.
+// No external dependencies.
+
+import { directionStats } from "@/lib/windObservations";
+
+export type WindProviderId = "open-meteo" | "nws" | "metar" | "stub";
+
+export const WIND_PROVIDER_IDS: WindProviderId[] = ["open-meteo", "nws", "metar", "stub"];
+
+export const WIND_PROVIDER_LABELS: Record<WindProviderId, string> = {
+  "open-meteo": "Open-Meteo",
+  nws: "NOAA/NWS gridpoint",
+  metar: "METAR (nearest station)",
+  stub: "Local stub file",
+};
+
+export type WindRequest =
+  | { mode: "current" | "hourly"; lat: number; lon: number }
+  | { mode: "historical"; lat: number; lon: number; time_iso: string }
+  | { mode: "series"; lat: number; lon: number; start_iso: string; end_iso: string };
+
+export type WindMode = WindRequest["mode"];
+
+// POST /api/wind body: a request plus the preferred provider and whether others may answer
+export type WindApiBody = WindRequest & { provider?: WindProviderId | "auto"; fallback?: boolean };
+
+export type WindSamplePoint = {
+  time_utc: string;
+  time_local: string | null;
+  wind_speed_mps: number;
+  wind_dir_from_deg: number;
+  gust_mps?: number | null;
+};
+
+export type WindPointResult = {
+  source: string; // upstream detail, e.g. "open-meteo-archive" or "metar:KSRQ"
+  mode: "current" | "hourly" | "historical";
+  requested_time_iso?: string;
+  time_local: string | null;
+  time_utc: string | null;
+  timezone: string | null;
+  utc_offset_seconds: number;
+  wind_speed_mps: number;
+  wind_dir_from_deg: number;
+  // Gust at the returned hour and sigma-theta of the neighbouring hours (see windSpread)
+  gust_mps: number | null;
+  dir_sigma_deg: number | null;
+  note: string;
+};
+
+export type WindSeriesResult = {
+  source: string;
+  mode: "series";
+  start_iso: string;
+  end_iso: string;
+  timezone: string | null;
+  utc_offset_seconds: number;
+  samples: WindSamplePoint[];
+  note: string;
+};
+
+export type WindResult = WindPointResult | WindSeriesResult;
+
+/**
+ * One upstream. `supports` is a cheap pre-check (mode/time range); `fetch` throws when the
+ * upstream fails or has nothing for the request, which moves the route on to the next provider.
+ */
+export interface WindProvider {
+  id: WindProviderId;
+  supports(req: WindRequest): boolean;
+  fetch(req: WindRequest): Promise<WindResult>;
+}
+
+/** --- shared helpers --- **/
+
+// Open-Meteo's forecast API serves roughly the last 3 months via start_date/end_date; older
+// windows need the archive (used by the wind provider and /api/conditions)
+export const FORECAST_PAST_DAYS = 90;
+
+export function normDeg(d: number) {
+  return ((d % 360) + 360) % 360;
+}
+
+export function toDateStrUTC(iso: string) {
+  // YYYY-MM-DD in UTC
+  const d = new Date(iso);
+  const y = d.getUTCFullYear();
+  const m = String(d.getUTCMonth() + 1).padStart(2, "0");
+  const day = String(d.getUTCDate()).padStart(2, "0");
+  return `${y}-${m}-${day}`;
+}
+
+export function utcIsoFromGmt(timeStr: string) {
+  // Zone-less "YYYY-MM-DDTHH:mm" from an upstream asked for GMT (Open-Meteo timezone=GMT)
+  return new Date(Date.parse(timeStr + "Z")).toISOString();
+}
+
+/** "YYYY-MM-DDTHH:mm" wall time and UTC offset for an IANA zone at an instant. */
+export function localTimeIn(ms: number, timeZone: string): { time_local: string; utc_offset_seconds: number } {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(new Date(ms));
+  const get = (t: string) => parts.find((p) => p.type === t)?.value ?? "00";
+  const time_local = `${get("year")}-${get("month")}-${get("day")}T${get("hour")}:${get("minute")}`;
+  const asUtc = Date.UTC(+get("year"), +get("month") - 1, +get("day"), +get("hour"), +get("minute"), +get("second"));
+  return { time_local, utc_offset_seconds: Math.round((asUtc - Math.floor(ms / 1000) * 1000) / 1000) };
+}
+
+export function windowOf(req: Extract<WindRequest, { mode: "series" }>) {
+  const startMs = Date.parse(req.start_iso);
+  const endMs = Date.parse(req.end_iso);
+  return { startMs, endMs };
+}
+
+/** Keep samples from the hour at/before start through the hour at/after end. */
+export function clipToWindow<T extends { time_utc: string }>(samples: T[], startMs: number, endMs: number): T[] {
+  const lo = startMs - 3600 * 1000;
+  const hi = endMs + 3600 * 1000;
+  return samples.filter((s) => {
+    const t = Date.parse(s.time_utc);
+    return t > lo && t < hi;
+  });
+}
+
+export function nearestSample<T extends { time_utc: string }>(samples: T[], targetMs: number): T | null {
+  let best: T | null = null;
+  let bestD = Number.POSITIVE_INFINITY;
+  for (const s of samples) {
+    const d = Math.abs(Date.parse(s.time_utc) - targetMs);
+    if (d < bestD) {
+      bestD = d;
+      best = s;
+    }
+  }
+  return best;
+}
+
+export async function fetchText(url: string, init?: RequestInit): Promise<string> {
+  const r = await fetch(url, init);
+  const text = await r.text();
+  if (!r.ok) throw new Error(`HTTP ${r.status}: ${text.slice(0, 200)}`);
+  return text;
+}
+
+// Hours either side of the target used for the direction spread, and the minimum sample count
+const SPREAD_HOURS = 3;
+const SPREAD_MIN_SAMPLES = 3;
+
+/**
+ * Gust of the sample nearest `targetMs` and sigma-theta of the samples within ±3 h. Hourly means
+ * understate sub-hourly meander, so this is a floor on direction variability, not a measurement.
+ */
+export function windSpread(
+  samples: WindSamplePoint[],
+  targetMs: number
+): { gust_mps: number | null; dir_sigma_deg: number | null } {
+  const near = samples.filter((s) => Math.abs(Date.parse(s.time_utc) - targetMs) <= SPREAD_HOURS * 3600 * 1000);
+  const dir = near.length >= SPREAD_MIN_SAMPLES ? directionStats(near.map((s) => s.wind_dir_from_deg)) : null;
+  const gust = nearestSample(samples, targetMs)?.gust_mps;
+  return { gust_mps: gust != null && Number.isFinite(gust) ? gust : null, dir_sigma_deg: dir ? dir.sigma_deg : null };
+}
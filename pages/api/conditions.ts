@@ -0,0 +1,124 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { deriveEnvironment } from "@/lib/conditions";
+import { FORECAST_PAST_DAYS, toDateStrUTC, utcIsoFromGmt } from "@/lib/windProviders/types";
+
+function num(v: unknown): number | null {
+  return v == null || !Number.isFinite(Number(v)) ? null : Number(v);
+}
+
+const HOURLY_VARS = [
+  "temperature_2m",
+  "relative_humidity_2m",
+  "cloud_cover",
+  "precipitation",
+  "wind_speed_10m",
+  "shortwave_radiation",
+  "is_day",
+];
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  try {
+    if (req.method !== "POST") {
+      res.status(405).json({ error: "POST only" });
+      return;
+    }
+
+    const { lat, lon, time_iso } = req.body || {};
+    const latNum = Number(lat);
+    const lonNum = Number(lon);
+
+    if (!Number.isFinite(latNum) || !Number.isFinite(lonNum)) {
+      res.status(400).json({ error: "Invalid lat/lon" });
+      return;
+    }
+
+    const targetMs = time_iso ? Date.parse(String(time_iso)) : Date.now();
+    if (!Number.isFinite(targetMs)) {
+      res.status(400).json({ error: "Invalid time_iso" });
+      return;
+    }
+
+    const useArchive = Date.now() - targetMs > FORECAST_PAST_DAYS * 24 * 3600 * 1000;
+    const base = useArchive
+      ? `https://archive-api.open-meteo.com/v1/archive`
+      : `https://api.open-meteo.com/v1/forecast`;
+
+    // Target hour plus the 24 h before it (for rain totals), padded a day for date boundaries
+    const url =
+      base +
+      `?latitude=${encodeURIComponent(latNum)}` +
+      `&longitude=${encodeURIComponent(lonNum)}` +
+      `&start_date=${toDateStrUTC(new Date(targetMs - 2 * 86400000).toISOString())}` +
+      `&end_date=${toDateStrUTC(new Date(targetMs + 86400000).toISOString())}` +
+      `&hourly=${HOURLY_VARS.join(",")}` +
+      `&temperature_unit=fahrenheit` +
+      `&wind_speed_unit=ms` +
+      `&precipitation_unit=mm` +
+      `&timezone=GMT`; // one utc_offset_seconds would be wrong across a DST change
+
+    const r = await fetch(url);
+    const text = await r.text();
+    if (!r.ok) {
+      res.status(502).json({ error: "Open-Meteo conditions error", status: r.status, body: text.slice(0, 800) });
+      return;
+    }
+
+    const js = JSON.parse(text);
+    const h = js?.hourly ?? {};
+    const times: string[] = h.time || [];
+
+    // Nearest hour at or before the target (falls back to the nearest overall)
+    let i = -1;
+    let best = Number.POSITIVE_INFINITY;
+    for (let k = 0; k < times.length; k++) {
+      if (num(h.temperature_2m?.[k]) == null) continue;
+      const d = targetMs - Date.parse(utcIsoFromGmt(times[k]));
+      const score = d >= 0 ? d : 3600 * 1000 - d;
+      if (score < best) {
+        best = score;
+        i = k;
+      }
+    }
+
+    if (i < 0) {
+      res.status(500).json({ error: "No hourly conditions returned", sample: js });
+      return;
+    }
+
+    const timeUtc = utcIsoFromGmt(times[i]);
+    const tMs = Date.parse(timeUtc);
+
+    // Rain over the 24 h ending at the chosen hour
+    let rain24 = 0;
+    for (let k = 0; k < times.length; k++) {
+      const kMs = Date.parse(utcIsoFromGmt(times[k]));
+      if (kMs > tMs - 24 * 3600 * 1000 && kMs <= tMs) rain24 += num(h.precipitation?.[k]) ?? 0;
+    }
+
+    const shortwave = num(h.shortwave_radiation?.[i]);
+    const isDayRaw = num(h.is_day?.[i]);
+    const raw = {
+      temperature_f: num(h.temperature_2m?.[i])!,
+      rel_humidity_pct: num(h.relative_humidity_2m?.[i]) ?? 50,
+      cloud_cover_pct: num(h.cloud_cover?.[i]) ?? 50,
+      precip_mm_hr: num(h.precipitation?.[i]) ?? 0,
+      rain_24h_mm: Math.round(rain24 * 10) / 10,
+      // Archive responses may omit is_day; sunlight is a good enough proxy
+      is_day: isDayRaw != null ? isDayRaw === 1 : (shortwave ?? 0) > 0,
+      shortwave_wm2: shortwave,
+      wind_speed_mps: num(h.wind_speed_10m?.[i]),
+    };
+
+    res.status(200).json({
+      source: useArchive ? "open-meteo-archive" : "open-meteo",
+      time_utc: timeUtc,
+      time_local: null, // GMT hours carry no zone for the point
+      timezone: null,
+      ...raw,
+      ...deriveEnvironment(raw),
+      note: "hourly conditions at/before requested time; stability is Pasquill–Gifford from wind, insolation and cloud",
+    });
+  } catch (err: unknown) {
+    res.status(500).json({ error: "Server error", details: String(err instanceof Error ? err.message : err) });
+  }
+}
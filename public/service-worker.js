@@ -1,16 +1,179 @@
-const CACHE = "scent-cone-v1";
-const ASSETS = ["/", "/manifest.json", "/favicon.ico"];
+// Offline-first service worker.
+// - App shell: precached from /sw-manifest.js (written at build time), one cache per build.
+// - /api/wind: network-first; last response per rounded lat/lon + hour is kept for offline use.
+// - /api/conditions: same, in the wind cache under mode "conditions".
+// - Basemap tiles: served from the tile cache filled by "Download area" (lib/tileCache.ts).
+
+try {
+  importScripts("/sw-manifest.js");
+} catch {
+  // dev server / no build manifest: shell is cached at runtime only
+}
+const PRECACHE = self.__PRECACHE || { version: "dev", urls: ["/", "/manifest.json", "/favicon.ico"] };
+
+const PREFIX = "scent-cone-";
+const SHELL_CACHE = `${PREFIX}shell-${PRECACHE.version}`;
+// v2: keys carry the provider
+const WIND_CACHE = `${PREFIX}wind-v2`;
+// Must match TILE_CACHE in lib/tileCache.ts
+const TILE_CACHE = `${PREFIX}tiles-v1`;
+const KEEP = [SHELL_CACHE, WIND_CACHE, TILE_CACHE];
+
+const TILE_HOST = /^[a-d]\.basemaps\.cartocdn\.com$/;
 
 self.addEventListener("install", (e) => {
-  e.waitUntil(caches.open(CACHE).then((c) => c.addAll(ASSETS)));
+  e.waitUntil(
+    caches
+      .open(SHELL_CACHE)
+      .then((c) => c.addAll(PRECACHE.urls))
+      .then(() => self.skipWaiting())
+  );
 });
 
 self.addEventListener("activate", (e) => {
-  e.waitUntil(self.clients.claim());
+  // Drop shell caches from older builds (and the pre-manifest "scent-cone-v1"); keep tiles + wind
+  e.waitUntil(
+    caches
+      .keys()
+      .then((keys) => Promise.all(keys.filter((k) => k.startsWith(PREFIX) && !KEEP.includes(k)).map((k) => caches.delete(k))))
+      .then(() => self.clients.claim())
+  );
 });
 
-self.addEventListener("fetch", (e) => {
-  e.respondWith(
-    caches.match(e.request).then((cached) => cached || fetch(e.request).catch(() => cached))
+/** --- tiles --- **/
+
+// Leaflet rotates a-d subdomains; tiles are stored under "a"
+function tileKey(url) {
+  const u = new URL(url);
+  u.hostname = u.hostname.replace(/^[a-d]\./, "a.");
+  return u.toString();
+}
+
+// Downloads store 1x tiles; a retina (@2x) request falls back to those when offline
+function tileKey1x(url) {
+  return tileKey(url).replace(/@2x(\.png)$/, "$1");
+}
+
+function handleTile(request) {
+  return caches.open(TILE_CACHE).then((c) =>
+    c.match(tileKey(request.url)).then(
+      (cached) => cached || fetch(request).catch(() => c.match(tileKey1x(request.url)).then((r) => r || Response.error()))
+    )
   );
+}
+
+/** --- wind --- **/
+
+// ~1 km cells; close enough that a nearby forecast is still the right forecast
+function round2(n) {
+  return Math.round(Number(n) * 100) / 100;
+}
+
+function hourOf(iso) {
+  const t = Date.parse(iso);
+  return new Date(Number.isFinite(t) ? t : Date.now()).toISOString().slice(0, 13);
+}
+
+// Cache API only stores GET, so POST bodies map onto a synthetic GET key. The provider is part
+// of it: a METAR observation must not answer a request for the Open-Meteo forecast, or back.
+function windKey(body) {
+  const mode = body.mode || "current";
+  const provider = body.provider || "auto";
+  const q = new URLSearchParams({ lat: round2(body.lat), lon: round2(body.lon), mode, provider });
+  if (mode === "historical" || mode === "conditions") q.set("hour", hourOf(body.time_iso));
+  else if (mode === "series") {
+    q.set("hour", hourOf(body.start_iso));
+    q.set("end", hourOf(body.end_iso));
+  } else q.set("hour", hourOf(new Date().toISOString()));
+  return new Request(`/__wind-cache__?${q.toString()}`);
+}
+
+// Offline + no exact-hour hit: newest entry for the same cell, mode and provider
+async function latestWindFor(cache, key) {
+  const want = new URL(key.url).searchParams;
+  let best = null;
+  for (const k of await cache.keys()) {
+    const p = new URL(k.url).searchParams;
+    if (["lat", "lon", "mode", "provider"].some((f) => p.get(f) !== want.get(f))) continue;
+    if (!best || p.get("hour") > new URL(best.url).searchParams.get("hour")) best = k;
+  }
+  return best ? cache.match(best) : undefined;
+}
+
+// `mode` overrides the body's mode (used for /api/conditions, which has none)
+async function handleWind(request, mode) {
+  let body = {};
+  try {
+    body = await request.clone().json();
+  } catch {
+    return fetch(request);
+  }
+  const key = windKey(mode ? { ...body, mode } : body);
+  const cache = await caches.open(WIND_CACHE);
+
+  try {
+    const r = await fetch(request);
+    if (r.ok) {
+      const js = await r.clone().json();
+      const stamped = { ...js, fetched_at: new Date().toISOString() };
+      await cache.put(key, new Response(JSON.stringify(stamped), { headers: { "Content-Type": "application/json" } }));
+    }
+    return r;
+  } catch (err) {
+    const hit = (await cache.match(key)) || (await latestWindFor(cache, key));
+    if (!hit) throw err;
+    const js = await hit.json();
+    return new Response(JSON.stringify({ ...js, stale: true, stale_since: js.fetched_at || null }), {
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+}
+
+/** --- app shell --- **/
+
+async function handleShell(request) {
+  const cache = await caches.open(SHELL_CACHE);
+  const url = new URL(request.url);
+
+  // Hashed build assets never change: cache-first
+  if (url.pathname.startsWith("/_next/static/")) {
+    const hit = await cache.match(request);
+    if (hit) return hit;
+    const r = await fetch(request);
+    if (r.ok) cache.put(request, r.clone());
+    return r;
+  }
+
+  // Pages and public files: network-first so a deploy shows up immediately
+  try {
+    const r = await fetch(request);
+    if (r.ok && request.method === "GET") cache.put(request.mode === "navigate" ? "/" : request, r.clone());
+    return r;
+  } catch (err) {
+    const hit = (await cache.match(request)) || (request.mode === "navigate" ? await cache.match("/") : undefined);
+    if (hit) return hit;
+    throw err;
+  }
+}
+
+self.addEventListener("fetch", (e) => {
+  const url = new URL(e.request.url);
+
+  if (TILE_HOST.test(url.hostname)) {
+    e.respondWith(handleTile(e.request));
+    return;
+  }
+  if (url.origin !== self.location.origin) return;
+
+  if (url.pathname === "/api/wind" && e.request.method === "POST") {
+    e.respondWith(handleWind(e.request));
+    return;
+  }
+  if (url.pathname === "/api/conditions" && e.request.method === "POST") {
+    e.respondWith(handleWind(e.request, "conditions"));
+    return;
+  }
+  if (e.request.method !== "GET" || url.pathname.startsWith("/api/")) return;
+
+  e.respondWith(handleShell(e.request));
 });
@@ -0,0 +1,162 @@
+// scripts/generate-open-meteo-fixtures.mjs
+// Writes tests/fixtures/open-meteo/*.json: synthetic responses shaped like Open-Meteo's forecast and
+// archive APIs when asked for timezone=GMT, for the /api/wind and /api/conditions tests. The wind
+// follows a Gulf-coast sea breeze (light north-easterly land breeze overnight, veering onshore and
+// freshening through the afternoon) so series and spread tests see realistic hour-to-hour change.
+//
+//   node scripts/generate-open-meteo-fixtures.mjs
+
+import fs from "node:fs";
+import path from "node:path";
+
+const LOCATION = { latitude: 27.5, longitude: -82.4375, elevation: 9.0 };
+const SOLAR_OFFSET_H = -5.5; // local solar time at ~82.4° W
+
+const WIND_UNITS = { windspeed_10m: "m/s", winddirection_10m: "°", wind_gusts_10m: "m/s" };
+
+const round2 = (v) => Math.round(v * 100) / 100;
+
+function solarHour(ms) {
+  return (((ms / 3600000 + SOLAR_OFFSET_H) % 24) + 24) % 24;
+}
+
+function windAt(ms) {
+  const solar = solarHour(ms);
+  const day = Math.floor(ms / 86400000);
+  const breeze = Math.max(0, Math.sin((Math.PI * (solar - 9)) / 11));
+  const ripple = 0.15 * Math.sin(ms / 3600000 / 1.7 + day);
+  const speed = 0.5 + 3.1 * breeze + ripple;
+  const dir = 45 + 150 * Math.max(0, Math.sin((Math.PI * (solar - 8)) / 14)) + 8 * Math.sin(day);
+  return {
+    speed: round2(speed),
+    dir: Math.round(((dir % 360) + 360) % 360),
+    gust: round2(speed * (1.5 + 0.2 * breeze)),
+  };
+}
+
+// Early-summer day: sunrise ~06:00 and sunset ~19:30 solar, warmest mid-afternoon
+function weatherAt(ms, rainMm) {
+  const solar = solarHour(ms);
+  const sun = Math.max(0, Math.sin((Math.PI * (solar - 6)) / 13.5));
+  const warmth = Math.sin((Math.PI * (solar - 9)) / 12);
+  const cloud = rainMm > 0 ? 90 : Math.round(25 + 20 * Math.sin(ms / 3600000 / 5));
+  return {
+    temperature_2m: Math.round((80 + 9 * warmth) * 10) / 10,
+    relative_humidity_2m: rainMm > 0 ? 94 : Math.round(72 - 18 * warmth),
+    cloud_cover: cloud,
+    precipitation: rainMm,
+    wind_speed_10m: windAt(ms).speed,
+    shortwave_radiation: Math.round(950 * sun * (1 - (0.75 * cloud) / 100)),
+    is_day: solar >= 6 && solar < 19.5 ? 1 : 0,
+  };
+}
+
+/** "YYYY-MM-DDTHH:mm" in GMT, as Open-Meteo writes times for timezone=GMT. */
+function gmt(ms) {
+  return new Date(ms).toISOString().slice(0, 16);
+}
+
+/** Whole GMT days from startDate through endDate; hours listed in `gaps` are null, as archive holes are. */
+function hourly(startDate, endDate, gaps = []) {
+  const startMs = Date.parse(`${startDate}T00:00Z`);
+  const endMs = Date.parse(`${endDate}T23:00Z`);
+  const out = { time: [], windspeed_10m: [], winddirection_10m: [], wind_gusts_10m: [] };
+  for (let ms = startMs; ms <= endMs; ms += 3600000) {
+    const missing = gaps.includes(gmt(ms));
+    const w = windAt(ms);
+    out.time.push(gmt(ms));
+    out.windspeed_10m.push(missing ? null : w.speed);
+    out.winddirection_10m.push(missing ? null : w.dir);
+    out.wind_gusts_10m.push(missing ? null : w.gust);
+  }
+  return out;
+}
+
+function envelope(body) {
+  return {
+    ...LOCATION,
+    utc_offset_seconds: 0,
+    timezone: "GMT",
+    timezone_abbreviation: "GMT",
+    ...body,
+  };
+}
+
+function forecast(currentIso, startDate, endDate) {
+  const ms = Date.parse(currentIso);
+  const w = windAt(ms);
+  return envelope({
+    current_units: {
+      time: "iso8601",
+      interval: "seconds",
+      wind_speed_10m: "m/s",
+      wind_direction_10m: "°",
+      wind_gusts_10m: "m/s",
+    },
+    current: {
+      time: gmt(ms),
+      interval: 900,
+      wind_speed_10m: w.speed,
+      wind_direction_10m: w.dir,
+      wind_gusts_10m: w.gust,
+    },
+    hourly_units: { time: "iso8601", ...WIND_UNITS },
+    hourly: hourly(startDate, endDate),
+  });
+}
+
+/** Hourly conditions variables; `rain` maps GMT hours to their precipitation (mm). */
+function conditions(startDate, endDate, rain) {
+  const startMs = Date.parse(`${startDate}T00:00Z`);
+  const endMs = Date.parse(`${endDate}T23:00Z`);
+  const out = { time: [] };
+  for (let ms = startMs; ms <= endMs; ms += 3600000) {
+    out.time.push(gmt(ms));
+    for (const [k, v] of Object.entries(weatherAt(ms, rain[gmt(ms)] ?? 0))) (out[k] ??= []).push(v);
+  }
+  return envelope({
+    hourly_units: {
+      time: "iso8601",
+      temperature_2m: "°F",
+      relative_humidity_2m: "%",
+      cloud_cover: "%",
+      precipitation: "mm",
+      wind_speed_10m: "m/s",
+      shortwave_radiation: "W/m²",
+      is_day: "",
+    },
+    hourly: out,
+  });
+}
+
+function archive(startDate, endDate, gaps) {
+  return envelope({
+    hourly_units: { time: "iso8601", ...WIND_UNITS },
+    hourly: hourly(startDate, endDate, gaps),
+  });
+}
+
+const FIXTURES = {
+  // "current" block 15 minutes into the 14:00 UTC hour
+  "forecast-2025-06-14.json": forecast("2025-06-14T14:15:00Z", "2025-06-14", "2025-06-15"),
+  // /api/conditions for 2025-06-14 14:20 UTC: two days back, one ahead. Showers straddle the
+  // start of the 24 h rain window (13 Jun 14:00 falls just outside it), plus one after the target hour.
+  "conditions-2025-06-14.json": conditions("2025-06-12", "2025-06-15", {
+    "2025-06-13T14:00": 4.2,
+    "2025-06-13T15:00": 2.6,
+    "2025-06-13T16:00": 0.8,
+    "2025-06-14T03:00": 0.3,
+    "2025-06-14T15:00": 5,
+  }),
+  // One day, with the 11:00 and 12:00 rows missing
+  "archive-2023-03-05.json": archive("2023-03-05", "2023-03-05", ["2023-03-05T11:00", "2023-03-05T12:00"]),
+  // Spans the US spring-forward change (2023-03-12 07:00 UTC)
+  "archive-2023-03-11.json": archive("2023-03-11", "2023-03-13"),
+};
+
+const dir = path.join(process.cwd(), "tests", "fixtures", "open-meteo");
+fs.mkdirSync(dir, { recursive: true });
+for (const [name, body] of Object.entries(FIXTURES)) {
+  fs.writeFileSync(path.join(dir, name), JSON.stringify(body) + "\n");
+  console.log(`generate-open-meteo-fixtures: wrote ${name}`);
+}
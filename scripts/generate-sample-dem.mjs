@@ -0,0 +1,110 @@
+// scripts/generate-sample-dem.mjs
+// Writes public/sample-dem.tif: a small synthetic DEM (64 x 64, ~55 m pixels, float32, WGS84)
+// centred on the app's default map view. It has a SW->NE drainage, a ridge with a saddle to the
+// north and a closed depression to the south-east, so the terrain-aware envelope has something to find.
+//
+//   node scripts/generate-sample-dem.mjs
+
+import fs from "node:fs";
+import path from "node:path";
+
+const CENTER = { lat: 27.49, lon: -82.45 };
+const N = 64;
+const PX_DEG = 0.0005;
+const NODATA = -9999;
+
+const kx = (Math.PI / 180) * 6371000 * Math.cos((CENTER.lat * Math.PI) / 180);
+const ky = (Math.PI / 180) * 6371000;
+const west = CENTER.lon - (N / 2) * PX_DEG;
+const north = CENTER.lat + (N / 2) * PX_DEG;
+
+function elevation(x, y) {
+  let z = 20 + 0.004 * y;
+  // drainage along y = 0.5x, falling gently to the south-west
+  const dv = Math.abs(y - 0.5 * x) / Math.hypot(1, 0.5);
+  z -= (12 - 0.002 * x) * Math.exp(-(dv * dv) / (2 * 200 * 200));
+  // east-west ridge to the north, with a saddle at x = 200
+  z += 18 * Math.exp(-((y - 900) ** 2) / (2 * 150 * 150)) * (1 - 0.6 * Math.exp(-((x - 200) ** 2) / (2 * 150 * 150)));
+  // closed depression (pond) south-east of centre
+  z -= 6 * Math.exp(-((x - 700) ** 2 + (y + 500) ** 2) / (2 * 150 * 150));
+  return z;
+}
+
+const pixels = new Float32Array(N * N);
+for (let r = 0; r < N; r++) {
+  for (let c = 0; c < N; c++) {
+    const lat = north - (r + 0.5) * PX_DEG;
+    const lon = west + (c + 0.5) * PX_DEG;
+    pixels[r * N + c] = elevation((lon - CENTER.lon) * kx, (lat - CENTER.lat) * ky);
+  }
+}
+
+// --- minimal little-endian GeoTIFF writer (one strip, no compression) ---
+const nodataStr = `${NODATA}\0`;
+const geoKeys = [1, 1, 0, 3, 1024, 0, 1, 2, 1025, 0, 1, 1, 2048, 0, 1, 4326];
+const entries = [
+  [256, 3, [N]],
+  [257, 3, [N]],
+  [258, 3, [32]],
+  [259, 3, [1]],
+  [262, 3, [1]],
+  [273, 4, [0]], // patched below
+  [277, 3, [1]],
+  [278, 3, [N]],
+  [279, 4, [pixels.byteLength]],
+  [339, 3, [3]],
+  [33550, 12, [PX_DEG, PX_DEG, 0]],
+  [33922, 12, [0, 0, 0, west, north, 0]],
+  [34735, 3, geoKeys],
+  [42113, 2, nodataStr],
+];
+const SIZE = { 2: 1, 3: 2, 4: 4, 12: 8 };
+
+const ifdOffset = 8;
+const ifdSize = 2 + entries.length * 12 + 4;
+let extraOffset = ifdOffset + ifdSize;
+const extras = [];
+for (const e of entries) {
+  const count = e[2].length;
+  const bytes = SIZE[e[1]] * count;
+  e.push(count);
+  if (bytes > 4) {
+    e.push(extraOffset);
+    extras.push(e);
+    extraOffset += bytes + (bytes % 2);
+  }
+}
+const dataOffset = extraOffset;
+entries.find((e) => e[0] === 273)[2] = [dataOffset];
+
+const buf = Buffer.alloc(dataOffset + pixels.byteLength);
+buf.write("II", 0, "ascii");
+buf.writeUInt16LE(42, 2);
+buf.writeUInt32LE(ifdOffset, 4);
+buf.writeUInt16LE(entries.length, ifdOffset);
+
+function writeValues(e, at) {
+  const [, type, vals] = e;
+  if (type === 2) return void buf.write(vals, at, "ascii");
+  vals.forEach((v, k) => {
+    if (type === 3) buf.writeUInt16LE(v, at + 2 * k);
+    else if (type === 4) buf.writeUInt32LE(v, at + 4 * k);
+    else buf.writeDoubleLE(v, at + 8 * k);
+  });
+}
+
+entries.forEach((e, k) => {
+  const base = ifdOffset + 2 + k * 12;
+  buf.writeUInt16LE(e[0], base);
+  buf.writeUInt16LE(e[1], base + 2);
+  buf.writeUInt32LE(e[3], base + 4);
+  if (e.length > 4) buf.writeUInt32LE(e[4], base + 8);
+  else writeValues(e, base + 8);
+});
+for (const e of extras) writeValues(e, e[4]);
+buf.writeUInt32LE(0, ifdOffset + 2 + entries.length * 12);
+Buffer.from(pixels.buffer).copy(buf, dataOffset);
+
+const out = path.join(process.cwd(), "public", "sample-dem.tif");
+fs.writeFileSync(out, buf);
+console.log(`generate-sample-dem: wrote ${out} (${buf.length} bytes)`);
@@ -0,0 +1,49 @@
+// scripts/generate-sw-manifest.mjs
+// Runs after `next build`: writes public/sw-manifest.js with the build id and every URL the
+// app shell needs offline (Next.js static chunks + public assets). Loaded by the service worker.
+
+import fs from "node:fs";
+import path from "node:path";
+
+const root = process.cwd();
+const nextDir = path.join(root, ".next");
+const publicDir = path.join(root, "public");
+const outFile = path.join(publicDir, "sw-manifest.js");
+
+// The worker and its manifest are fetched by the browser directly, never from cache
+const PUBLIC_SKIP = new Set(["service-worker.js", "sw-manifest.js"]);
+
+function walk(dir) {
+  if (!fs.existsSync(dir)) return [];
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap((d) => {
+    const p = path.join(dir, d.name);
+    return d.isDirectory() ? walk(p) : [p];
+  });
+}
+
+function toUrl(base, file, prefix) {
+  return prefix + path.relative(base, file).split(path.sep).map(encodeURIComponent).join("/");
+}
+
+const buildIdFile = path.join(nextDir, "BUILD_ID");
+if (!fs.existsSync(buildIdFile)) {
+  console.error("generate-sw-manifest: .next/BUILD_ID not found — run `next build` first");
+  process.exit(1);
+}
+const version = fs.readFileSync(buildIdFile, "utf8").trim();
+
+const staticDir = path.join(nextDir, "static");
+const urls = [
+  "/",
+  ...walk(staticDir).map((f) => toUrl(staticDir, f, "/_next/static/")),
+  ...walk(publicDir)
+    .filter((f) => !PUBLIC_SKIP.has(path.relative(publicDir, f)))
+    .map((f) => toUrl(publicDir, f, "/")),
+];
+
+const body =
+  "// Generated by scripts/generate-sw-manifest.mjs — do not edit.\n" +
+  `self.__PRECACHE = ${JSON.stringify({ version, urls }, null, 2)};\n`;
+
+fs.writeFileSync(outFile, body);
+console.log(`generate-sw-manifest: ${urls.length} URLs for build ${version}`);
@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest";
+import {
+  fitProfile,
+  parseTrainingFile,
+  scoreProfile,
+  serializeTrainingRuns,
+  type TrainingRun,
+} from "@/lib/calibration";
+import { DEFAULT_PROFILE } from "@/lib/modelProfile";
+import { addMinutesIso, destinationPoint } from "@/lib/scentEnvelope";
+
+const LKP_ISO = "2025-06-14T12:00:00.000Z";
+
+// Alert `dist_m` downwind of the LKP and `off_m` to the right of the axis, `mins` after the LKP
+function run(i: number, from: number, mph: number, mins: number, dist_m: number, off_m = 0): TrainingRun {
+  const lkp = { lat: 27.49 + i * 0.01, lon: -82.45, time_iso: LKP_ISO };
+  const down = (from + 180) % 360;
+  const p = destinationPoint(destinationPoint(lkp, down, dist_m), down + 90, off_m);
+  return {
+    id: `run${i}`,
+    name: `Run ${i}`,
+    created_iso: LKP_ISO,
+    lkp,
+    subject_path: [],
+    wind: { from_deg: from, speed_mph: mph },
+    environment: {
+      temperature_f: 70,
+      rel_humidity_pct: 60,
+      cloud: "partly",
+      precip: "none",
+      recent_rain: false,
+      terrain: "mixed",
+      stability: "neutral",
+    },
+    alerts: [{ id: `a${i}`, lat: p.lat, lon: p.lon, time_iso: addMinutesIso(LKP_ISO, mins) }],
+  };
+}
+
+// Dogs alerting well beyond the default envelope's reach, close to the axis
+const RUNS = [
+  run(0, 315, 8, 30, 250, 20),
+  run(1, 270, 5, 45, 300, -30),
+  run(2, 0, 10, 20, 260, 10),
+  run(3, 200, 3, 60, 150, 40),
+  run(4, 90, 12, 30, 400, -20),
+];
+
+describe("scoreProfile", () => {
+  it("places alerts in zones and skips alerts before the LKP", () => {
+    const near = run(0, 315, 8, 30, 40);
+    const far = run(1, 315, 8, 30, 5000);
+    const early = { ...run(2, 315, 8, 30, 40) };
+    early.alerts = [{ ...early.alerts[0], time_iso: addMinutesIso(LKP_ISO, -5) }];
+
+    const s = scoreProfile([near, far, early], DEFAULT_PROFILE);
+    expect(s.alerts).toBe(2);
+    expect(s.per_alert.map((a) => a.zone)).toEqual(["core", null]);
+    expect(s.hit_rate).toEqual({ core: 0.5, fringe: 0.5, residual: 0.5 });
+    expect(s.per_alert[0].log_lik).toBeGreaterThan(s.per_alert[1].log_lik);
+  });
+});
+
+describe("fitProfile", () => {
+  it("improves the fit and reports before/after hit-rates", async () => {
+    const progress: number[] = [];
+    const fit = await fitProfile(RUNS, DEFAULT_PROFILE, { maxEvals: 40, onProgress: (n) => progress.push(n) });
+
+    expect(fit.evals).toBeLessThanOrEqual(40);
+    expect(progress.length).toBeGreaterThan(0);
+    expect(fit.after.mean_log_lik).toBeGreaterThan(fit.before.mean_log_lik);
+    expect(fit.after.hit_rate.residual).toBeGreaterThanOrEqual(fit.before.hit_rate.residual);
+    expect(fit.changes.length).toBeGreaterThan(0);
+    expect(fit.profile.id).not.toBe(DEFAULT_PROFILE.id);
+    expect(fit.profile.builtin).toBeUndefined();
+    expect(fit.profile.description).toContain("residual hit-rate");
+
+    // The fitted profile scores what the optimiser reported
+    expect(scoreProfile(RUNS, fit.profile).mean_log_lik).toBeCloseTo(fit.after.mean_log_lik, 9);
+  });
+
+  it("stops early when aborted", async () => {
+    const ctrl = new AbortController();
+    ctrl.abort();
+    const fit = await fitProfile(RUNS, DEFAULT_PROFILE, { signal: ctrl.signal });
+    expect(fit.evals).toBe(0);
+    expect(fit.changes).toEqual([]);
+  });
+
+  it("needs at least one scorable alert", async () => {
+    await expect(fitProfile([{ ...RUNS[0], alerts: [] }], DEFAULT_PROFILE)).rejects.toThrow("No alerts to fit");
+  });
+});
+
+describe("training files", () => {
+  it("round-trips runs and drops unusable ones", () => {
+    const text = serializeTrainingRuns(RUNS, LKP_ISO);
+    expect(parseTrainingFile(text)).toEqual(RUNS);
+
+    const js = JSON.parse(text);
+    js.runs.push({ id: "broken", lkp: { lat: "x" } });
+    js.runs[0].alerts.push({ id: "bad", lat: null, lon: 1, time_iso: LKP_ISO });
+    const parsed = parseTrainingFile(JSON.stringify(js));
+    expect(parsed).toHaveLength(RUNS.length);
+    expect(parsed[0].alerts).toHaveLength(1);
+  });
+
+  it("rejects other files", () => {
+    expect(() => parseTrainingFile(JSON.stringify({ format: "scent-cone-profile", version: 1 }))).toThrow(
+      "Not a scent-cone training file"
+    );
+  });
+});
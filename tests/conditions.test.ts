@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import { deriveEnvironment, type Insolation, type PasquillClass } from "@/lib/conditions";
+
+function weather(over: Partial<Parameters<typeof deriveEnvironment>[0]>) {
+  return {
+    temperature_f: 70,
+    rel_humidity_pct: 60,
+    cloud_cover_pct: 10,
+    precip_mm_hr: 0,
+    rain_24h_mm: 0,
+    is_day: true,
+    shortwave_wm2: 700,
+    wind_speed_mps: 1,
+    ...over,
+  };
+}
+
+describe("deriveEnvironment stability", () => {
+  // [case, wind m/s, shortwave W/m², cloud %, expected insolation, expected class]
+  it.each<[string, number, number | null, number, Insolation, PasquillClass]>([
+    // Wind rows under strong sun: A below 3 m/s, B to 5, C from 5
+    ["strong sun, 1.99 m/s", 1.99, 700, 10, "strong", "A"],
+    ["strong sun, 2.99 m/s", 2.99, 700, 10, "strong", "A"],
+    ["strong sun, 3 m/s", 3, 700, 10, "strong", "B"],
+    ["strong sun, 4.99 m/s", 4.99, 700, 10, "strong", "B"],
+    ["strong sun, 5 m/s", 5, 700, 10, "strong", "C"],
+    ["strong sun, 6 m/s", 6, 700, 10, "strong", "C"],
+    // Moderate sun shifts a column: B from 2 m/s, D from 6
+    ["moderate sun, 1.99 m/s", 1.99, 450, 10, "moderate", "A"],
+    ["moderate sun, 2 m/s", 2, 450, 10, "moderate", "B"],
+    ["moderate sun, 5.99 m/s", 5.99, 450, 10, "moderate", "C"],
+    ["moderate sun, 6 m/s", 6, 450, 10, "moderate", "D"],
+    ["slight sun, 2 m/s", 2, 100, 10, "slight", "C"],
+    ["slight sun, 5 m/s", 5, 100, 10, "slight", "D"],
+    // Insolation boundaries from shortwave
+    ["600 W/m² is strong", 2.5, 600, 10, "strong", "A"],
+    ["599 W/m² is moderate", 2.5, 599, 10, "moderate", "B"],
+    ["300 W/m² is moderate", 2.5, 300, 10, "moderate", "B"],
+    ["299 W/m² is slight", 2.5, 299, 10, "slight", "C"],
+    // Without shortwave, daytime cloud cover stands in
+    ["no shortwave, 39% cloud", 2.5, null, 39, "strong", "A"],
+    ["no shortwave, 40% cloud", 2.5, null, 40, "moderate", "B"],
+    ["no shortwave, 80% cloud", 2.5, null, 80, "slight", "C"],
+    // Full overcast is neutral whatever the sun or wind
+    ["95% cloud by day", 1, 700, 95, "strong", "D"],
+  ])("%s", (_case, wind, shortwave, cloud, insolation, pg) => {
+    const out = deriveEnvironment(weather({ wind_speed_mps: wind, shortwave_wm2: shortwave, cloud_cover_pct: cloud }));
+    expect(out.insolation).toBe(insolation);
+    expect(out.pg_class).toBe(pg);
+  });
+
+  it.each<[string, number, number, PasquillClass]>([
+    // Night rows split at 4/8 cloud, with calm clear nights the most stable
+    ["clear, 2.99 m/s", 2.99, 49, "F"],
+    ["cloudy, 2.99 m/s", 2.99, 50, "E"],
+    ["clear, 3 m/s", 3, 49, "E"],
+    ["cloudy, 3 m/s", 3, 50, "D"],
+    ["clear, 5 m/s", 5, 10, "D"],
+    ["overcast, calm", 0, 95, "D"],
+  ])("night, %s", (_case, wind, cloud, pg) => {
+    const out = deriveEnvironment(
+      weather({ is_day: false, shortwave_wm2: 0, wind_speed_mps: wind, cloud_cover_pct: cloud })
+    );
+    expect(out.insolation).toBe("night");
+    expect(out.pg_class).toBe(pg);
+    expect(out.derived.cloud).toBe("night");
+  });
+
+  it("maps the classes onto the envelope's stability", () => {
+    expect(deriveEnvironment(weather({ wind_speed_mps: 1 })).derived.stability).toBe("convective");
+    expect(deriveEnvironment(weather({ cloud_cover_pct: 95 })).derived.stability).toBe("neutral");
+    expect(deriveEnvironment(weather({ is_day: false, cloud_cover_pct: 0 })).derived.stability).toBe("stable");
+  });
+
+  it("treats a missing wind speed as calm", () => {
+    expect(deriveEnvironment(weather({ wind_speed_mps: null, is_day: false, cloud_cover_pct: 0 })).pg_class).toBe("F");
+  });
+});
+
+describe("deriveEnvironment rain", () => {
+  it.each<[number, number, string, boolean]>([
+    [0, 0.9, "none", false],
+    [0, 1, "none", true],
+    [0.1, 5, "light", false], // still raining: not "recent" rain
+    [2.5, 5, "moderate", false],
+    [7.6, 20, "heavy", false],
+  ])("%s mm/h with %s mm in 24 h", (rate, total, precip, recentRain) => {
+    const d = deriveEnvironment(weather({ precip_mm_hr: rate, rain_24h_mm: total })).derived;
+    expect(d.precip).toBe(precip);
+    expect(d.recentRain).toBe(recentRain);
+  });
+});
@@ -0,0 +1,94 @@
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import type { NextApiRequest, NextApiResponse } from "next";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import handler from "@/pages/api/conditions";
+
+// Open-Meteo-shaped response (timezone=GMT) from scripts/generate-open-meteo-fixtures.mjs. Showers fall at
+// 13 Jun 14:00–16:00, 14 Jun 03:00 and 14 Jun 15:00 UTC.
+const FIXTURE = path.join(__dirname, "fixtures", "open-meteo", "conditions-2025-06-14.json");
+const conditionsText = readFileSync(FIXTURE, "utf8");
+
+const NOW = "2025-06-14T14:20:00.000Z";
+
+type Res = { statusCode: number; body: Record<string, unknown> };
+
+async function post(body: unknown): Promise<Res> {
+  const res = {
+    statusCode: 0,
+    body: {} as Record<string, unknown>,
+    status(code: number) {
+      this.statusCode = code;
+      return this;
+    },
+    json(b: Record<string, unknown>) {
+      this.body = b;
+      return this;
+    },
+  };
+  await handler({ method: "POST", body } as unknown as NextApiRequest, res as unknown as NextApiResponse);
+  return res;
+}
+
+let urls: string[] = [];
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ["Date"] });
+  vi.setSystemTime(new Date(NOW));
+  urls = [];
+  vi.stubGlobal("fetch", async (input: string | URL) => {
+    urls.push(String(input));
+    return new Response(conditionsText, { status: 200 });
+  });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe("/api/conditions", () => {
+  it("reads the hour at or before now and derives the environment", async () => {
+    const res = await post({ lat: 27.49, lon: -82.45 });
+    expect(res.statusCode).toBe(200);
+    expect(res.body).toMatchObject({
+      source: "open-meteo",
+      time_utc: "2025-06-14T14:00:00.000Z",
+      time_local: null,
+      timezone: null,
+      temperature_f: 78.8,
+      rel_humidity_pct: 74,
+      cloud_cover_pct: 13,
+      precip_mm_hr: 0,
+      // 13 Jun 15:00 + 16:00 + 14 Jun 03:00; 13 Jun 14:00 is exactly 24 h back and falls outside
+      rain_24h_mm: 3.7,
+      is_day: true,
+      shortwave_wm2: 471,
+      insolation: "moderate",
+      pg_class: "A",
+      derived: { tempF: 79, rh: 74, cloud: "clear", precip: "none", recentRain: true, stability: "convective" },
+    });
+    expect(urls[0]).toMatch(/^https:\/\/api\.open-meteo\.com\//);
+    expect(urls[0]).toContain("start_date=2025-06-12");
+    expect(urls[0]).toContain("end_date=2025-06-15");
+    expect(urls[0]).toContain("timezone=GMT");
+  });
+
+  it.each([
+    // One minute short of 14:00 still reads 13:00, and the window now reaches back to 13 Jun 14:00
+    ["2025-06-14T13:59:00Z", "2025-06-14T13:00:00.000Z", 7.9, 0],
+    // During the 15:00 shower: it counts, 13 Jun 15:00 drops out
+    ["2025-06-14T15:30:00Z", "2025-06-14T15:00:00.000Z", 6.1, 5],
+  ])("at %s picks %s with %s mm over 24 h", async (timeIso, hour, rain24, rate) => {
+    const res = await post({ lat: 27.49, lon: -82.45, time_iso: timeIso });
+    expect(res.body.time_utc).toBe(hour);
+    expect(res.body.rain_24h_mm).toBe(rain24);
+    expect(res.body.precip_mm_hr).toBe(rate);
+  });
+
+  it("rejects a bad time", async () => {
+    const res = await post({ lat: 27.49, lon: -82.45, time_iso: "yesterday-ish" });
+    expect(res.statusCode).toBe(400);
+    expect(res.body.error).toBe("Invalid time_iso");
+  });
+});
@@ -0,0 +1,122 @@
+import fc from "fast-check";
+import { describe, expect, it } from "vitest";
+import {
+  computeCone,
+  computeGeoCone,
+  defaultHalfAngleDegFromMph,
+  downwindBearingDeg,
+  gustFactorOf,
+  geoConeBands,
+  gustWidthMult,
+  MAX_SPREAD_HALF_ANGLE_DEG,
+  mpsToMph,
+} from "@/lib/cone";
+import { toXY } from "@/lib/grid";
+
+describe("defaultHalfAngleDegFromMph", () => {
+  it("follows the speed table", () => {
+    expect([0, 2.9, 3, 9.9, 10, 19.9, 20, 40].map((m) => defaultHalfAngleDegFromMph(m))).toEqual([
+      45, 45, 25, 25, 18, 18, 12, 12,
+    ]);
+  });
+
+  it("only widens with direction spread and gusts, up to the cap", () => {
+    fc.assert(
+      fc.property(
+        fc.double({ min: 0, max: 40, noNaN: true }),
+        fc.double({ min: 0, max: 90, noNaN: true }),
+        fc.double({ min: 1, max: 4, noNaN: true }),
+        (mph, sigma, gf) => {
+          const base = defaultHalfAngleDegFromMph(mph);
+          const wide = defaultHalfAngleDegFromMph(mph, { sigma_theta_deg: sigma, gust_factor: gf });
+          expect(wide).toBeGreaterThanOrEqual(base);
+          expect(wide).toBeLessThanOrEqual(Math.max(base, MAX_SPREAD_HALF_ANGLE_DEG));
+          expect(defaultHalfAngleDegFromMph(mph, { sigma_theta_deg: sigma + 5 })).toBeGreaterThanOrEqual(
+            defaultHalfAngleDegFromMph(mph, { sigma_theta_deg: sigma })
+          );
+        }
+      )
+    );
+  });
+
+  it("is unchanged by an empty spread", () => {
+    expect(defaultHalfAngleDegFromMph(8, {})).toBe(25);
+    expect(defaultHalfAngleDegFromMph(8, { sigma_theta_deg: null, gust_factor: null })).toBe(25);
+  });
+});
+
+describe("gusts", () => {
+  it("caps the gust width multiplier at 1.5×", () => {
+    expect(gustWidthMult(null)).toBe(1);
+    expect(gustWidthMult(0.8)).toBe(1);
+    expect(gustWidthMult(1.4)).toBeCloseTo(1.2);
+    expect(gustWidthMult(3)).toBe(1.5);
+  });
+
+  it("ignores gust factors in near-calm air", () => {
+    expect(gustFactorOf({ wind_speed_mps: 0.2, gust_mps: 3 })).toBeNull();
+    expect(gustFactorOf({ wind_speed_mps: 4, gust_mps: 6 })).toBeCloseTo(1.5);
+    expect(gustFactorOf({ wind_speed_mps: 4, gust_mps: 2 })).toBe(1);
+  });
+});
+
+describe("computeCone", () => {
+  it("points downwind with a symmetric spread of the requested length", () => {
+    fc.assert(
+      fc.property(
+        fc.double({ min: 0, max: 359.9, noNaN: true }),
+        fc.double({ min: 10, max: 800, noNaN: true }),
+        fc.double({ min: 1, max: 80, noNaN: true }),
+        (from, len, half) => {
+          const src = { x: 400, y: 300 };
+          const g = computeCone(src, len, half, from);
+          const d = (p: { x: number; y: number }) => Math.hypot(p.x - src.x, p.y - src.y);
+          expect(d(g.tip)).toBeCloseTo(len, 6);
+          expect(d(g.left)).toBeCloseTo(len, 6);
+          expect(d(g.right)).toBeCloseTo(len, 6);
+          expect(g.downwindDeg).toBeCloseTo(downwindBearingDeg(from), 9);
+
+          // Angle between each edge and the tip is the half-angle
+          const ang = (p: { x: number; y: number }) => Math.atan2(p.y - src.y, p.x - src.x);
+          const diff = (a: number, b: number) => Math.abs(Math.atan2(Math.sin(a - b), Math.cos(a - b)));
+          expect((diff(ang(g.left), ang(g.tip)) * 180) / Math.PI).toBeCloseTo(half, 6);
+          expect((diff(ang(g.right), ang(g.tip)) * 180) / Math.PI).toBeCloseTo(half, 6);
+        }
+      )
+    );
+  });
+
+  it("draws a north wind's cone toward the bottom of the canvas", () => {
+    const g = computeCone({ x: 0, y: 0 }, 100, 20, 0);
+    expect(g.tip.x).toBeCloseTo(0, 9);
+    expect(g.tip.y).toBeCloseTo(100, 9);
+  });
+
+  it("converts m/s to mph", () => {
+    expect(mpsToMph(10)).toBeCloseTo(22.369, 3);
+  });
+});
+
+describe("computeGeoCone", () => {
+  const apex = { lat: 27.49, lon: -82.45 };
+  const dist = (p: { lat: number; lon: number }) => Math.hypot(toXY(apex, p).x, toXY(apex, p).y);
+
+  it("is a fixed ground length downwind of the apex", () => {
+    const g = computeGeoCone(apex, 800, 20, 270);
+    expect(dist(g.tip)).toBeCloseTo(800, 6);
+    expect(dist(g.left)).toBeCloseTo(800, 6);
+    expect(dist(g.right)).toBeCloseTo(800, 6);
+    // Wind from the west: tip due east, left edge north of it
+    expect(toXY(apex, g.tip).x).toBeCloseTo(800, 6);
+    expect(toXY(apex, g.left).y).toBeGreaterThan(0);
+    expect(toXY(apex, g.right).y).toBeLessThan(0);
+  });
+
+  it("splits the cone into bands from the apex outward", () => {
+    const bands = geoConeBands(apex, 800, 20, 270, 4);
+    expect(bands.map((b) => b.t)).toEqual([0.125, 0.375, 0.625, 0.875]);
+    expect(bands[0].ring[0]).toEqual(apex);
+    expect(Math.max(...bands[3].ring.map(dist))).toBeCloseTo(800, 6);
+    expect(Math.min(...bands[3].ring.map(dist))).toBeCloseTo(600, 6);
+  });
+});
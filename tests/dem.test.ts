@@ -0,0 +1,151 @@
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import { describe, expect, it } from "vitest";
+import {
+  elevationPatch,
+  elevationRange,
+  findTerrainFeatures,
+  flowAccumulation,
+  parseGeoTiff,
+  patchLatLon,
+  sampleElevation,
+  type Dem,
+} from "@/lib/dem";
+import { computeScentEnvelope, type EnvelopeInputs } from "@/lib/scentEnvelope";
+import { toXY } from "@/lib/grid";
+
+// public/sample-dem.tif (scripts/generate-sample-dem.mjs): centred here, with a SW→NE drainage
+// along y = x/2, a ridge to the north with a saddle at (200, 900) m and a pond at (700, −500) m
+const CENTER = { lat: 27.49, lon: -82.45 };
+const SAMPLE = readFileSync(path.join(__dirname, "..", "public", "sample-dem.tif"));
+
+function sampleDem(): Promise<Dem> {
+  return parseGeoTiff(SAMPLE.buffer.slice(SAMPLE.byteOffset, SAMPLE.byteOffset + SAMPLE.byteLength), "Sample DEM");
+}
+
+/** Single-strip little-endian TIFF with one band of 16-bit samples and a lat/lon tie. */
+function tiff16(width: number, samples: number[], format: 1 | 2, predictor: number) {
+  const entries: Array<[number, number, number[]]> = [
+    [256, 3, [width]],
+    [257, 3, [samples.length / width]],
+    [258, 3, [16]],
+    [259, 3, [1]],
+    [273, 4, [0]],
+    [277, 3, [1]],
+    [279, 4, [2 * samples.length]],
+    [317, 3, [predictor]],
+    [339, 3, [format]],
+    [33550, 12, [0.001, 0.001, 0]],
+    [33922, 12, [0, 0, 0, CENTER.lon, CENTER.lat, 0]],
+  ];
+  const ifd = 8;
+  let extra = ifd + 2 + entries.length * 12 + 4;
+  const data = extra + 8 * 9;
+  const buf = new ArrayBuffer(data + 2 * samples.length);
+  const v = new DataView(buf);
+  v.setUint16(0, 0x4949, false);
+  v.setUint16(2, 42, true);
+  v.setUint32(4, ifd, true);
+  v.setUint16(ifd, entries.length, true);
+  entries.forEach(([tag, type, vals], e) => {
+    const at = ifd + 2 + e * 12;
+    v.setUint16(at, tag, true);
+    v.setUint16(at + 2, type, true);
+    v.setUint32(at + 4, vals.length, true);
+    if (type === 12) {
+      v.setUint32(at + 8, extra, true);
+      vals.forEach((x, k) => v.setFloat64(extra + 8 * k, x, true));
+      extra += 8 * vals.length;
+    } else if (type === 4) v.setUint32(at + 8, tag === 273 ? data : vals[0], true);
+    else v.setUint16(at + 8, vals[0], true);
+  });
+  samples.forEach((s, i) => v.setUint16(data + 2 * i, s & 0xffff, true));
+  return buf;
+}
+
+describe("GeoTIFF reader", () => {
+  it("reads the bundled sample DEM", async () => {
+    const dem = await sampleDem();
+    expect(dem.crs).toEqual({ kind: "geographic" });
+    expect([dem.nx, dem.ny]).toEqual([64, 64]);
+    expect(dem.bounds.west).toBeLessThan(CENTER.lon);
+    expect(dem.bounds.north).toBeGreaterThan(CENTER.lat);
+
+    const range = elevationRange(dem)!;
+    expect(range.min).toBeGreaterThan(0);
+    expect(range.max).toBeLessThan(60);
+    // The drainage runs through the centre and sits below the slope beside it
+    const onDrainage = sampleElevation(dem, CENTER)!;
+    const offDrainage = sampleElevation(dem, { lat: CENTER.lat + 0.005, lon: CENTER.lon - 0.005 })!;
+    expect(onDrainage).toBeLessThan(offDrainage - 3);
+    expect(sampleElevation(dem, { lat: CENTER.lat + 1, lon: CENTER.lon })).toBeNull();
+  });
+
+  it("undoes horizontal differencing with wraparound at the sample width", async () => {
+    // Row 100, 90, 95, 0 stored as differences: 100, −10, +5, −95 (as 16-bit words)
+    const unsigned = await parseGeoTiff(tiff16(4, [100, -10, 5, -95], 1, 2));
+    expect([...unsigned.elev]).toEqual([100, 90, 95, 0]);
+
+    // Signed: 5, −3, −4, 2 → differences 5, −8, −1, +6
+    const signed = await parseGeoTiff(tiff16(4, [5, -8, -1, 6], 2, 2));
+    expect([...signed.elev]).toEqual([5, -3, -4, 2]);
+  });
+
+  it("refuses the floating-point predictor instead of returning garbage", async () => {
+    await expect(parseGeoTiff(tiff16(2, [1, 2], 1, 3))).rejects.toThrow(/Unsupported predictor/);
+  });
+});
+
+describe("terrain features", () => {
+  it("finds the pond as a low point, the ridge saddle, and the drainage in the flow accumulation", async () => {
+    const dem = await sampleDem();
+    const box = { south: CENTER.lat - 0.014, west: CENTER.lon - 0.014, north: CENTER.lat + 0.014, east: CENTER.lon + 0.014 };
+    const patch = elevationPatch(dem, box);
+    const features = findTerrainFeatures(patch);
+    const near = (kind: string, x: number, y: number, tol: number) =>
+      features.some((f) => {
+        const q = toXY(CENTER, f.point);
+        return f.kind === kind && Math.hypot(q.x - x, q.y - y) < tol;
+      });
+    expect(near("low_point", 700, -500, 200)).toBe(true);
+    expect(near("saddle", 200, 900, 250)).toBe(true);
+
+    // The cell most of the patch drains through lies in the drainage (y ≈ x / 2)
+    const acc = flowAccumulation(patch);
+    let best = 0;
+    for (let k = 1; k < acc.length; k++) if (acc[k] > acc[best]) best = k;
+    const q = toXY(CENTER, patchLatLon(patch, best % patch.nx, Math.floor(best / patch.nx)));
+    expect(Math.abs(q.y - 0.5 * q.x) / Math.hypot(1, 0.5)).toBeLessThan(250);
+  });
+
+  it("biases the envelope downslope under stable air", async () => {
+    const dem = await sampleDem();
+    // Light wind from the north-west, LKP on the north-west slope above the drainage
+    const base: EnvelopeInputs = {
+      lkp_lat: CENTER.lat + 0.003,
+      lkp_lon: CENTER.lon - 0.004,
+      lkp_time_iso: "2025-06-14T02:00:00.000Z",
+      now_time_iso: "2025-06-14T03:00:00.000Z",
+      wind_from_deg: 315,
+      wind_speed_mph: 4,
+      cloud: "night",
+      precip: "none",
+      recent_rain: false,
+      terrain: "open",
+      stability: "stable",
+    };
+    const flat = computeScentEnvelope(base);
+    const terrain = computeScentEnvelope({ ...base, dem });
+    expect(terrain.deployment_notes.some((n) => n.includes("biased downslope"))).toBe(true);
+
+    const meanZ = (ring: Array<{ lat: number; lon: number }>) => {
+      const zs = ring.map((p) => sampleElevation(dem, p)).filter((z): z is number => z != null);
+      return zs.reduce((a, z) => a + z, 0) / zs.length;
+    };
+    expect(meanZ(terrain.polygons.core)).toBeLessThan(meanZ(flat.polygons.core));
+
+    // Neutral daytime air over the same DEM is left alone
+    const day = computeScentEnvelope({ ...base, dem, cloud: "partly", stability: "neutral" });
+    expect(day.deployment_notes.some((n) => n.includes("biased downslope"))).toBe(false);
+  });
+});
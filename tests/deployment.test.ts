@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { deploymentWindows, isReversal, planDeployment, steadinessAt, type ForecastHour } from "@/lib/deployment";
+import type { EnvelopeInputs } from "@/lib/scentEnvelope";
+
+const NOW = "2025-06-14T13:00:00.000Z";
+
+const base: EnvelopeInputs = {
+  lkp_lat: 27.49,
+  lkp_lon: -82.45,
+  lkp_time_iso: "2025-06-14T12:00:00.000Z",
+  now_time_iso: NOW,
+  wind_from_deg: 270,
+  wind_speed_mph: 8,
+  cloud: "partly",
+  precip: "none",
+  recent_rain: false,
+  terrain: "mixed",
+  stability: "neutral",
+};
+
+function hourly(dirs: number[]): ForecastHour[] {
+  return dirs.map((d, i) => ({
+    time_iso: new Date(Date.parse(NOW) + i * 3600000).toISOString(),
+    wind_from_deg: d,
+    wind_speed_mph: 8,
+  }));
+}
+
+describe("helpers", () => {
+  it("flags wind blowing back across the core", () => {
+    // Core lies east of the LKP
+    expect(isReversal(270, 90)).toBe(false);
+    expect(isReversal(200, 90)).toBe(false);
+    expect(isReversal(90, 90)).toBe(true);
+    expect(isReversal(90, null)).toBe(false);
+  });
+
+  it("scores a steady direction above a swinging one", () => {
+    const f = hourly([270, 270, 270, 200, 340]);
+    expect(steadinessAt(f, 1).steadiness).toBe(1);
+    expect(steadinessAt(f, 3).steadiness).toBeLessThan(0.5);
+  });
+
+  it("groups the best consecutive hours into windows", () => {
+    const h = (i: number, score: number) => ({ time_iso: new Date(Date.parse(NOW) + i * 3600000).toISOString(), score });
+    const w = deploymentWindows([h(0, 0.2), h(1, 0.9), h(2, 1), h(3, 0.3), h(4, 0.85)]);
+    expect(w).toHaveLength(2);
+    expect(w[0]).toMatchObject({ start_iso: "2025-06-14T14:00:00.000Z", end_iso: "2025-06-14T16:00:00.000Z", hours: 2 });
+    expect(w[0].score).toBeCloseTo(0.95, 9);
+    expect(deploymentWindows([h(0, 0)])).toEqual([]);
+  });
+});
+
+describe("planDeployment", () => {
+  it("charts each forecast hour and keeps the reversal hours out of the windows", () => {
+    const plan = planDeployment(base, [], hourly([270, 270, 265, 275, 90, 90]));
+
+    expect(plan.hours).toHaveLength(6);
+    expect(plan.core_bearing_deg).toBeCloseTo(90, -1);
+    expect(plan.hours.map((h) => h.reversal)).toEqual([false, false, false, false, true, true]);
+    expect(plan.hours[0].axis_bearing_deg).toBeCloseTo(90, 0);
+    // Scent keeps spreading while the wind holds
+    expect(plan.hours[3].axis_length_m).toBeGreaterThan(plan.hours[0].axis_length_m);
+
+    expect(plan.start_points.length).toBeGreaterThan(0);
+    for (const sp of plan.start_points) {
+      for (const w of sp.windows) expect(Date.parse(w.end_iso)).toBeLessThanOrEqual(Date.parse(plan.hours[4].time_iso));
+    }
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest";
+import {
+  addMinutesIso,
+  computeScentEnvelope,
+  type EnvelopeInputs,
+  type EnvelopeOutput,
+  type LatLon,
+  type WindSample,
+} from "@/lib/scentEnvelope";
+import { areaM2 } from "./geo";
+
+// Golden outputs for representative scenarios. A coefficient change shows up as a diff in
+// tests/golden/*.json; review it, then accept with `npm run test:golden`.
+
+const LKP_ISO = "2025-06-14T12:00:00.000Z";
+
+const BASE: EnvelopeInputs = {
+  lkp_lat: 27.49,
+  lkp_lon: -82.45,
+  lkp_time_iso: LKP_ISO,
+  now_time_iso: addMinutesIso(LKP_ISO, 60),
+  wind_from_deg: 315,
+  wind_speed_mph: 8,
+  temperature_f: 75,
+  rel_humidity_pct: 50,
+  cloud: "partly",
+  precip: "none",
+  recent_rain: false,
+  terrain: "mixed",
+  stability: "neutral",
+};
+
+const SHIFT_SERIES: WindSample[] = [0, 1, 2, 3].map((h) => ({
+  time_iso: addMinutesIso(LKP_ISO, h * 60),
+  wind_from_deg: 270 + h * 30,
+  wind_speed_mph: 6 + h,
+}));
+
+const SCENARIOS: Record<string, Partial<EnvelopeInputs>> = {
+  "fresh-lkp": { now_time_iso: addMinutesIso(LKP_ISO, 5) },
+  "moderate-day-neutral": {},
+  "calm-night-stable": {
+    now_time_iso: addMinutesIso(LKP_ISO, 180),
+    wind_speed_mph: 1.5,
+    cloud: "night",
+    stability: "stable",
+    temperature_f: 58,
+    rel_humidity_pct: 88,
+  },
+  "hot-dry-convective": {
+    now_time_iso: addMinutesIso(LKP_ISO, 120),
+    wind_speed_mph: 14,
+    cloud: "clear",
+    stability: "convective",
+    temperature_f: 96,
+    rel_humidity_pct: 20,
+    terrain: "open",
+  },
+  "heavy-rain-forest": {
+    now_time_iso: addMinutesIso(LKP_ISO, 240),
+    wind_speed_mph: 20,
+    cloud: "overcast",
+    precip: "heavy",
+    recent_rain: true,
+    terrain: "forest",
+  },
+  "wind-shift-series": { now_time_iso: addMinutesIso(LKP_ISO, 210), wind_series: SHIFT_SERIES },
+  "gusty-meander": { wind_speed_mph: 4, wind_gust_mph: 9, wind_sigma_theta_deg: 28 },
+};
+
+const r = (v: number, dp: number) => Number(v.toFixed(dp));
+const ll = (p: LatLon) => ({ lat: r(p.lat, 6), lon: r(p.lon, 6) });
+
+function zone(apex: LatLon, ring: LatLon[]) {
+  const lats = ring.map((p) => p.lat);
+  const lons = ring.map((p) => p.lon);
+  return {
+    area_m2: Math.round(areaM2(apex, ring)),
+    bbox: [r(Math.min(...lats), 5), r(Math.min(...lons), 5), r(Math.max(...lats), 5), r(Math.max(...lons), 5)],
+  };
+}
+
+// Rounded to survive float noise across platforms while still catching coefficient changes
+function summarize(inputs: EnvelopeInputs, out: EnvelopeOutput) {
+  const apex = { lat: inputs.lkp_lat, lon: inputs.lkp_lon };
+  const mass = out.density.values.reduce((a, v) => a + v, 0);
+  return {
+    t_minutes: r(out.t_minutes, 3),
+    confidence_score: out.confidence_score,
+    confidence_band: out.confidence_band,
+    reset_recommendation_minutes: out.reset_recommendation_minutes,
+    axis_end: ll(out.axis[out.axis.length - 1]),
+    zones: {
+      core: zone(apex, out.polygons.core),
+      fringe: zone(apex, out.polygons.fringe),
+      residual: zone(apex, out.polygons.residual),
+    },
+    density: { nx: out.density.nx, ny: out.density.ny, mass: r(mass, 2) },
+    start_points: out.recommended_start_points.map((s) => ({ label: s.label, ...ll(s.point) })),
+    notes: out.deployment_notes,
+  };
+}
+
+describe("computeScentEnvelope golden scenarios", () => {
+  for (const [name, patch] of Object.entries(SCENARIOS)) {
+    it(name, async () => {
+      const inputs = { ...BASE, ...patch };
+      const summary = summarize(inputs, computeScentEnvelope(inputs));
+      await expect(JSON.stringify(summary, null, 2) + "\n").toMatchFileSnapshot(`./golden/${name}.json`);
+    });
+  }
+});
@@ -0,0 +1,129 @@
+import fc from "fast-check";
+import { describe, expect, it } from "vitest";
+import {
+  addMinutesIso,
+  computeScentEnvelope,
+  destinationPoint,
+  initialBearingDeg,
+  type EnvelopeInputs,
+} from "@/lib/scentEnvelope";
+import { areaM2, haversineM, ringInside } from "./geo";
+
+const LKP_ISO = "2025-06-14T12:00:00.000Z";
+
+// Each envelope is a 120×120 raster plus contouring; keep runs modest on one core
+const RUNS = 100;
+
+const inputsArb = fc.record({
+  lat: fc.double({ min: -60, max: 60, noNaN: true }),
+  lon: fc.double({ min: -179, max: 179, noNaN: true }),
+  from: fc.double({ min: 0, max: 359.9, noNaN: true }),
+  mph: fc.double({ min: 0, max: 35, noNaN: true }),
+  t: fc.integer({ min: 1, max: 360 }),
+  tempF: fc.integer({ min: 10, max: 105 }),
+  rh: fc.integer({ min: 5, max: 100 }),
+  cloud: fc.constantFrom("clear", "partly", "overcast", "night" as const),
+  precip: fc.constantFrom("none", "light", "moderate", "heavy" as const),
+  recentRain: fc.boolean(),
+  terrain: fc.constantFrom("mixed", "open", "forest", "urban", "swamp", "beach" as const),
+  stability: fc.constantFrom("stable", "neutral", "convective" as const),
+  sigma: fc.option(fc.double({ min: 0, max: 60, noNaN: true }), { nil: undefined }),
+});
+
+type Drawn = typeof inputsArb extends fc.Arbitrary<infer T> ? T : never;
+
+function envelopeInputs(d: Drawn, t = d.t): EnvelopeInputs {
+  return {
+    lkp_lat: d.lat,
+    lkp_lon: d.lon,
+    lkp_time_iso: LKP_ISO,
+    now_time_iso: addMinutesIso(LKP_ISO, t),
+    wind_from_deg: d.from,
+    wind_speed_mph: d.mph,
+    wind_sigma_theta_deg: d.sigma,
+    temperature_f: d.tempF,
+    rel_humidity_pct: d.rh,
+    cloud: d.cloud,
+    precip: d.precip,
+    recent_rain: d.recentRain,
+    terrain: d.terrain,
+    stability: d.stability,
+  };
+}
+
+describe("computeScentEnvelope invariants", () => {
+  it("nests core ⊂ fringe ⊂ residual", () => {
+    fc.assert(
+      fc.property(inputsArb, (d) => {
+        const out = computeScentEnvelope(envelopeInputs(d));
+        const apex = { lat: d.lat, lon: d.lon };
+        // Contours are traced on a raster; allow half a cell of slack at the boundary
+        const cell = Math.sqrt(areaM2(apex, out.polygons.residual)) / 60;
+        expect(ringInside(apex, out.polygons.core, out.polygons.fringe, cell)).toBe(true);
+        expect(ringInside(apex, out.polygons.fringe, out.polygons.residual, cell)).toBe(true);
+      }),
+      { numRuns: RUNS }
+    );
+  });
+
+  it("grows monotonically with elapsed time", () => {
+    fc.assert(
+      fc.property(inputsArb, fc.integer({ min: 5, max: 240 }), (d, dt) => {
+        const apex = { lat: d.lat, lon: d.lon };
+        const early = computeScentEnvelope(envelopeInputs(d));
+        const late = computeScentEnvelope(envelopeInputs(d, d.t + dt));
+        expect(late.t_minutes).toBeGreaterThan(early.t_minutes);
+        expect(areaM2(apex, late.polygons.residual)).toBeGreaterThanOrEqual(areaM2(apex, early.polygons.residual) * 0.99);
+        expect(late.confidence_score).toBeLessThanOrEqual(early.confidence_score);
+      }),
+      { numRuns: RUNS / 2 }
+    );
+  });
+
+  it("keeps confidence within [5, 100]", () => {
+    fc.assert(
+      fc.property(inputsArb, (d) => {
+        const out = computeScentEnvelope(envelopeInputs(d));
+        expect(out.confidence_score).toBeGreaterThanOrEqual(5);
+        expect(out.confidence_score).toBeLessThanOrEqual(100);
+        expect(out.confidence_band).toBe(
+          out.confidence_score >= 70 ? "High" : out.confidence_score >= 40 ? "Moderate" : "Low"
+        );
+      }),
+      { numRuns: RUNS }
+    );
+  });
+});
+
+describe("destinationPoint", () => {
+  it("round-trips distance and bearing", () => {
+    fc.assert(
+      fc.property(
+        fc.double({ min: -80, max: 80, noNaN: true }),
+        fc.double({ min: -180, max: 180, noNaN: true }),
+        fc.double({ min: 0, max: 359.999, noNaN: true }),
+        fc.double({ min: 1, max: 50000, noNaN: true }),
+        (lat, lon, bearing, dist) => {
+          const a = { lat, lon };
+          const b = destinationPoint(a, bearing, dist);
+          expect(haversineM(a, b)).toBeCloseTo(dist, 3);
+          // Bearing error as cross-track distance: a fixed angle is below double precision at 1 m
+          const back = initialBearingDeg(a, b);
+          const offDeg = Math.abs(((back - bearing + 540) % 360) - 180);
+          expect(offDeg * (Math.PI / 180) * dist).toBeLessThan(1e-4);
+
+          // And home again along the reverse bearing
+          const home = destinationPoint(b, initialBearingDeg(b, a), dist);
+          expect(haversineM(home, a)).toBeLessThan(1e-3);
+        }
+      ),
+      { numRuns: 500 }
+    );
+  });
+
+  it("keeps longitude in [-180, 180] across the antimeridian", () => {
+    const p = destinationPoint({ lat: 0, lon: 179.99 }, 90, 5000);
+    expect(p.lon).toBeLessThan(-179.9);
+    expect(p.lon).toBeGreaterThanOrEqual(-180);
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import {
+  axisGeometry,
+  moveAxisTip,
+  moveVertex,
+  normalizeOverride,
+  OVERRIDE_MAX_VERTICES,
+  simplifyRing,
+  startOverride,
+} from "@/lib/envelopeOverride";
+import { computeScentEnvelope, destinationPoint } from "@/lib/scentEnvelope";
+import { toXY } from "@/lib/grid";
+
+const LKP = { lat: 27.49, lon: -82.45 };
+const NOW = "2025-06-14T13:00:00.000Z";
+
+const envelope = computeScentEnvelope({
+  lkp_lat: LKP.lat,
+  lkp_lon: LKP.lon,
+  lkp_time_iso: "2025-06-14T12:00:00.000Z",
+  now_time_iso: NOW,
+  wind_from_deg: 270,
+  wind_speed_mph: 8,
+  cloud: "partly",
+  precip: "none",
+  recent_rain: false,
+  terrain: "mixed",
+  stability: "neutral",
+});
+
+describe("startOverride", () => {
+  it("copies the model into a few draggable corners per zone", () => {
+    const o = startOverride(envelope, "tree line to the south", NOW);
+    expect(o.note).toBe("tree line to the south");
+    expect(o.model_t_minutes).toBe(envelope.t_minutes);
+    for (const z of ["core", "fringe", "residual"] as const) {
+      expect(o.polygons[z].length).toBeLessThanOrEqual(OVERRIDE_MAX_VERTICES);
+      expect(o.polygons[z].length).toBeGreaterThanOrEqual(3);
+    }
+    // Wind from the west: the axis runs east
+    expect(axisGeometry(o.axis).bearing_deg).toBeCloseTo(90, 0);
+  });
+
+  it("keeps small rings as they are", () => {
+    const tri = [LKP, destinationPoint(LKP, 0, 100), destinationPoint(LKP, 90, 100)];
+    expect(simplifyRing(tri)).toEqual(tri);
+  });
+});
+
+describe("editing", () => {
+  const o = startOverride(envelope, "", NOW);
+  const model = axisGeometry(o.axis);
+
+  it("moves one vertex of one zone", () => {
+    const p = destinationPoint(LKP, 180, 50);
+    const moved = moveVertex(o, "core", 2, p, NOW);
+    expect(moved.polygons.core[2]).toEqual(p);
+    expect(moved.polygons.core.filter((v, i) => v !== o.polygons.core[i])).toHaveLength(1);
+    expect(moved.polygons.fringe).toBe(o.polygons.fringe);
+  });
+
+  it("rotates every zone about the LKP with the axis tip", () => {
+    const tip = destinationPoint(LKP, model.bearing_deg + 30, model.length_m);
+    const r = moveAxisTip(o, tip, NOW);
+    expect(axisGeometry(r.axis).bearing_deg).toBeCloseTo(model.bearing_deg + 30, 1);
+    expect(axisGeometry(r.axis).length_m).toBeCloseTo(model.length_m, 0);
+    // A pure turn keeps every corner's distance from the LKP
+    const dist = (p: { lat: number; lon: number }) => Math.hypot(toXY(LKP, p).x, toXY(LKP, p).y);
+    r.polygons.residual.forEach((p, i) => expect(dist(p)).toBeCloseTo(dist(o.polygons.residual[i]), 0));
+  });
+
+  it("stretches along the axis but not across it", () => {
+    const tip = destinationPoint(LKP, model.bearing_deg, model.length_m * 2);
+    const s = moveAxisTip(o, tip, NOW);
+    expect(axisGeometry(s.axis).length_m).toBeCloseTo(model.length_m * 2, 0);
+    // Axis runs east: x doubles downwind, y (across) is unchanged
+    s.polygons.fringe.forEach((p, i) => {
+      const a = toXY(LKP, o.polygons.fringe[i]);
+      const b = toXY(LKP, p);
+      expect(b.y).toBeCloseTo(a.y, 0);
+      expect(b.x).toBeCloseTo(a.x > 0 ? a.x * 2 : a.x, 0);
+    });
+  });
+});
+
+describe("normalizeOverride", () => {
+  it("keeps valid overrides and drops broken geometry", () => {
+    const o = startOverride(envelope, "ridge", NOW);
+    expect(normalizeOverride(JSON.parse(JSON.stringify(o)))).toEqual(o);
+    expect(normalizeOverride({ ...o, polygons: { ...o.polygons, core: [LKP] } })).toBeNull();
+    expect(normalizeOverride(null)).toBeNull();
+  });
+});
@@ -0,0 +1,66 @@
+// Small planar helpers for assertions on envelope polygons (local equirectangular about an origin).
+
+import type { LatLon } from "@/lib/scentEnvelope";
+
+const R_EARTH_M = 6371000;
+const toRad = Math.PI / 180;
+
+export type XY = { x: number; y: number };
+
+export function toLocal(origin: LatLon, p: LatLon): XY {
+  return {
+    x: (p.lon - origin.lon) * toRad * R_EARTH_M * Math.cos(origin.lat * toRad),
+    y: (p.lat - origin.lat) * toRad * R_EARTH_M,
+  };
+}
+
+export function haversineM(a: LatLon, b: LatLon) {
+  const dLat = (b.lat - a.lat) * toRad;
+  const dLon = (b.lon - a.lon) * toRad;
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(a.lat * toRad) * Math.cos(b.lat * toRad) * Math.sin(dLon / 2) ** 2;
+  return 2 * R_EARTH_M * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+export function areaM2(origin: LatLon, ring: LatLon[]) {
+  const pts = ring.map((p) => toLocal(origin, p));
+  let a = 0;
+  for (let i = 0; i < pts.length; i++) {
+    const p = pts[i];
+    const q = pts[(i + 1) % pts.length];
+    a += p.x * q.y - q.x * p.y;
+  }
+  return Math.abs(a) / 2;
+}
+
+export function pointInPolygon(p: XY, poly: XY[]) {
+  let inside = false;
+  for (let i = 0, j = poly.length - 1; i < poly.length; j = i++) {
+    const a = poly[i];
+    const b = poly[j];
+    if (a.y > p.y !== b.y > p.y && p.x < ((b.x - a.x) * (p.y - a.y)) / (b.y - a.y) + a.x) inside = !inside;
+  }
+  return inside;
+}
+
+export function distToPolygonEdge(p: XY, poly: XY[]) {
+  let best = Number.POSITIVE_INFINITY;
+  for (let i = 0, j = poly.length - 1; i < poly.length; j = i++) {
+    const a = poly[j];
+    const b = poly[i];
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const len2 = dx * dx + dy * dy;
+    const t = len2 ? Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / len2)) : 0;
+    best = Math.min(best, Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy)));
+  }
+  return best;
+}
+
+/** Every vertex of `inner` lies inside `outer` or within `tolM` of its boundary. */
+export function ringInside(origin: LatLon, inner: LatLon[], outer: LatLon[], tolM: number) {
+  const poly = outer.map((p) => toLocal(origin, p));
+  return inner.every((v) => {
+    const p = toLocal(origin, v);
+    return pointInPolygon(p, poly) || distToPolygonEdge(p, poly) <= tolM;
+  });
+}
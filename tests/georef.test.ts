@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+import {
+  fitGeoref,
+  imageBearingDeg,
+  latLonToPixel,
+  pixelToLatLon,
+  ringToPixels,
+  type ControlPoint,
+  type PixelPoint,
+} from "@/lib/georef";
+import { toLatLon, toXY } from "@/lib/grid";
+
+const O = { lat: 27.49, lon: -82.45 };
+
+// A phone screenshot rotated 30° clockwise at 2 m/px: image-up points to bearing 330°
+function rotatedGround(px: PixelPoint) {
+  const a = (-30 * Math.PI) / 180;
+  const x = px.x * 2;
+  const y = -px.y * 2; // image y grows down
+  return toLatLon(O, { x: x * Math.cos(a) + y * Math.sin(a), y: -x * Math.sin(a) + y * Math.cos(a) });
+}
+
+// Oblique view: a plane homography (perspective foreshortening towards the top of the image)
+function obliqueGround(px: PixelPoint) {
+  const w = 1 + 0.0006 * px.y;
+  return toLatLon(O, { x: (1.5 * px.x + 0.2 * px.y) / w, y: (-2 * px.y + 300) / w });
+}
+
+function cps(ground: (px: PixelPoint) => { lat: number; lon: number }, pxs: PixelPoint[]): ControlPoint[] {
+  return pxs.map((px, i) => ({ id: `cp${i}`, px, ...ground(px) }));
+}
+
+const corners = [
+  { x: 50, y: 60 },
+  { x: 900, y: 80 },
+  { x: 880, y: 700 },
+  { x: 70, y: 650 },
+  { x: 480, y: 380 },
+];
+
+describe("fitGeoref", () => {
+  it("recovers a rotated screenshot from three points with an affine fit", () => {
+    const g = fitGeoref(cps(rotatedGround, corners.slice(0, 3)), "affine");
+    expect(g).not.toBeNull();
+    const p = { x: 300, y: 500 };
+    const q = toXY(rotatedGround(p), pixelToLatLon(g!, p)!);
+    expect(Math.hypot(q.x, q.y)).toBeLessThan(0.01);
+    expect(latLonToPixel(g!, rotatedGround(p))!.x).toBeCloseTo(300, 3);
+
+    // North on the image sits 30° clockwise of image-up
+    expect(imageBearingDeg(g!, O, 0)).toBeCloseTo(30, 3);
+
+    // Envelope rings land on the pixels they were measured from
+    const ring = ringToPixels(g!, corners.map(rotatedGround));
+    ring.forEach((q, i) => expect(Math.hypot(q.x - corners[i].x, q.y - corners[i].y)).toBeLessThan(1e-3));
+  });
+
+  it("needs a projective fit for an oblique view and reports residuals", () => {
+    const points = cps(obliqueGround, corners);
+    const affine = fitGeoref(points, "affine")!;
+    const projective = fitGeoref(points, "projective")!;
+    expect(affine.rms_m).toBeGreaterThan(1);
+    expect(projective.rms_m).toBeLessThan(0.01);
+    expect(projective.residuals.map((r) => r.id)).toEqual(points.map((p) => p.id));
+
+    const p = { x: 600, y: 200 };
+    const q = toXY(obliqueGround(p), pixelToLatLon(projective, p)!);
+    expect(Math.hypot(q.x, q.y)).toBeLessThan(0.01);
+  });
+
+  it("keeps ground behind an oblique camera off the image and clips rings at the horizon", () => {
+    // obliqueGround sends the pixel line at infinity to ground y = −3333 m, and the image's
+    // horizon (w = 0) sits at pixel y ≈ −1667; ground further south is behind the camera
+    const g = fitGeoref(cps(obliqueGround, corners), "projective")!;
+    expect(latLonToPixel(g, toLatLon(O, { x: 0, y: -8000 }))).toBeNull();
+    expect(pixelToLatLon(g, { x: 400, y: -3000 })).toBeNull();
+
+    const ring = [
+      { x: -500, y: 1000 },
+      { x: 500, y: 1000 },
+      { x: 500, y: -10000 },
+      { x: -500, y: -10000 },
+    ].map((q) => toLatLon(O, q));
+    const px = ringToPixels(g, ring);
+    expect(px.length).toBeGreaterThanOrEqual(4);
+    for (const p of px) {
+      expect(Number.isFinite(p.x) && Number.isFinite(p.y)).toBe(true);
+      expect(p.y).toBeGreaterThan(-1667);
+    }
+  });
+
+  it("flags the point that was typed wrong", () => {
+    const points = cps(rotatedGround, corners);
+    points[2] = { ...points[2], lat: points[2].lat! + 0.001 }; // ~110 m off
+    const g = fitGeoref(points, "affine")!;
+    const worst = g.residuals.reduce((a, r) => (r.error_m > a.error_m ? r : a));
+    expect(worst.id).toBe("cp2");
+  });
+
+  it("refuses too few, incomplete or collinear points", () => {
+    const points = cps(rotatedGround, corners);
+    expect(fitGeoref(points.slice(0, 2), "affine")).toBeNull();
+    expect(fitGeoref(points.slice(0, 3), "projective")).toBeNull();
+    expect(fitGeoref([...points.slice(0, 2), { ...points[2], lon: null }], "affine")).toBeNull();
+    const line = cps(rotatedGround, [{ x: 0, y: 0 }, { x: 100, y: 100 }, { x: 200, y: 200 }]);
+    expect(fitGeoref(line, "affine")).toBeNull();
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { contourRings, largestRing, toXY, type GeoGrid } from "@/lib/grid";
+import { areaM2 } from "./geo";
+
+const O = { lat: 27.49, lon: -82.45 };
+
+// 10 m cells with value 1 in each listed block [i0, j0, i1, j1] (inclusive), 0 elsewhere
+function grid(blocks: Array<[number, number, number, number]>, nx = 20, ny = 20): GeoGrid {
+  const values = new Float32Array(nx * ny);
+  for (const [i0, j0, i1, j1] of blocks) {
+    for (let j = j0; j <= j1; j++) for (let i = i0; i <= i1; i++) values[j * nx + i] = 1;
+  }
+  return { origin: O, minX: 0, minY: 0, cell_m: 10, nx, ny, values };
+}
+
+describe("contourRings", () => {
+  it("traces one closed ring around a block, halfway between inside and outside centres", () => {
+    const rings = contourRings(grid([[5, 5, 8, 7]]), 0.5);
+    expect(rings).toHaveLength(1);
+    const ring = rings[0];
+    expect(ring[0]).toEqual(ring[ring.length - 1]);
+
+    // Edges run along the cell boundaries; marching squares cuts each corner by a 5 m × 5 m triangle
+    const xy = ring.map((p) => toXY(O, p));
+    expect(Math.min(...xy.map((q) => q.x))).toBeCloseTo(50, 6);
+    expect(Math.max(...xy.map((q) => q.x))).toBeCloseTo(90, 6);
+    expect(Math.min(...xy.map((q) => q.y))).toBeCloseTo(50, 6);
+    expect(Math.max(...xy.map((q) => q.y))).toBeCloseTo(80, 6);
+    expect(areaM2(O, ring)).toBeCloseTo(40 * 30 - 4 * 12.5, 3);
+  });
+
+  it("keeps separate blobs apart and joins diagonal neighbours at a saddle", () => {
+    expect(contourRings(grid([[2, 2, 3, 3], [10, 10, 14, 14]]), 0.5)).toHaveLength(2);
+    expect(contourRings(grid([[5, 5, 5, 5], [6, 6, 6, 6]]), 0.5)).toHaveLength(1);
+  });
+
+  it("returns nothing when no cell reaches the level", () => {
+    expect(contourRings(grid([[5, 5, 8, 7]]), 1.5)).toEqual([]);
+  });
+});
+
+describe("largestRing", () => {
+  it("picks the ring with the most area and drops small islands", () => {
+    const g = grid([[2, 2, 3, 3], [10, 10, 14, 14]]);
+    const ring = largestRing(g, 0.5)!;
+    const xs = ring.map((p) => toXY(O, p).x);
+    expect(Math.min(...xs)).toBeCloseTo(100, 6);
+    expect(areaM2(O, ring)).toBeCloseTo(50 * 50 - 50, 3);
+    expect(largestRing(grid([]), 0.5)).toBeNull();
+  });
+});
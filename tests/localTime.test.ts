@@ -0,0 +1,14 @@
+import { describe, expect, it } from "vitest";
+import { isoToLocalInput, localInputToIso } from "@/lib/localTime";
+
+describe("datetime-local helpers", () => {
+  it("round-trips to the minute in the browser's zone", () => {
+    const iso = "2025-06-14T14:20:00.000Z";
+    expect(localInputToIso(isoToLocalInput(iso))).toBe(iso);
+  });
+
+  it("returns null for a cleared or unparseable input instead of throwing", () => {
+    expect(localInputToIso("")).toBeNull();
+    expect(localInputToIso("not a time")).toBeNull();
+  });
+});
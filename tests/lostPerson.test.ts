@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import {
+  computeSegmentPoa,
+  lpbRings,
+  ringSectorSegments,
+  SUBJECT_CATEGORY_IDS,
+  travelCdf,
+} from "@/lib/lostPerson";
+import { addMinutesIso, computeScentEnvelope } from "@/lib/scentEnvelope";
+
+const LKP = { lat: 27.49, lon: -82.45 };
+const LKP_ISO = "2025-06-14T12:00:00.000Z";
+
+describe("lpbRings", () => {
+  it("uses the full table once the subject could have walked the 95% distance", () => {
+    expect(lpbRings("hiker", "flat", 24 * 60).map((r) => r.radius_m)).toEqual([400, 1100, 2000, 6100]);
+    expect(lpbRings("hiker", "mountain", 24 * 60).map((r) => r.radius_m)).toEqual([700, 1900, 3600, 11300]);
+  });
+
+  it("shrinks every ring by the same factor early on", () => {
+    // 1 h at 3 km/h is half of the 6.1 km 95% distance
+    const early = lpbRings("hiker", "flat", 60 * (6.1 / 3) * 0.5);
+    expect(early.map((r) => r.radius_m)).toEqual([200, 550, 1000, 3050].map((v) => expect.closeTo(v, 6)));
+  });
+
+  it("is ordered for every category", () => {
+    for (const c of SUBJECT_CATEGORY_IDS) {
+      for (const t of ["flat", "mountain"] as const) {
+        const r = lpbRings(c, t, 600).map((g) => g.radius_m);
+        expect(r).toEqual(r.slice().sort((a, b) => a - b));
+      }
+    }
+  });
+});
+
+describe("travelCdf", () => {
+  it("passes through the ring percentages and reaches 1 past the tail", () => {
+    const rings = lpbRings("dementia", "flat", 24 * 60);
+    for (const r of rings) expect(travelCdf(r.radius_m, rings)).toBeCloseTo(r.pct / 100, 9);
+    expect(travelCdf(0, rings)).toBe(0);
+    expect(travelCdf(rings[3].radius_m * 2, rings)).toBe(1);
+  });
+});
+
+describe("computeSegmentPoa", () => {
+  const rings = lpbRings("child_4_6", "flat", 120);
+  const segments = ringSectorSegments(LKP, rings);
+  const envelope = computeScentEnvelope({
+    lkp_lat: LKP.lat,
+    lkp_lon: LKP.lon,
+    lkp_time_iso: LKP_ISO,
+    now_time_iso: addMinutesIso(LKP_ISO, 120),
+    wind_from_deg: 315,
+    wind_speed_mph: 8,
+    cloud: "partly",
+    precip: "none",
+    recent_rain: false,
+    terrain: "mixed",
+    stability: "neutral",
+  });
+
+  it("splits the travel distribution over the ring sectors", () => {
+    expect(segments).toHaveLength(1 + 3 * 8);
+    const res = computeSegmentPoa(LKP, rings, [], segments, 0.5);
+    const travel = res.segments.reduce((a, s) => a + s.p_travel, 0);
+    expect(travel).toBeCloseTo(0.95, 2);
+    // Without a scent envelope POA is the travel share alone
+    for (const s of res.segments) expect(s.poa).toBe(s.p_travel);
+    expect(res.rest_of_world).toBeCloseTo(0.05, 2);
+  });
+
+  it("weights scent toward the downwind sectors and keeps POA + rest of world at 1", () => {
+    const res = computeSegmentPoa(LKP, rings, [{ density: envelope.density, weight: 1 }], segments, 0.5);
+    const total = res.segments.reduce((a, s) => a + s.poa, 0) + res.rest_of_world;
+    expect(total).toBeCloseTo(1, 9);
+
+    // Wind from the NW carries scent to the SE
+    const byId = new Map(res.segments.map((s) => [s.id, s]));
+    expect(byId.get("lpb-2-SE")!.p_scent).toBeGreaterThan(byId.get("lpb-2-NW")!.p_scent);
+    expect(byId.get("lpb-2-SE")!.poa).toBeGreaterThan(byId.get("lpb-2-NW")!.poa);
+  });
+});
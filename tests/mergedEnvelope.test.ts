@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { computeMergedEnvelope, type EnvelopeSource } from "@/lib/mergedEnvelope";
+import { addMinutesIso, computeScentEnvelope, type EnvelopeInputs } from "@/lib/scentEnvelope";
+import { toLatLon } from "@/lib/grid";
+import { ringInside } from "./geo";
+
+const O = { lat: 27.49, lon: -82.45 };
+const LKP_ISO = "2025-06-14T12:00:00.000Z";
+
+const INPUTS: EnvelopeInputs = {
+  lkp_lat: O.lat,
+  lkp_lon: O.lon,
+  lkp_time_iso: LKP_ISO,
+  now_time_iso: addMinutesIso(LKP_ISO, 60),
+  wind_from_deg: 270,
+  wind_speed_mph: 6,
+  cloud: "partly",
+  precip: "none",
+  recent_rain: false,
+  terrain: "mixed",
+  stability: "neutral",
+};
+
+// Two sightings 6 km apart north–south, so their envelopes (blown east) never touch
+function sources(weakWeight: number): EnvelopeSource[] {
+  const far = toLatLon(O, { x: 0, y: 6000 });
+  return [
+    { lkp_id: "a", label: "A", weight: 1, inputs: INPUTS },
+    { lkp_id: "b", label: "B", weight: weakWeight, inputs: { ...INPUTS, lkp_lat: far.lat, lkp_lon: far.lon } },
+  ];
+}
+
+describe("computeMergedEnvelope", () => {
+  it("keeps a low-credibility source's zones in full in union mode", () => {
+    const m = computeMergedEnvelope(sources(0.2), "union")!;
+    expect(m.polygons.core).toHaveLength(2);
+    expect(m.polygons.residual).toHaveLength(2);
+
+    // Same zones whatever the weight: union is the plain union of the sources
+    const equal = computeMergedEnvelope(sources(1), "union")!;
+    expect(m.polygons).toEqual(equal.polygons);
+  });
+
+  it("fades a low-credibility source in weighted mode", () => {
+    // B's core scores 1.0 × 0.2: below the fringe level, only just inside the residual one
+    const m = computeMergedEnvelope(sources(0.2), "weighted")!;
+    expect(m.polygons.core).toHaveLength(1);
+    expect(m.polygons.fringe).toHaveLength(1);
+    expect(m.polygons.residual).toHaveLength(2);
+  });
+
+  it("reinforces overlapping sources in weighted mode", () => {
+    const alone = computeScentEnvelope(INPUTS);
+    const both = computeMergedEnvelope(
+      [
+        { lkp_id: "a", label: "A", weight: 1, inputs: INPUTS },
+        { lkp_id: "b", label: "B", weight: 1, inputs: INPUTS },
+      ],
+      "weighted"
+    )!;
+    // Two fringes on top of each other add up past the core level
+    expect(both.polygons.core).toHaveLength(1);
+    expect(ringInside(O, alone.polygons.fringe, both.polygons.core[0], 100)).toBe(true);
+  });
+
+  it("ranks start points across sources by credibility-weighted score", () => {
+    const m = computeMergedEnvelope(sources(0.2), "union")!;
+    const scores = m.ranked_start_points.map((s) => s.score);
+    expect(scores).toEqual([...scores].sort((a, b) => b - a));
+    expect(m.ranked_start_points[0].lkp_id).toBe("a");
+    expect(computeMergedEnvelope(sources(0).slice(1), "union")).toBeNull();
+  });
+});
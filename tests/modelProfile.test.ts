@@ -0,0 +1,119 @@
+import { describe, expect, it } from "vitest";
+import {
+  BUILTIN_PROFILES,
+  DEFAULT_PROFILE,
+  normalizeProfile,
+  parseProfileFile,
+  profileProblems,
+  serializeProfile,
+  type ModelProfile,
+} from "@/lib/modelProfile";
+import { addMinutesIso, computeScentEnvelope, type EnvelopeInputs } from "@/lib/scentEnvelope";
+import { normalizeIncident } from "@/lib/incident";
+import { areaM2 } from "./geo";
+
+const LKP_ISO = "2025-06-14T12:00:00.000Z";
+
+const INPUTS: EnvelopeInputs = {
+  lkp_lat: 27.49,
+  lkp_lon: -82.45,
+  lkp_time_iso: LKP_ISO,
+  now_time_iso: addMinutesIso(LKP_ISO, 90),
+  wind_from_deg: 315,
+  wind_speed_mph: 8,
+  temperature_f: 75,
+  rel_humidity_pct: 50,
+  cloud: "partly",
+  precip: "none",
+  recent_rain: false,
+  terrain: "mixed",
+  stability: "neutral",
+};
+
+const byId = (id: string) => BUILTIN_PROFILES.find((p) => p.id === id) as ModelProfile;
+
+describe("model profiles in the envelope", () => {
+  it("reproduces the unprofiled model with the default profile", () => {
+    expect(computeScentEnvelope({ ...INPUTS, profile: DEFAULT_PROFILE })).toEqual(computeScentEnvelope(INPUTS));
+  });
+
+  it("gives trailing a narrower, slower-decaying envelope than air-scent", () => {
+    const apex = { lat: INPUTS.lkp_lat, lon: INPUTS.lkp_lon };
+    const trailing = computeScentEnvelope({ ...INPUTS, profile: byId("trailing") });
+    const air = computeScentEnvelope({ ...INPUTS, profile: byId("air-scent") });
+    expect(areaM2(apex, trailing.polygons.residual)).toBeLessThan(areaM2(apex, air.polygons.residual));
+    expect(trailing.confidence_score).toBeGreaterThan(air.confidence_score);
+  });
+
+  it("has unique builtin ids", () => {
+    expect(new Set(BUILTIN_PROFILES.map((p) => p.id)).size).toBe(BUILTIN_PROFILES.length);
+  });
+});
+
+describe("profile files", () => {
+  it("round-trips a custom profile", () => {
+    const custom: ModelProfile = {
+      ...normalizeProfile({ ...byId("hrd"), id: "custom_1", name: "Rex, HRD" }),
+      width: { base_ft: 12, per_min_ft: 1.5, sqrt_ft: 33 },
+    };
+    expect(parseProfileFile(serializeProfile(custom, LKP_ISO))).toEqual(custom);
+  });
+
+  it("fills missing and non-numeric coefficients from the defaults", () => {
+    const p = normalizeProfile({
+      id: "x",
+      discipline: "sled" as ModelProfile["discipline"],
+      length: { base_ft: "45", per_min_ft: "fast" } as unknown as ModelProfile["length"],
+    });
+    expect(p.discipline).toBe("general");
+    expect(p.length).toEqual({ ...DEFAULT_PROFILE.length, base_ft: 45 });
+    expect(p.zones).toEqual(DEFAULT_PROFILE.zones);
+    expect(p.builtin).toBeUndefined();
+  });
+
+  it("falls back to the defaults for out-of-range coefficients when loading", () => {
+    const p = normalizeProfile({
+      id: "x",
+      length: { ...DEFAULT_PROFILE.length, wind_time_const_min: 0, per_min_ft: 0 },
+      confidence_tau_min: { neutral: -60, favourable: 240, harsh: 120 },
+      zones: { ...DEFAULT_PROFILE.zones, density: { core: 0.2, fringe: 0.3, residual: 0.1 } },
+    });
+    expect(p.length).toEqual({ ...DEFAULT_PROFILE.length, per_min_ft: 0 });
+    expect(p.confidence_tau_min.neutral).toBe(DEFAULT_PROFILE.confidence_tau_min.neutral);
+    expect(p.zones.density).toEqual(DEFAULT_PROFILE.zones.density);
+    expect(profileProblems(p)).toEqual([]);
+  });
+
+  const zones = DEFAULT_PROFILE.zones;
+  const density = (core: number, fringe: number, residual: number) => ({
+    zones: { ...zones, density: { core, fringe, residual } },
+  });
+  it.each([
+    ["a zero time constant", { length: { ...DEFAULT_PROFILE.length, wind_time_const_min: 0 } }, /wind_time_const_min/],
+    ["a negative zone length", { zones: { ...zones, len: { ...zones.len, core: -0.5 } } }, /zones\.len\.core/],
+    ["a negative confidence τ", { confidence_tau_min: { neutral: 180, favourable: 240, harsh: -1 } }, /harsh/],
+    ["a negative optional term", { width: { ...DEFAULT_PROFILE.width, sqrt_ft: -5 } }, /sqrt_ft must be 0 or more/],
+    ["unordered density levels", density(0.3, 0.3, 0.12), /core > fringe > residual/],
+    ["a density level at the peak", density(1, 0.3, 0.12), /1 > core/],
+  ])("refuses to import a profile with %s", (_, patch, error) => {
+    const file = { format: "scent-cone-profile", version: 1, profile: { ...byId("trailing"), ...patch } };
+    expect(() => parseProfileFile(JSON.stringify(file))).toThrow(error);
+  });
+
+  it("has builtin profiles in range", () => {
+    for (const p of BUILTIN_PROFILES) expect(profileProblems(p)).toEqual([]);
+  });
+
+  it.each([
+    ["{", "Not a JSON file"],
+    [JSON.stringify({ format: "scent-cone-incident", version: 1 }), "Not a scent-cone profile file"],
+    [JSON.stringify({ format: "scent-cone-profile", version: 9, profile: {} }), /newer than this app supports/],
+    [JSON.stringify({ format: "scent-cone-profile", version: 1 }), "Profile file has no profile"],
+  ])("rejects %s", (text, error) => {
+    expect(() => parseProfileFile(text)).toThrow(error);
+  });
+
+  it("defaults incidents saved before profiles existed", () => {
+    expect(normalizeIncident({ id: "old" }).modelProfile).toBe(DEFAULT_PROFILE);
+  });
+});
@@ -0,0 +1,170 @@
+import { describe, expect, it } from "vitest";
+import { planToGeoJSON, planToGPX, planToKML, type PlanExport } from "@/lib/planExport";
+import { computeMergedEnvelope } from "@/lib/mergedEnvelope";
+import { addMinutesIso, computeScentEnvelope, type EnvelopeInputs } from "@/lib/scentEnvelope";
+import { toLatLon } from "@/lib/grid";
+import type { LKP } from "@/lib/incident";
+
+const O = { lat: 27.49, lon: -82.45 };
+const LKP_ISO = "2025-06-14T12:00:00.000Z";
+
+const INPUTS: EnvelopeInputs = {
+  lkp_lat: O.lat,
+  lkp_lon: O.lon,
+  lkp_time_iso: LKP_ISO,
+  now_time_iso: addMinutesIso(LKP_ISO, 60),
+  wind_from_deg: 270,
+  wind_speed_mph: 6,
+  cloud: "partly",
+  precip: "none",
+  recent_rain: false,
+  terrain: "mixed",
+  stability: "neutral",
+};
+
+const FAR = toLatLon(O, { x: 0, y: 6000 });
+const LKPS: LKP[] = [
+  { id: "a", lat: O.lat, lon: O.lon, timeISO: LKP_ISO, label: "Trailhead" },
+  { id: "b", lat: FAR.lat, lon: FAR.lon, timeISO: LKP_ISO, label: "Creek sighting", weight: 0.5 },
+];
+
+function basePlan(): PlanExport {
+  return {
+    name: "Test incident",
+    generated_iso: "2025-06-14T13:00:00.000Z",
+    lkp: LKPS[0],
+    lkps: LKPS,
+    traps: [],
+    envelope: null,
+    merged: null,
+    bands: [],
+    wind: { source: "manual", from_deg: 270, speed_mph: 6, history_samples: 0 },
+    profile: { id: "default", label: "Default" },
+    segments: [],
+    override: null,
+    cone: null,
+  };
+}
+
+function mergedPlan(): PlanExport {
+  const m = computeMergedEnvelope(
+    LKPS.map((k) => ({
+      lkp_id: k.id,
+      label: k.label ?? "LKP",
+      weight: k.weight ?? 1,
+      inputs: { ...INPUTS, lkp_lat: k.lat, lkp_lon: k.lon },
+    })),
+    "union"
+  )!;
+  return {
+    ...basePlan(),
+    merged: {
+      mode: m.mode,
+      sources: m.per_source.map((s) => ({ lkp_id: s.lkp_id, label: s.label, weight: s.weight })),
+      polygons: m.polygons,
+      start_points: m.ranked_start_points,
+    },
+  };
+}
+
+describe("plan export with merged LKPs", () => {
+  it("exports every merged zone ring and the ranked start points tagged with their source", () => {
+    const plan = mergedPlan();
+    const m = plan.merged!;
+    const fc = planToGeoJSON(plan);
+
+    const zones = fc.features.filter((f) => f.properties.kind === "envelope");
+    expect(zones.every((f) => f.properties.source === "merged" && f.properties.merge_mode === "union")).toBe(true);
+    expect(zones).toHaveLength(m.polygons.core.length + m.polygons.fringe.length + m.polygons.residual.length);
+    expect(zones.filter((f) => f.properties.zone === "core")).toHaveLength(2);
+
+    const starts = fc.features.filter((f) => f.properties.kind === "start_point");
+    expect(starts.map((f) => f.properties.rank)).toEqual(m.start_points.map((_, i) => i + 1));
+    expect(starts.map((f) => f.properties.lkp_label)).toEqual(m.start_points.map((sp) => sp.lkp_label));
+    expect(new Set(starts.map((f) => f.properties.lkp_id))).toEqual(new Set(["a", "b"]));
+
+    // Both sources were modelled, not just the active LKP
+    const lkps = fc.features.filter((f) => f.properties.kind === "lkp");
+    expect(lkps.map((f) => f.properties.modelled)).toEqual([true, true]);
+  });
+
+  it("names each start point's source LKP in KML and GPX", () => {
+    const plan = mergedPlan();
+    const sp = plan.merged!.start_points;
+    const kml = planToKML(plan);
+    const gpx = planToGPX(plan);
+
+    expect(kml).toContain("<name>Merged envelope (union)</name>");
+    expect(kml).toContain("<name>Core 1</name>");
+    expect(kml).toContain("<name>Core 2</name>");
+    expect(kml).toContain(`<name>1. ${sp[0].label} (${sp[0].lkp_label})</name>`);
+    expect(gpx.match(/<wpt /g)).toHaveLength(sp.length + LKPS.length);
+    expect(gpx).toContain(`<desc>from ${sp[0].lkp_label}; score ${sp[0].score}; `);
+    expect(gpx).toContain("Creek sighting");
+  });
+});
+
+describe("plan export as KML and GPX", () => {
+  const envelope = computeScentEnvelope(INPUTS);
+
+  function singlePlan(): PlanExport {
+    return {
+      ...basePlan(),
+      name: "Smith & <Jones>",
+      lkp: { ...LKPS[0], label: "O'Brien's car" },
+      lkps: [{ ...LKPS[0], label: "O'Brien's car" }],
+      traps: [{ id: "t1", lat: O.lat, lon: O.lon + 0.002, label: 'Culvert <N> & "gate"' }],
+      envelope,
+      bands: [
+        {
+          minutes: 30,
+          polygons: envelope.polygons,
+          confidence_score: envelope.confidence_score,
+          confidence_band: envelope.confidence_band,
+        },
+      ],
+    };
+  }
+
+  // Every & must start an entity; no raw < or > inside element text
+  const BARE_AMP = /&(?!amp;|lt;|gt;|quot;|apos;)/;
+  const texts = (xml: string) => [...xml.matchAll(/>([^<]*)</g)].map((m) => m[1]);
+
+  it("escapes names and descriptions in KML", () => {
+    const kml = planToKML(singlePlan());
+    expect(kml).not.toMatch(BARE_AMP);
+    expect(texts(kml).some((t) => t.includes(">"))).toBe(false);
+    expect(kml).toContain("<name>Smith &amp; &lt;Jones&gt;</name>");
+    expect(kml).toContain("<name>O&apos;Brien&apos;s car</name>");
+    expect(kml).toContain("<name>Culvert &lt;N&gt; &amp; &quot;gate&quot;</name>");
+  });
+
+  it("writes styled, closed zone polygons with the model inputs in KML", () => {
+    const kml = planToKML(singlePlan());
+    for (const zone of ["core", "fringe", "residual"]) expect(kml).toContain(`<Style id="${zone}">`);
+
+    const folder = kml.match(/<Folder><name>Envelope<\/name>([\s\S]*?)<\/Folder>/)![1];
+    const rings = [...folder.matchAll(/<coordinates>([^<]+)<\/coordinates>/g)].map((m) => m[1].split(" "));
+    expect(rings).toHaveLength(3);
+    for (const r of rings) expect(r[r.length - 1]).toBe(r[0]);
+    expect(folder).toContain("<styleUrl>#core</styleUrl>");
+    expect(folder).toContain("wind from 270° @ 6.0 mph (manual)");
+    expect(folder).toContain("profile Default");
+
+    expect(kml).toContain("<name>30 min</name>");
+    expect(kml.match(/<Folder><name>Start points<\/name>[\s\S]*?<\/Folder>/)![0].match(/<Placemark>/g)).toHaveLength(
+      envelope.recommended_start_points.length
+    );
+  });
+
+  it("writes start points, LKPs and traps as escaped GPX waypoints", () => {
+    const gpx = planToGPX(singlePlan());
+    expect(gpx).not.toMatch(BARE_AMP);
+    expect(gpx).toContain("<metadata><name>Smith &amp; &lt;Jones&gt;</name>");
+    expect(gpx.match(/<wpt /g)).toHaveLength(envelope.recommended_start_points.length + 2);
+    expect(gpx).toContain(`<name>START 1 ${envelope.recommended_start_points[0].label}</name>`);
+    expect(gpx).toContain("<name>TRAP Culvert &lt;N&gt; &amp; &quot;gate&quot;</name>");
+    // The LKP carries its time; coordinates are fixed to 7 decimals
+    expect(gpx).toContain(`<wpt lat="${O.lat.toFixed(7)}" lon="${O.lon.toFixed(7)}"><time>${LKP_ISO}</time>`);
+  });
+});
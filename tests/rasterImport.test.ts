@@ -0,0 +1,232 @@
+import { describe, expect, it } from "vitest";
+import { project } from "@/lib/dem";
+import { fitGeoref, pixelToLatLon } from "@/lib/georef";
+import {
+  crsFromPrj,
+  decodeGeoPdf,
+  decodeGeoTiff,
+  georefFromTransform,
+  parseWorldFile,
+  worldFileTransform,
+} from "@/lib/rasterImport";
+
+const UTM17N_PRJ =
+  'PROJCS["WGS 84 / UTM zone 17N",GEOGCS["WGS 84",DATUM["WGS_1984",SPHEROID["WGS 84",6378137,298.257223563]]],' +
+  'PROJECTION["Transverse_Mercator"],PARAMETER["central_meridian",-81],UNIT["metre",1]]';
+
+/** Little-endian TIFF: pixel data at offset 8, then one IFD with its out-of-line values. */
+function tiff(entries: Array<[number, number, number[]]>, data: number[]) {
+  const size: Record<number, number> = { 3: 2, 4: 4, 12: 8 };
+  const ifd = 8 + data.length;
+  let extra = ifd + 2 + entries.length * 12 + 4;
+  const buf = new ArrayBuffer(extra + 1024);
+  const v = new DataView(buf);
+  const write = (type: number, at: number, vals: number[]) =>
+    vals.forEach((x, k) => {
+      if (type === 3) v.setUint16(at + 2 * k, x, true);
+      else if (type === 4) v.setUint32(at + 4 * k, x, true);
+      else v.setFloat64(at + 8 * k, x, true);
+    });
+
+  v.setUint16(0, 0x4949, false);
+  v.setUint16(2, 42, true);
+  v.setUint32(4, ifd, true);
+  data.forEach((b, i) => v.setUint8(8 + i, b));
+  v.setUint16(ifd, entries.length, true);
+  [...entries].sort((a, b) => a[0] - b[0]).forEach(([tag, type, vals], e) => {
+    const at = ifd + 2 + e * 12;
+    v.setUint16(at, tag, true);
+    v.setUint16(at + 2, type, true);
+    v.setUint32(at + 4, vals.length, true);
+    if (vals.length * size[type] <= 4) write(type, at + 8, vals);
+    else {
+      v.setUint32(at + 8, extra, true);
+      write(type, extra, vals);
+      extra += vals.length * size[type];
+    }
+  });
+  return buf;
+}
+
+/** TIFF LZW as libtiff writes it: widen when the next free code passes 2^width − 1, clear at 4094. */
+function lzwEncode(data: number[]): number[] {
+  const out: number[] = [];
+  let acc = 0;
+  let bits = 0;
+  let width = 9;
+  const put = (code: number) => {
+    acc = (acc << width) | code;
+    bits += width;
+    while (bits >= 8) {
+      out.push((acc >> (bits - 8)) & 255);
+      bits -= 8;
+    }
+    acc &= (1 << bits) - 1;
+  };
+
+  let table = new Map<string, number>();
+  let free = 258;
+  const reset = () => {
+    table = new Map(Array.from({ length: 256 }, (_, i) => [String(i), i]));
+    free = 258;
+    width = 9;
+  };
+  reset();
+  put(256);
+  let w = "";
+  for (const c of data) {
+    const wc = w ? `${w},${c}` : String(c);
+    if (table.has(wc)) {
+      w = wc;
+      continue;
+    }
+    put(table.get(w)!);
+    table.set(wc, free++);
+    if (free === 4094) {
+      put(256);
+      reset();
+    } else if (free > (1 << width) - 1) width++;
+    w = String(c);
+  }
+  put(table.get(w)!);
+  put(257);
+  if (bits) out.push((acc << (8 - bits)) & 255);
+  return out;
+}
+
+function pdf(objects: string[]) {
+  const body = objects.map((o, i) => `${i + 1} 0 obj\n${o}\nendobj\n`).join("");
+  return new TextEncoder().encode(`%PDF-1.7\n${body}trailer\n<< /Root 1 0 R >>\n%%EOF\n`).buffer;
+}
+
+describe("world files", () => {
+  it("reads a lat/lon world file and puts the fit on the pixel centres", () => {
+    const world = "0.0001\n0\n0\n-0.0001\n-82.45\n27.49\n";
+    expect(parseWorldFile(world)).toEqual([0.0001, 0, -82.45005, 0, -0.0001, 27.49005]);
+
+    const g = georefFromTransform(worldFileTransform(world, null), 400, 300, "map.pgw");
+    expect(g.crs_label).toBe("WGS84 lat/lon");
+    expect(g.points).toHaveLength(9);
+
+    const fit = fitGeoref(g.points, g.kind)!;
+    expect(fit.rms_m).toBeLessThan(0.05);
+    const c = pixelToLatLon(fit, { x: 0.5, y: 0.5 })!;
+    expect(c.lat).toBeCloseTo(27.49, 6);
+    expect(c.lon).toBeCloseTo(-82.45, 6);
+  });
+
+  it("needs a .prj for projected coordinates and recognises the usual ones", () => {
+    const world = "2\n0\n0\n-2\n356000.5\n3042000.5\n";
+    expect(() => worldFileTransform(world, null)).toThrow(/\.prj/);
+    expect(worldFileTransform(world, UTM17N_PRJ).crs).toEqual({ kind: "utm", zone: 17, south: false });
+
+    expect(crsFromPrj('PROJCS["WGS 84 / Pseudo-Mercator",GEOGCS["WGS 84"],AUTHORITY["EPSG","3857"]]')).toEqual({
+      kind: "webmercator",
+    });
+    expect(crsFromPrj('GEOGCS["GCS_WGS_1984",DATUM["D_WGS_1984"]]')).toEqual({ kind: "geographic" });
+    expect(crsFromPrj('PROJCS["NAD83 / Florida West (ftUS)",PROJECTION["Transverse_Mercator"]]')).toBeNull();
+  });
+});
+
+describe("GeoTIFF", () => {
+  it("decodes a PackBits RGB image in UTM with its transform", async () => {
+    // 2 × 2 RGB: red, green / blue, white; each row is one PackBits literal run
+    const rows = [
+      [5, 255, 0, 0, 0, 255, 0],
+      [5, 0, 0, 255, 255, 255, 255],
+    ].flat();
+    const buf = tiff(
+      [
+        [256, 3, [2]],
+        [257, 3, [2]],
+        [258, 3, [8, 8, 8]],
+        [259, 3, [32773]],
+        [262, 3, [2]],
+        [273, 4, [8]],
+        [277, 3, [3]],
+        [278, 3, [2]],
+        [279, 4, [rows.length]],
+        [33550, 12, [10, 10, 0]],
+        [33922, 12, [0, 0, 0, 356000, 3042000, 0]],
+        [34735, 3, [1, 1, 0, 2, 1024, 0, 1, 1, 3072, 0, 1, 32617]],
+      ],
+      rows
+    );
+
+    const r = await decodeGeoTiff(buf);
+    expect(r.width).toBe(2);
+    expect(r.pixels.kind).toBe("rgba");
+    if (r.pixels.kind !== "rgba") return;
+    expect([...r.pixels.rgba.slice(0, 4)]).toEqual([255, 0, 0, 255]);
+    expect([...r.pixels.rgba.slice(12, 16)]).toEqual([255, 255, 255, 255]);
+
+    expect(r.transform!.crs).toEqual({ kind: "utm", zone: 17, south: false });
+    const g = georefFromTransform(r.transform!, r.width, r.height, "map.tif");
+    // Top-left grid point sits 0.05 of the image (1 m) in from the tie point
+    const p = project(r.transform!.crs, { lat: g.points[0].lat!, lon: g.points[0].lon! });
+    expect(p.x).toBeCloseTo(356001, 1);
+    expect(p.y).toBeCloseTo(3041999, 1);
+  });
+
+  it("decodes an LZW strip long enough to widen the codes and clear the table", async () => {
+    // 80 × 80 noisy greyscale: several thousand codes, so 9 → 12 bits and at least one clear code
+    let seed = 7;
+    const grey = Array.from({ length: 80 * 80 }, () => {
+      seed = (seed * 1103515245 + 12345) % 2147483648;
+      return (seed >> 16) & 255;
+    });
+    const strip = lzwEncode(grey);
+    const buf = tiff(
+      [
+        [256, 3, [80]],
+        [257, 3, [80]],
+        [258, 3, [8]],
+        [259, 3, [5]],
+        [262, 3, [1]],
+        [273, 4, [8]],
+        [277, 3, [1]],
+        [278, 3, [80]],
+        [279, 4, [strip.length]],
+      ],
+      strip
+    );
+
+    const r = await decodeGeoTiff(buf);
+    expect(r.transform).toBeNull();
+    if (r.pixels.kind !== "rgba") throw new Error("expected RGBA");
+    const rgba = r.pixels.rgba;
+    expect(grey.findIndex((v, i) => rgba[4 * i] !== v)).toBe(-1);
+  });
+});
+
+describe("GeoPDF", () => {
+  it("maps the viewport's GPTS onto the placed map image", async () => {
+    const jpeg = "\xff\xd8\xff\xd9";
+    const content = "q 400 0 0 200 100 150 cm /Im0 Do Q";
+    const buf = pdf([
+      "<< /Type /Catalog /Pages 2 0 R >>",
+      "<< /Type /Pages /Kids [3 0 R] /Count 1 >>",
+      "<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Resources << /XObject << /Im0 5 0 R >> >> " +
+        "/Contents 4 0 R /VP [<< /Type /Viewport /BBox [100 150 500 350] /Measure 6 0 R >>] >>",
+      `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+      `<< /Type /XObject /Subtype /Image /Width 800 /Height 400 /BitsPerComponent 8 /ColorSpace /DeviceRGB /Filter /DCTDecode /Length ${jpeg.length} >>\nstream\n${jpeg}\nendstream`,
+      "<< /Type /Measure /Subtype /GEO /GPTS [27.48 -82.46 27.5 -82.46 27.5 -82.44 27.48 -82.44] /LPTS [0 0 0 1 1 1 1 0] >>",
+    ]);
+
+    const r = await decodeGeoPdf(buf, "map.pdf");
+    expect(r).toMatchObject({ width: 800, height: 400, pixels: { kind: "jpeg" } });
+    expect(r.georef.kind).toBe("projective");
+    expect(r.georef.points.map((p) => p.px)).toEqual([
+      { x: 0, y: 400 },
+      { x: 0, y: 0 },
+      { x: 800, y: 0 },
+      { x: 800, y: 400 },
+    ]);
+    expect(r.georef.points[1]).toMatchObject({ lat: 27.5, lon: -82.46 });
+  });
+
+  it("refuses a PDF without GEO georeferencing", async () => {
+    const buf = pdf(["<< /Type /Catalog /Pages 2 0 R >>", "<< /Type /Pages /Kids [3 0 R] /Count 1 >>", "<< /Type /Page /Parent 2 0 R >>"]);
+    await expect(decodeGeoPdf(buf, "plain.pdf")).rejects.toThrow(/No GeoPDF georeferencing/);
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, expect, it } from "vitest";
+import {
+  coverageFromTracks,
+  planBookkeeping,
+  podFromCoverage,
+  polygonAreaM2,
+  seedSegmentPoa,
+  trackLengthInside,
+  tracksForSortie,
+  type SearchSegment,
+  type Sortie,
+} from "@/lib/searchSegments";
+import { toLatLon } from "@/lib/grid";
+
+const O = { lat: 27.49, lon: -82.45 };
+const at = (x: number, y: number) => toLatLon(O, { x, y });
+
+// 200 m × 100 m rectangle starting at (x0, 0)
+function rect(id: string, x0: number, poa: number, sorties: Sortie[] = []): SearchSegment {
+  return {
+    id,
+    name: id,
+    ring: [at(x0, 0), at(x0 + 200, 0), at(x0 + 200, 100), at(x0, 100)],
+    team: "",
+    status: "unassigned",
+    poa,
+    sorties,
+  };
+}
+
+function sortie(period: number, pod: number): Sortie {
+  return { id: `s${period}_${pod}`, period, team: "K9 1", coverage: 0, pod, logged_iso: "2025-06-14T12:00:00.000Z" };
+}
+
+describe("coverage and POD", () => {
+  it("measures area and the part of a track inside the segment", () => {
+    const seg = rect("A", 0, 0);
+    expect(polygonAreaM2(seg.ring)).toBeCloseTo(20000, -1);
+
+    // Enters at x=0, leaves at x=200 along y=50, then runs outside
+    const track = { points: [at(-100, 50), at(300, 50), at(300, 500)] };
+    expect(trackLengthInside(seg.ring, [track])).toBeCloseTo(200, 0);
+
+    // 200 m searched with a 100 m sweep over 20 000 m² is coverage 1
+    expect(coverageFromTracks(seg.ring, [track], 100)).toBeCloseTo(1, 2);
+    expect(podFromCoverage(1)).toBeCloseTo(1 - Math.exp(-1), 9);
+    expect(podFromCoverage(-2)).toBe(0);
+  });
+});
+
+describe("tracksForSortie", () => {
+  it("keeps only the named team's points from the current period", () => {
+    const pt = (x: number, time_iso?: string) => ({ ...at(x, 50), time_iso });
+    const tracks = [
+      { team: "K9 1", points: [pt(0, "2025-06-14T09:00:00Z"), pt(50, "2025-06-14T11:00:00Z"), pt(100, "2025-06-14T11:30:00Z")] },
+      { team: "K9 2", points: [pt(0, "2025-06-14T11:00:00Z"), pt(100, "2025-06-14T11:30:00Z")] },
+      { team: " k9 1 ", points: [pt(0), pt(100)] },
+    ];
+    const got = tracksForSortie(tracks, "K9 1", "2025-06-14T10:00:00Z");
+    expect(got).toHaveLength(2);
+    expect(got[0].points).toHaveLength(2);
+    // Untimed points cannot be placed in a period and are kept
+    expect(got[1].points).toHaveLength(2);
+
+    // A track whose points all predate the period drops out; no fallback to other teams
+    expect(tracksForSortie(tracks.slice(0, 2), "K9 1", "2025-06-14T11:15:00Z")).toEqual([]);
+    expect(tracksForSortie(tracks, "K9 3", null)).toEqual([]);
+    expect(tracksForSortie(tracks, " ", null)).toEqual([]);
+  });
+});
+
+describe("seedSegmentPoa", () => {
+  it("keeps shares that fit in 100% and scales overlapping ones back", () => {
+    const segs = [rect("A", 0, 0), rect("B", 300, 0)];
+    expect(seedSegmentPoa(segs, [0.5, 0.3]).segments.map((s) => s.poa)).toEqual([0.5, 0.3]);
+
+    const over = seedSegmentPoa(segs, [0.9, 0.6]);
+    expect(over.overlap).toBe(true);
+    expect(over.segments[0].poa + over.segments[1].poa).toBeCloseTo(1, 9);
+  });
+});
+
+describe("planBookkeeping", () => {
+  it("shifts POA into the next period and accumulates POS", () => {
+    const plan = {
+      segments: [rect("A", 0, 0.6, [sortie(1, 0.5)]), rect("B", 300, 0.3, [sortie(2, 0.8)])],
+      period: 2,
+    };
+    const b = planBookkeeping(plan);
+
+    // Period 1: A searched at POD 50% → POS 0.3
+    expect(b.periods[0].pos).toBeCloseTo(0.3, 9);
+    expect(b.periods[0].cumulative_pos).toBeCloseTo(0.3, 9);
+    expect(b.periods[0].rest_of_world).toBeCloseTo(0.1, 9);
+
+    // Period 2 starts from what is left (0.7): A 0.3/0.7, B 0.3/0.7, rest 0.1/0.7
+    const [a, bb] = b.periods[1].segments;
+    expect(a.poa).toBeCloseTo(0.3 / 0.7, 9);
+    expect(bb.poa).toBeCloseTo(0.3 / 0.7, 9);
+    expect(b.rest_of_world).toBeCloseTo(0.1 / 0.7, 9);
+
+    // B searched at 80% in period 2: found mass 0.24 of the original 1 → cumulative 0.54
+    expect(b.periods[1].pos).toBeCloseTo((0.3 / 0.7) * 0.8, 9);
+    expect(b.cumulative_pos).toBeCloseTo(0.54, 9);
+    expect(b.current.map((s) => s.cumulative_pod)).toEqual([0.5, expect.closeTo(0.8, 9)]);
+  });
+
+  it("combines several sorties in the same period", () => {
+    const b = planBookkeeping({ segments: [rect("A", 0, 1, [sortie(1, 0.5), sortie(1, 0.5)])], period: 1 });
+    expect(b.periods[0].segments[0].pod).toBeCloseTo(0.75, 9);
+    expect(b.cumulative_pos).toBeCloseTo(0.75, 9);
+  });
+});
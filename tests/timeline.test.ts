@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import {
+  clampToRange,
+  formatOffset,
+  latestObservation,
+  stepTimeline,
+  trackSpan,
+  tracksAt,
+  type TimelineRange,
+} from "@/lib/timeline";
+import type { Track } from "@/lib/tracks";
+import type { WindObservation } from "@/lib/windObservations";
+
+const range: TimelineRange = {
+  start_iso: "2025-06-14T12:00:00.000Z",
+  now_iso: "2025-06-14T13:00:00.000Z",
+  end_iso: "2025-06-14T14:00:00.000Z",
+};
+
+function track(id: string, times: Array<string | undefined>): Track {
+  return {
+    id,
+    team: id,
+    color: "#2563eb",
+    source_name: `${id}.gpx`,
+    points: times.map((time_iso, i) => ({ lat: 27.49 + i * 0.001, lon: -82.45, time_iso })),
+  };
+}
+
+function obs(id: string, time_iso: string): WindObservation {
+  return { id, time_iso, speed_mps: 3, from_deg: 270, source: "manual" };
+}
+
+describe("stepping", () => {
+  it("clamps to the range and stops at the end", () => {
+    expect(clampToRange(range, "2025-06-14T11:00:00.000Z")).toBe(range.start_iso);
+    expect(clampToRange(range, "2025-06-14T15:00:00.000Z")).toBe(range.end_iso);
+
+    expect(stepTimeline(range, range.start_iso, 15)).toEqual({ iso: "2025-06-14T12:15:00.000Z", done: false });
+    expect(stepTimeline(range, "2025-06-14T13:55:00.000Z", 15)).toEqual({ iso: range.end_iso, done: true });
+  });
+
+  it("labels offsets from the LKP", () => {
+    expect(formatOffset(85)).toBe("T+1:25");
+    expect(formatOffset(-10)).toBe("T−0:10");
+  });
+});
+
+describe("logged events", () => {
+  it("cuts timed tracks at the scrubbed time and keeps untimed ones whole", () => {
+    const walked = track("K9 1", ["2025-06-14T12:10:00.000Z", "2025-06-14T12:40:00.000Z", "2025-06-14T13:20:00.000Z"]);
+    const later = track("K9 2", ["2025-06-14T13:30:00.000Z", "2025-06-14T13:45:00.000Z"]);
+    const untimed = track("Grid", [undefined, undefined]);
+
+    const at = tracksAt([walked, later, untimed], "2025-06-14T12:45:00.000Z");
+    expect(at.map((t) => t.id)).toEqual(["K9 1", "Grid"]);
+    expect(at[0].points).toHaveLength(2);
+    expect(at[1]).toBe(untimed);
+
+    expect(trackSpan(walked)).toEqual({ start_iso: "2025-06-14T12:10:00.000Z", end_iso: "2025-06-14T13:20:00.000Z" });
+    expect(trackSpan(untimed)).toBeNull();
+  });
+
+  it("finds the last observation before the scrubbed time", () => {
+    const log = [obs("b", "2025-06-14T12:30:00.000Z"), obs("a", "2025-06-14T12:05:00.000Z"), obs("c", "2025-06-14T13:10:00.000Z")];
+    expect(latestObservation(log, "2025-06-14T12:45:00.000Z")?.id).toBe("b");
+    expect(latestObservation(log, "2025-06-14T12:00:00.000Z")).toBeNull();
+  });
+});
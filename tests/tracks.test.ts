@@ -0,0 +1,103 @@
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import { describe, expect, it } from "vitest";
+import { computeCoverage, parseGpxTracks, parseTrackFile, type Track } from "@/lib/tracks";
+import { toLatLon } from "@/lib/grid";
+import type { LatLon } from "@/lib/scentEnvelope";
+
+// Two-segment collar track (fix lost between segments), a handler phone track, an empty track and a route
+const gpx = readFileSync(path.join(__dirname, "fixtures", "tracks", "k9-two-segments.gpx"), "utf8");
+
+describe("parseGpxTracks", () => {
+  it("joins a track's segments in order and keeps tracks and routes apart", () => {
+    const tracks = parseGpxTracks(gpx);
+    expect(tracks.map((t) => t.name)).toEqual(["K9 Juno", "Handler phone", "Planned hasty route"]);
+
+    const juno = tracks[0];
+    expect(juno.points.map((p) => p.lat)).toEqual([27.49, 27.49045, 27.4909, 27.4918, 27.49225]);
+    expect(juno.points.map((p) => p.time_iso)).toEqual([
+      "2025-06-14T12:05:00.000Z",
+      "2025-06-14T12:06:00.000Z",
+      "2025-06-14T12:07:00.000Z",
+      // Offsets are normalised to UTC
+      "2025-06-14T12:11:00.000Z",
+      // Self-closing point without a time
+      undefined,
+    ]);
+  });
+
+  it("reads single-quoted attributes and drops unreadable times", () => {
+    const phone = parseGpxTracks(gpx)[1];
+    expect(phone.points).toEqual([
+      { lat: 27.489, lon: -82.451 },
+      { lat: 27.4895, lon: -82.451 },
+    ]);
+  });
+
+  it("takes route points from <rtept> without picking up their names", () => {
+    const route = parseGpxTracks(gpx)[2];
+    expect(route.points).toHaveLength(2);
+    expect(route.points.every((p) => p.time_iso === undefined)).toBe(true);
+  });
+
+  it("rejects a file without any track lines", () => {
+    expect(() => parseTrackFile("waypoints.gpx", '<gpx><wpt lat="1" lon="2"/></gpx>')).toThrow(
+      "No track lines found in waypoints.gpx"
+    );
+  });
+});
+
+describe("computeCoverage", () => {
+  const O = { lat: 27.49, lon: -82.45 };
+  const at = (x: number, y: number) => toLatLon(O, { x, y });
+  const square = (half: number): LatLon[] => [at(-half, -half), at(half, -half), at(half, half), at(-half, half)];
+
+  // Nested squares: residual 1000 m, fringe 600 m, core 200 m across
+  const envelope = {
+    polygons: { core: square(100), fringe: square(300), residual: square(500) },
+    recommended_start_points: [
+      { label: "centre", point: at(0, 0) },
+      { label: "east", point: at(250, -100) },
+      { label: "corner", point: at(450, 450) },
+    ],
+  };
+  const track = (id: string, points: LatLon[]): Track => ({
+    id,
+    team: id,
+    color: "#000",
+    source_name: "test.gpx",
+    points,
+  });
+  // 100 m swept band (50 m each side) north–south through the centre, and another 250 m east
+  const middle = track("middle", [at(0, -500), at(0, 500)]);
+  const east = track("east", [at(250, -500), at(250, 500)]);
+
+  it("reports the share of each zone swept within the detection radius", () => {
+    const report = computeCoverage(envelope, [middle], 50);
+    // Band width over zone width: 100/200, 100/600, 100/1000
+    expect(report.per_track[0].zones_pct).toEqual({ core: 50, fringe: 16.7, residual: 10 });
+    expect(report.per_track[0].length_m).toBeCloseTo(1000, -1);
+  });
+
+  it("combines tracks without double-counting and lists unvisited start points", () => {
+    const report = computeCoverage(envelope, [middle, east, middle], 50);
+    const [m, e] = report.per_track;
+    expect(e.zones_pct).toEqual({ core: 0, fringe: 16.7, residual: 10 });
+    // The repeated middle track adds nothing
+    expect(report.combined_pct.residual).toBeCloseTo(m.zones_pct.residual + e.zones_pct.residual, 5);
+    expect(report.combined_pct.core).toBe(m.zones_pct.core);
+
+    expect(m.start_points_visited).toEqual(["centre"]);
+    expect(e.start_points_visited).toEqual(["east"]);
+    expect(report.unvisited_start_points.map((sp) => sp.label)).toEqual(["corner"]);
+  });
+
+  it("covers nothing for a track outside the envelope, and grows with the radius", () => {
+    const outside = track("outside", [at(800, -500), at(800, 500)]);
+    expect(computeCoverage(envelope, [outside], 50).combined_pct).toEqual({ core: 0, fringe: 0, residual: 0 });
+
+    expect(computeCoverage(envelope, [middle], 25).combined_pct).toEqual({ core: 25, fringe: 8.3, residual: 5 });
+    // A 200 m band covers the whole core
+    expect(computeCoverage(envelope, [middle], 100).combined_pct).toEqual({ core: 100, fringe: 33.3, residual: 20 });
+  });
+});
@@ -0,0 +1,226 @@
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import type { NextApiRequest, NextApiResponse } from "next";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import handler from "@/pages/api/wind";
+
+// Open-Meteo-shaped responses (timezone=GMT, so hours are UTC) from scripts/generate-open-meteo-fixtures.mjs;
+// fetch is replaced so the route runs offline
+const FIXTURES = path.join(__dirname, "fixtures", "open-meteo");
+const fixtureText = (name: string) => readFileSync(path.join(FIXTURES, name), "utf8");
+const forecastText = fixtureText("forecast-2025-06-14.json");
+const forecast = JSON.parse(forecastText);
+// Archive responses by the request's start_date
+const archiveTexts: Record<string, string> = {
+  "2023-03-05": fixtureText("archive-2023-03-05.json"),
+  "2023-03-11": fixtureText("archive-2023-03-11.json"),
+};
+const dstArchive = JSON.parse(archiveTexts["2023-03-11"]);
+
+const NOW = "2025-06-14T14:20:00.000Z"; // 10:20 EDT, five minutes after the fixture's "current" block
+
+type Res = { statusCode: number; body: Record<string, unknown> };
+
+async function post(body: unknown, method = "POST"): Promise<Res> {
+  const res = {
+    statusCode: 0,
+    body: {} as Record<string, unknown>,
+    status(code: number) {
+      this.statusCode = code;
+      return this;
+    },
+    json(b: Record<string, unknown>) {
+      this.body = b;
+      return this;
+    },
+  };
+  await handler({ method, body } as unknown as NextApiRequest, res as unknown as NextApiResponse);
+  return res;
+}
+
+function respondWith(routes: { forecast?: number; archive?: number }) {
+  const urls: string[] = [];
+  vi.stubGlobal("fetch", async (input: string | URL) => {
+    const url = String(input);
+    urls.push(url);
+    if (url.startsWith("https://archive-api.open-meteo.com/")) {
+      const text = archiveTexts[new URL(url).searchParams.get("start_date") ?? ""];
+      if (!text) return new Response("no archive fixture", { status: 404 });
+      return new Response(text, { status: routes.archive ?? 200 });
+    }
+    if (url.startsWith("https://api.open-meteo.com/")) {
+      return new Response(forecastText, { status: routes.forecast ?? 200 });
+    }
+    return new Response("unexpected upstream", { status: 599 });
+  });
+  return urls;
+}
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ["Date"] });
+  vi.setSystemTime(new Date(NOW));
+  vi.stubEnv("WIND_PROVIDERS", "open-meteo");
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+  vi.unstubAllEnvs();
+});
+
+describe("/api/wind request validation", () => {
+  it("rejects non-POST", async () => {
+    expect((await post({}, "GET")).statusCode).toBe(405);
+  });
+
+  it.each([
+    [{ lat: "x", lon: 1 }, "Invalid lat/lon"],
+    [{ lat: 1, lon: 2, mode: "series", start_iso: NOW, end_iso: "2025-06-14T10:00:00Z" }, "series mode needs start_iso <= end_iso"],
+    [{ lat: 1, lon: 2, mode: "historical" }, "Missing time_iso for historical mode"],
+    [{ lat: 1, lon: 2, provider: "windy" }, 'Unknown provider "windy"'],
+  ])("returns 400 for %j", async (body, error) => {
+    const res = await post(body);
+    expect(res.statusCode).toBe(400);
+    expect(res.body.error).toBe(error);
+  });
+});
+
+describe("/api/wind Open-Meteo parsing", () => {
+  it("returns the current block with gust and direction spread", async () => {
+    const urls = respondWith({});
+    const res = await post({ lat: 27.49, lon: -82.45, mode: "current" });
+    expect(res.statusCode).toBe(200);
+    expect(res.body).toMatchObject({
+      provider: "open-meteo",
+      source: "open-meteo",
+      mode: "current",
+      time_local: null,
+      time_utc: "2025-06-14T14:15:00.000Z",
+      timezone: null,
+      utc_offset_seconds: 0,
+      wind_speed_mps: forecast.current.wind_speed_10m,
+      wind_dir_from_deg: forecast.current.wind_direction_10m,
+      gust_mps: forecast.current.wind_gusts_10m,
+      attempts: [],
+    });
+    expect(res.body.dir_sigma_deg).toBeGreaterThan(0);
+    expect(urls[0]).toContain("wind_speed_unit=ms");
+    expect(urls[0]).toContain("timezone=GMT");
+  });
+
+  it("picks the nearest hourly sample in hourly mode", async () => {
+    respondWith({});
+    const res = await post({ lat: 27.49, lon: -82.45, mode: "hourly" });
+    const i = forecast.hourly.time.indexOf("2025-06-14T14:00");
+    expect(res.body).toMatchObject({
+      mode: "hourly",
+      time_utc: "2025-06-14T14:00:00.000Z",
+      wind_speed_mps: forecast.hourly.windspeed_10m[i],
+      wind_dir_from_deg: forecast.hourly.winddirection_10m[i],
+      gust_mps: forecast.hourly.wind_gusts_10m[i],
+    });
+  });
+
+  it("reads the archive for historical mode and skips missing hours", async () => {
+    const urls = respondWith({});
+    // 11:40 UTC (06:40 EST); the 11:00 and 12:00 rows are null, so 13:00 is the nearest usable hour
+    const res = await post({ lat: 27.49, lon: -82.45, mode: "historical", time_iso: "2023-03-05T11:40:00Z" });
+    expect(res.statusCode).toBe(200);
+    expect(res.body).toMatchObject({
+      source: "open-meteo-archive",
+      requested_time_iso: "2023-03-05T11:40:00Z",
+      time_local: null,
+      time_utc: "2023-03-05T13:00:00.000Z",
+      wind_speed_mps: 0.57,
+      wind_dir_from_deg: 42,
+    });
+    expect(urls[0]).toMatch(/^https:\/\/archive-api\.open-meteo\.com\//);
+  });
+
+  it("clips a series to the hours around the window, in order", async () => {
+    respondWith({});
+    const res = await post({
+      lat: 27.49,
+      lon: -82.45,
+      mode: "series",
+      start_iso: "2025-06-14T10:30:00Z",
+      end_iso: NOW,
+    });
+    const samples = res.body.samples as Array<{ time_utc: string; wind_speed_mps: number }>;
+    expect(res.body.mode).toBe("series");
+    expect(samples.map((s) => s.time_utc)).toEqual(
+      [10, 11, 12, 13, 14, 15].map((h) => `2025-06-14T${h}:00:00.000Z`)
+    );
+    const i = forecast.hourly.time.indexOf("2025-06-14T10:00");
+    expect(samples[0].wind_speed_mps).toBe(forecast.hourly.windspeed_10m[i]);
+  });
+
+  it("keeps a series across the spring-forward change hourly and aligned to UTC", async () => {
+    const urls = respondWith({});
+    // 00:30 EST to 04:30 EDT; US clocks jumped from 02:00 EST to 03:00 EDT at 07:00 UTC
+    const res = await post({
+      lat: 27.49,
+      lon: -82.45,
+      mode: "series",
+      start_iso: "2023-03-12T05:30:00Z",
+      end_iso: "2023-03-12T08:30:00Z",
+    });
+    expect(res.statusCode).toBe(200);
+    expect(urls[0]).toMatch(/^https:\/\/archive-api\.open-meteo\.com\/.*timezone=GMT/);
+
+    const samples = res.body.samples as Array<{ time_utc: string; time_local: string | null; wind_speed_mps: number }>;
+    const hours = [5, 6, 7, 8, 9];
+    expect(samples.map((s) => s.time_utc)).toEqual(hours.map((h) => `2023-03-12T0${h}:00:00.000Z`));
+    // Each sample carries the value Open-Meteo listed for that UTC hour: nothing shifted by an hour after 07:00
+    hours.forEach((h, k) => {
+      const i = dstArchive.hourly.time.indexOf(`2023-03-12T0${h}:00`);
+      expect(samples[k].wind_speed_mps).toBe(dstArchive.hourly.windspeed_10m[i]);
+    });
+    expect(samples.every((s) => s.time_local === null)).toBe(true);
+  });
+});
+
+describe("/api/wind provider fallback", () => {
+  it("falls back to the next configured provider and reports the failure", async () => {
+    vi.stubEnv("WIND_PROVIDERS", "open-meteo,stub");
+    respondWith({ forecast: 503 });
+    const res = await post({ lat: 27.49, lon: -82.45, mode: "current" });
+    expect(res.statusCode).toBe(200);
+    expect(res.body.provider).toBe("stub");
+    expect(res.body.attempts).toEqual([{ provider: "open-meteo", error: expect.stringContaining("HTTP 503") }]);
+  });
+
+  it("skips providers that cannot serve the request", async () => {
+    respondWith({});
+    const res = await post({ lat: 27.49, lon: -82.45, mode: "historical", time_iso: "2023-03-05T11:40:00Z", provider: "nws" });
+    expect(res.body.provider).toBe("open-meteo");
+    expect(res.body.attempts).toEqual([{ provider: "nws", error: expect.stringContaining("does not support") }]);
+  });
+
+  it("returns 502 with every attempt when fallback is off", async () => {
+    respondWith({ forecast: 500 });
+    const res = await post({ lat: 27.49, lon: -82.45, provider: "open-meteo", fallback: false });
+    expect(res.statusCode).toBe(502);
+    expect(res.body.error).toBe("No wind provider answered");
+    expect(res.body.attempts).toHaveLength(1);
+  });
+});
+
+describe("/api/wind METAR", () => {
+  it("moves on to the next-nearest station when the nearest has only variable winds", async () => {
+    vi.stubEnv("WIND_PROVIDERS", "metar");
+    const obsTime = Date.parse(NOW) / 1000 - 600;
+    const rows = [
+      { icaoId: "KNEAR", name: "Near", obsTime, lat: 27.5, lon: -82.45, wdir: "VRB", wspd: 3 },
+      { icaoId: "KMID", name: "Mid", obsTime: obsTime - 6 * 3600, lat: 27.55, lon: -82.45, wdir: 200, wspd: 6 },
+      { icaoId: "KFAR", name: "Far", obsTime, lat: 27.7, lon: -82.45, wdir: 90, wspd: 10, wgst: 18 },
+    ];
+    vi.stubGlobal("fetch", async () => new Response(JSON.stringify(rows), { status: 200 }));
+
+    const res = await post({ lat: 27.49, lon: -82.45, mode: "current" });
+    expect(res.statusCode).toBe(200);
+    // KMID's only report is six hours old, so KFAR answers
+    expect(res.body).toMatchObject({ provider: "metar", source: "metar:KFAR", wind_dir_from_deg: 90 });
+    expect(res.body.wind_speed_mps).toBeCloseTo(10 * 0.514444, 6);
+  });
+});
@@ -0,0 +1,140 @@
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import { describe, expect, it } from "vitest";
+import {
+  blendWind,
+  blendWindSamples,
+  directionStats,
+  makeObservation,
+  parseKestrelCsv,
+} from "@/lib/windObservations";
+import type { WindSample } from "@/lib/scentEnvelope";
+
+const MPH = 0.44704;
+
+// Kestrel 5500 LiNK export: device preamble, header row, units row, one row with dashes for a dropout
+const linkCsv = readFileSync(path.join(__dirname, "fixtures", "kestrel", "link-5500.csv"), "utf8");
+
+describe("parseKestrelCsv", () => {
+  it("skips the device preamble and reads the LiNK units row", () => {
+    const obs = parseKestrelCsv(linkCsv, "Kestrel 5500");
+    expect(obs).toHaveLength(3);
+    expect(obs[0]).toMatchObject({ source: "csv", device: "Kestrel 5500", from_deg: 259 });
+    expect(obs[0].speed_mps).toBeCloseTo(6.2 * MPH, 6);
+    expect(obs[0].gust_mps).toBeUndefined();
+    // Zone-less times are browser-local; 12-hour clock with AM/PM
+    expect(obs[0].time_iso).toBe(new Date(2024, 4, 1, 14, 3, 4).toISOString());
+    // True direction wins over magnetic, and crosswind/headwind are never taken for direction
+    expect(obs.map((o) => o.from_deg)).toEqual([259, 266, 356]);
+  });
+
+  it.each([
+    ["m/s", 1],
+    ["kt", 0.514444],
+    ["knots", 0.514444],
+    ["km/h", 1 / 3.6],
+    ["ft/min", 0.00508],
+    ["mph", MPH],
+  ])("reads header units (%s)", (unit, factor) => {
+    const csv = `Time,Wind Speed (${unit}),Wind Direction\n2024-05-01T14:00:00Z,10,90\n`;
+    const [o] = parseKestrelCsv(csv);
+    expect(o.speed_mps).toBeCloseTo(10 * factor, 6);
+    expect(o.time_iso).toBe("2024-05-01T14:00:00.000Z");
+  });
+
+  it("defaults to mph and gives the gust column its own unit", () => {
+    const csv = "Timestamp,Wind Speed,Direction,Gust (m/s)\n2024-05-01T14:00:00Z,10,450,6.5\n";
+    const [o] = parseKestrelCsv(csv);
+    expect(o.speed_mps).toBeCloseTo(10 * MPH, 6);
+    expect(o.gust_mps).toBeCloseTo(6.5, 6);
+    expect(o.from_deg).toBe(90);
+  });
+
+  it("detects semicolon-delimited exports with quoted cells and US dates", () => {
+    const csv = ['"Date Time";"Wind Speed";"Wind Dir"', '"";"km/h";"deg"', '"5/1/2024 14:03";"18";"200"'].join("\n");
+    const [o] = parseKestrelCsv(csv);
+    expect(o.speed_mps).toBeCloseTo(5, 6);
+    expect(o.time_iso).toBe(new Date(2024, 4, 1, 14, 3).toISOString());
+  });
+
+  it.each([
+    ["Time,Temperature\n2024-05-01T14:00:00Z,70\n", "No wind speed column found in CSV"],
+    ["Wind Speed,Wind Direction\n5,90\n", "CSV needs time, wind speed and direction columns"],
+    ["Time,Wind Speed (furlongs),Direction\n2024-05-01T14:00:00Z,5,90\n", 'Unsupported wind speed unit "furlongs"'],
+    ["Time,Wind Speed,Direction\n2024-05-01T14:00:00Z,5,--\n", "CSV has no readable wind rows"],
+  ])("rejects %j", (csv, error) => {
+    expect(() => parseKestrelCsv(csv)).toThrow(error);
+  });
+});
+
+describe("directionStats", () => {
+  it("averages across north instead of through south", () => {
+    const s = directionStats([350, 10])!;
+    expect(Math.min(s.mean_deg, 360 - s.mean_deg)).toBeLessThan(1e-9);
+    expect(s.sigma_deg).toBeGreaterThan(9);
+    expect(s.sigma_deg).toBeLessThan(11);
+  });
+
+  it("gives the same sigma-theta for a spread whether or not it straddles 0/360", () => {
+    const wrapped = directionStats([345, 355, 5, 15, 25])!;
+    const plain = directionStats([165, 175, 185, 195, 205])!;
+    expect(wrapped.sigma_deg).toBeCloseTo(plain.sigma_deg, 9);
+    expect(wrapped.mean_deg).toBeCloseTo(5, 9);
+    expect(plain.mean_deg).toBeCloseTo(185, 9);
+  });
+
+  it("is zero for a steady direction and null for no readings", () => {
+    expect(directionStats([359, 359, 359])!.sigma_deg).toBeCloseTo(0, 6);
+    expect(directionStats([])).toBeNull();
+  });
+});
+
+describe("blendWind", () => {
+  const model = { speed_mps: 4, from_deg: 270 };
+
+  it("weights speed linearly and clamps the weight", () => {
+    expect(blendWind(model, { speed_mps: 8, from_deg: 270 }, 0.25)!.speed_mps).toBeCloseTo(5, 9);
+    expect(blendWind(model, { speed_mps: 8, from_deg: 270 }, 2)!.speed_mps).toBeCloseTo(8, 9);
+    expect(blendWind(model, { speed_mps: 8, from_deg: 270 }, -1)!.speed_mps).toBeCloseTo(4, 9);
+  });
+
+  it("turns the direction along the blended vector, across north", () => {
+    expect(blendWind({ speed_mps: 4, from_deg: 350 }, { speed_mps: 4, from_deg: 10 }, 0.5)!.from_deg).toBeCloseTo(0, 6);
+  });
+
+  it("takes the heavier side when opposing winds cancel", () => {
+    expect(blendWind(model, { speed_mps: 4, from_deg: 90 }, 0.5)!.from_deg).toBe(90);
+    expect(blendWind(model, { speed_mps: 4, from_deg: 90 }, 0.5)!.speed_mps).toBe(4);
+  });
+});
+
+describe("blendWindSamples", () => {
+  const NOON = "2025-06-14T12:00:00.000Z";
+  const samples: WindSample[] = [
+    { time_iso: NOON, wind_from_deg: 270, wind_speed_mph: 10 },
+    { time_iso: "2025-06-14T13:00:00.000Z", wind_from_deg: 270, wind_speed_mph: 10 },
+  ];
+  const at = (offsetS: number, mph: number) =>
+    makeObservation(new Date(Date.parse(NOON) + offsetS * 1000).toISOString(), mph * MPH, 270, "manual");
+
+  it("uses observations strictly inside ±30 min of each hour", () => {
+    // 11:30:00 and 12:30:00 sit exactly on noon's edges; 12:30:00 is also exactly on 13:00's
+    const obs = [at(-1800, 100), at(-1799, 20), at(1799, 30), at(1800, 100)];
+    const [noon, one] = blendWindSamples(samples, obs, 0.5);
+    // Model 10 mph blended half-and-half with the mean of 20 and 30 mph
+    expect(noon.wind_speed_mph).toBeCloseTo(0.5 * 10 + 0.5 * 25, 6);
+    expect(noon.wind_from_deg).toBeCloseTo(270, 6);
+    expect(one).toEqual(samples[1]);
+    // One second later 12:30:01 falls inside 13:00's window
+    const [, later] = blendWindSamples(samples, [at(1801, 100)], 0.5);
+    expect(later.wind_speed_mph).toBeCloseTo(0.5 * 10 + 0.5 * 100, 6);
+  });
+
+  it("weights observations by the blend share and leaves unobserved hours alone", () => {
+    const obs = [at(0, 30)];
+    const [noon, one] = blendWindSamples(samples, obs, 0.2);
+    expect(noon.wind_speed_mph).toBeCloseTo(0.8 * 10 + 0.2 * 30, 6);
+    expect(one).toEqual(samples[1]);
+    expect(blendWindSamples(samples, obs, 0)).toBe(samples);
+  });
+});